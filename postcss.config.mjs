@@ -1,5 +1,7 @@
-export default {
+const config = {
   plugins: {
     "@tailwindcss/postcss": {},
   }
-}
\ No newline at end of file
+}
+
+export default config
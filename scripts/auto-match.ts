@@ -0,0 +1,45 @@
+// Scheduled auto-matching: `npm run match:auto` makes one pass (e.g. from a crontab); `npm run match:auto -- --watch`
+// keeps running, one pass every AUTO_MATCH_INTERVAL_MINUTES (default 15). Needs UPSTREAM_SERVICE_TOKEN; the
+// thresholds are read as in src/lib/server/auto-matching.ts. Uses the same data store as the panel (DATA_FILE).
+
+import { runAutoMatching } from '@/lib/server/auto-matching';
+import { serviceUpstream, type ServiceUpstream } from '@/lib/server/upstream';
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+
+const upstream = serviceUpstream();
+if (!upstream) {
+  console.error('UPSTREAM_SERVICE_TOKEN is not set; the scheduler cannot reach the upstream without it');
+  process.exit(1);
+}
+
+async function runOnce(upstream: ServiceUpstream) {
+  const summary = await runAutoMatching(upstream);
+  const counts = summary.decisions.reduce<Record<string, number>>((acc, d) => ({ ...acc, [d.outcome]: (acc[d.outcome] ?? 0) + 1 }), {});
+  console.log(
+    `Run ${summary.runId} (${summary.mode}): ${summary.staleJobs} stale job${summary.staleJobs === 1 ? '' : 's'}, ` +
+      `${summary.skipped} already with admins` +
+      Object.entries(counts)
+        .map(([outcome, count]) => `, ${count} ${outcome}`)
+        .join(''),
+  );
+}
+
+async function watch(upstream: ServiceUpstream) {
+  const minutes = Number(process.env.AUTO_MATCH_INTERVAL_MINUTES) || DEFAULT_INTERVAL_MINUTES;
+  console.log(`Auto-matching every ${minutes} minute${minutes === 1 ? '' : 's'}`);
+  // Passes never overlap: the next one is scheduled after the previous finishes
+  for (;;) {
+    await runOnce(upstream).catch((error) => console.error('Auto-matching run failed:', error));
+    await new Promise((resolve) => setTimeout(resolve, minutes * 60 * 1000));
+  }
+}
+
+if (process.argv.includes('--watch')) {
+  watch(upstream);
+} else {
+  runOnce(upstream).catch((error) => {
+    console.error('Auto-matching run failed:', error);
+    process.exit(1);
+  });
+}
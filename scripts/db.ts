@@ -0,0 +1,48 @@
+// Local data store maintenance: `npm run db:migrate` and `npm run db:seed [-- --force]`.
+// Operates on the JSON file at DATA_FILE (default .data/timebank.json).
+
+import { existsSync } from 'fs';
+import { DATA_FILE } from '@/lib/server/db';
+import { readDataFile, writeDataFile } from '@/lib/server/db/json-file';
+import { migrate } from '@/lib/server/db/migrations';
+import { seedState } from '@/lib/server/db/seed';
+import { SCHEMA_VERSION } from '@/lib/server/db/state';
+
+function runMigrate() {
+  if (!existsSync(DATA_FILE)) {
+    console.error(`No data file at ${DATA_FILE}; run \`npm run db:seed\` first`);
+    process.exit(1);
+  }
+  const file = readDataFile(DATA_FILE);
+  const { state, applied } = migrate(file);
+  writeDataFile(DATA_FILE, state);
+  console.log(
+    applied === 0
+      ? `${DATA_FILE} is up to date (version ${SCHEMA_VERSION})`
+      : `Migrated ${DATA_FILE} from version ${file.version} to ${SCHEMA_VERSION} (${applied} step${applied === 1 ? '' : 's'})`,
+  );
+}
+
+function runSeed(force: boolean) {
+  if (existsSync(DATA_FILE) && !force) {
+    console.error(`${DATA_FILE} already exists; pass --force to overwrite it with the fixtures`);
+    process.exit(1);
+  }
+  const state = seedState();
+  writeDataFile(DATA_FILE, state);
+  console.log(`Seeded ${DATA_FILE} with ${state.members.length} members, ${state.transfers.length} transfers and ${state.journal.length} journal entries`);
+}
+
+const [command, ...args] = process.argv.slice(2);
+
+switch (command) {
+  case 'migrate':
+    runMigrate();
+    break;
+  case 'seed':
+    runSeed(args.includes('--force'));
+    break;
+  default:
+    console.error('Usage: tsx scripts/db.ts <migrate|seed> [--force]');
+    process.exit(1);
+}
@@ -0,0 +1,26 @@
+// One-off backfill: `npm run db:link-jobs` links help requests stored before job links existed to their upstream
+// jobs (see backfillJobLinks for the matching rule). Needs UPSTREAM_SERVICE_TOKEN; uses the panel's data store.
+
+import { jobListResponseSchema } from '@/domain';
+import { backfillJobLinks } from '@/lib/server/help-requests';
+import { serviceUpstream } from '@/lib/server/upstream';
+
+const upstream = serviceUpstream();
+if (!upstream) {
+  console.error('UPSTREAM_SERVICE_TOKEN is not set; the job list cannot be read without it');
+  process.exit(1);
+}
+
+upstream
+  .getJson('/api/admin/jobs')
+  .then((body) => {
+    const linked = backfillJobLinks(jobListResponseSchema.parse(body).jobs, { email: 'job-link-backfill', role: 'system' });
+    for (const request of linked) {
+      console.log(`Help request #${request.id} "${request.detail.title}" → job #${request.jobId}`);
+    }
+    console.log(`Linked ${linked.length} help request${linked.length === 1 ? '' : 's'}; link the rest from the job pages`);
+  })
+  .catch((error) => {
+    console.error('Backfill failed:', error);
+    process.exit(1);
+  });
@@ -1,6 +1,12 @@
 import { AILogsView } from "@/components/ai-logs-view";
-import { ai_logs } from "@/data/ai-logs";
+import { getDb } from "@/lib/server/db";
+import { firstPage } from "@/lib/server/list-query";
+import { matchLogListSpec } from "@/lib/server/list-specs";
 
-export default function AILogsPage() {
-  return <AILogsView initialLogs={ai_logs} />;
-}
\ No newline at end of file
+export default async function AILogsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  return <AILogsView initialPage={firstPage(getDb().matchLogs.list(), matchLogListSpec, await searchParams)} />;
+}
@@ -0,0 +1,10 @@
+import { notFound } from "next/navigation"
+import { JobDetailView } from "@/components/job-detail-view"
+import { jobActivity } from "@/lib/server/job-activity"
+
+export default async function JobDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const jobId = Number((await params).id)
+  if (!Number.isInteger(jobId)) notFound()
+
+  return <JobDetailView jobId={jobId} initialActivity={jobActivity(jobId)} />
+}
@@ -1,7 +1,5 @@
 import { HelpRequestsView } from "@/components/help-requests-view"
 
-export const dynamic = "force-static"
-
 export default function HelpRequestsPage() {
   return <HelpRequestsView />
 }
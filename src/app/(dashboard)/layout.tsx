@@ -1,6 +1,9 @@
 import type { ReactNode } from "react"
+import { headers } from "next/headers"
 import { AdminLayout } from "@/components/admin-layout"
+import { readSessionUser } from "@/lib/server/session"
 
-export default function DashboardLayout({ children }: { children: ReactNode }) {
-  return <AdminLayout>{children}</AdminLayout>
+export default async function DashboardLayout({ children }: { children: ReactNode }) {
+  const user = readSessionUser(await headers())
+  return <AdminLayout user={user}>{children}</AdminLayout>
 }
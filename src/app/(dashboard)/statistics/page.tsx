@@ -3,65 +3,34 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Users, CreditCard, CheckCircle2, Clock, TrendingUp } from "lucide-react"
 
 import { StatisticsChart } from "@/components/statistics-chart"
-
-// Define types for our data
-type HelpRequest = {
-  status: string;
-  date: string;
-};
-
-type Member = {
-  credits: string;
-};
-
-// Mock Data
-const mockHelpRequests: HelpRequest[] = [
-  { status: 'matched', date: '15 พ.ค. 2567' },
-  { status: 'pending', date: '22 มิ.ย. 2567' },
-  { status: 'matched', date: '05 ก.ค. 2567' },
-  { status: 'pending', date: '12 ก.ค. 2567' },
-];
-
-const mockMembers: Member[] = [
-  { credits: '15 ชม.' },
-  { credits: '20 ชม.' },
-  { credits: '5 ชม.' },
-];
+import { withLedgerBalances } from "@/lib/server/ledger"
+import { getDb } from "@/lib/server/db"
 
 export default function StatisticsPage() {
-  const helpRequests = mockHelpRequests;
-  const members = mockMembers;
-
+  const db = getDb();
+  const members = withLedgerBalances(db.members.list());
+  const help_requests = db.helpRequests.list();
   const totalMembers = members.length;
-  const completedMissions = helpRequests.filter((r: HelpRequest) => r.status === 'matched').length;
-  const pendingRequests = helpRequests.filter((r: HelpRequest) => r.status === 'pending').length;
-  const totalCredits = members.reduce((acc: number, member: Member) => {
-    const credits = parseInt(member.credits.split(' ')[0], 10);
-    return acc + (isNaN(credits) ? 0 : credits);
-  }, 0);
+  const completedMissions = help_requests.filter((r) => r.status === 'completed' || r.status === 'settled').length;
+  const pendingRequests = help_requests.filter((r) => r.status === 'open').length;
+  const totalCredits = members.reduce((acc, member) => acc + member.credits, 0);
 
-  const thaiMonthMap: { [key: string]: number } = {
-    "ม.ค.": 0, "ก.พ.": 1, "มี.ค.": 2, "เม.ย.": 3, "พ.ค.": 4, "มิ.ย.": 5,
-    "ก.ค.": 6, "ส.ค.": 7, "ก.ย.": 8, "ต.ค.": 9, "พ.ย.": 10, "ธ.ค.": 11
-  };
+  const thaiMonths = [
+    "ม.ค.", "ก.พ.", "มี.ค.", "เม.ย.", "พ.ค.", "มิ.ย.",
+    "ก.ค.", "ส.ค.", "ก.ย.", "ต.ค.", "พ.ย.", "ธ.ค.",
+  ];
 
-  const monthlyData = Array.from({ length: 12 }, (_, i) => ({
-    month: Object.keys(thaiMonthMap).find(key => thaiMonthMap[key] === i) || '',
+  const monthlyData = thaiMonths.map((month) => ({
+    month,
     requests: 0,
     matches: 0,
   }));
 
-  helpRequests.forEach((req: HelpRequest) => {
-    const parts = req.date.split(' ');
-    if (parts.length === 3) {
-      const monthAbbr = parts[1];
-      const monthIndex = thaiMonthMap[monthAbbr];
-      if (monthIndex !== undefined) {
-        monthlyData[monthIndex].requests++;
-        if (req.status === 'matched') {
-          monthlyData[monthIndex].matches++;
-        }
-      }
+  help_requests.forEach((req) => {
+    const monthIndex = new Date(req.requestedAt).getMonth();
+    monthlyData[monthIndex].requests++;
+    if (req.providerId) {
+      monthlyData[monthIndex].matches++;
     }
   });
 
@@ -1,8 +1,19 @@
 import { TransfersView } from "@/components/transfers-view"
-import { transfers } from "@/data/transfers"
+import { withLedgerBalances } from "@/lib/server/ledger"
+import { getDb } from "@/lib/server/db"
+import { firstPage } from "@/lib/server/list-query"
+import { transferListSpec } from "@/lib/server/list-specs"
 
-export const dynamic = "force-static"
-
-export default function TransfersPage() {
-  return <TransfersView initialTransfers={transfers} />
+export default async function TransfersPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const db = getDb()
+  return (
+    <TransfersView
+      initialPage={firstPage(db.transfers.list(), transferListSpec, await searchParams)}
+      members={withLedgerBalances(db.members.list())}
+    />
+  )
 }
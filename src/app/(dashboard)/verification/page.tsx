@@ -1,7 +1,5 @@
 import { VerificationView } from "@/components/verification-view"
 
-export const dynamic = "force-static"
-
 export default function VerificationPage() {
   return <VerificationView />
 }
@@ -1,16 +1,20 @@
 import { WithdrawalsView } from "@/components/withdrawals-view"
-import { withdrawals } from "@/data/withdrawals"
+import { getDb } from "@/lib/server/db"
+import { firstPage } from "@/lib/server/list-query"
+import { withdrawalListSpec } from "@/lib/server/list-specs"
 
-export const dynamic = "force-static"
-
-export default function WithdrawalsPage() {
+export default async function WithdrawalsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold">การถอนเครดิต</h1>
         <p className="text-muted-foreground">จัดการคำขอถอนเครดิตของสมาชิก</p>
       </div>
-      <WithdrawalsView initialWithdrawals={withdrawals} />
+      <WithdrawalsView initialPage={firstPage(getDb().withdrawals.list(), withdrawalListSpec, await searchParams)} />
     </div>
   )
 }
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { requestWithCookies, signToken, silenceSessionLogs } from '@/test/session'
+import { POST } from './route'
+
+const context = (...path: string[]) => ({ params: Promise.resolve({ path }) })
+
+describe('admin proxy permissions', () => {
+  const upstream = vi.fn(async () => new Response('{}', { status: 200, headers: { 'content-type': 'application/json' } }))
+
+  beforeEach(() => {
+    silenceSessionLogs()
+    upstream.mockClear()
+    vi.stubGlobal('fetch', upstream)
+  })
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  const post = async (role: string, ...path: string[]) =>
+    POST(
+      requestWithCookies(`http://localhost/api/admin/${path.join('/')}`, { access: await signToken({ role }) }, { method: 'POST', body: '{}' }),
+      context(...path),
+    )
+
+  it('keeps a moderator from changing upstream jobs', async () => {
+    expect((await post('moderator', 'jobs', '12')).status).toBe(403)
+    expect(upstream).not.toHaveBeenCalled()
+  })
+
+  it('lets a moderator change matches', async () => {
+    expect((await post('moderator', 'matches', '12')).status).toBe(200)
+    expect(upstream).toHaveBeenCalledOnce()
+  })
+
+  it('lets an admin change upstream jobs', async () => {
+    expect((await post('admin', 'jobs', '12')).status).toBe(200)
+  })
+
+  it('answers 404 for resources outside the proxy rules', async () => {
+    expect((await post('admin', 'users', '1')).status).toBe(404)
+  })
+})
@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { Permission } from '@/lib/permissions';
+import { withPermission } from '@/lib/server/route-guard';
+import { proxyToUpstream } from '@/lib/server/upstream';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Upstream admin resources the panel may reach, with the permission needed to read or change them
+const PROXY_RULES: { pattern: RegExp; read: Permission; write: Permission }[] = [
+  { pattern: /^verification(\/|$)/, read: 'verification:read', write: 'verification:decide' },
+  // Editing or deleting an upstream job is not part of matching, so it needs its own permission
+  { pattern: /^jobs(\/|$)/, read: 'help-requests:read', write: 'jobs:manage' },
+  { pattern: /^matches(\/|$)/, read: 'help-requests:read', write: 'matches:create' },
+];
+
+// Same-origin entry point for the upstream admin API; the browser never sees the access token
+async function handler(req: NextRequest, context: RouteContext) {
+  const { path } = await context.params;
+  const resourcePath = path.map(encodeURIComponent).join('/');
+
+  const rule = PROXY_RULES.find(({ pattern }) => pattern.test(resourcePath));
+  if (!rule) {
+    return NextResponse.json({ success: false, message: 'Not found' }, { status: 404 });
+  }
+
+  const permission = req.method === 'GET' ? rule.read : rule.write;
+  return withPermission<RouteContext>(permission, (authedReq) =>
+    proxyToUpstream(authedReq, `/api/admin/${resourcePath}`),
+  )(req, context);
+}
+
+export { handler as GET, handler as POST, handler as PUT, handler as PATCH, handler as DELETE };
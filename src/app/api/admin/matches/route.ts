@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createMatchRequestSchema, jobListResponseSchema } from '@/domain';
+import { jobParticulars, recordMatch } from '@/lib/server/matches';
+import { withPermission } from '@/lib/server/route-guard';
+import { fetchUpstreamJson, proxyToUpstream } from '@/lib/server/upstream';
+
+// Overrides the catch-all proxy for match creation so every manual match is audited and kept as an active match
+export const POST = withPermission('matches:create', async (req: NextRequest, _context, user) => {
+  const parsed = createMatchRequestSchema.safeParse(await req.clone().json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+  const { job_id: jobId, user_id: userId, reason, provider_name: providerName } = parsed.data;
+
+  const response = await proxyToUpstream(req, '/api/admin/matches', { json: { job_id: jobId, user_id: userId, reason } });
+  if (response.ok) {
+    // Best effort: the match is still recorded without the job's title and requester
+    const jobs = jobListResponseSchema.safeParse(await fetchUpstreamJson(req, '/api/admin/jobs'));
+    const job = jobs.success ? jobs.data.jobs.find((j) => j.id === jobId) : undefined;
+    recordMatch({ jobId, ...jobParticulars(job), providerId: userId, providerName: providerName || null, reason }, user);
+  }
+  return response;
+});
+
+// Listing stays a plain proxy; Next resolves this file before the catch-all for /api/admin/matches
+export const GET = withPermission('help-requests:read', (req: NextRequest) => proxyToUpstream(req, '/api/admin/matches'));
@@ -0,0 +1,32 @@
+import type { NextRequest } from 'next/server';
+import { recordAudit } from '@/lib/server/audit';
+import { withPermission } from '@/lib/server/route-guard';
+import { proxyToUpstream } from '@/lib/server/upstream';
+import { snapshotVerificationStatus } from '@/lib/server/verification-audit';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Overrides the catch-all proxy so rejections (and their reason) land in the audit trail
+export const PATCH = withPermission<RouteContext>('verification:decide', async (req: NextRequest, { params }, user) => {
+  const { id } = await params;
+  const body = await req
+    .clone()
+    .json()
+    .catch(() => ({}));
+  const rejectionReason = typeof body?.rejectionReason === 'string' ? body.rejectionReason : null;
+  const before = await snapshotVerificationStatus(req, id);
+
+  const response = await proxyToUpstream(req, `/api/admin/verification/${encodeURIComponent(id)}/reject`);
+  if (response.ok) {
+    recordAudit({
+      actor: user,
+      action: 'verification.reject',
+      entityType: 'verification',
+      entityId: id,
+      before,
+      after: { status: 'rejected' },
+      reason: rejectionReason,
+    });
+  }
+  return response;
+});
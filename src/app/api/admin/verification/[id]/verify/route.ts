@@ -0,0 +1,26 @@
+import type { NextRequest } from 'next/server';
+import { recordAudit } from '@/lib/server/audit';
+import { withPermission } from '@/lib/server/route-guard';
+import { proxyToUpstream } from '@/lib/server/upstream';
+import { snapshotVerificationStatus } from '@/lib/server/verification-audit';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Overrides the catch-all proxy so approvals land in the audit trail
+export const PATCH = withPermission<RouteContext>('verification:decide', async (req: NextRequest, { params }, user) => {
+  const { id } = await params;
+  const before = await snapshotVerificationStatus(req, id);
+
+  const response = await proxyToUpstream(req, `/api/admin/verification/${encodeURIComponent(id)}/verify`);
+  if (response.ok) {
+    recordAudit({
+      actor: user,
+      action: 'verification.approve',
+      entityType: 'verification',
+      entityId: id,
+      before,
+      after: { status: 'verified' },
+    });
+  }
+  return response;
+});
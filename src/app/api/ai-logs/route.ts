@@ -1,6 +1,5 @@
-import { NextResponse } from 'next/server'
-import { ai_logs as logs } from '@/data/ai-logs'
+import { getDb } from '@/lib/server/db'
+import { listRoute } from '@/lib/server/list-query'
+import { matchLogListSpec } from '@/lib/server/list-specs'
 
-export async function GET() {
-  return NextResponse.json(logs)
-}
+export const GET = listRoute('ai-logs:read', () => getDb().matchLogs.list(), matchLogListSpec)
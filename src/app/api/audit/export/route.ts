@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { toCsv } from '@/lib/csv'
+import { listAudit } from '@/lib/server/audit'
+import { parseAuditFilter } from '@/lib/server/audit-filter'
+import { withPermission } from '@/lib/server/route-guard'
+
+const HEADERS = ['id', 'createdAt', 'actorId', 'actorEmail', 'actorRole', 'action', 'entityType', 'entityId', 'before', 'after', 'reason']
+
+export const GET = withPermission('audit:read', async (req) => {
+  const rows = listAudit(parseAuditFilter(req)).map((entry) => [
+    entry.id,
+    entry.createdAt,
+    entry.actor.id,
+    entry.actor.email,
+    entry.actor.role,
+    entry.action,
+    entry.entityType,
+    entry.entityId,
+    entry.before ? JSON.stringify(entry.before) : '',
+    entry.after ? JSON.stringify(entry.after) : '',
+    entry.reason,
+  ])
+
+  return new NextResponse('\uFEFF' + toCsv(HEADERS, rows), {
+    headers: {
+      'content-type': 'text/csv; charset=utf-8',
+      'content-disposition': `attachment; filename="audit_${new Date().toISOString().slice(0, 10)}.csv"`,
+    },
+  })
+})
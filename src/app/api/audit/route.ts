@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server'
+import { listAudit } from '@/lib/server/audit'
+import { parseAuditFilter } from '@/lib/server/audit-filter'
+import { withPermission } from '@/lib/server/route-guard'
+
+export const GET = withPermission('audit:read', async (req) => {
+  return NextResponse.json(listAudit(parseAuditFilter(req)))
+})
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+import { permissionsForRole } from '@/lib/permissions';
+import { API_BASE_URL, setAuthCookies } from '@/lib/server/auth';
 
 export async function POST(request: Request) {
   try {
@@ -25,39 +25,21 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check if user is admin
-    if (data.user?.role !== 'admin') {
+    // Only roles with at least one panel permission may sign in
+    if (permissionsForRole(data.user?.role).length === 0) {
       return NextResponse.json(
-        { success: false, message: 'Unauthorized: Admin access only' },
+        { success: false, message: 'Unauthorized: no admin panel access for this role' },
         { status: 403 }
       );
     }
 
-    // Create response with tokens in cookies and include tokens in JSON body
+    // Tokens only travel as httpOnly cookies; the browser never gets to read them
     const response = NextResponse.json({
       success: true,
       user: data.user,
-      accessToken: data.accessToken,
-      refreshToken: data.refreshToken,
-    });
-
-    // Set access token cookie
-    response.cookies.set('auth_token', data.accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 15, // 15 minutes
-      path: '/',
     });
 
-    // Set refresh token cookie
-    response.cookies.set('refresh_token', data.refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-      path: '/',
-    });
+    setAuthCookies(response, { accessToken: data.accessToken, refreshToken: data.refreshToken });
 
     return response;
   } catch (error) {
@@ -1,8 +1,6 @@
 import { NextResponse } from 'next/server';
+import { clearAuthCookies } from '@/lib/server/auth';
 
 export async function POST() {
-  const response = NextResponse.json({ success: true });
-  response.cookies.delete('auth_token');
-  response.cookies.delete('refresh_token');
-  return response;
+  return clearAuthCookies(NextResponse.json({ success: true }));
 }
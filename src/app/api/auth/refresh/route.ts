@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { REFRESH_TOKEN_COOKIE, clearAuthCookies, refreshTokens, setAuthCookies } from '@/lib/server/auth';
+
+export async function POST(req: NextRequest) {
+  const refreshToken = req.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+  const tokens = refreshToken ? await refreshTokens(refreshToken) : null;
+
+  if (!tokens) {
+    return clearAuthCookies(
+      NextResponse.json({ success: false, message: 'Session expired' }, { status: 401 }),
+    );
+  }
+
+  return setAuthCookies(NextResponse.json({ success: true }), tokens);
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { dismissAutoMatchDecisionSchema } from '@/domain'
+import { withPermission } from '@/lib/server/route-guard'
+import { dismissAutoMatchDecision } from '@/lib/server/auto-matching'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const POST = withPermission<RouteContext>('matches:create', async (req, { params }, user) => {
+  const { id } = await params
+
+  const parsed = dismissAutoMatchDecisionSchema.safeParse((await req.json().catch(() => null)) ?? {})
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const result = dismissAutoMatchDecision(id, parsed.data, user)
+  if (!result.ok) {
+    return NextResponse.json({ success: false, message: result.message }, { status: result.status })
+  }
+  return NextResponse.json(result.decision)
+})
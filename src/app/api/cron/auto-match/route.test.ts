@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from './route'
+
+const call = (authorization?: string) =>
+  GET(new NextRequest('http://localhost/api/cron/auto-match', { headers: authorization ? { authorization } : {} }))
+
+describe('cron auto-match route', () => {
+  beforeEach(() => {
+    vi.stubEnv('CRON_SECRET', 's3cret')
+    vi.stubEnv('UPSTREAM_SERVICE_TOKEN', '')
+  })
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('stays off while no secret is configured', async () => {
+    vi.stubEnv('CRON_SECRET', '')
+    expect((await call('Bearer ')).status).toBe(503)
+    expect((await call()).status).toBe(503)
+  })
+
+  it('rejects a missing, wrong or differently sized secret', async () => {
+    for (const header of [undefined, 'Bearer s3creT', 'Bearer s3cret2', 'Bearer s3cre', 's3cret']) {
+      expect((await call(header)).status).toBe(401)
+    }
+  })
+
+  it('lets the configured secret through', async () => {
+    // Past the secret check, the missing service token is the next thing it reports
+    const res = await call('Bearer s3cret')
+    expect(res.status).toBe(503)
+    expect(await res.json()).toMatchObject({ message: 'UPSTREAM_SERVICE_TOKEN is not set' })
+  })
+})
@@ -0,0 +1,42 @@
+import { timingSafeEqual } from 'crypto'
+import { NextResponse, type NextRequest } from 'next/server'
+import { runAutoMatching } from '@/lib/server/auto-matching'
+import { serviceUpstream } from '@/lib/server/upstream'
+
+// Constant-time, so response timing does not leak how much of the secret a guess got right
+function isCronSecret(header: string | null, secret: string) {
+  const given = Buffer.from(header ?? '')
+  const expected = Buffer.from(`Bearer ${secret}`)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+/**
+ * Scheduler entry point for cron services: one auto-matching pass, answering with its summary. Not behind an
+ * admin session; callers send `Authorization: Bearer $CRON_SECRET`, and the route stays off until both that
+ * secret and UPSTREAM_SERVICE_TOKEN are set.
+ */
+async function handle(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json({ success: false, message: 'Auto-matching is not configured' }, { status: 503 })
+  }
+  if (!isCronSecret(req.headers.get('authorization'), secret)) {
+    return NextResponse.json({ success: false, message: 'Not authenticated' }, { status: 401 })
+  }
+
+  const upstream = serviceUpstream()
+  if (!upstream) {
+    return NextResponse.json({ success: false, message: 'UPSTREAM_SERVICE_TOKEN is not set' }, { status: 503 })
+  }
+
+  try {
+    return NextResponse.json(await runAutoMatching(upstream))
+  } catch (error) {
+    console.error('Auto-matching run failed:', error)
+    return NextResponse.json({ success: false, message: 'Could not load jobs from the upstream' }, { status: 502 })
+  }
+}
+
+// Hosted cron services differ in the method they call with
+export const GET = handle
+export const POST = handle
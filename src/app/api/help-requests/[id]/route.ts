@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { withPermission } from '@/lib/server/route-guard'
+import { findHelpRequest } from '@/lib/server/help-requests'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const GET = withPermission<RouteContext>('help-requests:read', async (_req, { params }) => {
+  const { id } = await params
+  const request = findHelpRequest(Number(id))
+  if (!request) {
+    return NextResponse.json({ success: false, message: 'Help request not found' }, { status: 404 })
+  }
+  return NextResponse.json(request)
+})
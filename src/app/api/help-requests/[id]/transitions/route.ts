@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { helpRequestTransitionSchema } from '@/domain'
+import { withPermission } from '@/lib/server/route-guard'
+import { transitionHelpRequest } from '@/lib/server/help-requests'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const POST = withPermission<RouteContext>('help-requests:manage', async (req, { params }, user) => {
+  const { id } = await params
+
+  const parsed = helpRequestTransitionSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const result = transitionHelpRequest(Number(id), parsed.data, user)
+  if (!result.ok) {
+    return NextResponse.json({ success: false, message: result.message }, { status: result.status })
+  }
+  return NextResponse.json(result.request)
+})
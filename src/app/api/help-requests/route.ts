@@ -1,6 +1,5 @@
-import { NextResponse } from 'next/server'
-import { help_requests } from '@/data/help-requests'
+import { getDb } from '@/lib/server/db'
+import { listRoute } from '@/lib/server/list-query'
+import { helpRequestListSpec } from '@/lib/server/list-specs'
 
-export async function GET() {
-  return NextResponse.json(help_requests)
-}
+export const GET = listRoute('help-requests:read', () => getDb().helpRequests.list(), helpRequestListSpec)
@@ -0,0 +1,4 @@
+import { withPermission } from '@/lib/server/route-guard';
+import { proxyToUpstream } from '@/lib/server/upstream';
+
+export const GET = withPermission('help-requests:read', (req) => proxyToUpstream(req, '/api/jobapp'));
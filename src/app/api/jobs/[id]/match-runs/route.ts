@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { jobListResponseSchema, matchRunRequestSchema, matchWeightsSchema, skilledUserListResponseSchema } from '@/domain'
+import { withPermission } from '@/lib/server/route-guard'
+import { fetchUpstreamJson } from '@/lib/server/upstream'
+import { configuredMatchWeights, runMatching } from '@/lib/server/matching'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Ranks the job's skilled users and records the run in the match logs; an empty body uses the configured weights
+export const POST = withPermission<RouteContext>('matches:create', async (req, { params }) => {
+  const { id } = await params
+  const jobId = Number(id)
+  if (!Number.isInteger(jobId)) {
+    return NextResponse.json({ success: false, message: 'Job not found' }, { status: 404 })
+  }
+
+  const parsed = matchRunRequestSchema.safeParse((await req.json().catch(() => null)) ?? {})
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+  const weights = matchWeightsSchema.safeParse({ ...configuredMatchWeights(), ...parsed.data.weights })
+  if (!weights.success) {
+    return NextResponse.json({ success: false, message: weights.error.issues[0]?.message ?? 'Invalid weights' }, { status: 400 })
+  }
+
+  const jobs = jobListResponseSchema.safeParse(await fetchUpstreamJson(req, '/api/admin/jobs'))
+  const users = skilledUserListResponseSchema.safeParse(await fetchUpstreamJson(req, `/api/admin/jobs/${jobId}/skilled-users`))
+  if (!jobs.success || !users.success) {
+    return NextResponse.json({ success: false, message: 'Could not load the job or its candidates' }, { status: 502 })
+  }
+  const job = jobs.data.jobs.find((j) => j.id === jobId)
+  if (!job) {
+    return NextResponse.json({ success: false, message: 'Job not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(runMatching(job, users.data.users, weights.data), { status: 201 })
+})
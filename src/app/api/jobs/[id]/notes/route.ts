@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { createJobNoteSchema } from '@/domain'
+import { withPermission } from '@/lib/server/route-guard'
+import { addJobNote } from '@/lib/server/job-activity'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const POST = withPermission<RouteContext>('help-requests:manage', async (req, { params }, user) => {
+  const { id } = await params
+  const jobId = Number(id)
+  if (!Number.isInteger(jobId)) {
+    return NextResponse.json({ success: false, message: 'Job not found' }, { status: 404 })
+  }
+
+  const parsed = createJobNoteSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  return NextResponse.json(addJobNote(jobId, parsed.data, user), { status: 201 })
+})
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { withPermission } from '@/lib/server/route-guard'
+import { jobActivity } from '@/lib/server/job-activity'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Local activity for an upstream job (notes, audited matches, linked help requests); the job itself comes from /api/admin/jobs
+export const GET = withPermission<RouteContext>('help-requests:read', async (_req, { params }) => {
+  const { id } = await params
+  const jobId = Number(id)
+  if (!Number.isInteger(jobId)) {
+    return NextResponse.json({ success: false, message: 'Job not found' }, { status: 404 })
+  }
+  return NextResponse.json(jobActivity(jobId))
+})
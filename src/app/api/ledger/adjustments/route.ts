@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adjustMemberBalance } from '@/lib/server/ledger'
+import { withPermission } from '@/lib/server/route-guard'
+
+const adjustmentSchema = z.object({
+  memberId: z.string().min(1),
+  // Signed: positive grants hours, negative claws them back
+  amount: z.number().finite().refine((n) => n !== 0, 'Amount must not be zero'),
+  reason: z.string().trim().min(1, 'Reason is required'),
+})
+
+export const POST = withPermission('ledger:adjust', async (req, _context, user) => {
+  const parsed = adjustmentSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const { memberId, amount, reason } = parsed.data
+  const result = adjustMemberBalance(memberId, amount, reason, user)
+  if (!result.ok) {
+    return NextResponse.json({ success: false, message: result.message }, { status: result.status })
+  }
+  return NextResponse.json(result.entry, { status: 201 })
+})
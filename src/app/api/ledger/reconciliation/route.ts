@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server'
+import { reconcileMembers } from '@/lib/server/ledger'
+import { withPermission } from '@/lib/server/route-guard'
+
+export const GET = withPermission('members:read', async () => {
+  return NextResponse.json(reconcileMembers())
+})
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server'
+import { listJournal } from '@/lib/server/ledger'
+import { withPermission } from '@/lib/server/route-guard'
+
+// Journal entries, optionally narrowed to one account (e.g. ?account=member:M001)
+export const GET = withPermission('members:read', async (req) => {
+  return NextResponse.json(listJournal(req.nextUrl.searchParams.get('account') ?? undefined))
+})
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDb } from '@/lib/server/db'
+import { recordMatch } from '@/lib/server/matches'
+import { resetDb, TEST_ADMIN } from '@/test/db'
+import { requestWithCookies, signToken, silenceSessionLogs } from '@/test/session'
+import { POST } from './route'
+
+const json = (status: number) => new Response('{}', { status, headers: { 'content-type': 'application/json' } })
+
+describe('reassign route', () => {
+  const upstream = vi.fn<typeof fetch>(async () => json(200))
+  let matchId: string
+
+  beforeEach(() => {
+    resetDb()
+    silenceSessionLogs()
+    upstream.mockReset()
+    upstream.mockImplementation(async () => json(200))
+    vi.stubGlobal('fetch', upstream)
+    matchId = recordMatch(
+      { jobId: 7, jobTitle: 'Fix a leaking tap', requesterId: 90, requesterName: 'Somchai Jaidee', providerId: 12, providerName: 'Plumber', reason: 'closest' },
+      TEST_ADMIN,
+    ).id
+  })
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  const post = async (body: unknown) =>
+    POST(
+      requestWithCookies(
+        `http://localhost/api/matches/${matchId}/reassign`,
+        { access: await signToken({ role: 'admin' }) },
+        { method: 'POST', body: JSON.stringify(body), headers: { 'content-type': 'application/json' } },
+      ),
+      { params: Promise.resolve({ id: matchId }) },
+    )
+
+  const calls = () => upstream.mock.calls.map(([, init]) => `${init?.method} ${init?.body}`)
+
+  it('swaps the provider upstream on reassignment', async () => {
+    const res = await post({ reasonCode: 'requester_complaint', providerId: 13, providerName: 'Other' })
+
+    expect(res.status).toBe(201)
+    expect(calls()).toEqual([
+      'DELETE {"job_id":7,"user_id":12,"reason":"requester_complaint"}',
+      'POST {"job_id":7,"user_id":13,"reason":"requester_complaint"}',
+    ])
+    expect(getDb().matches.get(matchId)?.status).toBe('reassigned')
+  })
+
+  it('puts the old provider back when the upstream refuses the new one', async () => {
+    upstream.mockImplementation(async (_url, init) => json(init?.method === 'POST' && String(init.body).includes('"user_id":13') ? 409 : 200))
+
+    const res = await post({ reasonCode: 'requester_complaint', providerId: 13, providerName: 'Other' })
+
+    expect(res.status).toBe(409)
+    expect(calls().at(-1)).toBe('POST {"job_id":7,"user_id":12,"reason":"closest"}')
+    expect(getDb().matches.get(matchId)?.status).toBe('active')
+  })
+
+  it('ends the match and answers 502 when the upstream takes neither provider', async () => {
+    upstream.mockImplementation(async (_url, init) => json(init?.method === 'POST' ? 409 : 200))
+
+    const res = await post({ reasonCode: 'requester_complaint', providerId: 13, providerName: 'Other' })
+
+    expect(res.status).toBe(502)
+    expect(await res.json()).toMatchObject({
+      success: false,
+      message: expect.stringContaining('job 7 is now unassigned upstream'),
+      match: { id: matchId, status: 'unmatched' },
+    })
+    expect(calls()).toHaveLength(3)
+    expect(getDb().matches.get(matchId)?.status).toBe('unmatched')
+    expect(getDb().matches.list().filter((m) => m.status === 'active')).toEqual([])
+  })
+})
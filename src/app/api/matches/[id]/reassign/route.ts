@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { reassignMatchSchema } from '@/domain'
+import { withPermission } from '@/lib/server/route-guard'
+import { findMatch, reassign, unmatch } from '@/lib/server/matches'
+import { proxyToUpstream } from '@/lib/server/upstream'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * The upstream only holds one provider per job, so the old provider is removed there before the new one is
+ * matched. If the upstream refuses the new provider, the old one is put back and nothing changes here. If it
+ * refuses that too, the job has no provider upstream, so the match is ended here as well and the 502 says so.
+ */
+export const POST = withPermission<RouteContext>('matches:create', async (req, { params }, user) => {
+  const { id } = await params
+
+  const parsed = reassignMatchSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const match = findMatch(id)
+  if (!match) {
+    return NextResponse.json({ success: false, message: 'Match not found' }, { status: 404 })
+  }
+  if (match.status !== 'active') {
+    return NextResponse.json({ success: false, message: `Match is already ${match.status}` }, { status: 409 })
+  }
+  if (match.providerId === parsed.data.providerId) {
+    return NextResponse.json({ success: false, message: 'Provider is already matched to this job' }, { status: 409 })
+  }
+
+  const reason = parsed.data.note || parsed.data.reasonCode
+  const removed = await proxyToUpstream(req, '/api/admin/matches', {
+    method: 'DELETE',
+    json: { job_id: match.jobId, user_id: match.providerId, reason },
+  })
+  if (!removed.ok) {
+    return removed
+  }
+
+  const upstream = await proxyToUpstream(req, '/api/admin/matches', {
+    method: 'POST',
+    json: { job_id: match.jobId, user_id: parsed.data.providerId, reason },
+  })
+  if (!upstream.ok) {
+    const restored = await proxyToUpstream(req, '/api/admin/matches', {
+      method: 'POST',
+      json: { job_id: match.jobId, user_id: match.providerId, reason: match.reason },
+    })
+    if (restored.ok) {
+      return upstream
+    }
+
+    const ended = unmatch(id, parsed.data, user)
+    return NextResponse.json(
+      {
+        success: false,
+        message: `The upstream refused provider ${parsed.data.providerId} and would not take provider ${match.providerId} back: job ${match.jobId} is now unassigned upstream and its match has been ended`,
+        match: ended.ok ? ended.match : null,
+      },
+      { status: 502 },
+    )
+  }
+
+  const result = reassign(id, parsed.data, user)
+  if (!result.ok) {
+    return NextResponse.json({ success: false, message: result.message }, { status: result.status })
+  }
+  return NextResponse.json(result.match, { status: 201 })
+})
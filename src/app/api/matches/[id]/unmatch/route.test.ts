@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDb } from '@/lib/server/db'
+import { recordMatch } from '@/lib/server/matches'
+import { resetDb, TEST_ADMIN } from '@/test/db'
+import { requestWithCookies, signToken, silenceSessionLogs } from '@/test/session'
+import { POST } from './route'
+
+const json = (status: number) => new Response('{}', { status, headers: { 'content-type': 'application/json' } })
+
+describe('unmatch route', () => {
+  const upstream = vi.fn<typeof fetch>(async () => json(200))
+  let matchId: string
+
+  beforeEach(() => {
+    resetDb()
+    silenceSessionLogs()
+    upstream.mockReset()
+    upstream.mockImplementation(async () => json(200))
+    vi.stubGlobal('fetch', upstream)
+    matchId = recordMatch(
+      { jobId: 7, jobTitle: 'Fix a leaking tap', requesterId: 90, requesterName: 'Somchai Jaidee', providerId: 12, providerName: 'Plumber', reason: 'closest' },
+      TEST_ADMIN,
+    ).id
+  })
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  const post = async (body: unknown) =>
+    POST(
+      requestWithCookies(
+        `http://localhost/api/matches/${matchId}/unmatch`,
+        { access: await signToken({ role: 'admin' }) },
+        { method: 'POST', body: JSON.stringify(body), headers: { 'content-type': 'application/json' } },
+      ),
+      { params: Promise.resolve({ id: matchId }) },
+    )
+
+  const calls = () => upstream.mock.calls.map(([, init]) => `${init?.method} ${init?.body}`)
+
+  it('removes the provider upstream before ending the match', async () => {
+    const res = await post({ reasonCode: 'provider_unavailable' })
+
+    expect(res.status).toBe(200)
+    expect(calls()).toEqual(['DELETE {"job_id":7,"user_id":12,"reason":"provider_unavailable"}'])
+    expect(getDb().matches.get(matchId)?.status).toBe('unmatched')
+  })
+
+  it('keeps the match active when the upstream refuses the unmatch', async () => {
+    upstream.mockImplementation(async () => json(422))
+
+    expect((await post({ reasonCode: 'provider_unavailable' })).status).toBe(422)
+    expect(getDb().matches.get(matchId)?.status).toBe('active')
+  })
+})
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { unmatchSchema } from '@/domain'
+import { withPermission } from '@/lib/server/route-guard'
+import { findMatch, unmatch } from '@/lib/server/matches'
+import { proxyToUpstream } from '@/lib/server/upstream'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// The upstream has to drop the provider first; if it refuses, the match stays active here too
+export const POST = withPermission<RouteContext>('matches:create', async (req, { params }, user) => {
+  const { id } = await params
+
+  const parsed = unmatchSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const match = findMatch(id)
+  if (!match) {
+    return NextResponse.json({ success: false, message: 'Match not found' }, { status: 404 })
+  }
+  if (match.status !== 'active') {
+    return NextResponse.json({ success: false, message: `Match is already ${match.status}` }, { status: 409 })
+  }
+
+  const upstream = await proxyToUpstream(req, '/api/admin/matches', {
+    method: 'DELETE',
+    json: { job_id: match.jobId, user_id: match.providerId, reason: parsed.data.note || parsed.data.reasonCode },
+  })
+  if (!upstream.ok) {
+    return upstream
+  }
+
+  const result = unmatch(id, parsed.data, user)
+  if (!result.ok) {
+    return NextResponse.json({ success: false, message: result.message }, { status: result.status })
+  }
+  return NextResponse.json(result.match)
+})
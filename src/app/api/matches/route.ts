@@ -0,0 +1,5 @@
+import { getDb } from '@/lib/server/db'
+import { listRoute } from '@/lib/server/list-query'
+import { matchListSpec } from '@/lib/server/list-specs'
+
+export const GET = listRoute('help-requests:read', () => getDb().matches.list(), matchListSpec)
@@ -1,6 +1,6 @@
-import { NextResponse } from 'next/server'
-import { members } from '@/data/members'
+import { getDb } from '@/lib/server/db'
+import { withLedgerBalances } from '@/lib/server/ledger'
+import { listRoute } from '@/lib/server/list-query'
+import { memberListSpec } from '@/lib/server/list-specs'
 
-export async function GET() {
-  return NextResponse.json(members)
-}
+export const GET = listRoute('members:read', () => withLedgerBalances(getDb().members.list()), memberListSpec)
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { updateProviderProfileSchema } from '@/domain'
+import { withPermission } from '@/lib/server/route-guard'
+import { updateProviderProfile } from '@/lib/server/providers'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Rating and availability feed the matching engine, so the people who match providers maintain them
+export const PATCH = withPermission<RouteContext>('matches:create', async (req, { params }, user) => {
+  const { id } = await params
+  const providerId = Number(id)
+  if (!Number.isInteger(providerId) || providerId <= 0) {
+    return NextResponse.json({ success: false, message: 'Provider not found' }, { status: 404 })
+  }
+
+  const parsed = updateProviderProfileSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  return NextResponse.json(updateProviderProfile(providerId, parsed.data, user))
+})
@@ -0,0 +1,6 @@
+import { NextResponse } from 'next/server'
+import { withPermission } from '@/lib/server/route-guard'
+import { listProviderProfiles } from '@/lib/server/providers'
+
+// Only providers the panel has recorded something about; everyone else scores as neutral
+export const GET = withPermission('help-requests:read', () => NextResponse.json(listProviderProfiles()))
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { withPermission } from '@/lib/server/route-guard'
+import { deleteSavedView } from '@/lib/server/saved-views'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const DELETE = withPermission<RouteContext>('saved-views:manage', async (_req, { params }, user) => {
+  const { id } = await params
+
+  const result = deleteSavedView(id, user)
+  if (!result.ok) {
+    return NextResponse.json({ success: false, message: result.message }, { status: result.status })
+  }
+  return NextResponse.json(result.view)
+})
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { createSavedViewSchema, savedViewListSchema } from '@/domain'
+import { withPermission } from '@/lib/server/route-guard'
+import { createSavedView, listSavedViews } from '@/lib/server/saved-views'
+
+// `?list=transfers` narrows to one list; views are always the caller's own
+export const GET = withPermission('saved-views:manage', (req, _context, user) => {
+  const list = req.nextUrl.searchParams.get('list')
+  if (list === null) {
+    return NextResponse.json(listSavedViews(user))
+  }
+  const parsed = savedViewListSchema.safeParse(list)
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: `Unknown list ${list}` }, { status: 400 })
+  }
+  return NextResponse.json(listSavedViews(user, parsed.data))
+})
+
+export const POST = withPermission('saved-views:manage', async (req, _context, user) => {
+  const parsed = createSavedViewSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const result = createSavedView(parsed.data, user)
+  if (!result.ok) {
+    return NextResponse.json({ success: false, message: result.message }, { status: result.status })
+  }
+  return NextResponse.json(result.view, { status: 201 })
+})
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { reverseTransferSchema } from '@/domain'
+import { withPermission } from '@/lib/server/route-guard'
+import { decideReversal, requestReversal, type ReversalResult } from '@/lib/server/transfers'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const decisionSchema = z.object({
+  approve: z.boolean(),
+  note: z.string().trim().optional(),
+})
+
+function respond(result: ReversalResult, successStatus = 200) {
+  if (!result.ok) {
+    return NextResponse.json({ success: false, message: result.message }, { status: result.status })
+  }
+  return NextResponse.json({ original: result.original, compensating: result.compensating }, { status: successStatus })
+}
+
+function invalid(issues: z.ZodIssue[]) {
+  return NextResponse.json({ success: false, message: issues[0]?.message ?? 'Invalid request body', issues }, { status: 400 })
+}
+
+// Start a reversal: executed immediately, or held for a second admin when it reaches TRANSFER_REVERSAL_APPROVAL_HOURS
+export const POST = withPermission<RouteContext>('transfers:reverse', async (req, { params }, user) => {
+  const { id } = await params
+  const parsed = reverseTransferSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) return invalid(parsed.error.issues)
+
+  const result = requestReversal(id, parsed.data, user)
+  return respond(result, result.ok && result.compensating ? 201 : 200)
+})
+
+// Second-admin approval or decline of a pending reversal
+export const PATCH = withPermission<RouteContext>('transfers:reverse', async (req, { params }, user) => {
+  const { id } = await params
+  const parsed = decisionSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) return invalid(parsed.error.issues)
+
+  return respond(decideReversal(id, parsed.data.approve, user, parsed.data.note))
+})
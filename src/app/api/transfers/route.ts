@@ -1,6 +1,25 @@
 import { NextResponse } from 'next/server'
-import { transfers } from '@/data/transfers'
+import { createTransferSchema } from '@/domain'
+import { getDb } from '@/lib/server/db'
+import { listRoute } from '@/lib/server/list-query'
+import { transferListSpec } from '@/lib/server/list-specs'
+import { withPermission } from '@/lib/server/route-guard'
+import { createManualTransfer } from '@/lib/server/transfers'
 
-export async function GET() {
-  return NextResponse.json(transfers)
-}
+export const GET = listRoute('transfers:read', () => getDb().transfers.list(), transferListSpec)
+
+export const POST = withPermission('transfers:create', async (req, _context, user) => {
+  const parsed = createTransferSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const result = createManualTransfer(parsed.data, user)
+  if (!result.ok) {
+    return NextResponse.json({ success: false, message: result.message }, { status: result.status })
+  }
+  return NextResponse.json(result.transfer, { status: 201 })
+})
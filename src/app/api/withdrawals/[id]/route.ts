@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { withdrawalDecisionSchema } from '@/domain'
+import { withPermission } from '@/lib/server/route-guard'
+import { decideWithdrawal, findWithdrawal } from '@/lib/server/withdrawals'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const GET = withPermission<RouteContext>('withdrawals:read', async (_req, { params }) => {
+  const { id } = await params
+  const withdrawal = findWithdrawal(id)
+  if (!withdrawal) {
+    return NextResponse.json({ success: false, message: 'Withdrawal not found' }, { status: 404 })
+  }
+  return NextResponse.json(withdrawal)
+})
+
+export const PATCH = withPermission<RouteContext>('withdrawals:approve', async (req, { params }, user) => {
+  const { id } = await params
+
+  const parsed = withdrawalDecisionSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? 'Invalid request body', issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const result = decideWithdrawal(id, parsed.data, user)
+  if (!result.ok) {
+    return NextResponse.json({ success: false, message: result.message }, { status: result.status })
+  }
+  return NextResponse.json(result.withdrawal)
+})
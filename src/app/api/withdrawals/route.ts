@@ -1,6 +1,5 @@
-import { NextResponse } from 'next/server'
-import { withdrawals } from '@/data/withdrawals'
+import { getDb } from '@/lib/server/db'
+import { listRoute } from '@/lib/server/list-query'
+import { withdrawalListSpec } from '@/lib/server/list-specs'
 
-export async function GET() {
-  return NextResponse.json(withdrawals)
-}
+export const GET = listRoute('withdrawals:read', () => getDb().withdrawals.list(), withdrawalListSpec)
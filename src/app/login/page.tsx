@@ -27,13 +27,11 @@ export default function LoginPage() {
 
       if (response.ok) {
         toast({ title: "เข้าสู่ระบบสำเร็จ", description: "กำลังเปลี่ยนเส้นทางไปหน้าแดชบอร์ด..." });
-        const data = await response.json()
-          // expecting { accessToken, refreshToken } or similar
-          if (typeof window !== 'undefined') {
-            if (data.accessToken) localStorage.setItem('accessToken', data.accessToken)
-            if (data.refreshToken) localStorage.setItem('refreshToken', data.refreshToken)
-              console.log(data);
-          }
+        // Tokens arrive as httpOnly cookies; drop anything an older build left behind
+        if (typeof window !== 'undefined') {
+          localStorage.removeItem('accessToken')
+          localStorage.removeItem('refreshToken')
+        }
         router.push('/'); // Redirect to dashboard
       } else {
         setError('ชื่อผู้ใช้หรือรหัสผ่านไม่ถูกต้อง');
@@ -2,15 +2,22 @@
 
 import { motion, Variants } from "framer-motion"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
-import { useState, useMemo } from 'react'
+import { useState } from 'react'
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Search, Calendar, Activity, CheckCircle2, User, Star, ClipboardList } from "lucide-react"
+import { toSortParam, type MatchLog, type MatchLogSummary, type PagedList, type SortKey } from "@/domain"
+import { formatDate, formatPercent } from "@/lib/format"
+import { adminApi } from "@/lib/admin-api"
+import { useServerList } from "@/hooks/use-server-list"
+import { useFilterDraft, useUrlFilters } from "@/hooks/use-url-filters"
+import { SavedViewTabs } from "@/components/saved-view-tabs"
+import { DataTable, type DataTableColumn } from "@/components/data-table"
+import { MatchScoreBreakdown } from "@/components/match-score-breakdown"
 
 const containerVariants: Variants = {
   hidden: { opacity: 0 },
@@ -36,43 +43,118 @@ const itemVariants: Variants = {
   }
 };
 
-type Log = {
-  requester: string;
-  requesterId: string;
-  age: number;
-  requestType: string;
-  requestDetail: string;
-  provider: string;
-  providerId: string;
-  rating: number;
-  date: string;
-  matchScore: string;
-  confidence: string;
-  status: string;
-};
-
-export function AILogsView({ initialLogs }: { initialLogs: Log[] }) {
-  const [searchQuery, setSearchQuery] = useState("")
-  const [statusFilter, setStatusFilter] = useState("all")
-  const [selectedLog, setSelectedLog] = useState<Log | null>(null)
+export function AILogsView({ initialPage }: { initialPage?: PagedList<MatchLog, MatchLogSummary> }) {
+  const { filters, activeFilters, setFilters, replaceFilters } = useUrlFilters({ q: "", status: "all", from: "" })
+  const [page, setPage] = useState(1)
+  const [sort, setSort] = useState<SortKey[]>([{ field: "date", direction: "desc" }])
+  const [selectedLog, setSelectedLog] = useState<MatchLog | null>(null)
   const [isDetailsOpen, setIsDetailsOpen] = useState(false)
 
-  const handleViewDetails = (log: Log) => {
+  const handleViewDetails = (log: MatchLog) => {
     setSelectedLog(log)
     setIsDetailsOpen(true)
   }
 
-  const filteredLogs = useMemo(() => {
-    return initialLogs.filter(log => {
-      const searchMatch = searchQuery === "" || 
-        log.requester.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        log.provider.toLowerCase().includes(searchQuery.toLowerCase())
-      
-      const statusMatch = statusFilter === "all" || log.status === statusFilter
+  const { list, isLoading, error, reload } = useServerList(
+    adminApi.matchLogs.list,
+    { ...filters, status: filters.status === "all" ? undefined : filters.status, page, sort: toSortParam(sort) },
+    initialPage,
+  )
+  const summary = list?.summary
 
-      return searchMatch && statusMatch
-    })
-  }, [initialLogs, searchQuery, statusFilter])
+  const columns: DataTableColumn<MatchLog>[] = [
+    {
+      id: "requester",
+      header: "ผู้ร้องขอ",
+      sortField: "requester",
+      hideable: false,
+      cell: (log) => (
+        <div className="flex items-center gap-2">
+          <div className="flex h-8 w-8 items-center justify-center rounded-full bg-blue-100 text-blue-600 text-sm font-semibold">
+            {log.requester.charAt(0)}
+          </div>
+          <div>
+            <div className="font-medium">{log.requester}</div>
+            <div className="text-xs text-muted-foreground">
+              ID: {log.requesterId} • Age: {log.age ?? "-"}
+            </div>
+          </div>
+        </div>
+      ),
+    },
+    {
+      id: "request",
+      header: "ชื่อความคำขอ",
+      cell: (log) => (
+        <div>
+          <div className="font-medium">{log.requestType}</div>
+          <div className="text-xs text-muted-foreground">{log.requestDetail}</div>
+        </div>
+      ),
+    },
+    {
+      id: "provider",
+      header: "ผู้ให้บริการ",
+      sortField: "provider",
+      cell: (log) => (
+        <div className="flex items-center gap-2">
+          <Activity className="h-4 w-4 text-blue-500" />
+          <div>
+            <div className="font-medium">{log.provider}</div>
+            <div className="text-xs text-muted-foreground">
+              ID: {log.providerId || "-"} • Rating: {log.rating ?? "-"}
+            </div>
+          </div>
+        </div>
+      ),
+    },
+    { id: "date", header: "เวลารับคู่", sortField: "date", cell: (log) => formatDate(log.matchedAt) },
+    {
+      id: "score",
+      header: "Match Score",
+      sortField: "score",
+      cell: (log) => (
+        <div>
+          <div className="text-lg font-bold text-blue-600">{formatPercent(log.matchScore)}</div>
+          <div className="text-xs text-muted-foreground font-mono">{log.confidence}</div>
+        </div>
+      ),
+    },
+    {
+      id: "status",
+      header: "สถานะ",
+      sortField: "status",
+      cell: (log) => (
+        <Badge
+          className={
+            log.status === "success"
+              ? "bg-green-100 text-green-700 hover:bg-green-100 gap-1"
+              : "bg-red-100 text-red-700 hover:bg-red-100 gap-1"
+          }
+        >
+          <CheckCircle2 className="h-3 w-3" />
+          {log.status === "success" ? "สำเร็จ" : "ล้มเหลว"}
+        </Badge>
+      ),
+    },
+    {
+      id: "actions",
+      header: "การจัดการ",
+      hideable: false,
+      cell: (log) => (
+        <Button size="sm" variant="ghost" onClick={() => handleViewDetails(log)}>
+          Details
+        </Button>
+      ),
+    },
+  ]
+
+  // Any filter change starts again from the first page
+  const updateFilters = (patch: Partial<typeof filters>) => {
+    setFilters(patch)
+    setPage(1)
+  }
+  const [searchQuery, setSearchQuery] = useFilterDraft(filters.q, (q) => updateFilters({ q }))
 
   return (
     <div className="space-y-6">
@@ -91,7 +173,7 @@ export function AILogsView({ initialLogs }: { initialLogs: Log[] }) {
               <CardTitle className="text-sm font-medium text-muted-foreground">ทั้งหมด</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold">{initialLogs.length}</div>
+              <div className="text-3xl font-bold">{list?.total ?? 0}</div>
               <p className="text-xs text-muted-foreground mt-1 font-mono">matching attempts</p>
             </CardContent>
           </Card>
@@ -101,7 +183,7 @@ export function AILogsView({ initialLogs }: { initialLogs: Log[] }) {
               <CardTitle className="text-sm font-medium text-muted-foreground">สำเร็จ</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold text-green-600">{initialLogs.filter(l => l.status === 'success').length}</div>
+              <div className="text-3xl font-bold text-green-600">{summary?.succeeded ?? 0}</div>
               <p className="text-xs text-muted-foreground mt-1 font-mono">successful matches</p>
             </CardContent>
           </Card>
@@ -111,7 +193,7 @@ export function AILogsView({ initialLogs }: { initialLogs: Log[] }) {
               <CardTitle className="text-sm font-medium text-muted-foreground">ล้มเหลว</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold text-red-600">{initialLogs.filter(l => l.status === 'failed').length}</div>
+              <div className="text-3xl font-bold text-red-600">{summary?.failed ?? 0}</div>
               <p className="text-xs text-muted-foreground mt-1 font-mono">failed matches</p>
             </CardContent>
           </Card>
@@ -121,12 +203,21 @@ export function AILogsView({ initialLogs }: { initialLogs: Log[] }) {
               <CardTitle className="text-sm font-medium text-muted-foreground">คะแนนเฉลี่ย</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold text-blue-600">{`${(initialLogs.reduce((acc, l) => acc + parseFloat(l.matchScore), 0) / initialLogs.length).toFixed(1)}%`}</div>
+              <div className="text-3xl font-bold text-blue-600">{summary?.averageScore != null ? formatPercent(summary.averageScore) : "-"}</div>
               <p className="text-xs text-muted-foreground mt-1 font-mono">avg matching score</p>
             </CardContent>
           </Card>
         </div>
 
+        <SavedViewTabs
+          listId="ai-logs"
+          activeFilters={activeFilters}
+          onApply={(values) => {
+            replaceFilters(values)
+            setPage(1)
+          }}
+        />
+
         {/* Filter Section */}
         <Card>
           <CardHeader>
@@ -139,7 +230,7 @@ export function AILogsView({ initialLogs }: { initialLogs: Log[] }) {
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                 <Input placeholder="ชื่อผู้ร้องขอ หรือ ผู้ให้บริการ..." className="pl-10" value={searchQuery} onChange={e => setSearchQuery(e.target.value)} />
               </div>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={filters.status} onValueChange={(status) => updateFilters({ status })}>
                 <SelectTrigger>
                   <SelectValue placeholder="สถานะการรับคู่" />
                 </SelectTrigger>
@@ -151,7 +242,7 @@ export function AILogsView({ initialLogs }: { initialLogs: Log[] }) {
               </Select>
               <div className="relative">
                 <Calendar className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                <Input type="date" placeholder="วันที่เริ่มต้น" className="pl-10" />
+                <Input type="date" placeholder="วันที่เริ่มต้น" className="pl-10" value={filters.from} onChange={e => updateFilters({ from: e.target.value })} />
               </div>
             </div>
           </CardContent>
@@ -162,88 +253,31 @@ export function AILogsView({ initialLogs }: { initialLogs: Log[] }) {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Activity className="h-5 w-5" />
-              Matching Logs ({filteredLogs.length} รายการ)
+              Matching Logs ({list?.total ?? 0} รายการ)
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>ผู้ร้องขอ</TableHead>
-                  <TableHead>ชื่อความคำขอ</TableHead>
-                  <TableHead>ผู้ให้บริการ</TableHead>
-                  <TableHead>เวลารับคู่</TableHead>
-                  <TableHead>Match Score</TableHead>
-                  <TableHead>สถานะ</TableHead>
-                  <TableHead>การจัดการ</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredLogs.map((log, index) => (
-                  <TableRow key={index}>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <div className="flex h-8 w-8 items-center justify-center rounded-full bg-blue-100 text-blue-600 text-sm font-semibold">
-                          {log.requester.charAt(0)}
-                        </div>
-                        <div>
-                          <div className="font-medium">{log.requester}</div>
-                          <div className="text-xs text-muted-foreground">
-                            ID: {log.requesterId} • Age: {log.age}
-                          </div>
-                        </div>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div>
-                        <div className="font-medium">{log.requestType}</div>
-                        <div className="text-xs text-muted-foreground">{log.requestDetail}</div>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Activity className="h-4 w-4 text-blue-500" />
-                        <div>
-                          <div className="font-medium">{log.provider}</div>
-                          <div className="text-xs text-muted-foreground">
-                            ID: {log.providerId} • Rating: {log.rating}
-                          </div>
-                        </div>
-                      </div>
-                    </TableCell>
-                    <TableCell>{log.date}</TableCell>
-                    <TableCell>
-                      <div>
-                        <div className="text-lg font-bold text-blue-600">{log.matchScore}</div>
-                        <div className="text-xs text-muted-foreground font-mono">{log.confidence}</div>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <Badge
-                        className={
-                          log.status === "success"
-                            ? "bg-green-100 text-green-700 hover:bg-green-100 gap-1"
-                            : "bg-red-100 text-red-700 hover:bg-red-100 gap-1"
-                        }
-                      >
-                        <CheckCircle2 className="h-3 w-3" />
-                        {log.status === "success" ? "สำเร็จ" : "ล้มเหลว"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <Button size="sm" variant="ghost" onClick={() => handleViewDetails(log)}>
-                        Details
-                      </Button>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+            <DataTable
+              tableId="ai-logs"
+              columns={columns}
+              rows={list?.items ?? []}
+              getRowId={(log) => log.id}
+              sort={sort}
+              onSortChange={(next) => {
+                setSort(next)
+                setPage(1)
+              }}
+              pagination={list ? { ...list, onPageChange: setPage } : undefined}
+              isLoading={isLoading}
+              error={error}
+              onRetry={reload}
+              emptyMessage="ไม่พบบันทึกการจับคู่ที่ตรงกับตัวกรอง"
+            />
           </CardContent>
         </Card>
 
         <Dialog open={isDetailsOpen} onOpenChange={setIsDetailsOpen}>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
             <motion.div variants={containerVariants} initial="hidden" animate="visible">
               {selectedLog && (
                 <>
@@ -264,16 +298,17 @@ export function AILogsView({ initialLogs }: { initialLogs: Log[] }) {
                     <div className="space-y-2 rounded-lg border p-3">
                       <h4 className="font-medium text-muted-foreground">Request Details</h4>
                       <p className="flex items-center gap-2"><ClipboardList className="h-4 w-4" /> {selectedLog.requestDetail} ({selectedLog.requestType})</p>
-                      <p className="flex items-center gap-2"><Calendar className="h-4 w-4" /> {selectedLog.date}</p>
+                      <p className="flex items-center gap-2"><Calendar className="h-4 w-4" /> {formatDate(selectedLog.matchedAt)}</p>
                     </div>
                     <div className="space-y-2 rounded-lg border p-3">
                       <h4 className="font-medium text-muted-foreground">Match Details</h4>
                       <p className="flex items-center gap-2"><User className="h-4 w-4" /> Provider: {selectedLog.provider} ({selectedLog.providerId})</p>
-                      <p className="flex items-center gap-2"><Star className="h-4 w-4" /> Provider Rating: {selectedLog.rating}</p>
-                      <p>Match Score: {selectedLog.matchScore}</p>
+                      <p className="flex items-center gap-2"><Star className="h-4 w-4" /> Provider Rating: {selectedLog.rating ?? "-"}</p>
+                      <p>Match Score: {formatPercent(selectedLog.matchScore)}</p>
                       <p>Confidence: {selectedLog.confidence}</p>
                       <p>Status: {selectedLog.status}</p>
                     </div>
+                    <MatchScoreBreakdown log={selectedLog} />
                   </motion.div>
                   <motion.div variants={itemVariants}>
                     <DialogFooter>
@@ -0,0 +1,205 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Spinner } from "@/components/ui/spinner"
+import { useToast } from "@/hooks/use-toast"
+import { Download, RefreshCw, Search } from "lucide-react"
+import type { AuditAction, AuditEntityType, AuditEntry } from "@/domain"
+import { adminApi, describeApiError, isAbortError, type AuditFilters } from "@/lib/admin-api"
+import { formatDateTime } from "@/lib/format"
+
+const entityLabels: Record<AuditEntityType, string> = {
+  verification: "ยืนยันตัวตน",
+  withdrawal: "การถอนเครดิต",
+  match: "การจับคู่",
+  member: "สมาชิก",
+  transfer: "การโอนเครดิต",
+  help_request: "คำขอความช่วยเหลือ",
+  provider: "ผู้ให้บริการ",
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  "verification.approve": "อนุมัติการยืนยันตัวตน",
+  "verification.reject": "ปฏิเสธการยืนยันตัวตน",
+  "withdrawal.approve": "อนุมัติการถอน",
+  "withdrawal.reject": "ปฏิเสธการถอน",
+  "match.create": "สร้างการจับคู่",
+  "match.unmatch": "ยกเลิกการจับคู่",
+  "match.reassign": "เปลี่ยนผู้ให้บริการ",
+  "ledger.adjust": "ปรับยอดเครดิต",
+  "transfer.create": "โอนเครดิตแทนสมาชิก",
+  "transfer.reverse_request": "ขอย้อนรายการโอน",
+  "transfer.reverse": "ย้อนรายการโอน",
+  "transfer.reverse_decline": "ไม่อนุมัติการย้อนรายการ",
+  "help_request.transition": "เปลี่ยนสถานะคำขอ",
+  "help_request.cancel": "ยกเลิกคำขอ",
+  "help_request.link_job": "ผูกคำขอกับงาน",
+  "provider.update_profile": "แก้ไขคะแนนหรือสถานะผู้ให้บริการ",
+}
+
+function formatSnapshot(snapshot: AuditEntry["before"]) {
+  if (!snapshot) return "-"
+  return Object.entries(snapshot)
+    .map(([key, value]) => `${key}: ${typeof value === "object" ? JSON.stringify(value) : String(value)}`)
+    .join(", ")
+}
+
+export function AuditView() {
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [actor, setActor] = useState("")
+  const [entityType, setEntityType] = useState<AuditEntityType | "all">("all")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [reloadKey, setReloadKey] = useState(0)
+
+  const filters = useMemo<AuditFilters>(
+    () => ({
+      actor: actor.trim() || undefined,
+      entityType: entityType === "all" ? undefined : entityType,
+      from: from || undefined,
+      to: to || undefined,
+    }),
+    [actor, entityType, from, to],
+  )
+
+  const load = useCallback(
+    async (signal: AbortSignal) => {
+      setIsLoading(true)
+      try {
+        setEntries(await adminApi.audit.list(filters, { signal }))
+      } catch (err) {
+        if (isAbortError(err)) return
+        toast({ title: "โหลดบันทึกล้มเหลว", description: describeApiError(err), variant: "destructive" })
+      } finally {
+        if (!signal.aborted) setIsLoading(false)
+      }
+    },
+    [filters, toast],
+  )
+
+  useEffect(() => {
+    const controller = new AbortController()
+    load(controller.signal)
+    return () => controller.abort()
+  }, [load, reloadKey])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">บันทึกการตรวจสอบ</h1>
+          <p className="text-muted-foreground">ประวัติการตัดสินใจของผู้ดูแลระบบ ใคร ทำอะไร กับรายการใด และเมื่อใด</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setReloadKey((key) => key + 1)} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            รีเฟรช
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={adminApi.audit.exportUrl(filters)} download>
+              <Download className="mr-2 h-4 w-4" />
+              ส่งออก CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>ตัวกรอง</CardTitle>
+          <CardDescription>กรองตามผู้ดำเนินการ ประเภทรายการ และช่วงวันที่</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4 md:flex-row">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={actor}
+              onChange={(event) => setActor(event.target.value)}
+              placeholder="อีเมลหรือรหัสผู้ดำเนินการ..."
+              className="pl-10"
+            />
+          </div>
+          <Select value={entityType} onValueChange={(value) => setEntityType(value as AuditEntityType | "all")}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="ประเภทรายการ" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">ทุกประเภท</SelectItem>
+              {(Object.keys(entityLabels) as AuditEntityType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {entityLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" value={from} onChange={(event) => setFrom(event.target.value)} className="w-[170px]" aria-label="ตั้งแต่วันที่" />
+          <Input type="date" value={to} onChange={(event) => setTo(event.target.value)} className="w-[170px]" aria-label="ถึงวันที่" />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>รายการบันทึก ({entries.length})</CardTitle>
+          <CardDescription>บันทึกเป็นแบบเพิ่มได้อย่างเดียว ไม่สามารถแก้ไขหรือลบได้</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex h-40 items-center justify-center">
+              <Spinner className="h-10 w-10" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="flex h-32 items-center justify-center text-sm text-muted-foreground">
+              ไม่พบบันทึกที่ตรงกับเงื่อนไข
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>เวลา</TableHead>
+                  <TableHead>ผู้ดำเนินการ</TableHead>
+                  <TableHead>การกระทำ</TableHead>
+                  <TableHead>รายการ</TableHead>
+                  <TableHead>ก่อน</TableHead>
+                  <TableHead>หลัง</TableHead>
+                  <TableHead>เหตุผล</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-sm">{formatDateTime(entry.createdAt)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="font-medium">{entry.actor.email ?? entry.actor.id ?? "-"}</span>
+                        <span className="text-xs text-muted-foreground">{entry.actor.role}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={entry.action.endsWith(".reject") || entry.action.endsWith("_decline") ? "destructive" : "secondary"}>
+                        {actionLabels[entry.action]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entityLabels[entry.entityType]} #{entry.entityId}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{formatSnapshot(entry.before)}</TableCell>
+                    <TableCell className="font-mono text-xs">{formatSnapshot(entry.after)}</TableCell>
+                    <TableCell className="text-sm">{entry.reason ?? "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { cancellationReasonLabels } from "@/components/help-request-status"
+import { useToast } from "@/hooks/use-toast"
+import { cancellationReasonSchema, type CancellationReason, type HelpRequest } from "@/domain"
+import { adminApi, describeApiError } from "@/lib/admin-api"
+import { formatHours } from "@/lib/format"
+
+type CancelHelpRequestDialogProps = {
+  request: HelpRequest | null
+  onOpenChange: (open: boolean) => void
+  onCancelled: (request: HelpRequest) => void
+}
+
+export function CancelHelpRequestDialog({ request, onOpenChange, onCancelled }: CancelHelpRequestDialogProps) {
+  const { toast } = useToast()
+  const [reasonCode, setReasonCode] = useState<CancellationReason | "">("")
+  const [note, setNote] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setReasonCode("")
+      setNote("")
+    }
+    onOpenChange(next)
+  }
+
+  const handleSubmit = async () => {
+    if (!request || !reasonCode) return
+    setIsSubmitting(true)
+    try {
+      const cancelled = await adminApi.helpRequests.cancel(request.id, { reasonCode, note: note.trim() || undefined })
+      onCancelled(cancelled)
+      toast({
+        title: "ยกเลิกคำขอแล้ว",
+        description: `แจ้งผู้ขอ ${request.requester.name}${request.providerName ? ` และผู้ให้บริการ ${request.providerName}` : ""} แล้ว`,
+      })
+      handleOpenChange(false)
+    } catch (err) {
+      toast({ title: "ยกเลิกคำขอไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={request !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>ยกเลิกคำขอ #{request?.id}</DialogTitle>
+          <DialogDescription>
+            {request?.escrowHeld
+              ? `ระบบจะคืน ${formatHours(request.escrowHeld)} ที่กันไว้ให้ ${request.requester.name} และแจ้งผู้ที่เกี่ยวข้อง`
+              : "ระบบจะแจ้งผู้ขอและผู้ให้บริการ (ถ้ามี) ว่าคำขอถูกยกเลิก"}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as CancellationReason)}>
+            <SelectTrigger>
+              <SelectValue placeholder="เลือกเหตุผลการยกเลิก (จำเป็น)" />
+            </SelectTrigger>
+            <SelectContent>
+              {cancellationReasonSchema.options.map((reason) => (
+                <SelectItem key={reason} value={reason}>
+                  {cancellationReasonLabels[reason]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="รายละเอียดเพิ่มเติม (ไม่บังคับ)" rows={3} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            ปิด
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={isSubmitting || !reasonCode}>
+            {isSubmitting ? "กำลังบันทึก..." : "ยกเลิกคำขอ"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,99 +4,132 @@ import { useEffect, useState } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/hooks/use-toast"
+import type { Job } from "@/domain"
+import { adminApi, describeApiError } from "@/lib/admin-api"
 
-type User = {
-  id: string
+// Someone who can be matched to the job: an applicant, or a skilled user the backend suggests
+export type MatchCandidateOption = {
+  userId: number
   name: string
+  source: "applicant" | "suggested"
+  // Shown after the name, e.g. the application status or distance
+  detail?: string
 }
 
 type CreateMatchDialogProps = {
   open: boolean
   onOpenChange: (open: boolean) => void
-  jobId?: string
+  job: Job | null
+  candidates: MatchCandidateOption[]
+  // Preselected when the dialog opens (e.g. the row the admin clicked)
+  initialUserId?: number | null
+  onMatched?: (userId: number) => void
 }
 
-const mockUsers: User[] = [
-  { id: "USR-001", name: "สมชาย ใจดี" },
-  { id: "USR-002", name: "สมหญิง รักไทย" },
-  { id: "USR-003", name: "จอห์น โด" },
-  { id: "USR-004", name: "มานี มีนา" },
-  { id: "USR-005", name: "ปิติ ชูใจ" },
-];
-
-export function CreateMatchDialog({ open, onOpenChange, jobId }: CreateMatchDialogProps) {
+export function CreateMatchDialog({ open, onOpenChange, job, candidates, initialUserId, onMatched }: CreateMatchDialogProps) {
   const { toast } = useToast()
-  const [users, setUsers] = useState<User[]>([])
   const [selectedUserId, setSelectedUserId] = useState<string | undefined>()
   const [reason, setReason] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   useEffect(() => {
     if (open) {
-      setUsers(mockUsers)
+      setSelectedUserId(initialUserId ? String(initialUserId) : undefined)
+      setReason("")
     }
-  }, [open])
+  }, [open, initialUserId])
+
+  // Applicants come first; a suggested user who also applied is only listed once
+  const applicants = candidates.filter((c) => c.source === "applicant")
+  const applicantIds = new Set(applicants.map((c) => c.userId))
+  const suggested = candidates.filter((c) => c.source === "suggested" && !applicantIds.has(c.userId))
+  const selected = candidates.find((c) => String(c.userId) === selectedUserId)
 
-  const handleSubmit = () => {
-    if (!jobId || !selectedUserId) {
+  const handleSubmit = async () => {
+    if (!job || !selected || reason.trim() === "") {
       toast({
         title: "ข้อมูลไม่ครบถ้วน",
-        description: "โปรดเลือกงานและผู้ใช้",
+        description: "โปรดเลือกผู้ใช้และระบุเหตุผล",
         variant: "destructive",
       })
       return
     }
 
     setIsSubmitting(true)
-    setTimeout(() => {
+    try {
+      await adminApi.matches.create({ jobId: job.id, userId: selected.userId, reason: reason.trim(), providerName: selected.name })
       toast({
         title: "สร้างการจับคู่สำเร็จ",
-        description: `จับคู่งาน ${jobId} กับผู้ใช้ ${selectedUserId} เรียบร้อยแล้ว`,
+        description: `จับคู่งาน ${job.title} กับ ${selected.name} เรียบร้อยแล้ว`,
       })
-      setIsSubmitting(false)
+      onMatched?.(selected.userId)
       onOpenChange(false)
-    }, 1000)
+    } catch (err) {
+      toast({ title: "สร้างการจับคู่ไม่สำเร็จ", description: describeApiError(err, "ไม่สามารถจับคู่ได้"), variant: "destructive" })
+    } finally {
+      setIsSubmitting(false)
+    }
   }
 
+  const renderOption = (candidate: MatchCandidateOption) => (
+    <SelectItem key={candidate.userId} value={String(candidate.userId)}>
+      {candidate.name} (#{candidate.userId}){candidate.detail ? ` • ${candidate.detail}` : ""}
+    </SelectItem>
+  )
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent>
         <DialogHeader>
           <DialogTitle>สร้างการจับคู่ใหม่</DialogTitle>
-          <DialogDescription>จับคู่งานกับสมาชิกที่มี LINE ID</DialogDescription>
+          <DialogDescription>เลือกผู้สมัครหรือผู้ให้บริการที่ระบบแนะนำ การจับคู่จะถูกบันทึกพร้อมเหตุผลในบันทึกการตรวจสอบ</DialogDescription>
         </DialogHeader>
         <div className="space-y-4 py-4">
           <div>
-            <label htmlFor="jobId">รหัสงาน</label>
-            <Input id="jobId" value={jobId} disabled />
+            <label htmlFor="jobTitle">งาน</label>
+            <Input id="jobTitle" value={job ? `#${job.id} ${job.title}` : ""} disabled />
           </div>
           <div>
             <label htmlFor="userId">เลือกผู้ใช้</label>
             <Select onValueChange={setSelectedUserId} value={selectedUserId}>
-              <SelectTrigger>
-                <SelectValue placeholder="เลือกผู้ใช้..." />
+              <SelectTrigger id="userId">
+                <SelectValue placeholder={candidates.length === 0 ? "ไม่มีผู้สมัครหรือผู้ให้บริการที่แนะนำ" : "เลือกผู้ใช้..."} />
               </SelectTrigger>
               <SelectContent>
-                {users.map((user) => (
-                  <SelectItem key={user.id} value={user.id}>
-                    {user.name} ({user.id})
-                  </SelectItem>
-                ))}
+                {applicants.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>ผู้สมัคร</SelectLabel>
+                    {applicants.map(renderOption)}
+                  </SelectGroup>
+                )}
+                {suggested.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>ผู้ให้บริการที่แนะนำ</SelectLabel>
+                    {suggested.map(renderOption)}
+                  </SelectGroup>
+                )}
               </SelectContent>
             </Select>
           </div>
           <div>
-            <label htmlFor="reason">เหตุผล (ไม่บังคับ)</label>
-            <Input id="reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+            <label htmlFor="reason">เหตุผล</label>
+            <Textarea
+              id="reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="เช่น ผู้สมัครมีทักษะตรงและอยู่ใกล้ที่สุด"
+              rows={3}
+            />
           </div>
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
             ยกเลิก
           </Button>
-          <Button onClick={handleSubmit} disabled={isSubmitting}>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !selected || reason.trim() === ""}>
             {isSubmitting ? "กำลังบันทึก..." : "บันทึก"}
           </Button>
         </DialogFooter>
@@ -0,0 +1,415 @@
+"use client"
+
+import { useState, type MouseEvent, type ReactNode } from "react"
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Columns3, Inbox, TriangleAlert } from "lucide-react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from "@/components/ui/pagination"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from "@/components/ui/empty"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useUserPreference } from "@/hooks/use-user-preference"
+import type { SortKey } from "@/domain"
+import { cn } from "@/lib/utils"
+
+type SortValue = string | number | null | undefined
+
+export type DataTableColumn<T> = {
+  id: string
+  header: string
+  cell: (row: T) => ReactNode
+  // A column is sortable when it names a list-route sort field or gives a value to sort rows by locally
+  sortField?: string
+  sortValue?: (row: T) => SortValue
+  // Columns are hideable from the column picker unless this is false
+  hideable?: boolean
+  hiddenByDefault?: boolean
+  className?: string
+  headerClassName?: string
+}
+
+export type DataTablePagination = {
+  page: number
+  pageCount: number
+  total: number
+  onPageChange: (page: number) => void
+}
+
+type DataTableProps<T> = {
+  // Identifies the table in persisted per-user column preferences
+  tableId: string
+  columns: DataTableColumn<T>[]
+  rows: T[]
+  getRowId: (row: T) => string
+  // Server-driven sorting: the view owns `sort` and re-fetches. Without `onSortChange` rows are sorted here.
+  sort?: SortKey[]
+  onSortChange?: (sort: SortKey[]) => void
+  defaultSort?: SortKey[]
+  // Server-driven paging. Without it rows are paged here, `pageSize` at a time.
+  pagination?: DataTablePagination
+  pageSize?: number
+  // Rendered above the table while rows are selected; receives the selected rows and a way to clear them
+  bulkActions?: (selected: T[], clearSelection: () => void) => ReactNode
+  onRowClick?: (row: T) => void
+  rowClassName?: (row: T) => string | undefined
+  isLoading?: boolean
+  error?: string | null
+  onRetry?: () => void
+  emptyMessage?: string
+  toolbar?: ReactNode
+}
+
+const SKELETON_ROWS = 5
+
+function compare(a: SortValue, b: SortValue) {
+  if (a === b) return 0
+  if (a === null || a === undefined) return 1
+  if (b === null || b === undefined) return -1
+  return typeof a === "number" && typeof b === "number" ? a - b : String(a).localeCompare(String(b), "th")
+}
+
+// Click sorts by one column (asc → desc → off); shift-click adds the column to or cycles it within the sort list
+function nextSort(current: SortKey[], field: string, additive: boolean): SortKey[] {
+  const existing = current.find((key) => key.field === field)
+  const cycled: SortKey | null = !existing
+    ? { field, direction: "asc" }
+    : existing.direction === "asc"
+      ? { field, direction: "desc" }
+      : null
+
+  if (!additive) return cycled ? [cycled] : []
+  if (!existing) return [...current, cycled!]
+  return cycled ? current.map((key) => (key.field === field ? cycled : key)) : current.filter((key) => key.field !== field)
+}
+
+function sortLocally<T>(rows: T[], sort: SortKey[], columns: DataTableColumn<T>[]) {
+  const accessors = sort.flatMap(({ field, direction }) => {
+    const column = columns.find((c) => (c.sortField ?? c.id) === field)
+    return column?.sortValue ? [{ value: column.sortValue, direction }] : []
+  })
+  return [...rows].sort((a, b) => {
+    for (const { value, direction } of accessors) {
+      const result = compare(value(a), value(b))
+      if (result !== 0) return direction === "desc" ? -result : result
+    }
+    return 0
+  })
+}
+
+// Page numbers around the current page, with the first and last always reachable
+function pageWindow(page: number, pageCount: number): (number | "gap")[] {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1].filter((n) => n >= 1 && n <= pageCount))
+  const sorted = [...pages].sort((a, b) => a - b)
+  return sorted.flatMap((n, index) => (index > 0 && n - sorted[index - 1] > 1 ? ["gap" as const, n] : [n]))
+}
+
+// Hidden column ids per table and per admin, so each admin keeps their own layout
+function useColumnVisibility<T>(tableId: string, columns: DataTableColumn<T>[]) {
+  const [hidden, setHidden] = useUserPreference(
+    `data-table:${tableId}`,
+    columns.filter((column) => column.hiddenByDefault).map((column) => column.id),
+  )
+
+  const toggle = (columnId: string, visible: boolean) =>
+    setHidden((current) => (visible ? current.filter((id) => id !== columnId) : [...current, columnId]))
+
+  return { hidden, toggle }
+}
+
+/**
+ * Typed table shared by the list views: column definitions, multi-column sort, a per-admin column
+ * picker, row selection for bulk actions, sticky headers and loading/empty/error states.
+ */
+export function DataTable<T>({
+  tableId,
+  columns,
+  rows,
+  getRowId,
+  sort: controlledSort,
+  onSortChange,
+  defaultSort = [],
+  pagination,
+  pageSize = 20,
+  bulkActions,
+  onRowClick,
+  rowClassName,
+  isLoading = false,
+  error,
+  onRetry,
+  emptyMessage = "ไม่พบรายการที่ตรงกับเงื่อนไข",
+  toolbar,
+}: DataTableProps<T>) {
+  const [localSort, setLocalSort] = useState<SortKey[]>(defaultSort)
+  const [localPage, setLocalPage] = useState(1)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const { hidden, toggle } = useColumnVisibility(tableId, columns)
+
+  const sort = onSortChange ? (controlledSort ?? []) : localSort
+  const visibleColumns = columns.filter((column) => !hidden.includes(column.id))
+  const hideableColumns = columns.filter((column) => column.hideable !== false)
+
+  const sortedRows = onSortChange || sort.length === 0 ? rows : sortLocally(rows, sort, columns)
+
+  const localPageCount = Math.max(1, Math.ceil(sortedRows.length / pageSize))
+  const currentLocalPage = Math.min(localPage, localPageCount)
+  const pageRows = pagination ? sortedRows : sortedRows.slice((currentLocalPage - 1) * pageSize, currentLocalPage * pageSize)
+  const pager: DataTablePagination = pagination ?? {
+    page: currentLocalPage,
+    pageCount: localPageCount,
+    total: sortedRows.length,
+    onPageChange: setLocalPage,
+  }
+
+  // Selection only ever covers rows still on screen
+  const pageIds = pageRows.map(getRowId)
+  const selectedRows = pageRows.filter((row) => selectedIds.includes(getRowId(row)))
+  const allSelected = pageRows.length > 0 && selectedRows.length === pageRows.length
+  const clearSelection = () => setSelectedIds([])
+
+  const handleSort = (column: DataTableColumn<T>, event: MouseEvent) => {
+    const next = nextSort(sort, column.sortField ?? column.id, event.shiftKey)
+    if (onSortChange) onSortChange(next)
+    else setLocalSort(next)
+  }
+
+  const toggleRow = (id: string, checked: boolean) =>
+    setSelectedIds((current) => (checked ? [...current, id] : current.filter((selected) => selected !== id)))
+
+  const columnCount = visibleColumns.length + (bulkActions ? 1 : 0)
+
+  const renderSortIcon = (column: DataTableColumn<T>) => {
+    const index = sort.findIndex((key) => key.field === (column.sortField ?? column.id))
+    if (index === -1) return <ArrowUpDown className="h-3 w-3 text-muted-foreground" />
+    const Icon = sort[index].direction === "asc" ? ArrowUp : ArrowDown
+    return (
+      <span className="flex items-center">
+        <Icon className="h-3 w-3" />
+        {sort.length > 1 && <span className="text-[10px] text-muted-foreground">{index + 1}</span>}
+      </span>
+    )
+  }
+
+  const renderBody = () => {
+    if (error) {
+      return (
+        <TableRow>
+          <TableCell colSpan={columnCount}>
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <TriangleAlert />
+                </EmptyMedia>
+                <EmptyTitle>โหลดข้อมูลไม่สำเร็จ</EmptyTitle>
+                <EmptyDescription>{error}</EmptyDescription>
+              </EmptyHeader>
+              {onRetry && (
+                <Button variant="outline" onClick={onRetry}>
+                  ลองอีกครั้ง
+                </Button>
+              )}
+            </Empty>
+          </TableCell>
+        </TableRow>
+      )
+    }
+
+    if (isLoading && pageRows.length === 0) {
+      return Array.from({ length: SKELETON_ROWS }, (_, index) => (
+        <TableRow key={index}>
+          {Array.from({ length: columnCount }, (_, cell) => (
+            <TableCell key={cell}>
+              <Skeleton className="h-4 w-full" />
+            </TableCell>
+          ))}
+        </TableRow>
+      ))
+    }
+
+    if (pageRows.length === 0) {
+      return (
+        <TableRow>
+          <TableCell colSpan={columnCount}>
+            <Empty>
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <Inbox />
+                </EmptyMedia>
+                <EmptyTitle>{emptyMessage}</EmptyTitle>
+              </EmptyHeader>
+            </Empty>
+          </TableCell>
+        </TableRow>
+      )
+    }
+
+    return pageRows.map((row) => {
+      const id = getRowId(row)
+      const isSelected = selectedIds.includes(id)
+      return (
+        <TableRow
+          key={id}
+          data-state={isSelected ? "selected" : undefined}
+          className={cn(onRowClick && "cursor-pointer", rowClassName?.(row))}
+          onClick={onRowClick ? () => onRowClick(row) : undefined}
+        >
+          {bulkActions && (
+            <TableCell onClick={(event) => event.stopPropagation()}>
+              <Checkbox
+                checked={isSelected}
+                onCheckedChange={(checked) => toggleRow(id, checked === true)}
+                aria-label="เลือกแถว"
+              />
+            </TableCell>
+          )}
+          {visibleColumns.map((column) => (
+            <TableCell key={column.id} className={column.className}>
+              {column.cell(row)}
+            </TableCell>
+          ))}
+        </TableRow>
+      )
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {bulkActions && selectedRows.length > 0 && (
+            <>
+              <span className="text-sm text-muted-foreground">เลือก {selectedRows.length} รายการ</span>
+              {bulkActions(selectedRows, clearSelection)}
+            </>
+          )}
+          {toolbar}
+        </div>
+        {hideableColumns.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="ml-auto gap-2">
+                <Columns3 className="h-4 w-4" />
+                คอลัมน์
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>แสดงคอลัมน์</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {hideableColumns.map((column) => (
+                <DropdownMenuCheckboxItem
+                  key={column.id}
+                  checked={!hidden.includes(column.id)}
+                  onCheckedChange={(checked) => toggle(column.id, checked === true)}
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  {column.header}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      <Table containerClassName="max-h-[70vh] overflow-y-auto rounded-md border">
+        <TableHeader className="sticky top-0 z-10 bg-background">
+          <TableRow>
+            {bulkActions && (
+              <TableHead className="w-8">
+                <Checkbox
+                  checked={allSelected ? true : selectedRows.length > 0 ? "indeterminate" : false}
+                  onCheckedChange={(checked) => setSelectedIds(checked === true ? pageIds : [])}
+                  aria-label="เลือกทั้งหมด"
+                />
+              </TableHead>
+            )}
+            {visibleColumns.map((column) => (
+              <TableHead key={column.id} className={column.headerClassName}>
+                {column.sortField || column.sortValue ? (
+                  <button
+                    type="button"
+                    className="inline-flex items-center gap-1 hover:text-foreground/80"
+                    onClick={(event) => handleSort(column, event)}
+                    title="คลิกเพื่อเรียง (Shift+คลิกเพื่อเรียงหลายคอลัมน์)"
+                  >
+                    {column.header}
+                    {renderSortIcon(column)}
+                  </button>
+                ) : (
+                  column.header
+                )}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody aria-busy={isLoading} className={cn(isLoading && pageRows.length > 0 && "opacity-60")}>
+          {renderBody()}
+        </TableBody>
+      </Table>
+
+      {pager.pageCount > 1 && (
+        <div className="flex flex-col items-center justify-between gap-2 text-sm text-muted-foreground md:flex-row">
+          <span>
+            หน้า {pager.page} จาก {pager.pageCount} (ทั้งหมด {pager.total.toLocaleString()} รายการ)
+          </span>
+          <Pagination className="mx-0 w-auto">
+            <PaginationContent>
+              <PaginationItem>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isLoading || pager.page <= 1}
+                  onClick={() => pager.onPageChange(pager.page - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  ก่อนหน้า
+                </Button>
+              </PaginationItem>
+              {pageWindow(pager.page, pager.pageCount).map((entry, index) => (
+                <PaginationItem key={entry === "gap" ? `gap-${index}` : entry}>
+                  {entry === "gap" ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={entry === pager.page}
+                      onClick={(event) => {
+                        event.preventDefault()
+                        if (!isLoading) pager.onPageChange(entry)
+                      }}
+                    >
+                      {entry}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isLoading || pager.page >= pager.pageCount}
+                  onClick={() => pager.onPageChange(pager.page + 1)}
+                >
+                  ถัดไป
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        </div>
+      )}
+    </div>
+  )
+}
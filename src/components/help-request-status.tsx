@@ -0,0 +1,80 @@
+import { Badge } from "@/components/ui/badge"
+import type { ApplicationStatus, CancellationReason, HelpRequest, HelpRequestStatus, UnmatchReason } from "@/domain"
+
+// Labels and colours for help request and application states, shared by the list and detail pages
+
+export const helpRequestStatusLabels: Record<HelpRequestStatus, string> = {
+  open: "รอการจับคู่",
+  matched: "จับคู่แล้ว",
+  accepted: "ผู้ให้บริการตอบรับ",
+  in_progress: "กำลังดำเนินการ",
+  completed: "เสร็จสิ้น รอโอนเครดิต",
+  settled: "โอนเครดิตแล้ว",
+  cancelled: "ยกเลิก",
+  expired: "หมดอายุ",
+}
+
+export const helpRequestStatusStyles: Record<HelpRequestStatus, string> = {
+  open: "bg-yellow-100 text-yellow-700 hover:bg-yellow-100",
+  matched: "bg-blue-100 text-blue-700 hover:bg-blue-100",
+  accepted: "bg-indigo-100 text-indigo-700 hover:bg-indigo-100",
+  in_progress: "bg-purple-100 text-purple-700 hover:bg-purple-100",
+  completed: "bg-amber-100 text-amber-700 hover:bg-amber-100",
+  settled: "bg-green-100 text-green-700 hover:bg-green-100",
+  cancelled: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+  expired: "bg-gray-100 text-gray-500 hover:bg-gray-100",
+}
+
+const helpRequestBorders: Record<HelpRequestStatus, string> = {
+  open: "border-l-yellow-500",
+  matched: "border-l-blue-500",
+  accepted: "border-l-indigo-500",
+  in_progress: "border-l-purple-500",
+  completed: "border-l-amber-500",
+  settled: "border-l-green-500",
+  cancelled: "border-l-gray-300",
+  expired: "border-l-gray-300",
+}
+
+// Urgent requests still waiting for a provider stand out in red
+export function helpRequestBorder(request: HelpRequest) {
+  return request.urgent && request.status === "open" ? "border-l-red-500" : helpRequestBorders[request.status]
+}
+
+export const cancellationReasonLabels: Record<CancellationReason, string> = {
+  duplicate: "คำขอซ้ำ",
+  requester_withdrew: "ผู้ขอถอนคำขอ",
+  unsafe: "ไม่ปลอดภัย",
+  no_provider_available: "ไม่มีผู้ให้บริการ",
+}
+
+export const unmatchReasonLabels: Record<UnmatchReason, string> = {
+  provider_unavailable: "ผู้ให้บริการไม่สะดวก",
+  requester_complaint: "ผู้ขอร้องเรียน",
+  safety_concern: "ความปลอดภัย",
+}
+
+export const applicationStatusLabels: Record<ApplicationStatus, string> = {
+  pending: "รอพิจารณา",
+  accepted: "ตอบรับแล้ว",
+  rejected: "ถูกปฏิเสธ",
+  complete: "เสร็จสิ้น",
+  cancelled: "ยกเลิก",
+}
+
+export function HelpRequestStatusBadge({ request }: { request: HelpRequest }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      <Badge className={helpRequestStatusStyles[request.status]}>{helpRequestStatusLabels[request.status]}</Badge>
+      {request.urgent && request.status === "open" && <Badge variant="destructive">ด่วน</Badge>}
+    </div>
+  )
+}
+
+export function ApplicationStatusBadge({ status }: { status: ApplicationStatus }) {
+  return (
+    <Badge variant={status === "complete" ? "default" : status === "pending" ? "outline" : "destructive"}>
+      {applicationStatusLabels[status]}
+    </Badge>
+  )
+}
@@ -1,11 +1,11 @@
 ﻿'use client'
 
+import Link from "next/link"
 import { motion, type Variants } from "framer-motion"
 import { useMemo, useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table"
 import {
   Dialog,
   DialogContent,
@@ -14,90 +14,103 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/hooks/use-toast"
-import { help_requests } from "@/data/help-requests"
+import { usePermission } from "@/components/session-provider"
+import { DataTable, type DataTableColumn } from "@/components/data-table"
+import { SavedViewTabs } from "@/components/saved-view-tabs"
+import { StatCard } from "@/components/stat-card"
+import { CancelHelpRequestDialog } from "@/components/cancel-help-request-dialog"
+import { LinkHelpRequestSelect } from "@/components/link-help-request-select"
+import { JobMap } from "@/components/job-map"
+import { ReassignMatchDialog, UnmatchDialog } from "@/components/match-action-dialogs"
+import {
+  ApplicationStatusBadge,
+  HelpRequestStatusBadge,
+  applicationStatusLabels,
+  helpRequestBorder,
+  helpRequestStatusLabels,
+} from "@/components/help-request-status"
 import {
+  applicationStatusSchema,
+  nextHelpRequestStatuses,
+  toSortParam,
+  type Application,
+  type HelpRequest,
+  type HelpRequestStatus,
+  type HelpRequestTransition,
+  type Job,
+  type Match,
+  type Member,
+  type SkilledUser,
+  type SortKey,
+} from "@/domain"
+import { adminApi, describeApiError, fetchAllPages, isAbortError } from "@/lib/admin-api"
+import { formatDateTime, formatHours } from "@/lib/format"
+import { computeJobKpis, liveApplications, MATCH_OVERDUE_HOURS, waitingJobs } from "@/lib/job-kpis"
+import { distanceKm, parsePoint, type GeoPoint } from "@/lib/geo"
+import { useServerList } from "@/hooks/use-server-list"
+import { useFilterDraft, useUrlFilters, type FilterValues } from "@/hooks/use-url-filters"
+import {
+  AlarmClock,
+  Briefcase,
   CheckCircle2,
-  Eye,
+  ChevronDown,
+  ClipboardList,
+  Hourglass,
+  LocateFixed,
+  Search,
+  Timer,
   Users,
 } from "lucide-react"
 
-interface HelpRequest {
-  id: number
-  requester: {
-    name: string
-    age: number
-    credits: number
-    category: string
-  }
-  detail: {
-    title: string
-    duration: number
-  }
-  location: {
-    city: string
-    district: string
-  }
-  date: string
-  time: string
-  status: string
-  borderColor: string
+// Button text for moving a request into each state
+const transitionLabels: Record<HelpRequestStatus, string> = {
+  open: "ส่งกลับไปรอจับคู่",
+  matched: "จับคู่ทันที",
+  accepted: "ผู้ให้บริการตอบรับ",
+  in_progress: "เริ่มงาน",
+  completed: "งานเสร็จสิ้น",
+  settled: "โอนเครดิต",
+  cancelled: "ยกเลิกคำขอ",
+  expired: "ปิดเป็นหมดอายุ",
 }
 
-interface Provider {
-  id: string;
-  name: string;
-  skills: string;
-  credits: string;
-}
+const radiusOptions = ["5", "10", "25", "50"]
 
-interface Job {
-  id: number
-  title: string
-  description: string
-  required_skills: string[]
-  location_lat: number
-  location_lon: number
-  time_balance_hours: string
-  broadcasted: boolean
-  created_at: string
-  creator_user_id: number
-  creator_email: string
-  creator_first_name: string
-  creator_last_name: string
-}
+const postingFilterDefaults = { q: "", skills: "", status: "all", from: "", to: "", lat: "", lon: "", radius: "any" }
 
-interface Application {
-  id: number
-  status: string
-  applied_at: string
-  job_id: number
-  title: string
-  description: string
-  required_skills: string[]
-  location_lat: number
-  location_lon: number
-  employer_name: string
-  employer_email: string
-  employer_phone: string
-}
+type PostingFilters = FilterValues<keyof typeof postingFilterDefaults>
 
-interface SkilledUser {
-  id: number
-  first_name: string
-  last_name: string
-  email: string
-  skills: string[]
-  current_lat: number
-  current_lon: number
-  distance_km: number
-}
+// Fields jobs and applications share; `people` is who posted it (creator or employer)
+type Posting = Pick<Job, "title" | "description" | "required_skills" | "location_lat" | "location_lon">
+
+function matchesPostingFilters(posting: Posting, people: string[], createdAt: string, filters: PostingFilters, point: GeoPoint | null) {
+  const q = filters.q.trim().toLowerCase()
+  if (q && ![posting.title, posting.description, ...people].some((text) => text.toLowerCase().includes(q))) return false
+
+  // Every chosen skill must be required
+  const skills = filters.skills ? filters.skills.split(",") : []
+  if (!skills.every((skill) => posting.required_skills.includes(skill))) return false
 
-const mockProviders: Provider[] = [
-  { id: "PROV-001", name: "อาสา ใจดี", skills: "ดูแลผู้สูงอายุ, ทำอาหาร", credits: "150 ชม." },
-  { id: "PROV-002", name: "อาสา บำเพ็ญประโยชน์", skills: "ทำสวน, ซ่อมแซมเล็กน้อย", credits: "250 ชม." },
-  { id: "PROV-003", name: "อาสา พัฒนา", skills: "สอนหนังสือ, ขับรถ", credits: "80 ชม." },
-];
+  const day = createdAt.slice(0, 10)
+  if ((filters.from && day < filters.from) || (filters.to && day > filters.to)) return false
+
+  if (point && filters.radius !== "any") {
+    return distanceKm(point, { lat: posting.location_lat, lon: posting.location_lon }) <= Number(filters.radius)
+  }
+  return true
+}
 
 const containerVariants: Variants = {
   hidden: { opacity: 0 },
@@ -125,23 +138,40 @@ const itemVariants: Variants = {
 
 export function HelpRequestsView() {
   const { toast } = useToast()
-  const [searchQuery] = useState("")
-  const [categoryFilter] = useState("all")
-  const [statusFilter] = useState("all")
+  const canMatch = usePermission("matches:create")
+  const canManage = usePermission("help-requests:manage")
+  const { filters, activeFilters, setFilters, replaceFilters } = useUrlFilters(postingFilterDefaults)
+  const [search, setSearch] = useFilterDraft(filters.q, (q) => setFilters({ q }))
+  const [latDraft, setLatDraft] = useFilterDraft(filters.lat, (lat) => setFilters({ lat }))
+  const [lonDraft, setLonDraft] = useFilterDraft(filters.lon, (lon) => setFilters({ lon }))
+  const [page, setPage] = useState(1)
+  const [sort, setSort] = useState<SortKey[]>([{ field: "date", direction: "desc" }])
   const [selectedRequest, setSelectedRequest] = useState<HelpRequest | null>(null)
   const [isDetailsOpen, setIsDetailsOpen] = useState(false)
-  const [providers, setProviders] = useState<Provider[]>([])
+  const [transitionNote, setTransitionNote] = useState("")
+  const [isTransitioning, setIsTransitioning] = useState(false)
+  const [providers, setProviders] = useState<Member[]>([])
   const [isFetchingProviders, setIsFetchingProviders] = useState(false)
   const [selectedProviderId, setSelectedProviderId] = useState<string | null>(null)
+  // Every upstream job; the jobs table only shows those nobody has applied to yet
   const [jobs, setJobs] = useState<Job[]>([])
+  const [jobsReloadKey, setJobsReloadKey] = useState(0)
   const [isLoadingJobs, setIsLoadingJobs] = useState(false)
   const [jobsError, setJobsError] = useState<string | null>(null)
   const [applications, setApplications] = useState<Application[]>([])
+  // Matches made from the panel, ended ones included
+  const [matches, setMatches] = useState<Match[]>([])
+  const [unmatchTarget, setUnmatchTarget] = useState<Match | null>(null)
+  const [reassignTarget, setReassignTarget] = useState<Match | null>(null)
   const [selectedJob, setSelectedJob] = useState<Job | null>(null)
   const [isJobOpen, setIsJobOpen] = useState(false)
   const [isMatching, setIsMatching] = useState(false)
   const [selectedApp, setSelectedApp] = useState<Application | null>(null)
   const [isAppOpen, setIsAppOpen] = useState(false)
+  // The local help request behind the open application's job, if one was linked
+  const [linkedRequest, setLinkedRequest] = useState<HelpRequest | null>(null)
+  const [isLinkedRequestLoading, setIsLinkedRequestLoading] = useState(false)
+  const [cancelTarget, setCancelTarget] = useState<HelpRequest | null>(null)
   const [skilledUsers, setSkilledUsers] = useState<SkilledUser[]>([])
   const [isFetchingSkilledUsers, setIsFetchingSkilledUsers] = useState(false)
   const [selectedSkilledUserId, setSelectedSkilledUserId] = useState<number | null>(null)
@@ -149,7 +179,7 @@ export function HelpRequestsView() {
   const [appsError, setAppsError] = useState<string | null>(null)
 
   useEffect(() => {
-    let mounted = true
+    const controller = new AbortController()
 
     const fetchAll = async () => {
       setIsLoadingJobs(true)
@@ -157,44 +187,22 @@ export function HelpRequestsView() {
       setIsLoadingApps(true)
       setAppsError(null)
 
-      const token = typeof window !== 'undefined'
-        ? localStorage.getItem('accessToken') || (process.env.NEXT_PUBLIC_ADMIN_ACCESS_TOKEN as string | undefined)
-        : undefined
-
-      const base = (process.env.NEXT_PUBLIC_API_BASE || process.env.NEXT_PUBLIC_API_URL || '')
-      const jobsUrl = `${base}/api/admin/jobs`
-      const appsUrl = `${base}/api/jobapp`
-
       try {
-        const [jobsRes, appsRes] = await Promise.all([
-          fetch(jobsUrl, { headers: token ? { Authorization: `Bearer ${token}` } : undefined }),
-          fetch(appsUrl, { headers: token ? { Authorization: `Bearer ${token}` } : undefined }),
+        const [fetchedJobs, fetchedApps, fetchedMatches] = await Promise.all([
+          adminApi.jobs.list({ signal: controller.signal }),
+          adminApi.applications.list({ signal: controller.signal }),
+          fetchAllPages(adminApi.matches.list, {}, { signal: controller.signal }),
         ])
 
-        if (!jobsRes.ok) throw new Error(`Jobs HTTP ${jobsRes.status}`)
-        if (!appsRes.ok) throw new Error(`Applications HTTP ${appsRes.status}`)
-
-        const jobsData = await jobsRes.json()
-        const appsData = await appsRes.json()
-
-        const fetchedJobs: Job[] = Array.isArray(jobsData.jobs) ? jobsData.jobs : []
-        const fetchedApps: Application[] = Array.isArray(appsData.applications) ? appsData.applications : []
-
-        // Filter out jobs that already have applications (by job_id)
-        const appliedJobIds = new Set<number>(fetchedApps.map((a) => a.job_id))
-        const filteredJobs = fetchedJobs.filter((j) => !appliedJobIds.has(j.id))
-
-        if (mounted) {
-          setJobs(filteredJobs)
-          setApplications(fetchedApps)
-        }
-      } catch (err: any) {
-        if (mounted) {
-          setJobsError(err?.message ?? 'Failed to fetch jobs')
-          setAppsError(err?.message ?? 'Failed to fetch applications')
-        }
+        setJobs(fetchedJobs)
+        setApplications(fetchedApps)
+        setMatches(fetchedMatches)
+      } catch (err) {
+        if (isAbortError(err)) return
+        setJobsError(describeApiError(err, 'Failed to fetch jobs'))
+        setAppsError(describeApiError(err, 'Failed to fetch applications'))
       } finally {
-        if (mounted) {
+        if (!controller.signal.aborted) {
           setIsLoadingJobs(false)
           setIsLoadingApps(false)
         }
@@ -202,92 +210,323 @@ export function HelpRequestsView() {
     }
 
     fetchAll()
-    return () => { mounted = false }
-  }, [])
+    return () => controller.abort()
+  }, [jobsReloadKey])
+
+  const activeMatches = useMemo(() => matches.filter((m) => m.status === "active"), [matches])
 
-  const filteredRequests = useMemo(() => {
-    const normalizedQuery = searchQuery.trim().toLowerCase()
+  // Undone matches put their job back in the queue
+  const currentApplications = useMemo(() => liveApplications(applications, matches), [applications, matches])
 
-    return help_requests.filter((request) => {
-      const matchesSearch =
-        !normalizedQuery ||
-        request.requester.name.toLowerCase().includes(normalizedQuery) ||
-        request.detail.title.toLowerCase().includes(normalizedQuery)
+  const kpis = useMemo(() => computeJobKpis(jobs, currentApplications), [jobs, currentApplications])
 
-      const matchesCategory =
-        categoryFilter === "all" ||
-        request.requester.category.toLowerCase().includes(categoryFilter.toLowerCase())
+  const queuedJobs = useMemo(() => waitingJobs(jobs, currentApplications), [jobs, currentApplications])
 
-      const matchesStatus = statusFilter === "all" || request.status === statusFilter
+  const {
+    list: requestList,
+    isLoading: isLoadingRequests,
+    error: requestsError,
+    reload: reloadRequests,
+    setItems: setRequests,
+  } = useServerList(adminApi.helpRequests.list, { page, sort: toSortParam(sort) })
 
-      return matchesSearch && matchesCategory && matchesStatus
-    })
-  }, [searchQuery, categoryFilter, statusFilter])
+  const point = parsePoint(filters.lat, filters.lon)
+  const selectedSkills = filters.skills ? filters.skills.split(",") : []
+
+  const skillOptions = useMemo(
+    () => [...new Set([...jobs, ...applications].flatMap((posting) => posting.required_skills))].sort((a, b) => a.localeCompare(b, "th")),
+    [jobs, applications],
+  )
+
+  const filteredJobs = queuedJobs.filter((job) =>
+    matchesPostingFilters(job, [`${job.creator_first_name} ${job.creator_last_name}`, job.creator_email], job.created_at, filters, point),
+  )
+
+  const filteredApplications = applications.filter(
+    (app) =>
+      (filters.status === "all" || app.status === filters.status) &&
+      matchesPostingFilters(app, [app.employer_name, app.employer_email], app.applied_at, filters, point),
+  )
+
+  const toggleSkill = (skill: string, checked: boolean) => {
+    const next = checked ? [...selectedSkills, skill] : selectedSkills.filter((s) => s !== skill)
+    setFilters({ skills: next.join(",") })
+  }
+
+  const handleLocateMe = () => {
+    if (!navigator.geolocation) {
+      toast({ title: "เบราว์เซอร์ไม่รองรับการระบุตำแหน่ง", variant: "destructive" })
+      return
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) =>
+        setFilters({
+          lat: coords.latitude.toFixed(5),
+          lon: coords.longitude.toFixed(5),
+          radius: filters.radius === "any" ? "10" : filters.radius,
+        }),
+      () => toast({ title: "ไม่สามารถระบุตำแหน่งได้", variant: "destructive" }),
+    )
+  }
+
+  const distanceColumn = <T extends Posting>(): DataTableColumn<T>[] =>
+    point
+      ? [
+          {
+            id: "distance",
+            header: "ระยะทาง",
+            sortValue: (posting) => distanceKm(point, { lat: posting.location_lat, lon: posting.location_lon }),
+            cell: (posting) => `${distanceKm(point, { lat: posting.location_lat, lon: posting.location_lon }).toFixed(1)} กม.`,
+          },
+        ]
+      : []
 
   const openDetails = (request: HelpRequest) => {
     setSelectedRequest(request)
     setIsDetailsOpen(true)
-    // Reset and fetch providers
+    setTransitionNote("")
     setSelectedProviderId(null)
     setProviders([])
-    loadProviders()
+    if (request.status === "open") loadProviders(request)
   }
 
-  const loadProviders = () => {
-    setIsFetchingProviders(true);
-    setTimeout(() => {
-      setProviders(mockProviders);
-      setIsFetchingProviders(false);
-    }, 1000);
-  };
+  // Any usable member other than the requester can take the request
+  const loadProviders = async (request: HelpRequest) => {
+    setIsFetchingProviders(true)
+    try {
+      const members = await fetchAllPages(adminApi.members.list, {})
+      setProviders(members.filter((m) => m.status !== "inactive" && m.id !== request.requesterId))
+    } catch (err) {
+      toast({ title: "โหลดรายชื่อผู้ให้บริการไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsFetchingProviders(false)
+    }
+  }
 
   const loadSkilledUsers = async (jobId: number) => {
     setIsFetchingSkilledUsers(true)
     setSelectedSkilledUserId(null)
     setSkilledUsers([])
     try {
-      const token = typeof window !== 'undefined'
-        ? localStorage.getItem('accessToken') || (process.env.NEXT_PUBLIC_ADMIN_ACCESS_TOKEN as string | undefined)
-        : undefined
-      const base = (process.env.NEXT_PUBLIC_API_BASE || process.env.NEXT_PUBLIC_API_URL || '')
-      const url = `${base}/api/admin/jobs/${jobId}/skilled-users`
-      const res = await fetch(url, { headers: token ? { Authorization: `Bearer ${token}` } : undefined })
-      if (!res.ok) throw new Error(`HTTP ${res.status}`)
-      const data = await res.json()
-      setSkilledUsers(Array.isArray(data.users) ? data.users : [])
-    } catch (err) {
+      setSkilledUsers(await adminApi.jobs.skilledUsers(jobId))
+    } catch {
       setSkilledUsers([])
     } finally {
       setIsFetchingSkilledUsers(false)
     }
   }
 
-  const handleProceedToMatch = () => {
-    if (!selectedProviderId) {
+  const openJob = (job: Job) => {
+    setSelectedJob(job)
+    setIsJobOpen(true)
+    loadSkilledUsers(job.id)
+  }
+
+  // Picking a pin on the map selects the job without opening the dialog, so a provider can be chosen on the map first
+  const focusJob = (job: Job) => {
+    if (job.id === selectedJob?.id) return
+    setSelectedJob(job)
+    loadSkilledUsers(job.id)
+  }
+
+  const openApplication = (app: Application) => {
+    setSelectedApp(app)
+    setIsAppOpen(true)
+    setLinkedRequest(null)
+    setIsLinkedRequestLoading(true)
+    adminApi.helpRequests
+      .list({ job: String(app.job_id), pageSize: 1 })
+      .then((page) => setLinkedRequest(page.items[0] ?? null))
+      .catch(() => setLinkedRequest(null))
+      .finally(() => setIsLinkedRequestLoading(false))
+  }
+
+  // A request linked from the application dialog is now the one its cancel button acts on
+  const handleLinked = (updated: HelpRequest) => {
+    setLinkedRequest(updated)
+    setRequests((current) => current.map((r) => (r.id === updated.id ? updated : r)))
+  }
+
+  const handleCancelled = (updated: HelpRequest) => {
+    setRequests((current) => current.map((r) => (r.id === updated.id ? updated : r)))
+    if (selectedRequest?.id === updated.id) setSelectedRequest(updated)
+    if (linkedRequest?.id === updated.id) setLinkedRequest(updated)
+  }
+
+  // Ending a match can reopen the job and its help request, so both lists are refetched
+  const handleMatchEnded = () => {
+    setJobsReloadKey((key) => key + 1)
+    reloadRequests()
+  }
+
+  const isCancellable = (request: HelpRequest | null) =>
+    !!request && nextHelpRequestStatuses(request.status).includes("cancelled")
+
+  const requestColumns: DataTableColumn<HelpRequest>[] = [
+    { id: "id", header: "ID", sortField: "id", cell: (r) => r.id },
+    {
+      id: "requester",
+      header: "ผู้ขอ",
+      hideable: false,
+      cell: (r) => (
+        <>
+          <p className="font-medium">{r.requester.name}</p>
+          <p className="text-xs text-muted-foreground">{r.requester.category}</p>
+        </>
+      ),
+    },
+    { id: "title", header: "รายละเอียด", className: "max-w-[300px] truncate", cell: (r) => r.detail.title },
+    { id: "duration", header: "เวลา", sortField: "duration", cell: (r) => formatHours(r.detail.duration) },
+    { id: "location", header: "สถานที่", cell: (r) => `${r.location.city}, ${r.location.district}` },
+    { id: "provider", header: "ผู้ให้บริการ", cell: (r) => r.providerName ?? "-" },
+    { id: "date", header: "วันที่ขอ", sortField: "date", cell: (r) => formatDateTime(r.requestedAt) },
+    { id: "status", header: "สถานะ", sortField: "status", cell: (r) => <HelpRequestStatusBadge request={r} /> },
+  ]
+
+  const jobColumns: DataTableColumn<Job>[] = [
+    { id: "id", header: "ID", sortValue: (job) => job.id, cell: (job) => job.id },
+    {
+      id: "title",
+      header: "หัวข้อ",
+      hideable: false,
+      sortValue: (job) => job.title,
+      cell: (job) => <span className="underline">{job.title}</span>,
+    },
+    { id: "description", header: "คำอธิบาย", className: "max-w-[300px] truncate", cell: (job) => job.description },
+    { id: "skills", header: "ทักษะที่ต้องการ", cell: (job) => job.required_skills.join(', ') },
+    { id: "location", header: "ตำแหน่ง (lat, lon)", hiddenByDefault: true, cell: (job) => `${job.location_lat}, ${job.location_lon}` },
+    ...distanceColumn<Job>(),
+    { id: "hours", header: "เครดิต (ชม.)", sortValue: (job) => job.time_balance_hours, cell: (job) => job.time_balance_hours },
+    {
+      id: "creator",
+      header: "สร้างโดย",
+      sortValue: (job) => `${job.creator_first_name} ${job.creator_last_name}`,
+      cell: (job) => `${job.creator_first_name} ${job.creator_last_name} (${job.creator_email})`,
+    },
+    {
+      id: "created_at",
+      header: "วันที่สร้าง",
+      sortValue: (job) => job.created_at,
+      cell: (job) => new Date(job.created_at).toLocaleString(),
+    },
+  ]
+
+  const matchColumns: DataTableColumn<Match>[] = [
+    {
+      id: "job",
+      header: "งาน",
+      hideable: false,
+      sortValue: (m) => m.jobTitle ?? "",
+      cell: (m) => (
+        <>
+          <p className="font-medium">{m.jobTitle ?? `งาน #${m.jobId}`}</p>
+          <p className="text-xs text-muted-foreground">#{m.jobId}</p>
+        </>
+      ),
+    },
+    { id: "requester", header: "ผู้ขอ", sortValue: (m) => m.requesterName ?? "", cell: (m) => m.requesterName ?? "-" },
+    {
+      id: "provider",
+      header: "ผู้ให้บริการ",
+      sortValue: (m) => m.providerName ?? "",
+      cell: (m) => m.providerName ?? `ผู้ใช้ #${m.providerId}`,
+    },
+    { id: "reason", header: "เหตุผล", className: "max-w-[240px] truncate", cell: (m) => m.reason },
+    { id: "created_at", header: "จับคู่เมื่อ", sortValue: (m) => m.createdAt, cell: (m) => formatDateTime(m.createdAt) },
+    { id: "created_by", header: "โดย", hiddenByDefault: true, cell: (m) => m.createdBy },
+    {
+      id: "actions",
+      header: "",
+      hideable: false,
+      cell: (m) =>
+        canMatch && (
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={() => setReassignTarget(m)}>
+              เปลี่ยนผู้ให้บริการ
+            </Button>
+            <Button size="sm" variant="destructive" onClick={() => setUnmatchTarget(m)}>
+              ยกเลิกการจับคู่
+            </Button>
+          </div>
+        ),
+    },
+  ]
+
+  const applicationColumns: DataTableColumn<Application>[] = [
+    { id: "id", header: "ID", sortValue: (app) => app.id, cell: (app) => app.id },
+    {
+      id: "status",
+      header: "สถานะ",
+      sortValue: (app) => app.status,
+      cell: (app) => (
+<ApplicationStatusBadge status={app.status} />
+      ),
+    },
+    {
+      id: "applied_at",
+      header: "วันที่สมัคร",
+      sortValue: (app) => app.applied_at,
+      cell: (app) => new Date(app.applied_at).toLocaleString(),
+    },
+    { id: "job_id", header: "Job ID", sortValue: (app) => app.job_id, cell: (app) => app.job_id },
+    {
+      id: "title",
+      header: "หัวข้อ",
+      hideable: false,
+      sortValue: (app) => app.title,
+      cell: (app) => <span className="underline">{app.title}</span>,
+    },
+    { id: "description", header: "คำอธิบาย", className: "max-w-[300px] truncate", cell: (app) => app.description },
+    { id: "skills", header: "ทักษะ", cell: (app) => app.required_skills.join(', ') },
+    { id: "location", header: "ตำแหน่ง", hiddenByDefault: true, cell: (app) => `${app.location_lat}, ${app.location_lon}` },
+    ...distanceColumn<Application>(),
+    { id: "employer", header: "นายจ้าง", sortValue: (app) => app.employer_name, cell: (app) => app.employer_name },
+    {
+      id: "contact",
+      header: "ติดต่อ",
+      cell: (app) => (
+        <>
+          {app.employer_email}<br/>{app.employer_phone}
+        </>
+      ),
+    },
+  ]
+
+  // Reopening needs a reason; matching needs a chosen provider. Cancelling goes through its own dialog
+  const canSubmitTransition = (to: HelpRequestStatus) => {
+    if (to === "matched") return canManage && !!selectedProviderId
+    if (to === "open") return canManage && transitionNote.trim() !== ""
+    return canManage
+  }
+
+  const handleTransition = async (to: HelpRequestTransition["to"]) => {
+    if (!selectedRequest) return
+    const note = transitionNote.trim() || undefined
+    setIsTransitioning(true)
+    try {
+      const updated = await adminApi.helpRequests.transition(
+        selectedRequest.id,
+        to === "matched"
+          ? { to, providerId: selectedProviderId ?? "", note }
+          : to === "open"
+            ? { to, note: note ?? "" }
+            : { to, note },
+      )
+      setRequests((current) => current.map((r) => (r.id === updated.id ? updated : r)))
+      setSelectedRequest(updated)
+      setTransitionNote("")
       toast({
-        title: "โปรดเลือกผู้ให้บริการ",
-        description: "คุณต้องเลือกผู้ให้บริการก่อนทำการจับคู่",
-        variant: "destructive",
-      });
-      return;
+        title: "อัปเดตสถานะแล้ว",
+        description:
+          to === "completed" && updated.status === "completed"
+            ? `คำขอของ ${updated.requester.name} เสร็จสิ้น แต่ยังโอนเครดิตไม่ได้ โปรดลองโอนเครดิตอีกครั้งภายหลัง`
+            : `คำขอของ ${updated.requester.name} อยู่ในสถานะ ${helpRequestStatusLabels[updated.status]}`,
+      })
+    } catch (err) {
+      toast({ title: "เปลี่ยนสถานะไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsTransitioning(false)
     }
-    // Mock API call
-    const provider = mockProviders.find(p => p.id === selectedProviderId);
-    toast({
-      title: "จับคู่สำเร็จ",
-      description: `คำขอของ ${selectedRequest?.requester.name} ถูกจับคู่กับ ${provider?.name} แล้ว`,
-      variant: "default",
-    });
-    setIsDetailsOpen(false);
-  };
-
-  const handleCancelClick = () => {
-    // Mock API call
-    toast({
-      title: "ยกเลิกคำขอสำเร็จ",
-      description: `คำขอของ ${selectedRequest?.requester.name} ถูกยกเลิกแล้ว`,
-    });
-    setIsDetailsOpen(false);
   }
 
   return (
@@ -299,63 +538,273 @@ export function HelpRequestsView() {
         </div>
 
         {/* Stats Cards */}
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-          {/* ... stats cards from previous version ... */}
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-5">
+          <StatCard
+            title="งานที่รอจับคู่"
+            value={isLoadingJobs ? "-" : kpis.openJobs}
+            icon={<Briefcase className="h-5 w-5" />}
+            description="งานที่ยังไม่มีผู้สมัคร"
+            className="bg-gradient-to-br from-blue-500 to-blue-600"
+          />
+          <StatCard
+            title={`รอเกิน ${MATCH_OVERDUE_HOURS} ชม.`}
+            value={isLoadingJobs ? "-" : kpis.overdueJobs}
+            icon={<AlarmClock className="h-5 w-5" />}
+            description="งานที่รอจับคู่นานเกินกำหนด"
+            className="bg-gradient-to-br from-red-500 to-red-600"
+          />
+          <StatCard
+            title="ใบสมัคร"
+            value={isLoadingApps ? "-" : applications.length}
+            icon={<ClipboardList className="h-5 w-5" />}
+            description={applicationStatusSchema.options
+              .filter((status) => kpis.applicationsByStatus[status] > 0)
+              .map((status) => `${applicationStatusLabels[status]} ${kpis.applicationsByStatus[status]}`)
+              .join(" • ") || "ยังไม่มีใบสมัคร"}
+            className="bg-gradient-to-br from-purple-500 to-purple-600"
+          />
+          <StatCard
+            title="เวลาเฉลี่ยจนจับคู่"
+            value={kpis.averageHoursToMatch === null ? "-" : formatHours(kpis.averageHoursToMatch)}
+            icon={<Timer className="h-5 w-5" />}
+            description="จากเวลาสร้างงานถึงใบสมัครแรก"
+            className="bg-gradient-to-br from-amber-500 to-amber-600"
+          />
+          <StatCard
+            title="ชั่วโมงที่ขอในสัปดาห์นี้"
+            value={isLoadingJobs ? "-" : formatHours(kpis.hoursRequestedThisWeek)}
+            icon={<Hourglass className="h-5 w-5" />}
+            description="รวมเครดิตของงานที่สร้างตั้งแต่วันจันทร์"
+            className="bg-gradient-to-br from-green-500 to-green-600"
+          />
         </div>
 
         <Card>
           <CardHeader>
-            <CardTitle>ค้นหาและกรองคำขอ</CardTitle>
-            <CardDescription>ค้นหาคำขอและใช้ตัวกรองเพื่อจัดการคำขอได้ง่ายขึ้น</CardDescription>
+            <CardTitle>รายการคำขอทั้งหมด</CardTitle>
+            <CardDescription>ทั้งหมด {requestList?.total ?? 0} รายการ</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DataTable
+              tableId="help-requests"
+              columns={requestColumns}
+              rows={requestList?.items ?? []}
+              getRowId={(r) => String(r.id)}
+              sort={sort}
+              onSortChange={(next) => {
+                setSort(next)
+                setPage(1)
+              }}
+              pagination={requestList ? { ...requestList, onPageChange: setPage } : undefined}
+              onRowClick={openDetails}
+              rowClassName={(r) => `border-l-4 ${helpRequestBorder(r)}`}
+              isLoading={isLoadingRequests}
+              error={requestsError}
+              onRetry={reloadRequests}
+              emptyMessage="ไม่มีคำขอความช่วยเหลือ"
+            />
+          </CardContent>
+        </Card>
+
+        <SavedViewTabs listId="help-requests" activeFilters={activeFilters} onApply={replaceFilters} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>ค้นหาและกรองงาน</CardTitle>
+            <CardDescription>กรองงานและใบสมัครด้วยข้อความ ทักษะ สถานะใบสมัคร ช่วงวันที่ และระยะทางจากจุดที่เลือก</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {/* ... filter controls from previous version ... */}
+            <div className="flex flex-col gap-4 md:flex-row">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                  placeholder="ค้นหาจากหัวข้อ คำอธิบาย หรือผู้สร้างงาน..."
+                  className="pl-10"
+                />
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="justify-between gap-2 md:w-[220px]">
+                    {selectedSkills.length > 0 ? `ทักษะ (${selectedSkills.length})` : "ทุกทักษะ"}
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="max-h-[320px] overflow-y-auto">
+                  <DropdownMenuLabel>ทักษะที่ต้องการ</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {skillOptions.map((skill) => (
+                    <DropdownMenuCheckboxItem
+                      key={skill}
+                      checked={selectedSkills.includes(skill)}
+                      onCheckedChange={(checked) => toggleSkill(skill, checked === true)}
+                      onSelect={(event) => event.preventDefault()}
+                    >
+                      {skill}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                  {skillOptions.length === 0 && <p className="px-2 py-1.5 text-sm text-muted-foreground">ยังไม่มีข้อมูลทักษะ</p>}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Select value={filters.status} onValueChange={(status) => setFilters({ status })}>
+                <SelectTrigger className="md:w-[180px]">
+                  <SelectValue placeholder="สถานะใบสมัคร" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">ใบสมัครทุกสถานะ</SelectItem>
+                  {applicationStatusSchema.options.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {applicationStatusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-4 md:flex-row md:items-center">
+              <Input
+                type="date"
+                value={filters.from}
+                onChange={(event) => setFilters({ from: event.target.value })}
+                className="md:w-[170px]"
+                aria-label="สร้างตั้งแต่วันที่"
+              />
+              <Input
+                type="date"
+                value={filters.to}
+                onChange={(event) => setFilters({ to: event.target.value })}
+                className="md:w-[170px]"
+                aria-label="สร้างถึงวันที่"
+              />
+              <Input
+                inputMode="decimal"
+                value={latDraft}
+                onChange={(event) => setLatDraft(event.target.value)}
+                placeholder="ละติจูด"
+                className="md:w-[140px]"
+              />
+              <Input
+                inputMode="decimal"
+                value={lonDraft}
+                onChange={(event) => setLonDraft(event.target.value)}
+                placeholder="ลองจิจูด"
+                className="md:w-[140px]"
+              />
+              <Button variant="outline" size="icon" onClick={handleLocateMe} aria-label="ใช้ตำแหน่งปัจจุบัน">
+                <LocateFixed className="h-4 w-4" />
+              </Button>
+              <Select value={filters.radius} onValueChange={(radius) => setFilters({ radius })} disabled={!point}>
+                <SelectTrigger className="md:w-[160px]">
+                  <SelectValue placeholder="ระยะทาง" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">ทุกระยะทาง</SelectItem>
+                  {radiusOptions.map((radius) => (
+                    <SelectItem key={radius} value={radius}>
+                      ภายใน {radius} กม.
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader>
-            <CardTitle>รายการคำขอทั้งหมด</CardTitle>
-            <CardDescription>แสดงรายการคำขอความช่วยเหลือทั้งหมดในระบบ</CardDescription>
+            <CardTitle>แผนที่งานและผู้ให้บริการ</CardTitle>
+            <CardDescription>คลิกหมุดงานเพื่อดูผู้ให้บริการที่เสนอพร้อมวงรัศมี แล้วคลิกผู้ให้บริการเพื่อเลือกจับคู่</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            <JobMap
+              className="lg:col-span-2"
+              jobs={filteredJobs}
+              selectedJobId={selectedJob?.id ?? null}
+              onSelectJob={focusJob}
+              providers={skilledUsers}
+              selectedProviderId={selectedSkilledUserId}
+              onSelectProvider={(provider) => setSelectedSkilledUserId(provider.id)}
+            />
+            <div className="space-y-3">
+              {selectedJob ? (
+                <>
+                  <div>
+                    <p className="font-semibold">{selectedJob.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {selectedJob.creator_first_name} {selectedJob.creator_last_name} • {formatDateTime(selectedJob.created_at)}
+                    </p>
+                  </div>
+                  {isFetchingSkilledUsers ? (
+                    <p className="text-sm text-muted-foreground">กำลังโหลดผู้ให้บริการ...</p>
+                  ) : skilledUsers.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">ไม่มีผู้ให้บริการที่ตรงกับทักษะ</p>
+                  ) : (
+                    <div className="max-h-[300px] space-y-2 overflow-y-auto">
+                      {skilledUsers.map((u) => (
+                        <button
+                          key={u.id}
+                          type="button"
+                          onClick={() => setSelectedSkilledUserId(u.id)}
+                          className={`flex w-full items-center justify-between rounded-lg border p-2 text-left text-sm ${selectedSkilledUserId === u.id ? "border-primary bg-muted" : ""}`}
+                        >
+                          <span>
+                            {u.first_name} {u.last_name}
+                          </span>
+                          <span className="text-muted-foreground">{u.distance_km.toFixed(1)} กม.</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <Button className="w-full" disabled={!selectedSkilledUserId} onClick={() => setIsJobOpen(true)}>
+                    ตรวจสอบและจับคู่
+                  </Button>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">ยังไม่ได้เลือกงาน</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>งานจากแอปที่รอการจับคู่</CardTitle>
+            <CardDescription>แสดงงานจาก `/api/jobs` ที่ยังไม่มีผู้สมัคร</CardDescription>
           </CardHeader>
           <CardContent>
             {/* Jobs table fetched from API */}
-            {isLoadingJobs ? (
-              <div className="p-4">กำลังโหลดงาน...</div>
-            ) : jobsError ? (
-              <div className="p-4 text-destructive">เกิดข้อผิดพลาด: {jobsError}</div>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>ID</TableHead>
-                    <TableHead>หัวข้อ</TableHead>
-                    <TableHead>คำอธิบาย</TableHead>
-                    <TableHead>ทักษะที่ต้องการ</TableHead>
-                    <TableHead>ตำแหน่ง (lat, lon)</TableHead>
-                    <TableHead>เครดิต (ชม.)</TableHead>
-                    <TableHead>สร้างโดย</TableHead>
-                    <TableHead>วันที่สร้าง</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {jobs.map((job) => (
-                    <TableRow key={job.id} className="hover:bg-muted/50 cursor-pointer" onClick={() => { setSelectedJob(job); setIsJobOpen(true); loadSkilledUsers(job.id); }}>
-                      <TableCell>{job.id}</TableCell>
-                      <TableCell>
-                        <button className="text-left underline" onClick={(e) => { e.stopPropagation(); setSelectedJob(job); setIsJobOpen(true); loadSkilledUsers(job.id); }}>{job.title}</button>
-                      </TableCell>
-                      <TableCell className="max-w-[300px] truncate">{job.description}</TableCell>
-                      <TableCell>{job.required_skills.join(', ')}</TableCell>
-                      <TableCell>{job.location_lat}, {job.location_lon}</TableCell>
-                      <TableCell>{job.time_balance_hours}</TableCell>
-                      <TableCell>{job.creator_first_name} {job.creator_last_name} ({job.creator_email})</TableCell>
-                      <TableCell>{new Date(job.created_at).toLocaleString()}</TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            )}
+            <DataTable
+              tableId="help-requests-jobs"
+              columns={jobColumns}
+              rows={filteredJobs}
+              getRowId={(job) => String(job.id)}
+              defaultSort={[{ field: "created_at", direction: "desc" }]}
+              onRowClick={openJob}
+              isLoading={isLoadingJobs}
+              error={jobsError}
+              emptyMessage="ไม่มีงานที่รอการจับคู่"
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>การจับคู่ที่ดำเนินอยู่</CardTitle>
+            <CardDescription>
+              การจับคู่ที่ทำจากแผงควบคุม ยกเลิกหรือเปลี่ยนผู้ให้บริการได้พร้อมระบุเหตุผล ประวัติการจับคู่เดิมจะยังถูกเก็บไว้
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DataTable
+              tableId="help-requests-matches"
+              columns={matchColumns}
+              rows={activeMatches}
+              getRowId={(m) => m.id}
+              defaultSort={[{ field: "created_at", direction: "desc" }]}
+              isLoading={isLoadingJobs}
+              error={jobsError}
+              emptyMessage="ไม่มีการจับคู่ที่ดำเนินอยู่"
+            />
           </CardContent>
         </Card>
 
@@ -366,50 +815,17 @@ export function HelpRequestsView() {
             <CardDescription>แสดงใบสมัครจาก `/api/jobapp`</CardDescription>
           </CardHeader>
           <CardContent>
-            {isLoadingApps ? (
-              <div className="p-4">กำลังโหลดใบสมัคร...</div>
-            ) : appsError ? (
-              <div className="p-4 text-destructive">เกิดข้อผิดพลาด: {appsError}</div>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>ID</TableHead>
-                    <TableHead>สถานะ</TableHead>
-                    <TableHead>วันที่สมัคร</TableHead>
-                    <TableHead>Job ID</TableHead>
-                    <TableHead>หัวข้อ</TableHead>
-                    <TableHead>คำอธิบาย</TableHead>
-                    <TableHead>ทักษะ</TableHead>
-                    <TableHead>ตำแหน่ง</TableHead>
-                    <TableHead>นายจ้าง</TableHead>
-                    <TableHead>ติดต่อ</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {applications.map((app) => (
-                    <TableRow key={app.id} className="hover:bg-muted/50 cursor-pointer" onClick={() => { setSelectedApp(app); setIsAppOpen(true); }}>
-                      <TableCell>{app.id}</TableCell>
-                      <TableCell>
-                        <Badge variant={app.status === 'complete' ? 'default' : app.status === 'pending' ? 'outline' : 'destructive'}>
-                          {app.status}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>{new Date(app.applied_at).toLocaleString()}</TableCell>
-                      <TableCell>{app.job_id}</TableCell>
-                      <TableCell>
-                        <button className="text-left underline" onClick={(e) => { e.stopPropagation(); setSelectedApp(app); setIsAppOpen(true); }}>{app.title}</button>
-                      </TableCell>
-                      <TableCell className="max-w-[300px] truncate">{app.description}</TableCell>
-                      <TableCell>{app.required_skills.join(', ')}</TableCell>
-                      <TableCell>{app.location_lat}, {app.location_lon}</TableCell>
-                      <TableCell>{app.employer_name}</TableCell>
-                      <TableCell>{app.employer_email}<br/>{app.employer_phone}</TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            )}
+            <DataTable
+              tableId="help-requests-applications"
+              columns={applicationColumns}
+              rows={filteredApplications}
+              getRowId={(app) => String(app.id)}
+              defaultSort={[{ field: "applied_at", direction: "desc" }]}
+              onRowClick={openApplication}
+              isLoading={isLoadingApps}
+              error={appsError}
+              emptyMessage="ยังไม่มีใบสมัคร"
+            />
           </CardContent>
         </Card>
       </div>
@@ -421,7 +837,17 @@ export function HelpRequestsView() {
             <motion.div variants={itemVariants}>
               <DialogHeader>
                 <DialogTitle className="text-2xl">รายละเอียดงาน</DialogTitle>
-                <DialogDescription>รายละเอียดงานและข้อมูลผู้สร้างงาน</DialogDescription>
+                <DialogDescription>
+                  รายละเอียดงานและข้อมูลผู้สร้างงาน
+                  {selectedJob && (
+                    <>
+                      {" • "}
+                      <Link href={`/help-requests/${selectedJob.id}`} className="underline">
+                        เปิดหน้ารายละเอียดทั้งหมด
+                      </Link>
+                    </>
+                  )}
+                </DialogDescription>
               </DialogHeader>
             </motion.div>
             {selectedJob ? (
@@ -466,37 +892,27 @@ export function HelpRequestsView() {
                     <DialogFooter>
                       <Button
                         variant="default"
-                        disabled={!selectedSkilledUserId || isMatching}
+                        disabled={!canMatch || !selectedSkilledUserId || isMatching}
                         onClick={async () => {
                           if (!selectedJob || !selectedSkilledUserId) return
                           setIsMatching(true)
                           try {
-                            const token = typeof window !== 'undefined'
-                              ? localStorage.getItem('accessToken') || (process.env.NEXT_PUBLIC_ADMIN_ACCESS_TOKEN as string | undefined)
-                              : undefined
-                            const base = (process.env.NEXT_PUBLIC_API_BASE || process.env.NEXT_PUBLIC_API_URL || '')
-                            const url = `${base}/api/admin/matches`
-                            const body = {
-                              job_id: selectedJob.id,
-                              user_id: selectedSkilledUserId,
-                              reason: 'Matched from admin UI'
-                            }
-                            const res = await fetch(url, {
-                              method: 'POST',
-                              headers: {
-                                'Content-Type': 'application/json',
-                                ...(token ? { Authorization: `Bearer ${token}` } : {})
-                              },
-                              body: JSON.stringify(body)
+                            await adminApi.matches.create({
+                              jobId: selectedJob.id,
+                              userId: selectedSkilledUserId,
+                              reason: 'Matched from admin UI',
+                              providerName: (() => {
+                                const provider = skilledUsers.find((u) => u.id === selectedSkilledUserId)
+                                return provider ? `${provider.first_name} ${provider.last_name}` : undefined
+                              })(),
                             })
-                            if (!res.ok) throw new Error(`HTTP ${res.status}`)
-                            // remove matched job from list
-                            setJobs((prev) => prev.filter((j) => j.id !== selectedJob.id))
+                            // The new application moves the job out of the queue and into the KPIs
+                            setJobsReloadKey((key) => key + 1)
                             toast({ title: 'จับคู่สำเร็จ', description: `งาน ${selectedJob.title} ถูกจับคู่กับผู้ให้บริการแล้ว` })
                             setIsJobOpen(false)
                             setSelectedJob(null)
-                          } catch (err: any) {
-                            toast({ title: 'เกิดข้อผิดพลาด', description: err?.message ?? 'ไม่สามารถจับคู่ได้', variant: 'destructive' })
+                          } catch (err) {
+                            toast({ title: 'เกิดข้อผิดพลาด', description: describeApiError(err, 'ไม่สามารถจับคู่ได้'), variant: 'destructive' })
                           } finally {
                             setIsMatching(false)
                           }
@@ -521,7 +937,17 @@ export function HelpRequestsView() {
             <motion.div variants={itemVariants}>
               <DialogHeader>
                 <DialogTitle className="text-2xl">รายละเอียดใบสมัคร</DialogTitle>
-                <DialogDescription>รายละเอียดใบสมัครและข้อมูลนายจ้าง</DialogDescription>
+                <DialogDescription>
+                  รายละเอียดใบสมัครและข้อมูลนายจ้าง
+                  {selectedApp && (
+                    <>
+                      {" • "}
+                      <Link href={`/help-requests/${selectedApp.job_id}`} className="underline">
+                        เปิดหน้างาน #{selectedApp.job_id}
+                      </Link>
+                    </>
+                  )}
+                </DialogDescription>
               </DialogHeader>
             </motion.div>
             {selectedApp ? (
@@ -539,9 +965,31 @@ export function HelpRequestsView() {
                     <p className="text-sm text-muted-foreground">{selectedApp.employer_email}<br/>{selectedApp.employer_phone}</p>
                   </div>
                 </motion.div>
+                <motion.div variants={itemVariants} className="rounded-lg border p-4 space-y-2">
+                  <h4 className="text-md font-semibold">คำขอความช่วยเหลือของงานนี้</h4>
+                  {isLinkedRequestLoading ? (
+                    <p className="text-sm text-muted-foreground">กำลังโหลด...</p>
+                  ) : linkedRequest ? (
+                    <div className="flex items-center justify-between text-sm">
+                      <p>คำขอ #{linkedRequest.id} {linkedRequest.detail.title}</p>
+                      <HelpRequestStatusBadge request={linkedRequest} />
+                    </div>
+                  ) : canManage ? (
+                    <LinkHelpRequestSelect jobId={selectedApp.job_id} onLinked={handleLinked} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">งานนี้ยังไม่มีคำขอความช่วยเหลือที่เชื่อมไว้</p>
+                  )}
+                </motion.div>
                 <motion.div variants={itemVariants}>
                   <DialogFooter>
-                    <Button variant="destructive" onClick={() => { setIsAppOpen(false); setSelectedApp(null); }}>ยกเลิก</Button>
+                    <Button
+                      variant="destructive"
+                      disabled={!canManage || !isCancellable(linkedRequest)}
+                      title={linkedRequest ? undefined : "ผูกคำขอความช่วยเหลือกับงานนี้ก่อนจึงจะยกเลิกได้"}
+                      onClick={() => setCancelTarget(linkedRequest)}
+                    >
+                      ยกเลิกคำขอ
+                    </Button>
                     <Button onClick={() => { setIsAppOpen(false); }}>ปิด</Button>
                   </DialogFooter>
                 </motion.div>
@@ -579,71 +1027,135 @@ export function HelpRequestsView() {
                       <p><strong className="font-medium">รายละเอียด:</strong> {selectedRequest.detail.title}</p>
                       <p><strong className="font-medium">เวลาที่ต้องการ:</strong> {selectedRequest.detail.duration} ชั่วโมง</p>
                       <p><strong className="font-medium">สถานที่:</strong> {selectedRequest.location.city}, {selectedRequest.location.district}</p>
-                      <p><strong className="font-medium">วันที่/เวลา:</strong> {selectedRequest.date} • {selectedRequest.time}</p>
+                      <p><strong className="font-medium">วันที่/เวลา:</strong> {formatDateTime(selectedRequest.requestedAt)}</p>
                     </div>
+                    <HelpRequestStatusBadge request={selectedRequest} />
+                    {selectedRequest.jobId && (
+                      <Link href={`/help-requests/${selectedRequest.jobId}`} className="text-sm underline">
+                        เปิดหน้างาน #{selectedRequest.jobId}
+                      </Link>
+                    )}
+                    {selectedRequest.history.length > 0 && (
+                      <ol className="space-y-1 border-t pt-3 text-xs text-muted-foreground">
+                        {selectedRequest.history.map((entry, index) => (
+                          <li key={index}>
+                            {formatDateTime(entry.at)} • {entry.from ? `${helpRequestStatusLabels[entry.from]} → ` : ""}
+                            {helpRequestStatusLabels[entry.to]} โดย {entry.by}
+                            {entry.note && ` (${entry.note})`}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
                   </div>
                   <div className="rounded-lg border p-4">
-                    <h3 className="text-lg font-semibold mb-4">ข้อมูลผู้ให้บริการที่เสนอ</h3>
-                    {isFetchingProviders ? (
-                      <div className="flex h-full items-center justify-center">
-                        <svg
-                          className="h-6 w-6 animate-spin text-muted-foreground"
-                          xmlns="http://www.w3.org/2000/svg"
-                          fill="none"
-                          viewBox="0 0 24 24"
-                          aria-hidden="true"
-                        >
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"></path>
-                        </svg>
-                      </div>
-                    ) : (
-                      <div className="space-y-2 max-h-[200px] overflow-y-auto pr-2">
-                        {providers.map((provider) => (
-                          <div
-                            key={provider.id}
-                            className={`flex items-center justify-between rounded-lg border p-3 cursor-pointer transition-colors hover:bg-muted/50 ${
-                              selectedProviderId === provider.id ? 'border-primary bg-muted' : ''
-                            }`}
-                            onClick={() => setSelectedProviderId(provider.id)}
-                          >
-                            <div>
-                              <p className="font-medium">{provider.name}</p>
-                              <p className="text-sm text-muted-foreground">{provider.skills}</p>
-                            </div>
-                            <div className="text-right shrink-0">
-                              <p className="font-medium text-sm">{provider.credits}</p>
-                              <Button
-                                variant={selectedProviderId === provider.id ? 'default' : 'outline'}
-                                size="sm"
-                                className="mt-1 h-7 px-2 text-xs"
+                    {selectedRequest.status === "open" ? (
+                      <>
+                        <h3 className="text-lg font-semibold mb-4">ข้อมูลผู้ให้บริการที่เสนอ</h3>
+                        {isFetchingProviders ? (
+                          <div className="flex h-full items-center justify-center">
+                            <svg
+                              className="h-6 w-6 animate-spin text-muted-foreground"
+                              xmlns="http://www.w3.org/2000/svg"
+                              fill="none"
+                              viewBox="0 0 24 24"
+                              aria-hidden="true"
+                            >
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"></path>
+                            </svg>
+                          </div>
+                        ) : (
+                          <div className="space-y-2 max-h-[200px] overflow-y-auto pr-2">
+                            {providers.map((provider) => (
+                              <div
+                                key={provider.id}
+                                className={`flex items-center justify-between rounded-lg border p-3 cursor-pointer transition-colors hover:bg-muted/50 ${
+                                  selectedProviderId === provider.id ? 'border-primary bg-muted' : ''
+                                }`}
+                                onClick={() => setSelectedProviderId(provider.id)}
                               >
-                                เลือก
-                              </Button>
-                            </div>
+                                <div>
+                                  <p className="font-medium">{provider.name}</p>
+                                  <p className="text-sm text-muted-foreground">{provider.skills.join(", ")}</p>
+                                </div>
+                                <div className="text-right shrink-0">
+                                  <p className="font-medium text-sm">{formatHours(provider.credits)}</p>
+                                  <Button
+                                    variant={selectedProviderId === provider.id ? 'default' : 'outline'}
+                                    size="sm"
+                                    className="mt-1 h-7 px-2 text-xs"
+                                  >
+                                    เลือก
+                                  </Button>
+                                </div>
+                              </div>
+                            ))}
+                            {providers.length === 0 && <div className="text-sm text-muted-foreground">ไม่มีสมาชิกที่พร้อมให้บริการ</div>}
                           </div>
-                        ))}
+                        )}
+                      </>
+                    ) : (
+                      <div className="space-y-2 text-sm">
+                        <h3 className="text-lg font-semibold mb-4">ผู้ให้บริการ</h3>
+                        <p>{selectedRequest.providerName ?? "ยังไม่มีผู้ให้บริการ"}</p>
+                        {selectedRequest.settlementTransferId && (
+                          <p className="text-muted-foreground">โอนเครดิตแล้ว ({selectedRequest.settlementTransferId})</p>
+                        )}
                       </div>
                     )}
                   </div>
                 </motion.div>
-                <motion.div variants={itemVariants}>
-                  <DialogFooter className="gap-2">
-                    <Button variant="destructive" onClick={handleCancelClick}>
-                      <Users className="mr-2 h-4 w-4" />
-                      ยกเลิกคำขอ
-                    </Button>
-                    <Button onClick={handleProceedToMatch} disabled={!selectedProviderId}>
-                      <CheckCircle2 className="mr-2 h-4 w-4" />
-                      จับคู่ทันที
-                    </Button>
-                  </DialogFooter>
-                </motion.div>
+                {nextHelpRequestStatuses(selectedRequest.status).length > 0 && canManage && (
+                  <motion.div variants={itemVariants} className="space-y-4">
+                    <Textarea
+                      value={transitionNote}
+                      onChange={(e) => setTransitionNote(e.target.value)}
+                      placeholder="หมายเหตุ (จำเป็นเมื่อส่งกลับไปรอจับคู่)"
+                      rows={2}
+                    />
+                    <DialogFooter className="gap-2">
+                      {nextHelpRequestStatuses(selectedRequest.status).map((to) => (
+                        <Button
+                          key={to}
+                          variant={to === "cancelled" ? "destructive" : to === "open" || to === "expired" ? "outline" : "default"}
+                          disabled={isTransitioning || !canSubmitTransition(to)}
+                          onClick={() => (to === "cancelled" ? setCancelTarget(selectedRequest) : handleTransition(to))}
+                        >
+                          {to === "cancelled" ? <Users className="mr-2 h-4 w-4" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                          {transitionLabels[to]}
+                        </Button>
+                      ))}
+                    </DialogFooter>
+                  </motion.div>
+                )}
               </div>
             )}
           </motion.div>
         </DialogContent>
       </Dialog>
+
+      <CancelHelpRequestDialog
+        request={cancelTarget}
+        onOpenChange={(open) => {
+          if (!open) setCancelTarget(null)
+        }}
+        onCancelled={handleCancelled}
+      />
+      <UnmatchDialog
+        match={unmatchTarget}
+        onOpenChange={(open) => {
+          if (!open) setUnmatchTarget(null)
+        }}
+        onUnmatched={handleMatchEnded}
+      />
+      <ReassignMatchDialog
+        match={reassignTarget}
+        onOpenChange={(open) => {
+          if (!open) setReassignTarget(null)
+        }}
+        onReassigned={handleMatchEnded}
+        onUnassigned={handleMatchEnded}
+      />
     </>
   )
 }
@@ -0,0 +1,352 @@
+'use client'
+
+import Link from "next/link"
+import { useCallback, useEffect, useState } from "react"
+import { ArrowLeft, MapPin, MessageSquarePlus } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import { DataTable, type DataTableColumn } from "@/components/data-table"
+import { ApplicationStatusBadge, HelpRequestStatusBadge, applicationStatusLabels, helpRequestStatusLabels } from "@/components/help-request-status"
+import { LinkHelpRequestSelect } from "@/components/link-help-request-select"
+import { usePermission } from "@/components/session-provider"
+import { useToast } from "@/hooks/use-toast"
+import type { Application, AuditAction, AuditEntry, Job, JobActivity, SkilledUser, Transfer } from "@/domain"
+import { adminApi, describeApiError, isAbortError } from "@/lib/admin-api"
+import { formatDateTime, formatHours } from "@/lib/format"
+
+const auditLabels: Partial<Record<AuditAction, string>> = {
+  "match.create": "จับคู่ผู้ให้บริการ",
+  "match.unmatch": "ยกเลิกการจับคู่",
+  "match.reassign": "เปลี่ยนผู้ให้บริการ",
+}
+
+type TimelineEvent = {
+  key: string
+  at: string
+  kind: string
+  title: string
+  detail?: string | null
+}
+
+// Creation, applications, panel-side matches and help request transitions on one time axis, newest first
+function buildTimeline(job: Job | null, applications: Application[], activity: JobActivity): TimelineEvent[] {
+  const events: TimelineEvent[] = [
+    ...(job ? [{ key: "created", at: job.created_at, kind: "งาน", title: `สร้างงานโดย ${job.creator_first_name} ${job.creator_last_name}` }] : []),
+    ...applications.map((app) => ({
+      key: `app-${app.id}`,
+      at: app.applied_at,
+      kind: "ใบสมัคร",
+      title: `ใบสมัคร #${app.id} (${applicationStatusLabels[app.status]})`,
+    })),
+    ...activity.audit.map((entry: AuditEntry) => ({
+      key: `audit-${entry.id}`,
+      at: entry.createdAt,
+      kind: "การจับคู่",
+      title: `${auditLabels[entry.action] ?? entry.action}${entry.after?.userId ? ` ผู้ใช้ #${entry.after.userId}` : ""} โดย ${entry.actor.email ?? entry.actor.id ?? entry.actor.role}`,
+      detail: entry.reason,
+    })),
+    ...activity.helpRequests.flatMap((request) =>
+      request.history.map((entry, index) => ({
+        key: `hr-${request.id}-${index}`,
+        at: entry.at,
+        kind: "สถานะ",
+        title: `${entry.from ? `${helpRequestStatusLabels[entry.from]} → ` : ""}${helpRequestStatusLabels[entry.to]} โดย ${entry.by}`,
+        detail: entry.note,
+      })),
+    ),
+  ]
+  return events.sort((a, b) => b.at.localeCompare(a.at))
+}
+
+export function JobDetailView({ jobId, initialActivity }: { jobId: number; initialActivity: JobActivity }) {
+  const { toast } = useToast()
+  const canManage = usePermission("help-requests:manage")
+  const [job, setJob] = useState<Job | null>(null)
+  const [applications, setApplications] = useState<Application[]>([])
+  const [skilledUsers, setSkilledUsers] = useState<SkilledUser[]>([])
+  const [activity, setActivity] = useState(initialActivity)
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [note, setNote] = useState("")
+  const [isSavingNote, setIsSavingNote] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const { signal } = controller
+
+    Promise.all([
+      adminApi.jobs.get(jobId, { signal }),
+      adminApi.applications.list({ signal }),
+      // Suggestions are optional; the page still works without them
+      adminApi.jobs.skilledUsers(jobId, { signal }).catch((err) => {
+        if (isAbortError(err)) throw err
+        return []
+      }),
+    ])
+      .then(([fetchedJob, fetchedApps, fetchedUsers]) => {
+        setJob(fetchedJob)
+        setApplications(fetchedApps.filter((app) => app.job_id === jobId))
+        setSkilledUsers(fetchedUsers)
+        setLoadError(fetchedJob ? null : `ไม่พบงาน #${jobId}`)
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setLoadError(describeApiError(err, "ไม่สามารถโหลดข้อมูลงานได้"))
+      })
+      .finally(() => {
+        if (!signal.aborted) setIsLoading(false)
+      })
+    return () => controller.abort()
+  }, [jobId])
+
+  const reloadActivity = useCallback(async () => {
+    try {
+      setActivity(await adminApi.jobs.activity(jobId))
+    } catch (err) {
+      toast({ title: "โหลดประวัติไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    }
+  }, [jobId, toast])
+
+  const handleAddNote = async () => {
+    const body = note.trim()
+    if (!body) return
+    setIsSavingNote(true)
+    try {
+      await adminApi.jobs.addNote(jobId, body)
+      setNote("")
+      await reloadActivity()
+    } catch (err) {
+      toast({ title: "บันทึกหมายเหตุไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsSavingNote(false)
+    }
+  }
+
+  const handleUnlink = async (requestId: number) => {
+    try {
+      await adminApi.helpRequests.linkJob(requestId, null)
+      await reloadActivity()
+    } catch (err) {
+      toast({ title: "ยกเลิกการผูกคำขอไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    }
+  }
+
+  const applicationColumns: DataTableColumn<Application>[] = [
+    { id: "id", header: "ID", sortValue: (app) => app.id, cell: (app) => app.id },
+    { id: "status", header: "สถานะ", sortValue: (app) => app.status, cell: (app) => <ApplicationStatusBadge status={app.status} /> },
+    { id: "applied_at", header: "วันที่สมัคร", sortValue: (app) => app.applied_at, cell: (app) => formatDateTime(app.applied_at) },
+    { id: "employer", header: "นายจ้าง", sortValue: (app) => app.employer_name, cell: (app) => app.employer_name },
+    {
+      id: "contact",
+      header: "ติดต่อ",
+      cell: (app) => (
+        <>
+          {app.employer_email}<br/>{app.employer_phone}
+        </>
+      ),
+    },
+  ]
+
+  const transferColumns: DataTableColumn<Transfer>[] = [
+    { id: "id", header: "ID", cell: (t) => t.id },
+    { id: "parties", header: "ผู้โอน → ผู้รับ", cell: (t) => `${t.sender} → ${t.receiver}` },
+    { id: "amount", header: "จำนวน", sortValue: (t) => t.amount, cell: (t) => formatHours(t.amount) },
+    { id: "date", header: "วันที่", sortValue: (t) => t.createdAt, cell: (t) => formatDateTime(t.createdAt) },
+    { id: "reason", header: "รายละเอียด", className: "max-w-[240px] truncate", cell: (t) => t.reason },
+  ]
+
+  const timeline = buildTimeline(job, applications, activity)
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Button variant="ghost" size="sm" className="gap-2 px-0" asChild>
+          <Link href="/help-requests">
+            <ArrowLeft className="h-4 w-4" />
+            กลับไปหน้ารายการ
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold">{job?.title ?? `งาน #${jobId}`}</h1>
+        <p className="text-muted-foreground">รายละเอียดงาน #{jobId} ใบสมัคร ผู้ให้บริการที่เสนอ และประวัติทั้งหมด</p>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Skeleton className="h-48 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      ) : loadError ? (
+        <Card>
+          <CardContent className="py-6 text-sm text-destructive">{loadError}</CardContent>
+        </Card>
+      ) : (
+        job && (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>งาน</CardTitle>
+                <CardDescription>สร้างเมื่อ {formatDateTime(job.created_at)}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <p>{job.description}</p>
+                <div className="flex flex-wrap gap-1">
+                  {job.required_skills.map((skill) => (
+                    <Badge key={skill} variant="outline">{skill}</Badge>
+                  ))}
+                </div>
+                <p><strong className="font-medium">เครดิต:</strong> {formatHours(job.time_balance_hours)}</p>
+                <p className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4 text-muted-foreground" />
+                  {job.location_lat}, {job.location_lon}
+                </p>
+                <p><strong className="font-medium">ประกาศแล้ว:</strong> {job.broadcasted ? "ใช่" : "ไม่"}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>ผู้สร้างงาน</CardTitle>
+                <CardDescription>ผู้ใช้ #{job.creator_user_id}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <p className="font-medium">{job.creator_first_name} {job.creator_last_name}</p>
+                <p className="text-muted-foreground">{job.creator_email}</p>
+                {activity.helpRequests.map((request) => (
+                  <div key={request.id} className="mt-4 space-y-2 rounded-lg border p-3">
+                    <p>คำขอ #{request.id} • ผู้ให้บริการ {request.providerName ?? "-"}</p>
+                    <div className="flex items-center justify-between">
+                      <HelpRequestStatusBadge request={request} />
+                      {canManage && (
+                        <Button size="sm" variant="ghost" onClick={() => handleUnlink(request.id)}>
+                          ยกเลิกการผูก
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {canManage && activity.helpRequests.length === 0 && (
+                  <div className="mt-4 space-y-2">
+                    <p className="text-muted-foreground">งานนี้ยังไม่ได้ผูกกับคำขอความช่วยเหลือ</p>
+                    <LinkHelpRequestSelect jobId={jobId} onLinked={() => reloadActivity()} />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>ใบสมัคร ({applications.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            tableId="job-applications"
+            columns={applicationColumns}
+            rows={applications}
+            getRowId={(app) => String(app.id)}
+            defaultSort={[{ field: "applied_at", direction: "desc" }]}
+            isLoading={isLoading}
+            emptyMessage="ยังไม่มีใบสมัครสำหรับงานนี้"
+          />
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>ผู้ให้บริการที่เสนอ</CardTitle>
+            <CardDescription>ผู้ใช้ที่มีทักษะตรงกับงาน เรียงตามระยะทาง</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {[...skilledUsers]
+              .sort((a, b) => a.distance_km - b.distance_km)
+              .map((user) => (
+                <div key={user.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                  <div>
+                    <p className="font-medium">{user.first_name} {user.last_name}</p>
+                    <p className="text-muted-foreground">{user.skills.join(", ")}</p>
+                  </div>
+                  <p className="shrink-0">{user.distance_km.toFixed(2)} กม.</p>
+                </div>
+              ))}
+            {!isLoading && skilledUsers.length === 0 && (
+              <p className="text-sm text-muted-foreground">ไม่มีผู้ให้บริการที่ตรงกับทักษะ</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>ไทม์ไลน์</CardTitle>
+            <CardDescription>การสร้างงาน ใบสมัคร การจับคู่ และการเปลี่ยนสถานะ</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-3 border-l pl-4">
+              {timeline.map((event) => (
+                <li key={event.key} className="text-sm">
+                  <p className="text-xs text-muted-foreground">
+                    {formatDateTime(event.at)} • {event.kind}
+                  </p>
+                  <p>{event.title}</p>
+                  {event.detail && <p className="text-muted-foreground">{event.detail}</p>}
+                </li>
+              ))}
+              {timeline.length === 0 && <li className="text-sm text-muted-foreground">ยังไม่มีประวัติ</li>}
+            </ol>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>หมายเหตุของผู้ดูแล</CardTitle>
+            <CardDescription>เห็นเฉพาะผู้ดูแลระบบ ไม่ส่งถึงผู้ใช้</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {canManage && (
+              <div className="space-y-2">
+                <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="เพิ่มหมายเหตุ..." rows={3} />
+                <div className="flex justify-end">
+                  <Button size="sm" className="gap-2" disabled={isSavingNote || note.trim() === ""} onClick={handleAddNote}>
+                    <MessageSquarePlus className="h-4 w-4" />
+                    บันทึกหมายเหตุ
+                  </Button>
+                </div>
+              </div>
+            )}
+            {activity.notes.map((entry) => (
+              <div key={entry.id} className="rounded-lg border p-3 text-sm">
+                <p className="whitespace-pre-wrap">{entry.body}</p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {entry.author} • {formatDateTime(entry.createdAt)}
+                </p>
+              </div>
+            ))}
+            {activity.notes.length === 0 && <p className="text-sm text-muted-foreground">ยังไม่มีหมายเหตุ</p>}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>รายการโอนที่เกี่ยวข้อง</CardTitle>
+            <CardDescription>การโอนเครดิตจากคำขอที่ผูกกับงานนี้</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DataTable
+              tableId="job-transfers"
+              columns={transferColumns}
+              rows={activity.transfers}
+              getRowId={(t) => t.id}
+              defaultSort={[{ field: "date", direction: "desc" }]}
+              emptyMessage="ยังไม่มีการโอนเครดิต"
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
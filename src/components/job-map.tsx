@@ -0,0 +1,349 @@
+"use client"
+
+import { useEffect, useRef, useState, type KeyboardEvent, type PointerEvent } from "react"
+import { LocateFixed, Minus, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { Job, SkilledUser } from "@/domain"
+import {
+  TILE_SIZE,
+  boundsCenter,
+  fitZoom,
+  kmToPixels,
+  projectPoint,
+  unprojectPoint,
+  type GeoPoint,
+  type PixelPoint,
+} from "@/lib/geo"
+import { jobUrgency, MATCH_OVERDUE_HOURS, type JobUrgency } from "@/lib/job-kpis"
+import { cn } from "@/lib/utils"
+
+/**
+ * Basemap tiles come from `NEXT_PUBLIC_MAP_TILE_URL`, an XYZ template such as `http://tiles.lan/{z}/{x}/{y}.png`,
+ * so an offline install can point it at its own tile server (`NEXT_PUBLIC_MAP_ATTRIBUTION` is shown in the corner).
+ * Without a template the map draws a plain lat/lon grid and needs no network at all.
+ */
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL ?? ""
+const TILE_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_ATTRIBUTION ?? ""
+
+const MAP_HEIGHT = 420
+const MIN_ZOOM = 3
+const MAX_ZOOM = 17
+const RING_KM = [5, 10, 25]
+// Grid spacing candidates in degrees, finest last
+const GRID_STEPS = [10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005]
+// Pointer travel before a press becomes a drag rather than a click on a pin
+const DRAG_THRESHOLD_PX = 4
+
+const urgencyStyles: Record<JobUrgency, { pin: string; label: string }> = {
+  overdue: { pin: "fill-red-500", label: `รอเกิน ${MATCH_OVERDUE_HOURS} ชม.` },
+  due_soon: { pin: "fill-amber-500", label: `รอเกิน ${MATCH_OVERDUE_HOURS / 2} ชม.` },
+  fresh: { pin: "fill-blue-500", label: "งานใหม่" },
+}
+
+type MapView = { center: GeoPoint; zoom: number }
+
+type JobMapProps = {
+  jobs: Job[]
+  selectedJobId: number | null
+  onSelectJob: (job: Job) => void
+  // Candidates for the selected job; drawn only while a job is selected
+  providers: SkilledUser[]
+  selectedProviderId: number | null
+  onSelectProvider: (provider: SkilledUser) => void
+  className?: string
+}
+
+const jobPoint = (job: Job): GeoPoint => ({ lat: job.location_lat, lon: job.location_lon })
+const providerPoint = (provider: SkilledUser): GeoPoint => ({ lat: provider.current_lat, lon: provider.current_lon })
+
+// Enter/space on a focused pin acts like a click
+function activateOnKey(action: () => void) {
+  return (event: KeyboardEvent) => {
+    if (event.key !== "Enter" && event.key !== " ") return
+    event.preventDefault()
+    action()
+  }
+}
+
+function fitView(points: GeoPoint[], width: number): MapView | null {
+  if (points.length === 0 || width === 0) return null
+  const zoom = Math.max(MIN_ZOOM, Math.min(points.length === 1 ? 13 : MAX_ZOOM, fitZoom(points, width, MAP_HEIGHT, 48, MAX_ZOOM)))
+  return { center: boundsCenter(points), zoom }
+}
+
+/**
+ * Open jobs as pins coloured by how long they have waited. For the selected job, its candidate providers are
+ * drawn with distance rings around the job; clicking a pin selects the job or provider. Drag to pan.
+ */
+export function JobMap({ jobs, selectedJobId, onSelectJob, providers, selectedProviderId, onSelectProvider, className }: JobMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ pointerId: number; start: PixelPoint; origin: PixelPoint; moved: boolean } | null>(null)
+  const [width, setWidth] = useState(0)
+  const [view, setView] = useState<MapView | null>(null)
+
+  const selectedJob = jobs.find((job) => job.id === selectedJobId) ?? null
+  const visibleProviders = selectedJob ? providers : []
+
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.round(entry.contentRect.width)))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // Refit when what is worth looking at changes: the selected job and its candidates, otherwise every job
+  const fitPoints = selectedJob ? [jobPoint(selectedJob), ...visibleProviders.map(providerPoint)] : jobs.map(jobPoint)
+  const fitKey = selectedJob ? `job:${selectedJob.id}:${visibleProviders.map((p) => p.id).join(",")}` : `all:${jobs.map((j) => j.id).join(",")}`
+  const fitPointsRef = useRef(fitPoints)
+  fitPointsRef.current = fitPoints
+
+  useEffect(() => {
+    setView(fitView(fitPointsRef.current, width))
+  }, [fitKey, width])
+
+  const zoom = view?.zoom ?? MIN_ZOOM
+  const origin = view ? projectPoint(view.center, zoom) : { x: 0, y: 0 }
+  const toScreen = (point: GeoPoint) => {
+    const pixel = projectPoint(point, zoom)
+    return { x: pixel.x - origin.x + width / 2, y: pixel.y - origin.y + MAP_HEIGHT / 2 }
+  }
+
+  const setZoom = (next: number) =>
+    setView((current) => current && { ...current, zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, next)) })
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!view || event.button !== 0) return
+    dragRef.current = { pointerId: event.pointerId, start: { x: event.clientX, y: event.clientY }, origin, moved: false }
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag || drag.pointerId !== event.pointerId) return
+    const dx = event.clientX - drag.start.x
+    const dy = event.clientY - drag.start.y
+    if (!drag.moved) {
+      if (Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return
+      // Capturing only once it is a drag keeps plain clicks landing on the pins
+      drag.moved = true
+      event.currentTarget.setPointerCapture(event.pointerId)
+    }
+    setView((current) => current && { ...current, center: unprojectPoint({ x: drag.origin.x - dx, y: drag.origin.y - dy }, current.zoom) })
+  }
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId !== event.pointerId) return
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) event.currentTarget.releasePointerCapture(event.pointerId)
+    dragRef.current = null
+  }
+
+  const tiles = view && TILE_URL ? visibleTiles(origin, width, zoom) : []
+  const grid = view && !TILE_URL ? gridLines(origin, width, zoom) : null
+  const jobCenter = selectedJob ? toScreen(jobPoint(selectedJob)) : null
+  const now = new Date()
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div
+        ref={containerRef}
+        className="relative touch-none select-none overflow-hidden rounded-lg border bg-muted/40 cursor-grab active:cursor-grabbing"
+        style={{ height: MAP_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {tiles.map((tile) => (
+          <div
+            key={tile.key}
+            className="absolute bg-cover"
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE, backgroundImage: `url("${tile.url}")` }}
+          />
+        ))}
+
+        <svg className="absolute inset-0" width={width} height={MAP_HEIGHT}>
+          {grid && (
+            <g className="stroke-border" strokeWidth={1}>
+              {grid.vertical.map((x) => (
+                <line key={`v${x}`} x1={x} x2={x} y1={0} y2={MAP_HEIGHT} />
+              ))}
+              {grid.horizontal.map((y) => (
+                <line key={`h${y}`} x1={0} x2={width} y1={y} y2={y} />
+              ))}
+            </g>
+          )}
+
+          {selectedJob && jobCenter && (
+            <g className="pointer-events-none">
+              {RING_KM.map((km) => {
+                const radius = kmToPixels(km, selectedJob.location_lat, zoom)
+                return (
+                  <g key={km}>
+                    <circle cx={jobCenter.x} cy={jobCenter.y} r={radius} className="fill-primary/5 stroke-primary/50" strokeDasharray="4 4" />
+                    <text x={jobCenter.x + 4} y={jobCenter.y - radius - 4} className="fill-muted-foreground text-[10px]">
+                      {km} กม.
+                    </text>
+                  </g>
+                )
+              })}
+              {visibleProviders.map((provider) => {
+                const at = toScreen(providerPoint(provider))
+                return (
+                  <line
+                    key={provider.id}
+                    x1={jobCenter.x}
+                    y1={jobCenter.y}
+                    x2={at.x}
+                    y2={at.y}
+                    className={provider.id === selectedProviderId ? "stroke-emerald-600" : "stroke-emerald-500/40"}
+                    strokeDasharray="2 3"
+                  />
+                )
+              })}
+            </g>
+          )}
+
+          {jobs.map((job) => {
+            const at = toScreen(jobPoint(job))
+            const isSelected = job.id === selectedJobId
+            return (
+              <g
+                key={job.id}
+                role="button"
+                tabIndex={0}
+                aria-label={`งาน ${job.title}`}
+                className="cursor-pointer outline-none"
+                onClick={() => onSelectJob(job)}
+                onKeyDown={activateOnKey(() => onSelectJob(job))}
+              >
+                <title>{`${job.title} • ${urgencyStyles[jobUrgency(job, now)].label}`}</title>
+                <circle
+                  cx={at.x}
+                  cy={at.y}
+                  r={isSelected ? 10 : 7}
+                  className={cn(urgencyStyles[jobUrgency(job, now)].pin, "stroke-white", isSelected && "stroke-foreground")}
+                  strokeWidth={isSelected ? 3 : 2}
+                />
+              </g>
+            )
+          })}
+
+          {visibleProviders.map((provider) => {
+            const at = toScreen(providerPoint(provider))
+            const isSelected = provider.id === selectedProviderId
+            const name = `${provider.first_name} ${provider.last_name}`
+            return (
+              <g
+                key={provider.id}
+                role="button"
+                tabIndex={0}
+                aria-label={`เลือก ${name}`}
+                aria-pressed={isSelected}
+                className="cursor-pointer outline-none"
+                onClick={() => onSelectProvider(provider)}
+                onKeyDown={activateOnKey(() => onSelectProvider(provider))}
+              >
+                <title>{`${name} • ${provider.distance_km.toFixed(1)} กม.`}</title>
+                {/* Providers are squares so they read apart from job pins without relying on colour */}
+                <rect
+                  x={at.x - (isSelected ? 8 : 6)}
+                  y={at.y - (isSelected ? 8 : 6)}
+                  width={isSelected ? 16 : 12}
+                  height={isSelected ? 16 : 12}
+                  rx={2}
+                  className={cn("fill-emerald-500 stroke-white", isSelected && "fill-emerald-600 stroke-foreground")}
+                  strokeWidth={isSelected ? 3 : 2}
+                />
+              </g>
+            )
+          })}
+        </svg>
+
+        {jobs.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">ไม่มีงานที่จะแสดงบนแผนที่</div>
+        )}
+
+        <div className="absolute right-2 top-2 flex flex-col gap-1" onPointerDown={(event) => event.stopPropagation()}>
+          <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => setZoom(zoom + 1)} disabled={!view || zoom >= MAX_ZOOM} aria-label="ขยาย">
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => setZoom(zoom - 1)} disabled={!view || zoom <= MIN_ZOOM} aria-label="ย่อ">
+            <Minus className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="secondary"
+            className="h-8 w-8"
+            onClick={() => setView(fitView(fitPoints, width))}
+            disabled={fitPoints.length === 0}
+            aria-label="จัดให้พอดีกับหมุดทั้งหมด"
+          >
+            <LocateFixed className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {TILE_ATTRIBUTION && (
+          <div className="absolute bottom-0 right-0 bg-background/80 px-1 text-[10px] text-muted-foreground">{TILE_ATTRIBUTION}</div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        {(Object.keys(urgencyStyles) as JobUrgency[]).map((urgency) => (
+          <span key={urgency} className="flex items-center gap-1">
+            <svg width={10} height={10}>
+              <circle cx={5} cy={5} r={5} className={urgencyStyles[urgency].pin} />
+            </svg>
+            {urgencyStyles[urgency].label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <svg width={10} height={10}>
+            <rect width={10} height={10} rx={2} className="fill-emerald-500" />
+          </svg>
+          ผู้ให้บริการที่เสนอ (คลิกเพื่อเลือก)
+        </span>
+      </div>
+    </div>
+  )
+}
+
+// Tiles covering the viewport; x wraps around the antimeridian, rows beyond the poles are skipped
+function visibleTiles(origin: PixelPoint, width: number, zoom: number) {
+  const count = 2 ** zoom
+  const left = origin.x - width / 2
+  const top = origin.y - MAP_HEIGHT / 2
+  const tiles: { key: string; url: string; left: number; top: number }[] = []
+  for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + MAP_HEIGHT) / TILE_SIZE); ty++) {
+    if (ty < 0 || ty >= count) continue
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+      const x = ((tx % count) + count) % count
+      tiles.push({
+        key: `${zoom}/${tx}/${ty}`,
+        url: TILE_URL.replace("{z}", String(zoom)).replace("{x}", String(x)).replace("{y}", String(ty)),
+        left: tx * TILE_SIZE - left,
+        top: ty * TILE_SIZE - top,
+      })
+    }
+  }
+  return tiles
+}
+
+// Screen positions of lat/lon grid lines, spaced at least ~80px apart
+function gridLines(origin: PixelPoint, width: number, zoom: number) {
+  const left = origin.x - width / 2
+  const top = origin.y - MAP_HEIGHT / 2
+  const topLeft = unprojectPoint({ x: left, y: top }, zoom)
+  const bottomRight = unprojectPoint({ x: left + width, y: top + MAP_HEIGHT }, zoom)
+  const degreesPerPixel = (bottomRight.lon - topLeft.lon) / Math.max(1, width)
+  const step = [...GRID_STEPS].reverse().find((candidate) => candidate / degreesPerPixel >= 80) ?? GRID_STEPS[0]
+
+  const vertical: number[] = []
+  for (let lon = Math.ceil(topLeft.lon / step) * step; lon <= bottomRight.lon; lon += step) {
+    vertical.push(Math.round(projectPoint({ lat: 0, lon }, zoom).x - left))
+  }
+  const horizontal: number[] = []
+  for (let lat = Math.ceil(bottomRight.lat / step) * step; lat <= topLeft.lat; lat += step) {
+    horizontal.push(Math.round(projectPoint({ lat, lon: 0 }, zoom).y - top))
+  }
+  return { vertical, horizontal }
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import { Link2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { MAX_PAGE_SIZE, type HelpRequest } from "@/domain"
+import { adminApi, describeApiError, isAbortError } from "@/lib/admin-api"
+
+// Requests still running can be tied to a job; ended ones are only history
+const LINKABLE_STATUSES = ["open", "matched", "accepted", "in_progress"]
+
+/**
+ * Picks a help request not yet tied to any job and links it to `jobId`, for requests that came in before
+ * the app recorded the link or that the backfill could not place.
+ */
+export function LinkHelpRequestSelect({ jobId, onLinked }: { jobId: number; onLinked: (request: HelpRequest) => void }) {
+  const { toast } = useToast()
+  const [requests, setRequests] = useState<HelpRequest[]>([])
+  const [selectedId, setSelectedId] = useState("")
+  const [isLinking, setIsLinking] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    adminApi.helpRequests
+      .list({ linked: "false", status: LINKABLE_STATUSES, sort: "-date", pageSize: MAX_PAGE_SIZE }, { signal: controller.signal })
+      .then((page) => setRequests(page.items))
+      .catch((err) => {
+        if (!isAbortError(err)) toast({ title: "โหลดคำขอความช่วยเหลือไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+      })
+    return () => controller.abort()
+  }, [toast])
+
+  const handleLink = async () => {
+    if (!selectedId) return
+    setIsLinking(true)
+    try {
+      const request = await adminApi.helpRequests.linkJob(Number(selectedId), jobId)
+      toast({ title: "ผูกคำขอกับงานแล้ว", description: `คำขอ #${request.id} ผูกกับงาน #${jobId}` })
+      setSelectedId("")
+      onLinked(request)
+    } catch (err) {
+      toast({ title: "ผูกคำขอไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsLinking(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={selectedId} onValueChange={setSelectedId}>
+        <SelectTrigger className="flex-1">
+          <SelectValue placeholder={requests.length === 0 ? "ไม่มีคำขอที่ยังไม่ได้ผูกกับงาน" : "เลือกคำขอความช่วยเหลือ..."} />
+        </SelectTrigger>
+        <SelectContent>
+          {requests.map((request) => (
+            <SelectItem key={request.id} value={String(request.id)}>
+              #{request.id} {request.detail.title} ({request.requester.name})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" className="gap-2" onClick={handleLink} disabled={isLinking || !selectedId}>
+        <Link2 className="h-4 w-4" />
+        ผูกกับงานนี้
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { createTransferSchema, type Member, type Transfer } from "@/domain"
+import { adminApi, describeApiError } from "@/lib/admin-api"
+import { formatHours } from "@/lib/format"
+
+type ManualTransferDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  members: Member[]
+  onCreated: (transfer: Transfer) => void
+}
+
+export function ManualTransferDialog({ open, onOpenChange, members, onCreated }: ManualTransferDialogProps) {
+  const { toast } = useToast()
+  const [senderId, setSenderId] = useState<string | undefined>()
+  const [receiverId, setReceiverId] = useState<string | undefined>()
+  const [amount, setAmount] = useState("")
+  const [reason, setReason] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const activeMembers = members.filter((member) => member.status !== "inactive")
+  const sender = members.find((member) => member.id === senderId)
+
+  const reset = () => {
+    setSenderId(undefined)
+    setReceiverId(undefined)
+    setAmount("")
+    setReason("")
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const handleSubmit = async () => {
+    const parsed = createTransferSchema.safeParse({ senderId, receiverId, amount: Number(amount), reason })
+    if (!parsed.success) {
+      toast({ title: "ข้อมูลไม่ครบถ้วน", description: parsed.error.issues[0]?.message, variant: "destructive" })
+      return
+    }
+    if (sender && sender.credits < parsed.data.amount) {
+      toast({ title: "เครดิตไม่พอ", description: `${sender.name} มีเครดิต ${formatHours(sender.credits)}`, variant: "destructive" })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const transfer = await adminApi.transfers.create(parsed.data)
+      onCreated(transfer)
+      toast({
+        title: "โอนเครดิตสำเร็จ",
+        description: `${transfer.sender} → ${transfer.receiver} ${formatHours(transfer.amount)} (${transfer.id})`,
+      })
+      handleOpenChange(false)
+    } catch (err) {
+      toast({ title: "โอนเครดิตล้มเหลว", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>โอนเครดิตแทนสมาชิก</DialogTitle>
+          <DialogDescription>สำหรับสมาชิกที่ไม่สามารถใช้งานแอปได้เอง เช่น ผู้สูงอายุ ทุกรายการจะถูกบันทึกในบันทึกการตรวจสอบ</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div>
+            <label htmlFor="senderId">ผู้โอน</label>
+            <Select onValueChange={setSenderId} value={senderId}>
+              <SelectTrigger id="senderId">
+                <SelectValue placeholder="เลือกผู้โอน..." />
+              </SelectTrigger>
+              <SelectContent>
+                {activeMembers.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name} ({member.id}) · {formatHours(member.credits)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label htmlFor="receiverId">ผู้รับ</label>
+            <Select onValueChange={setReceiverId} value={receiverId}>
+              <SelectTrigger id="receiverId">
+                <SelectValue placeholder="เลือกผู้รับ..." />
+              </SelectTrigger>
+              <SelectContent>
+                {activeMembers
+                  .filter((member) => member.id !== senderId)
+                  .map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name} ({member.id})
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label htmlFor="amount">จำนวนชั่วโมง</label>
+            <Input
+              id="amount"
+              type="number"
+              min={0}
+              step={0.5}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="reason">เหตุผล</label>
+            <Textarea id="reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={3} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            ยกเลิก
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "กำลังบันทึก..." : "โอนเครดิต"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
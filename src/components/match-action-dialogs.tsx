@@ -0,0 +1,248 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import { z } from "zod"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { unmatchReasonLabels } from "@/components/help-request-status"
+import { useToast } from "@/hooks/use-toast"
+import { matchSchema, unmatchReasonSchema, type Match, type SkilledUser, type UnmatchReason } from "@/domain"
+import { ApiError, adminApi, describeApiError, isAbortError } from "@/lib/admin-api"
+
+// Undoing and reassigning share the reason picker; both end the current match and tell everyone involved why
+
+function matchTitle(match: Match | null) {
+  return match ? match.jobTitle ?? `งาน #${match.jobId}` : ""
+}
+
+function providerLabel(match: Match) {
+  return match.providerName ?? `ผู้ใช้ #${match.providerId}`
+}
+
+// A failed reassignment that left the job without a provider upstream comes back as a 502 carrying the match the server ended
+function unassignedMatchOf(error: unknown): Match | null {
+  if (!(error instanceof ApiError) || error.status !== 502) return null
+  const parsed = z.object({ match: matchSchema }).safeParse(error.body)
+  return parsed.success ? parsed.data.match : null
+}
+
+function ReasonFields({
+  reasonCode,
+  onReasonChange,
+  note,
+  onNoteChange,
+}: {
+  reasonCode: UnmatchReason | ""
+  onReasonChange: (reason: UnmatchReason) => void
+  note: string
+  onNoteChange: (note: string) => void
+}) {
+  return (
+    <>
+      <Select value={reasonCode} onValueChange={(value) => onReasonChange(value as UnmatchReason)}>
+        <SelectTrigger>
+          <SelectValue placeholder="เลือกเหตุผล (จำเป็น)" />
+        </SelectTrigger>
+        <SelectContent>
+          {unmatchReasonSchema.options.map((reason) => (
+            <SelectItem key={reason} value={reason}>
+              {unmatchReasonLabels[reason]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Textarea value={note} onChange={(e) => onNoteChange(e.target.value)} placeholder="รายละเอียดเพิ่มเติม (ไม่บังคับ)" rows={3} />
+    </>
+  )
+}
+
+type UnmatchDialogProps = {
+  match: Match | null
+  onOpenChange: (open: boolean) => void
+  onUnmatched: (match: Match) => void
+}
+
+export function UnmatchDialog({ match, onOpenChange, onUnmatched }: UnmatchDialogProps) {
+  const { toast } = useToast()
+  const [reasonCode, setReasonCode] = useState<UnmatchReason | "">("")
+  const [note, setNote] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setReasonCode("")
+      setNote("")
+    }
+    onOpenChange(next)
+  }
+
+  const handleSubmit = async () => {
+    if (!match || !reasonCode) return
+    setIsSubmitting(true)
+    try {
+      const ended = await adminApi.matches.unmatch(match.id, { reasonCode, note: note.trim() || undefined })
+      onUnmatched(ended)
+      toast({
+        title: "ยกเลิกการจับคู่แล้ว",
+        description: `${matchTitle(match)} กลับไปรอจับคู่ และแจ้ง ${providerLabel(match)} กับผู้ขอแล้ว`,
+      })
+      handleOpenChange(false)
+    } catch (err) {
+      toast({ title: "ยกเลิกการจับคู่ไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={match !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>ยกเลิกการจับคู่ {matchTitle(match)}</DialogTitle>
+          <DialogDescription>
+            {match && `${providerLabel(match)} จะถูกถอดออกจากงานนี้ งานจะกลับไปอยู่ในคิวรอจับคู่ และประวัติการจับคู่จะยังถูกเก็บไว้`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <ReasonFields reasonCode={reasonCode} onReasonChange={setReasonCode} note={note} onNoteChange={setNote} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            ปิด
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={isSubmitting || !reasonCode}>
+            {isSubmitting ? "กำลังบันทึก..." : "ยกเลิกการจับคู่"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+type ReassignMatchDialogProps = {
+  match: Match | null
+  onOpenChange: (open: boolean) => void
+  // Called with the match that took over; the old one is now `reassigned`
+  onReassigned: (replacement: Match) => void
+  // Called with the old match when the upstream ended up with neither provider and the server unmatched it
+  onUnassigned: (ended: Match) => void
+}
+
+export function ReassignMatchDialog({ match, onOpenChange, onReassigned, onUnassigned }: ReassignMatchDialogProps) {
+  const { toast } = useToast()
+  const [reasonCode, setReasonCode] = useState<UnmatchReason | "">("")
+  const [note, setNote] = useState("")
+  const [providers, setProviders] = useState<SkilledUser[]>([])
+  const [isLoadingProviders, setIsLoadingProviders] = useState(false)
+  const [providerId, setProviderId] = useState<string | undefined>()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const matchId = match?.id
+  const jobId = match?.jobId
+  const currentProviderId = match?.providerId
+
+  // The job's skilled users, minus whoever holds it now
+  useEffect(() => {
+    if (jobId === undefined) return
+    const controller = new AbortController()
+    setIsLoadingProviders(true)
+    setProviders([])
+    adminApi.jobs
+      .skilledUsers(jobId, { signal: controller.signal })
+      .then((users) => setProviders(users.filter((u) => u.id !== currentProviderId)))
+      .catch((err) => {
+        if (!isAbortError(err)) toast({ title: "โหลดผู้ให้บริการไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingProviders(false)
+      })
+    return () => controller.abort()
+  }, [matchId, jobId, currentProviderId, toast])
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setReasonCode("")
+      setNote("")
+      setProviderId(undefined)
+    }
+    onOpenChange(next)
+  }
+
+  const selected = providers.find((u) => String(u.id) === providerId)
+
+  const handleSubmit = async () => {
+    if (!match || !reasonCode || !selected) return
+    setIsSubmitting(true)
+    try {
+      const replacement = await adminApi.matches.reassign(match.id, {
+        reasonCode,
+        note: note.trim() || undefined,
+        providerId: selected.id,
+        providerName: `${selected.first_name} ${selected.last_name}`,
+      })
+      onReassigned(replacement)
+      toast({
+        title: "เปลี่ยนผู้ให้บริการแล้ว",
+        description: `${matchTitle(match)} มอบให้ ${selected.first_name} ${selected.last_name} แทน ${providerLabel(match)} และแจ้งทุกฝ่ายแล้ว`,
+      })
+      handleOpenChange(false)
+    } catch (err) {
+      const ended = unassignedMatchOf(err)
+      if (ended) {
+        onUnassigned(ended)
+        toast({
+          title: "งานนี้ไม่มีผู้ให้บริการแล้ว",
+          description: `ระบบต้นทางไม่รับ ${selected.first_name} ${selected.last_name} และคืนงานให้ ${providerLabel(match)} ไม่ได้ จึงยกเลิกการจับคู่และคืนงานเข้าคิวรอจับคู่`,
+          variant: "destructive",
+        })
+        handleOpenChange(false)
+      } else {
+        toast({ title: "เปลี่ยนผู้ให้บริการไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={match !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>เปลี่ยนผู้ให้บริการ {matchTitle(match)}</DialogTitle>
+          <DialogDescription>
+            {match && `การจับคู่กับ ${providerLabel(match)} จะสิ้นสุดลงและถูกเก็บไว้ในประวัติ`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <Select value={providerId} onValueChange={setProviderId} disabled={isLoadingProviders}>
+            <SelectTrigger>
+              <SelectValue
+                placeholder={
+                  isLoadingProviders ? "กำลังโหลดผู้ให้บริการ..." : providers.length === 0 ? "ไม่มีผู้ให้บริการคนอื่นที่ตรงกับทักษะ" : "เลือกผู้ให้บริการคนใหม่"
+                }
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {providers.map((u) => (
+                <SelectItem key={u.id} value={String(u.id)}>
+                  {u.first_name} {u.last_name} (#{u.id}) • {u.distance_km.toFixed(1)} กม.
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ReasonFields reasonCode={reasonCode} onReasonChange={setReasonCode} note={note} onNoteChange={setNote} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            ปิด
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !reasonCode || !selected}>
+            {isSubmitting ? "กำลังบันทึก..." : "เปลี่ยนผู้ให้บริการ"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,129 @@
+import { MIN_MATCH_SCORE, matchFactorSchema, type MatchFactor, type MatchLog, type MatchWeights } from "@/domain"
+import { formatPercent } from "@/lib/format"
+import { cn } from "@/lib/utils"
+
+const factorLabels: Record<MatchFactor, string> = {
+  skills: "Skill overlap",
+  distance: "Distance",
+  rating: "Rating",
+  availability: "Availability",
+  workload: "Current workload",
+  noShows: "Past no-shows",
+}
+
+// Shown as points lost rather than earned: a provider starts at full marks and these take away from it
+const PENALTY_FACTORS: readonly MatchFactor[] = ["workload", "noShows"]
+
+// Each factor's share of the 100-point score under `weights`
+function weightShares(weights: MatchWeights) {
+  const total = matchFactorSchema.options.reduce((sum, factor) => sum + weights[factor], 0)
+  return Object.fromEntries(matchFactorSchema.options.map((factor) => [factor, (weights[factor] / total) * 100])) as Record<MatchFactor, number>
+}
+
+function FactorBar({ label, score, points, max, penalty }: { label: string; score: number; points: number; max: number; penalty: boolean }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span>{label}</span>
+        <span className={cn("font-mono text-xs", penalty && points > 0 ? "text-red-600" : "text-muted-foreground")}>
+          {penalty ? `−${points.toFixed(1)}` : `+${points.toFixed(1)}`} / {max.toFixed(1)} pts
+        </span>
+      </div>
+      <div className="h-2 overflow-hidden rounded-full bg-muted">
+        <div
+          className={cn("h-full rounded-full", penalty ? "bg-red-500" : "bg-blue-500")}
+          style={{ width: `${(penalty ? 1 - score : score) * 100}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Why the engine scored a log the way it did: per-factor bars for the chosen (or, for a failed run, the best)
+ * candidate, then the runners-up. Logs from before the matching engine carry no breakdown.
+ */
+export function MatchScoreBreakdown({ log }: { log: MatchLog }) {
+  const [best, ...runnersUp] = log.candidates ?? []
+  if (!best || !log.weights) {
+    return <p className="text-sm text-muted-foreground">No per-factor breakdown was recorded for this log.</p>
+  }
+
+  const shares = weightShares(log.weights)
+  const gains = matchFactorSchema.options.filter((factor) => !PENALTY_FACTORS.includes(factor))
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3 rounded-lg border p-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-muted-foreground">Score Breakdown</h4>
+          <span className="text-sm">
+            {best.provider} • <span className="font-semibold">{formatPercent(best.score)}</span>
+          </span>
+        </div>
+        {log.status === "failed" && (
+          <p className="text-sm text-red-600">
+            Best candidate scored below the {MIN_MATCH_SCORE}% minimum, so no provider was chosen.
+          </p>
+        )}
+        {gains.map((factor) => (
+          <FactorBar
+            key={factor}
+            label={factorLabels[factor]}
+            score={best.factors[factor]}
+            points={best.factors[factor] * shares[factor]}
+            max={shares[factor]}
+            penalty={false}
+          />
+        ))}
+        <h5 className="pt-1 text-sm font-medium text-muted-foreground">Penalties</h5>
+        {PENALTY_FACTORS.map((factor) => (
+          <FactorBar
+            key={factor}
+            label={factorLabels[factor]}
+            score={best.factors[factor]}
+            points={(1 - best.factors[factor]) * shares[factor]}
+            max={shares[factor]}
+            penalty
+          />
+        ))}
+        {best.distanceKm !== null && <p className="text-xs text-muted-foreground">Distance to job: {best.distanceKm.toFixed(1)} km</p>}
+      </div>
+
+      <div className="space-y-2 rounded-lg border p-3">
+        <h4 className="font-medium text-muted-foreground">Runner-up Candidates</h4>
+        {runnersUp.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No other candidates were ranked.</p>
+        ) : (
+          runnersUp.map((candidate) => {
+            // The factor where the runner-up lost the most ground to the best candidate
+            const weakest = matchFactorSchema.options.reduce((worst, factor) =>
+              (best.factors[factor] - candidate.factors[factor]) * shares[factor] >
+              (best.factors[worst] - candidate.factors[worst]) * shares[worst]
+                ? factor
+                : worst,
+            )
+            return (
+              <div key={candidate.providerId} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span>
+                    {candidate.provider} <span className="text-xs text-muted-foreground">({candidate.providerId})</span>
+                  </span>
+                  <span className="font-mono text-xs">
+                    {formatPercent(candidate.score)} ({(candidate.score - best.score).toFixed(1)})
+                  </span>
+                </div>
+                <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                  <div className="h-full rounded-full bg-slate-400" style={{ width: `${candidate.score}%` }} />
+                </div>
+                {candidate.factors[weakest] < best.factors[weakest] && (
+                  <p className="text-xs text-muted-foreground">Behind mostly on {factorLabels[weakest].toLowerCase()}</p>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,136 +1,470 @@
 'use client'
 
 import { useEffect, useState } from "react"
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { PlusCircle } from "lucide-react"
-import { CreateMatchDialog } from "./create-match-dialog"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
-
-type Job = {
-  job_id: string
-  job_title: string
-  job_description: string
-}
+import { Badge } from "@/components/ui/badge"
+import { Bot, PlusCircle, Sparkles } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { DataTable, type DataTableColumn } from "@/components/data-table"
+import { ApplicationStatusBadge, applicationStatusLabels } from "@/components/help-request-status"
+import { CreateMatchDialog, type MatchCandidateOption } from "./create-match-dialog"
+import { ProviderProfileDialog, type ProviderProfileTarget } from "./provider-profile-dialog"
+import type { Application, AutoMatchDecision, AutoMatchOutcome, Job, MatchLog, ProviderProfile, SkilledUser } from "@/domain"
+import { adminApi, describeApiError, fetchAllPages, isAbortError } from "@/lib/admin-api"
+import { formatDateTime, formatPercent } from "@/lib/format"
 
-type Applicant = {
-  user_id: string
-  first_name: string
-  last_name: string
-  job_id: string // Added to associate applicants with jobs
+const autoMatchOutcomeLabels: Record<AutoMatchOutcome, string> = {
+  assigned: "จับคู่อัตโนมัติแล้ว",
+  proposed: "ระบบเสนอผู้ให้บริการ",
+  review: "รอผู้ดูแลตรวจสอบ",
+  error: "ดึงข้อมูลไม่สำเร็จ",
 }
 
-const mockJobs: Job[] = [
-  { job_id: "JOB-001", job_title: "ดูแลผู้สูงอายุ", job_description: "ช่วยดูแลผู้สูงอายุที่บ้าน" },
-  { job_id: "JOB-002", job_title: "สอนพิเศษคณิตศาสตร์", job_description: "สอนพิเศษคณิตศาสตร์ ม.ปลาย" },
-  { job_id: "JOB-003", job_title: "ทำสวน", job_description: "ช่วยดูแลสวนในบ้าน" },
-];
-
-const mockApplicants: Applicant[] = [
-  { user_id: "USR-001", first_name: "สมชาย", last_name: "ใจดี", job_id: "JOB-001" },
-  { user_id: "USR-004", first_name: "มานี", last_name: "มีนา", job_id: "JOB-001" },
-  { user_id: "USR-002", first_name: "สมหญิง", last_name: "รักไทย", job_id: "JOB-002" },
-  { user_id: "USR-005", first_name: "ปิติ", last_name: "ชูใจ", job_id: "JOB-003" },
-];
+function applicantName(app: Application) {
+  const name = [app.first_name, app.last_name].filter(Boolean).join(" ")
+  return name || (app.user_id ? `ผู้ใช้ #${app.user_id}` : "ไม่ทราบชื่อผู้สมัคร")
+}
 
 export function MatchingView() {
+  const { toast } = useToast()
   const [jobs, setJobs] = useState<Job[]>([])
-  const [selectedJob, setSelectedJob] = useState<Job | null>(null)
-  const [applicants, setApplicants] = useState<Applicant[]>([])
+  const [applications, setApplications] = useState<Application[]>([])
+  const [reloadKey, setReloadKey] = useState(0)
   const [isLoadingJobs, setIsLoadingJobs] = useState(true)
-  const [isLoadingApplicants, setIsLoadingApplicants] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [selectedJob, setSelectedJob] = useState<Job | null>(null)
+  const [skilledUsers, setSkilledUsers] = useState<SkilledUser[]>([])
+  const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false)
+  const [suggestionsError, setSuggestionsError] = useState<string | null>(null)
+  // Latest engine run for the selected job; its candidates carry the scores shown next to suggested users
+  const [ranking, setRanking] = useState<MatchLog | null>(null)
+  const [isRanking, setIsRanking] = useState(false)
+  const [matchUserId, setMatchUserId] = useState<number | null>(null)
   const [isCreateMatchDialogOpen, setIsCreateMatchDialogOpen] = useState(false)
+  // Stale jobs the scheduled auto-matcher handed to admins
+  const [reviewQueue, setReviewQueue] = useState<AutoMatchDecision[]>([])
+  const [dismissingId, setDismissingId] = useState<string | null>(null)
+  // Rating and availability the engine weighs, keyed by upstream user id
+  const [profiles, setProfiles] = useState<Map<string, ProviderProfile>>(new Map())
+  const [profileTarget, setProfileTarget] = useState<ProviderProfileTarget | null>(null)
 
   useEffect(() => {
-    setIsLoadingJobs(true);
-    setTimeout(() => {
-      setJobs(mockJobs);
-      setIsLoadingJobs(false);
-    }, 500);
-  }, [])
-
-  const handleSelectJob = (job: Job) => {
+    const controller = new AbortController()
+    setIsLoadingJobs(true)
+    setLoadError(null)
+    Promise.all([
+      adminApi.jobs.list({ signal: controller.signal }),
+      adminApi.applications.list({ signal: controller.signal }),
+      fetchAllPages(adminApi.autoMatch.decisions, { awaiting: "true", sort: "waiting" }, { signal: controller.signal }),
+      // Profiles only annotate the suggestions; the page still works without them
+      adminApi.providers.profiles({ signal: controller.signal }).catch((err) => {
+        if (isAbortError(err)) throw err
+        return []
+      }),
+    ])
+      .then(([fetchedJobs, fetchedApps, fetchedQueue, fetchedProfiles]) => {
+        setJobs(fetchedJobs)
+        setApplications(fetchedApps)
+        setReviewQueue(fetchedQueue)
+        setProfiles(new Map(fetchedProfiles.map((profile) => [profile.id, profile])))
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setLoadError(describeApiError(err, "โหลดรายการงานไม่สำเร็จ"))
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingJobs(false)
+      })
+    return () => controller.abort()
+  }, [reloadKey])
+
+  const selectedJobId = selectedJob?.id ?? null
+
+  useEffect(() => {
+    setSkilledUsers([])
+    setRanking(null)
+    setSuggestionsError(null)
+    if (selectedJobId === null) return
+
+    const controller = new AbortController()
+    setIsLoadingSuggestions(true)
+    adminApi.jobs
+      .skilledUsers(selectedJobId, { signal: controller.signal })
+      .then(setSkilledUsers)
+      .catch((err) => {
+        if (!isAbortError(err)) setSuggestionsError(describeApiError(err, "โหลดผู้ให้บริการที่แนะนำไม่สำเร็จ"))
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingSuggestions(false)
+      })
+    return () => controller.abort()
+  }, [selectedJobId])
+
+  const applicationCounts = new Map<number, number>()
+  for (const app of applications) applicationCounts.set(app.job_id, (applicationCounts.get(app.job_id) ?? 0) + 1)
+
+  const jobApplicants = selectedJob ? applications.filter((app) => app.job_id === selectedJob.id) : []
+  const rankedScores = new Map((ranking?.candidates ?? []).map((c) => [c.providerId, c.score]))
+
+  const candidates: MatchCandidateOption[] = [
+    ...jobApplicants.flatMap((app): MatchCandidateOption[] =>
+      app.user_id ? [{ userId: app.user_id, name: applicantName(app), source: "applicant", detail: applicationStatusLabels[app.status] }] : [],
+    ),
+    ...skilledUsers.map((u): MatchCandidateOption => ({
+      userId: u.id,
+      name: `${u.first_name} ${u.last_name}`,
+      source: "suggested",
+      detail: `${u.distance_km.toFixed(1)} กม.`,
+    })),
+  ]
+
+  const openCreateMatch = (userId: number | null) => {
+    setMatchUserId(userId)
+    setIsCreateMatchDialogOpen(true)
+  }
+
+  const handleRank = async () => {
+    if (!selectedJob) return
+    setIsRanking(true)
+    try {
+      const log = await adminApi.jobs.runMatching(selectedJob.id)
+      setRanking(log)
+      toast({
+        title: "จัดอันดับแล้ว",
+        description:
+          log.status === "success"
+            ? `แนะนำ ${log.provider} (${formatPercent(log.matchScore)}) • บันทึก ${log.id}`
+            : `ไม่มีผู้ให้บริการที่เหมาะสมพอ • บันทึก ${log.id}`,
+      })
+    } catch (err) {
+      toast({ title: "จัดอันดับไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsRanking(false)
+    }
+  }
+
+  // Opens the job with the scheduler's pick (if any) preselected; matching it takes the job out of the queue
+  const reviewDecision = (decision: AutoMatchDecision) => {
+    const job = jobs.find((j) => j.id === decision.jobId)
+    if (!job) {
+      toast({ title: "ไม่พบงานนี้ในระบบต้นทางแล้ว", description: "ปิดรายการนี้ออกจากคิวได้", variant: "destructive" })
+      return
+    }
     setSelectedJob(job)
-    setIsLoadingApplicants(true)
-    setTimeout(() => {
-      const jobApplicants = mockApplicants.filter(app => app.job_id === job.job_id);
-      setApplicants(jobApplicants);
-      setIsLoadingApplicants(false);
-    }, 500);
+    openCreateMatch(decision.providerId)
   }
 
+  const dismissDecision = async (decision: AutoMatchDecision) => {
+    setDismissingId(decision.id)
+    try {
+      await adminApi.autoMatch.dismiss(decision.id)
+      setReviewQueue((queue) => queue.filter((d) => d.id !== decision.id))
+      toast({ title: "ปิดรายการแล้ว", description: `ระบบจะไม่จับคู่ ${decision.jobTitle} อัตโนมัติอีก` })
+    } catch (err) {
+      toast({ title: "ปิดรายการไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setDismissingId(null)
+    }
+  }
+
+  const reviewColumns: DataTableColumn<AutoMatchDecision>[] = [
+    {
+      id: "job",
+      header: "งาน",
+      hideable: false,
+      sortValue: (d) => d.jobTitle,
+      cell: (d) => (
+        <div>
+          <div className="font-medium">{d.jobTitle}</div>
+          <div className="text-xs text-muted-foreground">{d.requesterName}</div>
+        </div>
+      ),
+    },
+    { id: "waiting", header: "สร้างเมื่อ", sortValue: (d) => d.jobCreatedAt, cell: (d) => formatDateTime(d.jobCreatedAt) },
+    {
+      id: "outcome",
+      header: "ผลการจับคู่อัตโนมัติ",
+      sortValue: (d) => d.outcome,
+      cell: (d) => (
+        <div>
+          <Badge variant={d.outcome === "proposed" ? "default" : d.outcome === "error" ? "destructive" : "outline"}>
+            {autoMatchOutcomeLabels[d.outcome]}
+          </Badge>
+          <div className="mt-1 max-w-[280px] truncate text-xs text-muted-foreground" title={d.detail}>
+            {d.detail}
+          </div>
+        </div>
+      ),
+    },
+    {
+      id: "provider",
+      header: "ผู้ให้บริการที่ระบบเลือก",
+      sortValue: (d) => d.score,
+      cell: (d) =>
+        d.providerName ? `${d.providerName} • ${formatPercent(d.score ?? 0)}${d.confidence ? ` (${d.confidence})` : ""}` : "-",
+    },
+    { id: "decided_at", header: "ตัดสินเมื่อ", hiddenByDefault: true, sortValue: (d) => d.decidedAt, cell: (d) => formatDateTime(d.decidedAt) },
+    {
+      id: "actions",
+      header: "",
+      hideable: false,
+      cell: (d) => (
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="outline" onClick={() => reviewDecision(d)}>
+            ตรวจสอบและจับคู่
+          </Button>
+          <Button size="sm" variant="ghost" disabled={dismissingId === d.id} onClick={() => dismissDecision(d)}>
+            ปิดรายการ
+          </Button>
+        </div>
+      ),
+    },
+  ]
+
+  const jobColumns: DataTableColumn<Job>[] = [
+    {
+      id: "title",
+      header: "ชื่องาน",
+      sortValue: (job) => job.title,
+      hideable: false,
+      cell: (job) => (
+        <div>
+          <div className="font-medium">{job.title}</div>
+          <div className="text-xs text-muted-foreground">{job.required_skills.join(", ")}</div>
+        </div>
+      ),
+    },
+    { id: "created_at", header: "สร้างเมื่อ", sortValue: (job) => job.created_at, cell: (job) => formatDateTime(job.created_at) },
+    {
+      id: "applicants",
+      header: "ผู้สมัคร",
+      sortValue: (job) => applicationCounts.get(job.id) ?? 0,
+      cell: (job) => applicationCounts.get(job.id) ?? 0,
+    },
+  ]
+
+  const applicantColumns: DataTableColumn<Application>[] = [
+    { id: "name", header: "ผู้สมัคร", sortValue: applicantName, hideable: false, cell: applicantName },
+    { id: "status", header: "สถานะ", sortValue: (app) => app.status, cell: (app) => <ApplicationStatusBadge status={app.status} /> },
+    { id: "applied_at", header: "สมัครเมื่อ", sortValue: (app) => app.applied_at, cell: (app) => formatDateTime(app.applied_at) },
+    {
+      id: "actions",
+      header: "",
+      hideable: false,
+      cell: (app) => (
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!app.user_id}
+          title={app.user_id ? undefined : "ระบบต้นทางไม่ได้ส่งรหัสผู้สมัครมา"}
+          onClick={() => openCreateMatch(app.user_id ?? null)}
+        >
+          จับคู่
+        </Button>
+      ),
+    },
+  ]
+
+  const suggestionColumns: DataTableColumn<SkilledUser>[] = [
+    {
+      id: "name",
+      header: "ผู้ให้บริการ",
+      sortValue: (u) => `${u.first_name} ${u.last_name}`,
+      hideable: false,
+      cell: (u) => (
+        <div>
+          <div className="font-medium">
+            {u.first_name} {u.last_name}
+          </div>
+          <div className="text-xs text-muted-foreground">{u.skills.join(", ")}</div>
+        </div>
+      ),
+    },
+    { id: "distance", header: "ระยะทาง", sortValue: (u) => u.distance_km, cell: (u) => `${u.distance_km.toFixed(1)} กม.` },
+    {
+      id: "rating",
+      header: "คะแนนรีวิว",
+      sortValue: (u) => profiles.get(String(u.id))?.rating ?? null,
+      cell: (u) => profiles.get(String(u.id))?.rating?.toFixed(1) ?? "-",
+    },
+    {
+      id: "available",
+      header: "ว่างรับงาน",
+      sortValue: (u) => (profiles.get(String(u.id))?.available === false ? 0 : 1),
+      cell: (u) =>
+        profiles.get(String(u.id))?.available === false ? <Badge variant="secondary">ไม่ว่าง</Badge> : <Badge variant="outline">ว่าง</Badge>,
+    },
+    {
+      id: "score",
+      header: "คะแนนจับคู่",
+      // The engine keeps only its top candidates, so the rest show a dash
+      sortValue: (u) => rankedScores.get(String(u.id)) ?? null,
+      cell: (u) => {
+        const score = rankedScores.get(String(u.id))
+        if (score === undefined) return "-"
+        return ranking?.providerId === String(u.id) ? <Badge>{formatPercent(score)}</Badge> : formatPercent(score)
+      },
+    },
+    {
+      id: "actions",
+      header: "",
+      hideable: false,
+      cell: (u) => (
+        <div className="flex justify-end gap-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setProfileTarget({ providerId: u.id, name: `${u.first_name} ${u.last_name}`, profile: profiles.get(String(u.id)) })}
+          >
+            แก้ไขข้อมูล
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => openCreateMatch(u.id)}>
+            จับคู่
+          </Button>
+        </div>
+      ),
+    },
+  ]
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold">จับคู่งาน</h1>
-          <p className="text-muted-foreground">จับคู่งานกับสมาชิกในระบบ</p>
+          <p className="text-muted-foreground">จับคู่งานกับผู้สมัครหรือผู้ให้บริการที่ระบบแนะนำ</p>
         </div>
-        <Button onClick={() => setIsCreateMatchDialogOpen(true)} disabled={!selectedJob}>
+        <Button onClick={() => openCreateMatch(null)} disabled={!selectedJob}>
           <PlusCircle className="mr-2 h-4 w-4" />
           สร้างการจับคู่ใหม่
         </Button>
       </div>
 
-      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
-        <Card className="lg:col-span-1">
+      {reviewQueue.length > 0 && (
+        <Card>
           <CardHeader>
-            <CardTitle>รายการงาน</CardTitle>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="h-5 w-5" />
+              คิวตรวจสอบการจับคู่อัตโนมัติ
+            </CardTitle>
+            <CardDescription>
+              งานที่รอนานเกินกำหนดซึ่งระบบจับคู่ให้เองไม่ได้ หรือเสนอผู้ให้บริการไว้รอการยืนยัน {reviewQueue.length} งาน
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            {isLoadingJobs ? (
-              <p>Loading...</p>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>ชื่องาน</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {jobs.map((job) => (
-                    <TableRow key={job.job_id} onClick={() => handleSelectJob(job)} className={selectedJob?.job_id === job.job_id ? 'bg-muted' : ''}>
-                      <TableCell>{job.job_title}</TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            )}
+            <DataTable
+              tableId="matching-auto-review"
+              columns={reviewColumns}
+              rows={reviewQueue}
+              getRowId={(d) => d.id}
+              defaultSort={[{ field: "waiting", direction: "asc" }]}
+              emptyMessage="ไม่มีงานในคิว"
+            />
           </CardContent>
         </Card>
+      )}
 
-        <Card className="lg:col-span-2">
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-1">
           <CardHeader>
-            <CardTitle>ผู้สมัครสำหรับงาน: {selectedJob?.job_title}</CardTitle>
+            <CardTitle>รายการงาน</CardTitle>
+            <CardDescription>ทั้งหมด {jobs.length} งาน</CardDescription>
           </CardHeader>
           <CardContent>
-            {isLoadingApplicants ? (
-              <p>Loading...</p>
-            ) : selectedJob && applicants.length > 0 ? (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>ชื่อ</TableHead>
-                    <TableHead>นามสกุล</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {applicants.map((applicant) => (
-                    <TableRow key={applicant.user_id}>
-                      <TableCell>{applicant.first_name}</TableCell>
-                      <TableCell>{applicant.last_name}</TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            ) : (
-              <p className="text-muted-foreground">เลือกงานเพื่อดูผู้สมัคร</p>
-            )}
+            <DataTable
+              tableId="matching-jobs"
+              columns={jobColumns}
+              rows={jobs}
+              getRowId={(job) => String(job.id)}
+              defaultSort={[{ field: "created_at", direction: "desc" }]}
+              onRowClick={setSelectedJob}
+              rowClassName={(job) => (job.id === selectedJobId ? "bg-muted" : undefined)}
+              isLoading={isLoadingJobs}
+              error={loadError}
+              onRetry={() => setReloadKey((key) => key + 1)}
+              emptyMessage="ไม่มีงาน"
+            />
           </CardContent>
         </Card>
+
+        <div className="space-y-6 lg:col-span-2">
+          {selectedJob ? (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>ผู้สมัครสำหรับงาน: {selectedJob.title}</CardTitle>
+                  <CardDescription>
+                    <Link href={`/help-requests/${selectedJob.id}`} className="underline">
+                      เปิดหน้ารายละเอียดงาน
+                    </Link>
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <DataTable
+                    tableId="matching-applicants"
+                    columns={applicantColumns}
+                    rows={jobApplicants}
+                    getRowId={(app) => String(app.id)}
+                    defaultSort={[{ field: "applied_at", direction: "asc" }]}
+                    isLoading={isLoadingJobs}
+                    emptyMessage="ยังไม่มีผู้สมัครงานนี้"
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>ผู้ให้บริการที่แนะนำ</CardTitle>
+                    <CardDescription>
+                      {ranking
+                        ? `จัดอันดับเมื่อ ${formatDateTime(ranking.matchedAt)} • ดูเหตุผลได้ที่บันทึก ${ranking.id}`
+                        : "ผู้ใช้ที่มีทักษะตรงกับงาน เรียงตามระยะทาง"}
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleRank} disabled={isRanking || skilledUsers.length === 0}>
+                    <Sparkles className="mr-2 h-4 w-4" />
+                    {isRanking ? "กำลังจัดอันดับ..." : "จัดอันดับด้วยระบบจับคู่"}
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <DataTable
+                    tableId="matching-suggestions"
+                    columns={suggestionColumns}
+                    rows={skilledUsers}
+                    getRowId={(u) => String(u.id)}
+                    defaultSort={[{ field: "distance", direction: "asc" }]}
+                    isLoading={isLoadingSuggestions}
+                    error={suggestionsError}
+                    emptyMessage="ไม่มีผู้ให้บริการที่ตรงกับทักษะ"
+                  />
+                </CardContent>
+              </Card>
+            </>
+          ) : (
+            <Card>
+              <CardContent className="py-10 text-center text-muted-foreground">เลือกงานเพื่อดูผู้สมัครและผู้ให้บริการที่แนะนำ</CardContent>
+            </Card>
+          )}
+        </div>
       </div>
 
-      <CreateMatchDialog open={isCreateMatchDialogOpen} onOpenChange={setIsCreateMatchDialogOpen} jobId={selectedJob?.job_id} />
+      <CreateMatchDialog
+        open={isCreateMatchDialogOpen}
+        onOpenChange={setIsCreateMatchDialogOpen}
+        job={selectedJob}
+        candidates={candidates}
+        initialUserId={matchUserId}
+        onMatched={() => setReloadKey((key) => key + 1)}
+      />
+
+      <ProviderProfileDialog
+        target={profileTarget}
+        onOpenChange={(open) => {
+          if (!open) setProfileTarget(null)
+        }}
+        onSaved={(profile) => setProfiles((current) => new Map(current).set(profile.id, profile))}
+      />
     </div>
   )
 }
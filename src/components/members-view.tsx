@@ -2,25 +2,33 @@
 
 import { motion, Variants } from "framer-motion"
 import { useToast } from "@/hooks/use-toast"
-import { useMemo, useState } from "react"
+import { useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
-import { Search, Filter, Eye, MoreVertical, User, MapPin, CreditCard, Wrench } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Search, Filter, Eye, MoreVertical, User, MapPin, CreditCard, Wrench, AlertTriangle } from "lucide-react"
+import {
+  toSortParam,
+  type Member,
+  type MemberStatus,
+  type PagedList,
+  type ReconciliationReport,
+  type SortKey,
+} from "@/domain"
+import { formatHours } from "@/lib/format"
+import { adminApi } from "@/lib/admin-api"
+import { useDebouncedValue, useServerList } from "@/hooks/use-server-list"
+import { DataTable, type DataTableColumn } from "@/components/data-table"
 
-type Member = {
-  id: string
-  name: string
-  age: string
-  location: string
-  credits: string
-  skills: string
-  status: string
+const statusLabels: Record<MemberStatus, string> = {
+  active: "ใช้งาน",
+  warning: "ใกล้หมด",
+  inactive: "ปิดใช้งาน",
 }
 
 const containerVariants: Variants = {
@@ -47,9 +55,23 @@ const itemVariants: Variants = {
   }
 };
 
-export function MembersView({ initialMembers }: { initialMembers: Member[] }) {
+export function MembersView({
+  initialPage,
+  reconciliation,
+}: {
+  initialPage?: PagedList<Member>
+  reconciliation?: ReconciliationReport
+}) {
   const { toast } = useToast()
   const [searchQuery, setSearchQuery] = useState("")
+  const [page, setPage] = useState(1)
+  const [sort, setSort] = useState<SortKey[]>([{ field: "id", direction: "asc" }])
+  const q = useDebouncedValue(searchQuery.trim())
+  const { list, isLoading, error, reload } = useServerList(
+    adminApi.members.list,
+    { q, page, sort: toSortParam(sort) },
+    initialPage,
+  )
   const [selectedMember, setSelectedMember] = useState<Member | null>(null)
   const [isDetailsOpen, setIsDetailsOpen] = useState(false)
 
@@ -58,23 +80,110 @@ export function MembersView({ initialMembers }: { initialMembers: Member[] }) {
     setIsDetailsOpen(true)
   }
 
-  const filteredMembers = useMemo(
-    () =>
-      initialMembers.filter(
-        (member) =>
-          member.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          member.location.toLowerCase().includes(searchQuery.toLowerCase()),
+  const columns: DataTableColumn<Member>[] = [
+    {
+      id: "name",
+      header: "ชื่อสมาชิก",
+      sortField: "name",
+      hideable: false,
+      cell: (member) => (
+        <div>
+          <div className="font-medium">{member.name}</div>
+          <div className="text-sm text-muted-foreground">{member.id}</div>
+        </div>
       ),
-    [initialMembers, searchQuery],
-  )
+    },
+    { id: "age", header: "อายุ", sortField: "age", cell: (member) => `${member.age} ปี` },
+    { id: "location", header: "จังหวัด", sortField: "location", cell: (member) => member.location },
+    {
+      id: "credits",
+      header: "เครดิตคงเหลือ",
+      sortField: "credits",
+      className: "text-blue-600 font-medium",
+      cell: (member) => formatHours(member.credits),
+    },
+    {
+      id: "skills",
+      header: "ความสามารถ",
+      className: "max-w-[200px]",
+      cell: (member) => <div className="text-sm">{member.skills.join(", ")}</div>,
+    },
+    {
+      id: "status",
+      header: "สถานะ",
+      sortField: "status",
+      cell: (member) => (
+        <Badge
+          variant={member.status === "active" ? "default" : "secondary"}
+          className={
+            member.status === "active"
+              ? "bg-green-100 text-green-700 hover:bg-green-100"
+              : "bg-red-100 text-red-700 hover:bg-red-100"
+          }
+        >
+          {statusLabels[member.status]}
+        </Badge>
+      ),
+    },
+    {
+      id: "actions",
+      header: "การจัดการ",
+      hideable: false,
+      cell: (member) => (
+        <div className="flex items-center gap-2">
+          <Button size="sm" className="gap-1" onClick={() => handleViewDetails(member)}>
+            <Eye className="h-3 w-3" />
+            ดูรายละเอียด
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost">
+                <MoreVertical className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={() => toast({ title: "แก้ไขสมาชิก", description: "ฟังก์ชันแก้ไขสมาชิกยังไม่พร้อมใช้งาน" })}>
+                แก้ไข
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => toast({ title: "ปิดใช้งานสมาชิก", description: "ฟังก์ชันปิดใช้งานสมาชิกยังไม่พร้อมใช้งาน" })}>
+                ปิดใช้งาน
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      ),
+    },
+  ]
+
+  const handleSearch = (value: string) => {
+    setSearchQuery(value)
+    setPage(1)
+  }
 
   return (
     <div className="space-y-6">
         <div>
           <h1 className="text-3xl font-bold">สมาชิกทั้งหมด</h1>
-          <p className="text-muted-foreground">จัดการข้อมูลสมาชิกในระบบ Time Bank (ทั้งหมด {initialMembers.length} คน)</p>
+          <p className="text-muted-foreground">จัดการข้อมูลสมาชิกในระบบ Time Bank (ทั้งหมด {(initialPage ?? list)?.total ?? 0} คน)</p>
         </div>
 
+        {reconciliation && reconciliation.mismatches.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle />
+            <AlertTitle>ยอดเครดิตไม่ตรงกับบัญชีแยกประเภท ({reconciliation.mismatches.length} คน)</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {reconciliation.mismatches.map((row) => (
+                  <li key={row.memberId}>
+                    {row.memberName} ({row.memberId}): บันทึกไว้ {formatHours(row.storedBalance)} แต่บัญชีแยกประเภทมี{" "}
+                    {formatHours(row.ledgerBalance)}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Search and Filter */}
         <Card>
           <CardHeader>
@@ -89,10 +198,10 @@ export function MembersView({ initialMembers }: { initialMembers: Member[] }) {
                   placeholder="ค้นหาตามชื่อสมาชิกหรือจังหวัด..."
                   className="pl-10"
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => handleSearch(e.target.value)}
                 />
               </div>
-              <Button variant="outline" className="gap-2 bg-transparent" onClick={() => setSearchQuery("")}>
+              <Button variant="outline" className="gap-2 bg-transparent" onClick={() => handleSearch("")}>
                 <Filter className="h-4 w-4" />
                 แสดงทั้งหมด
               </Button>
@@ -103,75 +212,25 @@ export function MembersView({ initialMembers }: { initialMembers: Member[] }) {
         {/* Members Table */}
         <Card>
           <CardHeader>
-            <CardTitle>รายชื่อสมาชิก ({filteredMembers.length} คน)</CardTitle>
+            <CardTitle>รายชื่อสมาชิก ({list?.total ?? 0} คน)</CardTitle>
           </CardHeader>
           <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>ชื่อสมาชิก</TableHead>
-                  <TableHead>อายุ</TableHead>
-                  <TableHead>จังหวัด</TableHead>
-                  <TableHead>เครดิตคงเหลือ</TableHead>
-                  <TableHead>ความสามารถ</TableHead>
-                  <TableHead>สถานะ</TableHead>
-                  <TableHead>การจัดการ</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredMembers.map((member) => (
-                  <TableRow key={member.id}>
-                    <TableCell>
-                      <div>
-                        <div className="font-medium">{member.name}</div>
-                        <div className="text-sm text-muted-foreground">{member.id}</div>
-                      </div>
-                    </TableCell>
-                    <TableCell>{member.age}</TableCell>
-                    <TableCell>{member.location}</TableCell>
-                    <TableCell className="text-blue-600 font-medium">{member.credits}</TableCell>
-                    <TableCell className="max-w-[200px]">
-                      <div className="text-sm">{member.skills}</div>
-                    </TableCell>
-                    <TableCell>
-                      <Badge
-                        variant={member.status === "active" ? "default" : "secondary"}
-                        className={
-                          member.status === "active"
-                            ? "bg-green-100 text-green-700 hover:bg-green-100"
-                            : "bg-red-100 text-red-700 hover:bg-red-100"
-                        }
-                      >
-                        {member.status === "active" ? "ใช้งาน" : "ใกล้หมด"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Button size="sm" className="gap-1" onClick={() => handleViewDetails(member)}>
-                          <Eye className="h-3 w-3" />
-                          ดูรายละเอียด
-                        </Button>
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button size="icon" variant="ghost">
-                              <MoreVertical className="h-4 w-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent>
-                            <DropdownMenuItem onClick={() => toast({ title: "แก้ไขสมาชิก", description: "ฟังก์ชันแก้ไขสมาชิกยังไม่พร้อมใช้งาน" })}>
-                              แก้ไข
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => toast({ title: "ปิดใช้งานสมาชิก", description: "ฟังก์ชันปิดใช้งานสมาชิกยังไม่พร้อมใช้งาน" })}>
-                              ปิดใช้งาน
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+            <DataTable
+              tableId="members"
+              columns={columns}
+              rows={list?.items ?? []}
+              getRowId={(member) => member.id}
+              sort={sort}
+              onSortChange={(next) => {
+                setSort(next)
+                setPage(1)
+              }}
+              pagination={list ? { ...list, onPageChange: setPage } : undefined}
+              isLoading={isLoading}
+              error={error}
+              onRetry={reload}
+              emptyMessage="ไม่พบสมาชิกที่ตรงกับคำค้นหา"
+            />
           </CardContent>
         </Card>
 
@@ -203,7 +262,7 @@ export function MembersView({ initialMembers }: { initialMembers: Member[] }) {
                     <div className="space-y-2">
                       <h4 className="font-medium text-muted-foreground">ข้อมูลส่วนตัว</h4>
                       <div className="space-y-2 rounded-lg border p-3">
-                        <div className="flex items-center gap-2"><User className="h-4 w-4 text-muted-foreground" /> <span className="font-medium">อายุ:</span> {selectedMember.age}</div>
+                        <div className="flex items-center gap-2"><User className="h-4 w-4 text-muted-foreground" /> <span className="font-medium">อายุ:</span> {selectedMember.age} ปี</div>
                         <div className="flex items-center gap-2"><MapPin className="h-4 w-4 text-muted-foreground" /> <span className="font-medium">จังหวัด:</span> {selectedMember.location}</div>
                       </div>
                     </div>
@@ -212,8 +271,8 @@ export function MembersView({ initialMembers }: { initialMembers: Member[] }) {
                     <div className="space-y-2">
                       <h4 className="font-medium text-muted-foreground">ข้อมูล Time Bank</h4>
                       <div className="space-y-2 rounded-lg border p-3">
-                        <div className="flex items-center gap-2"><CreditCard className="h-4 w-4 text-muted-foreground" /> <span className="font-medium">เครดิต:</span> {selectedMember.credits}</div>
-                        <div className="flex items-start gap-2"><Wrench className="h-4 w-4 mt-1 text-muted-foreground" /> <span className="font-medium">ความสามารถ:</span> {selectedMember.skills}</div>
+                        <div className="flex items-center gap-2"><CreditCard className="h-4 w-4 text-muted-foreground" /> <span className="font-medium">เครดิต:</span> {formatHours(selectedMember.credits)}</div>
+                        <div className="flex items-start gap-2"><Wrench className="h-4 w-4 mt-1 text-muted-foreground" /> <span className="font-medium">ความสามารถ:</span> {selectedMember.skills.join(", ")}</div>
                         <div className="flex items-center gap-2"><span className="font-medium">สถานะ:</span> <Badge
                             variant={selectedMember.status === "active" ? "default" : "secondary"}
                             className={
@@ -222,7 +281,7 @@ export function MembersView({ initialMembers }: { initialMembers: Member[] }) {
                                 : "bg-red-100 text-red-700 hover:bg-red-100"
                             }
                           >
-                            {selectedMember.status === "active" ? "ใช้งาน" : "ใกล้หมด"}
+                            {statusLabels[selectedMember.status]}
                           </Badge></div>
                       </div>
                     </div>
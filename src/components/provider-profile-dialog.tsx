@@ -0,0 +1,101 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/hooks/use-toast"
+import type { ProviderProfile } from "@/domain"
+import { adminApi, describeApiError } from "@/lib/admin-api"
+
+export type ProviderProfileTarget = {
+  providerId: number
+  name: string
+  profile: ProviderProfile | undefined
+}
+
+/**
+ * Sets the rating and availability the matching engine weighs for a provider. An empty rating means
+ * "not rated yet", which the engine scores as neutral.
+ */
+export function ProviderProfileDialog({
+  target,
+  onOpenChange,
+  onSaved,
+}: {
+  target: ProviderProfileTarget | null
+  onOpenChange: (open: boolean) => void
+  onSaved: (profile: ProviderProfile) => void
+}) {
+  const { toast } = useToast()
+  const [rating, setRating] = useState("")
+  const [available, setAvailable] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setRating(target?.profile?.rating == null ? "" : String(target.profile.rating))
+    setAvailable(target?.profile?.available ?? true)
+  }, [target])
+
+  const parsedRating = rating.trim() === "" ? null : Number(rating)
+  const isRatingValid = parsedRating === null || (Number.isFinite(parsedRating) && parsedRating >= 0 && parsedRating <= 5)
+
+  const handleSave = async () => {
+    if (!target || !isRatingValid) return
+    setIsSaving(true)
+    try {
+      const profile = await adminApi.providers.updateProfile(target.providerId, { rating: parsedRating, available })
+      onSaved(profile)
+      toast({ title: "บันทึกข้อมูลผู้ให้บริการแล้ว", description: `ระบบจับคู่จะใช้ข้อมูลใหม่ของ ${target.name} ในการจัดอันดับครั้งถัดไป` })
+      onOpenChange(false)
+    } catch (err) {
+      toast({ title: "บันทึกไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={target !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>ข้อมูลผู้ให้บริการ {target?.name}</DialogTitle>
+          <DialogDescription>
+            {target?.profile
+              ? `งานที่รับอยู่ ${target.profile.activeJobs} งาน • ไม่มาตามนัด ${target.profile.noShows} ครั้ง`
+              : "ยังไม่มีประวัติการจับคู่ในระบบ"}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div>
+            <label htmlFor="providerRating">คะแนนรีวิว (0–5)</label>
+            <Input
+              id="providerRating"
+              type="number"
+              min={0}
+              max={5}
+              step={0.1}
+              value={rating}
+              onChange={(e) => setRating(e.target.value)}
+              placeholder="เว้นว่างถ้ายังไม่มีคะแนน"
+            />
+            {!isRatingValid && <p className="mt-1 text-sm text-destructive">คะแนนต้องอยู่ระหว่าง 0 ถึง 5</p>}
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={available} onCheckedChange={(checked) => setAvailable(checked === true)} />
+            ว่างรับงาน
+          </label>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            ยกเลิก
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !isRatingValid}>
+            {isSaving ? "กำลังบันทึก..." : "บันทึก"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
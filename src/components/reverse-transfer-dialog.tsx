@@ -0,0 +1,83 @@
+'use client'
+
+import { useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import type { Transfer } from "@/domain"
+import { adminApi, describeApiError } from "@/lib/admin-api"
+import { formatHours } from "@/lib/format"
+
+type ReverseTransferDialogProps = {
+  transfer: Transfer | null
+  onOpenChange: (open: boolean) => void
+  onReversed: (original: Transfer, compensating: Transfer | null) => void
+}
+
+export function ReverseTransferDialog({ transfer, onOpenChange, onReversed }: ReverseTransferDialogProps) {
+  const { toast } = useToast()
+  const [reason, setReason] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setReason("")
+    }
+    onOpenChange(next)
+  }
+
+  const handleSubmit = async () => {
+    if (!transfer) return
+    setIsSubmitting(true)
+    try {
+      const result = await adminApi.transfers.reverse(transfer.id, { reason: reason.trim() })
+      onReversed(result.original, result.compensating)
+      toast(
+        result.compensating
+          ? { title: "ย้อนรายการแล้ว", description: `สร้างรายการชดเชย ${result.compensating.id} สำหรับ ${transfer.id}` }
+          : { title: "ส่งคำขอย้อนรายการแล้ว", description: `รอผู้ดูแลระบบอีกคนอนุมัติการย้อน ${transfer.id}` },
+      )
+      handleOpenChange(false)
+    } catch (err) {
+      toast({ title: "ย้อนรายการล้มเหลว", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={transfer !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>ย้อนรายการโอน {transfer?.id}</DialogTitle>
+          <DialogDescription>
+            {transfer &&
+              `ระบบจะสร้างรายการชดเชยโอน ${formatHours(transfer.amount)} จาก ${transfer.receiver} คืนให้ ${transfer.sender}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div>
+            <label htmlFor="reversalReason">เหตุผล</label>
+            <Textarea
+              id="reversalReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="เช่น งานไม่ได้ทำจริง มีข้อร้องเรียนจากผู้ขอ"
+              rows={3}
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">การย้อนรายการที่มียอดถึงเกณฑ์ของระบบจะรอผู้ดูแลระบบอีกคนอนุมัติก่อน</p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            ยกเลิก
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={isSubmitting || reason.trim() === ""}>
+            {isSubmitting ? "กำลังบันทึก..." : "ย้อนรายการ"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
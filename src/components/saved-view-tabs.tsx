@@ -0,0 +1,132 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { BookmarkPlus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useToast } from "@/hooks/use-toast"
+import type { SavedView, SavedViewList } from "@/domain"
+import { adminApi, describeApiError, isAbortError } from "@/lib/admin-api"
+
+function sameFilters(a: Record<string, string>, b: Record<string, string>) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  return [...keys].every((key) => a[key] === b[key])
+}
+
+/**
+ * Quick tabs above a list: "all", then the admin's own named filter sets for this list, stored on the server
+ * so they follow the admin to any machine. Saving captures the filters currently in effect; picking a tab replaces them.
+ */
+export function SavedViewTabs({
+  listId,
+  activeFilters,
+  onApply,
+}: {
+  listId: SavedViewList
+  activeFilters: Record<string, string>
+  onApply: (filters: Record<string, string>) => void
+}) {
+  const { toast } = useToast()
+  const [views, setViews] = useState<SavedView[]>([])
+  const [isSaveOpen, setIsSaveOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  // The tabs are a shortcut; if they cannot be loaded the list itself still works
+  useEffect(() => {
+    const controller = new AbortController()
+    adminApi.savedViews
+      .list(listId, { signal: controller.signal })
+      .then(setViews)
+      .catch((err) => {
+        if (!isAbortError(err)) console.error("Could not load saved views:", err)
+      })
+    return () => controller.abort()
+  }, [listId])
+
+  const hasFilters = Object.keys(activeFilters).length > 0
+  const currentIsSaved = views.some((view) => sameFilters(view.filters, activeFilters))
+
+  const handleSave = async () => {
+    const trimmed = name.trim()
+    if (!trimmed || isSaving) return
+    setIsSaving(true)
+    try {
+      const view = await adminApi.savedViews.create({ listId, name: trimmed, filters: activeFilters })
+      setViews((current) => [...current, view])
+      setName("")
+      setIsSaveOpen(false)
+    } catch (err) {
+      toast({ title: "บันทึกมุมมองไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (view: SavedView) => {
+    try {
+      await adminApi.savedViews.remove(view.id)
+      setViews((current) => current.filter((v) => v.id !== view.id))
+    } catch (err) {
+      toast({ title: "ลบมุมมองไม่สำเร็จ", description: describeApiError(err), variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button size="sm" variant={hasFilters ? "outline" : "default"} onClick={() => onApply({})}>
+        ทั้งหมด
+      </Button>
+      {views.map((view) => {
+        const isActive = sameFilters(view.filters, activeFilters)
+        return (
+          <div key={view.id} className="flex items-center">
+            <Button
+              size="sm"
+              variant={isActive ? "default" : "outline"}
+              className="rounded-r-none"
+              onClick={() => onApply(view.filters)}
+            >
+              {view.name}
+            </Button>
+            <Button
+              size="sm"
+              variant={isActive ? "default" : "outline"}
+              className="rounded-l-none border-l-0 px-2"
+              aria-label={`ลบมุมมอง ${view.name}`}
+              onClick={() => handleDelete(view)}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )
+      })}
+      <Popover open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="ghost" className="gap-2" disabled={!hasFilters || currentIsSaved}>
+            <BookmarkPlus className="h-4 w-4" />
+            บันทึกมุมมอง
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 space-y-3">
+          <p className="text-sm font-medium">ตั้งชื่อมุมมองจากตัวกรองปัจจุบัน</p>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave()
+            }}
+            placeholder="เช่น คำขอรอตรวจสอบเกิน 7 วัน"
+            autoFocus
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSave} disabled={isSaving || name.trim() === ""}>
+              {isSaving ? "กำลังบันทึก..." : "บันทึก"}
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { createContext, useContext, useMemo, type ReactNode } from "react"
+import { hasPermission, isRole, type Permission, type Role } from "@/lib/permissions"
+
+export type ClientSessionUser = {
+  id?: string | number
+  email?: string
+  role: string
+}
+
+type SessionContextValue = {
+  user: ClientSessionUser | null
+  role: Role | null
+  can: (permission: Permission) => boolean
+}
+
+const SessionContext = createContext<SessionContextValue>({
+  user: null,
+  role: null,
+  can: () => false,
+})
+
+export function SessionProvider({ user, children }: { user: ClientSessionUser | null; children: ReactNode }) {
+  const value = useMemo<SessionContextValue>(
+    () => ({
+      user,
+      role: user && isRole(user.role) ? user.role : null,
+      can: (permission) => (user ? hasPermission(user.role, permission) : false),
+    }),
+    [user],
+  )
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>
+}
+
+export function useSession() {
+  return useContext(SessionContext)
+}
+
+export function usePermission(permission: Permission) {
+  return useContext(SessionContext).can(permission)
+}
@@ -1,45 +1,150 @@
 'use client'
 
-import { useMemo, useState } from "react"
+import { useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
-import { Search, Calendar, Download } from "lucide-react"
-type Transfer = {
-  id: string
-  sender: string
-  receiver: string
-  amount: string
-  date: string
-  dateISO: string
-  reason: string
-  status: string
-  type: string
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Search, Calendar, Download, Plus, Undo2, Check, X } from "lucide-react"
+import {
+  isReversible,
+  toSortParam,
+  type Member,
+  type PagedList,
+  type SortKey,
+  type Transfer,
+  type TransferStatus,
+  type TransferSummary,
+  type TransferType,
+} from "@/domain"
+import { usePermission, useSession } from "@/components/session-provider"
+import { ManualTransferDialog } from "@/components/manual-transfer-dialog"
+import { ReverseTransferDialog } from "@/components/reverse-transfer-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { adminApi, describeApiError, fetchAllPages } from "@/lib/admin-api"
+import { toCsv } from "@/lib/csv"
+import { formatDate, formatHours } from "@/lib/format"
+import { useServerList } from "@/hooks/use-server-list"
+import { useFilterDraft, useUrlFilters } from "@/hooks/use-url-filters"
+import { SavedViewTabs } from "@/components/saved-view-tabs"
+import { DataTable, type DataTableColumn } from "@/components/data-table"
+
+const transferTypeLabels: Record<TransferType, string> = {
+  service: "จัดในผัด",
+  manual: "โอนแทนสมาชิก",
+  reversal: "รายการชดเชย",
+}
+
+const transferStatusLabels: Record<TransferStatus, string> = {
+  success: "สำเร็จ",
+  failed: "ล้มเหลว",
+  reversal_pending: "รออนุมัติการย้อน",
+  reversed: "ย้อนรายการแล้ว",
+}
+
+const transferStatusStyles: Record<TransferStatus, string> = {
+  success: "bg-green-100 text-green-700 hover:bg-green-100",
+  failed: "bg-red-100 text-red-700 hover:bg-red-100",
+  reversal_pending: "bg-amber-100 text-amber-700 hover:bg-amber-100",
+  reversed: "bg-gray-100 text-gray-700 hover:bg-gray-100",
 }
 
-export function TransfersView({ initialTransfers }: { initialTransfers: Transfer[] }) {
-  const [startDate, setStartDate] = useState("")
-  const [endDate, setEndDate] = useState("")
-  const [senderQuery, setSenderQuery] = useState("")
-  const [receiverQuery, setReceiverQuery] = useState("")
-
-  const handleExportCSV = () => {
-    const headers = ["ID", "ผู้โอน", "ผู้รับ", "จำนวนเครดิต", "เวลาที่โอน", "หมายเหตุ", "สถานะ", "ประเภท"];
-    const csvContent = [
-      headers.join(','),
-      ...filteredTransfers.map(t => [
-        t.id || '',
-        t.sender || '',
-        t.receiver || '',
-        t.amount || '',
-        t.date || '',
-        `"${(t.reason || '').replace(/"/g, '""')}"`,
-        "สำเร็จ",
-        t.type || ''
-      ].join(','))
-    ].join('\n');
+export function TransfersView({
+  initialPage,
+  members,
+}: {
+  initialPage?: PagedList<Transfer, TransferSummary>
+  members: Member[]
+}) {
+  const [memberBalances, setMemberBalances] = useState<Member[]>(members)
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [page, setPage] = useState(1)
+  const [sort, setSort] = useState<SortKey[]>([{ field: "date", direction: "desc" }])
+  const [isExporting, setIsExporting] = useState(false)
+  const [reversing, setReversing] = useState<Transfer | null>(null)
+  const [decidingId, setDecidingId] = useState<string | null>(null)
+  const { toast } = useToast()
+  const { user } = useSession()
+  const canExport = usePermission("transfers:export")
+  const canCreate = usePermission("transfers:create")
+  const canReverse = usePermission("transfers:reverse")
+
+  const { filters: urlFilters, activeFilters, setFilters, replaceFilters } = useUrlFilters({
+    from: "",
+    to: "",
+    sender: "",
+    receiver: "",
+    status: "all",
+  })
+  const filters = { ...urlFilters, status: urlFilters.status === "all" ? undefined : urlFilters.status }
+  const { list, isLoading, error, reload } = useServerList(
+    adminApi.transfers.list,
+    { ...filters, page, sort: toSortParam(sort) },
+    initialPage,
+  )
+
+  // Any filter change starts again from the first page
+  const updateFilters = (patch: Partial<typeof urlFilters>) => {
+    setFilters(patch)
+    setPage(1)
+  }
+  const [senderQuery, setSenderQuery] = useFilterDraft(urlFilters.sender, (sender) => updateFilters({ sender }))
+  const [receiverQuery, setReceiverQuery] = useFilterDraft(urlFilters.receiver, (receiver) => updateFilters({ receiver }))
+
+  const applyToBalances = (transfer: Transfer) => {
+    setMemberBalances((current) =>
+      current.map((member) =>
+        member.id === transfer.senderId
+          ? { ...member, credits: member.credits - transfer.amount }
+          : member.id === transfer.receiverId
+            ? { ...member, credits: member.credits + transfer.amount }
+            : member,
+      ),
+    )
+  }
+
+  const handleCreated = (transfer: Transfer) => {
+    applyToBalances(transfer)
+    reload()
+  }
+
+  const handleReversed = (_original: Transfer, compensating: Transfer | null) => {
+    if (compensating) applyToBalances(compensating)
+    reload()
+  }
+
+  const handleDecideReversal = async (transfer: Transfer, approve: boolean) => {
+    setDecidingId(transfer.id)
+    try {
+      const result = await adminApi.transfers.decideReversal(transfer.id, { approve })
+      handleReversed(result.original, result.compensating)
+      toast({
+        title: approve ? "อนุมัติการย้อนรายการแล้ว" : "ไม่อนุมัติการย้อนรายการ",
+        description: approve ? `สร้างรายการชดเชย ${result.compensating?.id} แล้ว` : `${transfer.id} กลับเป็นสถานะสำเร็จ`,
+      })
+    } catch (err) {
+      toast({ title: "บันทึกการตัดสินใจล้มเหลว", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setDecidingId(null)
+    }
+  }
+
+  const downloadCsv = (rows: Transfer[]) => {
+    const csvContent = toCsv(
+      ["ID", "ผู้โอน", "ผู้รับ", "จำนวนเครดิต", "เวลาที่โอน", "หมายเหตุ", "สถานะ", "ประเภท", "อ้างอิงรายการ"],
+      rows.map((t) => [
+        t.id,
+        t.sender,
+        t.receiver,
+        t.amount,
+        formatDate(t.createdAt),
+        t.reason,
+        transferStatusLabels[t.status],
+        transferTypeLabels[t.type],
+        t.reversalOf ?? t.reversedBy ?? "",
+      ]),
+    )
 
     const blob = new Blob(["\uFEFF" + csvContent], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement("a");
@@ -54,50 +159,123 @@ export function TransfersView({ initialTransfers }: { initialTransfers: Transfer
     }
   };
 
-  const totalHours = useMemo(
-    () =>
-      initialTransfers.reduce((acc, transfer) => {
-        const numeric = parseInt(transfer.amount, 10)
-        return acc + (Number.isNaN(numeric) ? 0 : numeric)
-      }, 0),
-    [initialTransfers],
-  )
-
-  const filteredTransfers = useMemo(() => {
-    const senderLower = senderQuery.toLowerCase()
-    const receiverLower = receiverQuery.toLowerCase()
-    const start = startDate ? new Date(startDate) : null
-    const end = endDate ? new Date(endDate) : null
-
-    return initialTransfers.filter((transfer) => {
-      const transferDate = new Date(transfer.dateISO)
+  // Exports every row matching the filters, not just the page on screen
+  const handleExportCSV = async () => {
+    setIsExporting(true)
+    try {
+      downloadCsv(await fetchAllPages(adminApi.transfers.list, { ...filters, sort: toSortParam(sort) }))
+    } catch (err) {
+      toast({ title: "ส่งออก CSV ล้มเหลว", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setIsExporting(false)
+    }
+  }
 
-      const senderMatch = transfer.sender && transfer.sender.toLowerCase().includes(senderLower);
-      const receiverMatch = transfer.receiver && transfer.receiver.toLowerCase().includes(receiverLower);
+  const columns: DataTableColumn<Transfer>[] = [
+    { id: "id", header: "ID", sortField: "id", className: "font-medium", cell: (transfer) => transfer.id },
+    { id: "sender", header: "ผู้โอน", sortField: "sender", cell: (transfer) => transfer.sender },
+    {
+      id: "receiver",
+      header: "ผู้รับ",
+      sortField: "receiver",
+      cell: (transfer) => (
+        <span className="flex items-center gap-2">
+          <span>→</span>
+          {transfer.receiver}
+        </span>
+      ),
+    },
+    {
+      id: "amount",
+      header: "จำนวนเครดิต",
+      sortField: "amount",
+      className: "text-blue-600 font-semibold",
+      cell: (transfer) => formatHours(transfer.amount),
+    },
+    { id: "date", header: "เวลาที่โอน", sortField: "date", cell: (transfer) => formatDate(transfer.createdAt) },
+    { id: "reason", header: "หมายเหตุ", className: "max-w-[200px]", cell: (transfer) => transfer.reason },
+    {
+      id: "status",
+      header: "สถานะ",
+      sortField: "status",
+      cell: (transfer) => (
+        <>
+          <Badge className={transferStatusStyles[transfer.status]}>{transferStatusLabels[transfer.status]}</Badge>
+          {(transfer.reversedBy || transfer.reversalOf) && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              {transfer.reversedBy ? `ชดเชยโดย ${transfer.reversedBy}` : `ชดเชย ${transfer.reversalOf}`}
+            </p>
+          )}
+          {transfer.reversalRequest && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              ขอโดย {transfer.reversalRequest.requestedBy}: {transfer.reversalRequest.reason}
+            </p>
+          )}
+        </>
+      ),
+    },
+    { id: "type", header: "ประเภท", sortField: "type", cell: (transfer) => transferTypeLabels[transfer.type] },
+  ]
 
-      return (
-        senderMatch &&
-        receiverMatch &&
-        (!start || transferDate >= start) &&
-        (!end || transferDate <= end)
-      )
+  if (canReverse) {
+    columns.push({
+      id: "actions",
+      header: "การจัดการ",
+      hideable: false,
+      headerClassName: "text-right",
+      className: "text-right",
+      cell: (transfer) => (
+        <>
+          {isReversible(transfer) && (
+            <Button size="sm" variant="outline" className="gap-2" onClick={() => setReversing(transfer)}>
+              <Undo2 className="h-4 w-4" />
+              ย้อนรายการ
+            </Button>
+          )}
+          {transfer.status === "reversal_pending" && (
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={decidingId === transfer.id || transfer.reversalRequest?.requestedBy === user?.email}
+                title={transfer.reversalRequest?.requestedBy === user?.email ? "ต้องให้ผู้ดูแลระบบคนอื่นอนุมัติ" : undefined}
+                onClick={() => handleDecideReversal(transfer, true)}
+              >
+                <Check className="h-4 w-4 mr-2" /> อนุมัติ
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={decidingId === transfer.id}
+                onClick={() => handleDecideReversal(transfer, false)}
+              >
+                <X className="h-4 w-4 mr-2" /> ไม่อนุมัติ
+              </Button>
+            </div>
+          )}
+        </>
+      ),
     })
-  }, [initialTransfers, senderQuery, receiverQuery, startDate, endDate])
-
-  const filteredHours = useMemo(
-    () =>
-      filteredTransfers.reduce((acc, transfer) => {
-        const numeric = parseInt(transfer.amount, 10)
-        return acc + (Number.isNaN(numeric) ? 0 : numeric)
-      }, 0),
-    [filteredTransfers],
-  )
+  }
+
+  // The server aggregates over every matching row, so the cards follow the filters
+  const totalCount = list?.total ?? 0
+  const totalHours = list?.summary.totalAmount ?? 0
+  const successRate = list?.summary.successRate ?? 0
 
   return (
     <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold">การโอนเครดิตระหว่างสมาชก</h1>
-          <p className="text-muted-foreground">ติดตามและตรวจสอบการโอนเครดิตทั้งหมดในระบบ</p>
+        <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">การโอนเครดิตระหว่างสมาชก</h1>
+            <p className="text-muted-foreground">ติดตามและตรวจสอบการโอนเครดิตทั้งหมดในระบบ</p>
+          </div>
+          {canCreate && (
+            <Button className="gap-2" onClick={() => setIsCreateOpen(true)}>
+              <Plus className="h-4 w-4" />
+              โอนเครดิตแทนสมาชิก
+            </Button>
+          )}
         </div>
 
         {/* Stats Cards */}
@@ -107,7 +285,7 @@ export function TransfersView({ initialTransfers }: { initialTransfers: Transfer
               <CardTitle className="text-sm font-medium text-muted-foreground">การโอนทั้งหมด</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold">{initialTransfers.length}</div>
+              <div className="text-3xl font-bold">{totalCount}</div>
               <p className="text-xs text-muted-foreground mt-1">รายการ</p>
             </CardContent>
           </Card>
@@ -127,12 +305,21 @@ export function TransfersView({ initialTransfers }: { initialTransfers: Transfer
               <CardTitle className="text-sm font-medium text-muted-foreground">อัตราสำเร็จ</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold text-green-600">100%</div>
+              <div className="text-3xl font-bold text-green-600">{successRate}%</div>
               <p className="text-xs text-muted-foreground mt-1">การโอนสำเร็จ</p>
             </CardContent>
           </Card>
         </div>
 
+        <SavedViewTabs
+          listId="transfers"
+          activeFilters={activeFilters}
+          onApply={(values) => {
+            replaceFilters(values)
+            setPage(1)
+          }}
+        />
+
         {/* Filter Section */}
         <Card>
           <CardHeader>
@@ -140,14 +327,14 @@ export function TransfersView({ initialTransfers }: { initialTransfers: Transfer
             <CardDescription>กรองข้อมูลการโอนตามเงื่อนไขต่างๆ</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="grid gap-4 md:grid-cols-4">
+            <div className="grid gap-4 md:grid-cols-5">
               <div className="relative">
                 <Calendar className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                <Input type="date" placeholder="วันที่เริ่มต้น" className="pl-10" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                <Input type="date" placeholder="วันที่เริ่มต้น" className="pl-10" value={urlFilters.from} onChange={(e) => updateFilters({ from: e.target.value })} />
               </div>
               <div className="relative">
                 <Calendar className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                <Input type="date" placeholder="วันที่สิ้นสุด" className="pl-10" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                <Input type="date" placeholder="วันที่สิ้นสุด" className="pl-10" value={urlFilters.to} onChange={(e) => updateFilters({ to: e.target.value })} />
               </div>
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
@@ -157,57 +344,88 @@ export function TransfersView({ initialTransfers }: { initialTransfers: Transfer
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                 <Input placeholder="ค้นหาผู้รับ..." className="pl-10" value={receiverQuery} onChange={(e) => setReceiverQuery(e.target.value)} />
               </div>
+              <Select value={urlFilters.status} onValueChange={(status) => updateFilters({ status })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="สถานะ" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">ทุกสถานะ</SelectItem>
+                  {(Object.keys(transferStatusLabels) as TransferStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {transferStatusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-            <div className="mt-4 flex justify-end">
-              <Button className="gap-2" onClick={handleExportCSV}>
-                <Download className="h-4 w-4" />
-                ส่งออก CSV
-              </Button>
-            </div>
+            {canExport && (
+              <div className="mt-4 flex justify-end">
+                <Button className="gap-2" onClick={handleExportCSV} disabled={isExporting}>
+                  <Download className="h-4 w-4" />
+                  ส่งออก CSV
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
         {/* Transfers Table */}
         <Card>
           <CardHeader>
-            <CardTitle>รายการโอนเครดิต ({filteredTransfers.length} รายการ / {filteredHours} ชั่วโมง)</CardTitle>
+            <CardTitle>รายการโอนเครดิต ({totalCount} รายการ / {totalHours} ชั่วโมง)</CardTitle>
           </CardHeader>
           <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>ID</TableHead>
-                  <TableHead>ผู้โอน</TableHead>
-                  <TableHead>ผู้รับ</TableHead>
-                  <TableHead>จำนวนเครดิต</TableHead>
-                  <TableHead>เวลาที่โอน</TableHead>
-                  <TableHead>หมายเหตุ</TableHead>
-                  <TableHead>สถานะ</TableHead>
-                  <TableHead>ประเภท</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredTransfers.map((transfer) => (
-                  <TableRow key={transfer.id}>
-                    <TableCell className="font-medium">{transfer.id}</TableCell>
-                    <TableCell>{transfer.sender}</TableCell>
-                    <TableCell className="flex items-center gap-2">
-                      <span>→</span>
-                      {transfer.receiver}
-                    </TableCell>
-                    <TableCell className="text-blue-600 font-semibold">{transfer.amount}</TableCell>
-                    <TableCell>{transfer.date}</TableCell>
-                    <TableCell className="max-w-[200px]">{transfer.reason}</TableCell>
-                    <TableCell>
-                      <Badge className="bg-green-100 text-green-700 hover:bg-green-100">สำเร็จ</Badge>
-                    </TableCell>
-                    <TableCell>{transfer.type}</TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+            <DataTable
+              tableId="transfers"
+              columns={columns}
+              rows={list?.items ?? []}
+              getRowId={(transfer) => transfer.id}
+              sort={sort}
+              onSortChange={(next) => {
+                setSort(next)
+                setPage(1)
+              }}
+              pagination={list ? { ...list, onPageChange: setPage } : undefined}
+              bulkActions={
+                canExport
+                  ? (selected, clearSelection) => (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="gap-2"
+                        onClick={() => {
+                          downloadCsv(selected)
+                          clearSelection()
+                        }}
+                      >
+                        <Download className="h-4 w-4" />
+                        ส่งออกที่เลือก
+                      </Button>
+                    )
+                  : undefined
+              }
+              isLoading={isLoading}
+              error={error}
+              onRetry={reload}
+              emptyMessage="ไม่พบรายการโอนที่ตรงกับตัวกรอง"
+            />
           </CardContent>
         </Card>
+
+        <ManualTransferDialog
+          open={isCreateOpen}
+          onOpenChange={setIsCreateOpen}
+          members={memberBalances}
+          onCreated={handleCreated}
+        />
+
+        <ReverseTransferDialog
+          transfer={reversing}
+          onOpenChange={(open) => {
+            if (!open) setReversing(null)
+          }}
+          onReversed={handleReversed}
+        />
     </div>
   )
 }
@@ -6,63 +6,42 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/components/session-provider"
 import { Spinner } from "@/components/ui/spinner"
+import { DataTable, type DataTableColumn } from "@/components/data-table"
+import { SavedViewTabs } from "@/components/saved-view-tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useFilterDraft, useUrlFilters } from "@/hooks/use-url-filters"
 import { Download, Search, ShieldCheck, ShieldOff, RefreshCw } from "lucide-react"
-
-type VerificationEntry = {
-  id: number | string
-  first_name: string
-  last_name: string
-  email: string
-  phone?: string
-  national_id?: string
-  dob?: string
-  household?: string
-  skills?: string[]
-  status?: "verified" | "pending" | "rejected" | string
-  lat?: number
-  lon?: number
-  created_at?: string
-}
+import type { VerificationEntry } from "@/domain"
+import { adminApi, describeApiError } from "@/lib/admin-api"
+import { formatDateTime, formatISODate } from "@/lib/format"
 
 // Keep a small fallback in case the API is unavailable during dev
 const mockData: VerificationEntry[] = []
 
-const formatDate = (isoDate?: string) => {
-  if (!isoDate) return "-"
-  try {
-    return new Intl.DateTimeFormat("th-TH", {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    }).format(new Date(isoDate))
-  } catch {
-    return isoDate
-  }
-}
+const DAY_MS = 24 * 60 * 60 * 1000
 
-const formatISODate = (isoDate?: string) => {
-  if (!isoDate) return "-"
-  try {
-    return new Date(isoDate).toISOString().slice(0, 10)
-  } catch {
-    return isoDate
-  }
-}
+// "Waiting longer than" choices, in days
+const ageOptions: { value: string; label: string }[] = [
+  { value: "any", label: "ทุกช่วงเวลา" },
+  { value: "1", label: "เกิน 1 วัน" },
+  { value: "3", label: "เกิน 3 วัน" },
+  { value: "7", label: "เกิน 7 วัน" },
+  { value: "30", label: "เกิน 30 วัน" },
+]
 
 export function VerificationView() {
   const { toast } = useToast()
-  const API_BASE = (process.env.NEXT_PUBLIC_API_URL || "").replace(/\/$/, "")
+  const canDecide = usePermission("verification:decide")
   const [entries, setEntries] = useState<VerificationEntry[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
-  const [search, setSearch] = useState("")
-  const [statusFilter, setStatusFilter] = useState<"all" | "pending" | "verified" | "rejected">("all")
+  const { filters, activeFilters, setFilters, replaceFilters } = useUrlFilters({ q: "", status: "all", olderThan: "any" })
+  const [search, setSearch] = useFilterDraft(filters.q, (q) => setFilters({ q }))
   const [detailOpen, setDetailOpen] = useState(false)
   const [detailEntry, setDetailEntry] = useState<VerificationEntry | null>(null)
   const [detailLoading, setDetailLoading] = useState(false)
@@ -70,31 +49,20 @@ export function VerificationView() {
   const loadData = useCallback(async (showToast = false) => {
     setIsLoading(true)
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("accessToken") || (process.env.NEXT_PUBLIC_ADMIN_ACCESS_TOKEN as string) : undefined
-      const base = API_BASE || ''
-      const res = await fetch(`${base}/api/admin/verification`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-      })
-      if (!res.ok) throw new Error(`Failed to load: ${res.status}`)
-      const data = await res.json()
-      // API may return either an array directly or an object { success, data: [...] }
-      if (Array.isArray(data)) {
-        setEntries(data)
-      } else if (data && Array.isArray(data.data)) {
-        setEntries(data.data)
-      } else {
-        setEntries([])
-      }
+      const data = await adminApi.verification.list()
+      setEntries(data)
+      setLoadError(null)
       if (showToast) {
         toast({
           title: "รีเฟรชข้อมูลแล้ว",
-          description: `โหลดข้อมูลคำขอยืนยัน ${Array.isArray(data) ? data.length : 0} รายการ`,
+          description: `โหลดข้อมูลคำขอยืนยัน ${data.length} รายการ`,
         })
       }
     } catch (err) {
       // fallback to mock if available
       setEntries(mockData)
-      toast({ title: "โหลดข้อมูลล้มเหลว", description: String(err), variant: "destructive" })
+      setLoadError(describeApiError(err))
+      toast({ title: "โหลดข้อมูลล้มเหลว", description: describeApiError(err), variant: "destructive" })
     } finally {
       setIsLoading(false)
       setIsRefreshing(false)
@@ -109,21 +77,9 @@ export function VerificationView() {
     setDetailLoading(true)
     setDetailOpen(true)
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("accessToken") || (process.env.NEXT_PUBLIC_ADMIN_ACCESS_TOKEN as string) : undefined
-      const base = API_BASE || ''
-      const res = await fetch(`${base}/api/admin/verification/${id}`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-      })
-      if (!res.ok) throw new Error(`Failed to load details: ${res.status}`)
-      const data = await res.json()
-      // Detail endpoint may return { success, data: { ... } }
-      if (data && data.data) {
-        setDetailEntry(data.data)
-      } else {
-        setDetailEntry(data)
-      }
+      setDetailEntry(await adminApi.verification.get(id))
     } catch (err) {
-      toast({ title: "โหลดรายละเอียดล้มเหลว", description: String(err), variant: "destructive" })
+      toast({ title: "โหลดรายละเอียดล้มเหลว", description: describeApiError(err), variant: "destructive" })
       setDetailEntry(null)
     } finally {
       setDetailLoading(false)
@@ -131,7 +87,9 @@ export function VerificationView() {
   }
 
   const filteredEntries = useMemo(() => {
-    const query = search.trim().toLowerCase()
+    const query = filters.q.trim().toLowerCase()
+    const olderThanDays = Number(filters.olderThan)
+    const cutoff = Number.isFinite(olderThanDays) ? Date.now() - olderThanDays * DAY_MS : null
 
     return entries.filter((entry) => {
       const fullName = `${entry.first_name ?? ""} ${entry.last_name ?? ""}`.trim()
@@ -141,21 +99,12 @@ export function VerificationView() {
         (entry.email ?? "").toLowerCase().includes(query) ||
         (entry.phone ?? "").toLowerCase().includes(query)
 
-      // normalize some common status names
-      const normalizedStatus = (entry.status || "").toString().toLowerCase()
-      const isVerified = ["verified", "approved", "confirmed"].includes(normalizedStatus)
-      const isPending = ["pending", "review", "under_review", "รอตรวจสอบ"].includes(normalizedStatus)
-      const isRejected = ["rejected", "reject", "declined", "denied", "rejects"].includes(normalizedStatus)
-      const matchesStatus =
-        statusFilter === "all" ||
-        (statusFilter === "verified" && isVerified) ||
-        (statusFilter === "pending" && isPending) ||
-        (statusFilter === "rejected" && isRejected) ||
-        normalizedStatus === statusFilter
+      const matchesStatus = filters.status === "all" || entry.status === filters.status
+      const matchesAge = cutoff === null || (!!entry.created_at && new Date(entry.created_at).getTime() <= cutoff)
 
-      return matchesSearch && matchesStatus
+      return matchesSearch && matchesStatus && matchesAge
     })
-  }, [entries, search, statusFilter])
+  }, [entries, filters.q, filters.status, filters.olderThan])
 
   const pendingCount = useMemo(
     () => entries.filter((entry) => entry.status === "pending").length,
@@ -170,19 +119,13 @@ export function VerificationView() {
     setIsUpdating(entry.id)
     ;(async () => {
       try {
-        const token = typeof window !== "undefined" ? localStorage.getItem("accessToken") || (process.env.NEXT_PUBLIC_ADMIN_ACCESS_TOKEN as string) : undefined
-        const base = API_BASE || ''
-        const res = await fetch(`${base}/api/admin/verification/${entry.id}/verify`, {
-          method: 'PATCH',
-          headers: token ? { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' } : { 'Content-Type': 'application/json' },
-        })
-        if (!res.ok) throw new Error(`Failed to verify: ${res.status}`)
+        await adminApi.verification.verify(entry.id)
 
         setEntries((prev) => prev.map((e) => (e.id === entry.id ? { ...e, status: "verified" } : e)))
         setDetailEntry((d) => (d && d.id === entry.id ? { ...d, status: 'verified' } : d))
         toast({ title: "ยืนยันผู้ใช้สำเร็จ", description: `${entry.first_name} ${entry.last_name} ถูกยืนยันตัวตนแล้ว` })
-      } catch (err: any) {
-        toast({ title: "ยืนยันล้มเหลว", description: String(err?.message ?? err), variant: 'destructive' })
+      } catch (err) {
+        toast({ title: "ยืนยันล้มเหลว", description: describeApiError(err), variant: 'destructive' })
       } finally {
         setIsUpdating(null)
       }
@@ -193,21 +136,13 @@ export function VerificationView() {
     setIsUpdating(entry.id)
     ;(async () => {
       try {
-        const token = typeof window !== "undefined" ? localStorage.getItem("accessToken") || (process.env.NEXT_PUBLIC_ADMIN_ACCESS_TOKEN as string) : undefined
-        const base = API_BASE || ''
-        const payload = reason ? { rejectionReason: reason } : {}
-        const res = await fetch(`${base}/api/admin/verification/${entry.id}/reject`, {
-          method: 'PATCH',
-          headers: token ? { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' } : { 'Content-Type': 'application/json' },
-          body: Object.keys(payload).length ? JSON.stringify(payload) : undefined,
-        })
-        if (!res.ok) throw new Error(`Failed to reject: ${res.status}`)
+        await adminApi.verification.reject(entry.id, reason)
 
         setEntries((prev) => prev.map((e) => (e.id === entry.id ? { ...e, status: "rejected" } : e)))
         setDetailEntry((d) => (d && d.id === entry.id ? { ...d, status: 'rejected' } : d))
         toast({ title: "ปฏิเสธคำขอ", description: `ปฏิเสธคำขอของ ${entry.first_name} ${entry.last_name} เรียบร้อย`, variant: "destructive" })
-      } catch (err: any) {
-        toast({ title: "ปฏิเสธล้มเหลว", description: String(err?.message ?? err), variant: 'destructive' })
+      } catch (err) {
+        toast({ title: "ปฏิเสธล้มเหลว", description: describeApiError(err), variant: 'destructive' })
       } finally {
         setIsUpdating(null)
         setShowRejectInput(false)
@@ -216,16 +151,101 @@ export function VerificationView() {
     })()
   }
 
+  // Bulk approval runs one request per entry; each success or failure is reported on its own
+  const handleBulkApprove = async (selected: VerificationEntry[]) => {
+    for (const entry of selected.filter((e) => e.status === "pending")) {
+      setIsUpdating(entry.id)
+      try {
+        await adminApi.verification.verify(entry.id)
+        setEntries((prev) => prev.map((e) => (e.id === entry.id ? { ...e, status: "verified" } : e)))
+      } catch (err) {
+        toast({ title: `ยืนยัน ${entry.first_name} ${entry.last_name} ล้มเหลว`, description: describeApiError(err), variant: "destructive" })
+      }
+    }
+    setIsUpdating(null)
+    toast({ title: "ยืนยันผู้ใช้ที่เลือกแล้ว" })
+  }
+
+  const statusBadge = (entry: VerificationEntry) => {
+    const isVerified = entry.status === "verified"
+    const isPending = entry.status === "pending"
+    const isRejected = entry.status === "rejected"
+    return (
+      <Badge
+        variant={
+          isVerified
+            ? "default"
+            : isPending
+              ? "secondary"
+              : isRejected
+                ? "destructive"
+                : "outline"
+        }
+      >
+        {isVerified ? "ยืนยันแล้ว" : isPending ? "รอตรวจสอบ" : isRejected ? "ถูกปฏิเสธ" : entry.status}
+      </Badge>
+    )
+  }
+
+  const fullName = (entry: VerificationEntry) => `${entry.first_name ?? ""} ${entry.last_name ?? ""}`.trim()
+
+  const columns: DataTableColumn<VerificationEntry>[] = [
+    { id: "id", header: "id", sortValue: (entry) => Number(entry.id), className: "font-medium", cell: (entry) => entry.id },
+    {
+      id: "name",
+      header: "ชื่อ",
+      hideable: false,
+      sortValue: fullName,
+      cell: (entry) => (
+        <div className="flex flex-col">
+          <span className="font-semibold">{fullName(entry)}</span>
+        </div>
+      ),
+    },
+    { id: "email", header: "อีเมล", sortValue: (entry) => entry.email, className: "text-sm", cell: (entry) => entry.email },
+    { id: "phone", header: "โทร", className: "text-sm", cell: (entry) => entry.phone ?? "-" },
+    { id: "national_id", header: "เลขบัตรประชาชน", className: "text-sm", hiddenByDefault: true, cell: (entry) => entry.national_id ?? "-" },
+    { id: "dob", header: "วันเกิด", sortValue: (entry) => entry.dob, className: "text-sm", cell: (entry) => formatISODate(entry.dob) },
+    { id: "household", header: "ครัวเรือน", className: "text-sm", cell: (entry) => entry.household ?? "-" },
+    {
+      id: "skills",
+      header: "ทักษะ",
+      className: "text-sm",
+      cell: (entry) =>
+        entry.skills && entry.skills.length > 0 ? (
+          entry.skills.map((s, idx) => (
+            <Badge key={idx} className="mr-1">{s}</Badge>
+          ))
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        ),
+    },
+    { id: "status", header: "สถานะ", sortValue: (entry) => entry.status, cell: statusBadge },
+    {
+      id: "actions",
+      header: "การจัดการ",
+      hideable: false,
+      headerClassName: "text-right",
+      cell: (entry) => (
+        <div className="flex justify-end gap-2">
+          <Button
+            size="sm"
+            variant={entry.status === "verified" ? "default" : entry.status === "pending" ? "secondary" : entry.status === "rejected" ? "destructive" : "ghost"}
+            onClick={() => openDetails(entry.id)}
+          >
+            รายละเอียด
+          </Button>
+        </div>
+      ),
+    },
+  ]
+
   const handleRefresh = () => {
     setIsRefreshing(true)
     loadData(true)
   }
 
-  const detailIsPending = (() => {
-    if (!detailEntry) return false
-    const normalized = (detailEntry.status || "").toString().toLowerCase()
-    return ["pending", "review", "under_review", "รอตรวจสอบ"].includes(normalized)
-  })()
+  const detailIsPending = detailEntry?.status === "pending"
 
   return (
     <div className="space-y-6">
@@ -248,10 +268,12 @@ export function VerificationView() {
         </div>
       </div>
 
+      <SavedViewTabs listId="verification" activeFilters={activeFilters} onApply={replaceFilters} />
+
       <Card>
         <CardHeader>
           <CardTitle>ค้นหาและกรอง</CardTitle>
-          <CardDescription>ค้นหาโดยอีเมล ชื่อ หรือเบอร์โทร พร้อมเลือกสถานะที่ต้องการดู</CardDescription>
+          <CardDescription>ค้นหาโดยอีเมล ชื่อ หรือเบอร์โทร พร้อมเลือกสถานะและระยะเวลาที่รอ</CardDescription>
         </CardHeader>
         <CardContent className="flex flex-col gap-4 md:flex-row">
           <div className="relative flex-1">
@@ -265,30 +287,42 @@ export function VerificationView() {
           </div>
           <div className="flex gap-2">
             <Button
-              variant={statusFilter === "all" ? "default" : "outline"}
-              onClick={() => setStatusFilter("all")}
+              variant={filters.status === "all" ? "default" : "outline"}
+              onClick={() => setFilters({ status: "all" })}
             >
               ทั้งหมด
             </Button>
             <Button
-              variant={statusFilter === "pending" ? "default" : "outline"}
-              onClick={() => setStatusFilter("pending")}
+              variant={filters.status === "pending" ? "default" : "outline"}
+              onClick={() => setFilters({ status: "pending" })}
             >
               รอตรวจสอบ
             </Button>
             <Button
-              variant={statusFilter === "verified" ? "default" : "outline"}
-              onClick={() => setStatusFilter("verified")}
+              variant={filters.status === "verified" ? "default" : "outline"}
+              onClick={() => setFilters({ status: "verified" })}
             >
               อนุมัติแล้ว
             </Button>
             <Button
-              variant={statusFilter === "rejected" ? "default" : "outline"}
-              onClick={() => setStatusFilter("rejected")}
+              variant={filters.status === "rejected" ? "default" : "outline"}
+              onClick={() => setFilters({ status: "rejected" })}
             >
               ถูกปฏิเสธ
             </Button>
           </div>
+          <Select value={filters.olderThan} onValueChange={(olderThan) => setFilters({ olderThan })}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="ระยะเวลารอ" />
+            </SelectTrigger>
+            <SelectContent>
+              {ageOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </CardContent>
       </Card>
       {/* Details dialog */}
@@ -314,7 +348,7 @@ export function VerificationView() {
                 <div><strong>skills</strong><div>{detailEntry.skills ? detailEntry.skills.join(", ") : "-"}</div></div>
                 <div><strong>status</strong><div>{detailEntry.status}</div></div>
                 <div><strong>lat, lon</strong><div>{detailEntry.lat ?? "-"}, {detailEntry.lon ?? "-"}</div></div>
-                <div><strong>created_at</strong><div>{formatDate(detailEntry.created_at)}</div></div>
+                <div><strong>created_at</strong><div>{formatDateTime(detailEntry.created_at)}</div></div>
               </div>
             </div>
           ) : (
@@ -322,7 +356,7 @@ export function VerificationView() {
           )}
 
           <DialogFooter>
-            {detailEntry && detailIsPending ? (
+            {detailEntry && detailIsPending && canDecide ? (
               <div className="w-full">
                 {showRejectInput ? (
                   <div className="space-y-2 w-full">
@@ -367,91 +401,33 @@ export function VerificationView() {
           <CardDescription>รายละเอียดคำขอยืนยันจากผู้ใช้</CardDescription>
         </CardHeader>
         <CardContent>
-          {isLoading ? (
-            <div className="flex h-40 items-center justify-center">
-              <Spinner className="h-10 w-10" />
-            </div>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>id</TableHead>
-                  <TableHead>ชื่อ</TableHead>
-                  <TableHead>อีเมล</TableHead>
-                  <TableHead>โทร</TableHead>
-                  <TableHead>เลขบัตรประชาชน</TableHead>
-                  <TableHead>วันเกิด</TableHead>
-                  <TableHead>ครัวเรือน</TableHead>
-                  <TableHead>ทักษะ</TableHead>
-                  <TableHead>สถานะ</TableHead>
-                  <TableHead className="text-right">การจัดการ</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredEntries.map((entry) => {
-                  const normalizedStatus = (entry.status || "").toString().toLowerCase()
-                  const isVerified = ["verified", "approved", "confirmed"].includes(normalizedStatus)
-                  const isPending = ["pending", "review", "under_review", "รอตรวจสอบ"].includes(normalizedStatus)
-                  const isRejected = ["rejected", "reject", "declined", "denied", "rejects"].includes(normalizedStatus)
-
-                  return (
-                    <TableRow key={entry.id}>
-                      <TableCell className="font-medium">{entry.id}</TableCell>
-                      <TableCell>
-                        <div className="flex flex-col">
-                          <span className="font-semibold">{`${entry.first_name} ${entry.last_name}`}</span>
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-sm">{entry.email}</TableCell>
-                      <TableCell className="text-sm">{entry.phone ?? "-"}</TableCell>
-                      <TableCell className="text-sm">{entry.national_id ?? "-"}</TableCell>
-                      <TableCell className="text-sm">{formatISODate(entry.dob)}</TableCell>
-                      <TableCell className="text-sm">{entry.household ?? "-"}</TableCell>
-                      <TableCell className="text-sm">
-                        {entry.skills && entry.skills.length > 0 ? (
-                          entry.skills.map((s, idx) => (
-                            <Badge key={idx} className="mr-1">{s}</Badge>
-                          ))
-                        ) : (
-                          <span className="text-muted-foreground">-</span>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        <Badge
-                          variant={
-                            isVerified
-                              ? "default"
-                              : isPending
-                                ? "secondary"
-                                : isRejected
-                                  ? "destructive"
-                                  : "outline"
-                          }
-                        >
-                          {isVerified ? "ยืนยันแล้ว" : isPending ? "รอตรวจสอบ" : isRejected ? "ถูกปฏิเสธ" : entry.status}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="flex justify-end gap-2">
-                        <Button
-                          size="sm"
-                          variant={isVerified ? "default" : isPending ? "secondary" : isRejected ? "destructive" : "ghost"}
-                          onClick={() => openDetails(entry.id)}
-                        >
-                          รายละเอียด
-                        </Button>
-                      </TableCell>
-                    </TableRow>
+          <DataTable
+            tableId="verification"
+            columns={columns}
+            rows={filteredEntries}
+            getRowId={(entry) => String(entry.id)}
+            bulkActions={
+              canDecide
+                ? (selected, clearSelection) => (
+                    <Button
+                      size="sm"
+                      disabled={isUpdating !== null || !selected.some((entry) => entry.status === "pending")}
+                      onClick={async () => {
+                        await handleBulkApprove(selected)
+                        clearSelection()
+                      }}
+                    >
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                      ยืนยันที่เลือก
+                    </Button>
                   )
-                })}
-              </TableBody>
-            </Table>
-          )}
-
-          {!isLoading && filteredEntries.length === 0 ? (
-            <div className="flex h-32 flex-col items-center justify-center text-center text-sm text-muted-foreground">
-              ไม่พบคำขอที่ตรงกับเงื่อนไข
-            </div>
-          ) : null}
+                : undefined
+            }
+            isLoading={isLoading}
+            error={loadError}
+            onRetry={() => loadData()}
+            emptyMessage="ไม่พบคำขอที่ตรงกับเงื่อนไข"
+          />
         </CardContent>
       </Card>
     </div>
@@ -11,68 +11,160 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import { useToast } from "@/hooks/use-toast"
-import { useMemo, useState } from "react"
+import { usePermission } from "@/components/session-provider"
+import { useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
 import { Check, X } from "lucide-react"
+import { toSortParam, type PagedList, type SortKey, type Withdrawal, type WithdrawalStatus } from "@/domain"
+import { adminApi, describeApiError } from "@/lib/admin-api"
+import { formatDate, formatHours } from "@/lib/format"
+import { useServerList } from "@/hooks/use-server-list"
+import { useUrlFilters } from "@/hooks/use-url-filters"
+import { SavedViewTabs } from "@/components/saved-view-tabs"
+import { DataTable, type DataTableColumn } from "@/components/data-table"
 
-type Withdrawal = {
-  id: string
-  memberId: string
-  memberName: string
-  amount: number
-  requestDate: string
-  status: "pending" | "approved" | "rejected"
+const statusLabels: Record<WithdrawalStatus, string> = {
+  pending: "รอดำเนินการ",
+  approved: "อนุมัติแล้ว",
+  rejected: "ปฏิเสธแล้ว",
 }
 
-export function WithdrawalsView({ initialWithdrawals }: { initialWithdrawals: Withdrawal[] }) {
+type DecisionStatus = Exclude<WithdrawalStatus, "pending">
+
+export function WithdrawalsView({ initialPage }: { initialPage?: PagedList<Withdrawal> }) {
   const { toast } = useToast()
-  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>(initialWithdrawals)
-  const [statusFilter, setStatusFilter] = useState("all")
-  const [pendingChange, setPendingChange] = useState<{ id: string; status: Withdrawal["status"] } | null>(null)
+  const canApprove = usePermission("withdrawals:approve")
+  const { filters, activeFilters, setFilters, replaceFilters } = useUrlFilters({ status: "all" })
+  const [page, setPage] = useState(1)
+  const [sort, setSort] = useState<SortKey[]>([{ field: "date", direction: "desc" }])
+  const [pendingChange, setPendingChange] = useState<{ ids: string[]; status: DecisionStatus } | null>(null)
   const [isConfirmOpen, setIsConfirmOpen] = useState(false)
+  const [rejectionReason, setRejectionReason] = useState("")
+  const [savingIds, setSavingIds] = useState<string[]>([])
 
-  const filteredWithdrawals = useMemo(() => {
-    if (statusFilter === "all") {
-      return withdrawals
-    }
-    return withdrawals.filter((w) => w.status === statusFilter)
-  }, [withdrawals, statusFilter])
+  const { list, isLoading, error, reload, setItems: setWithdrawals } = useServerList(
+    adminApi.withdrawals.list,
+    { status: filters.status === "all" ? undefined : filters.status, page, sort: toSortParam(sort) },
+    initialPage,
+  )
+  const withdrawals = list?.items ?? []
 
-  const handleStatusChange = (id: string, status: Withdrawal["status"]) => {
-    setPendingChange({ id, status })
+  const handleFilterChange = (status: string) => {
+    setFilters({ status })
+    setPage(1)
+  }
+
+  const handleStatusChange = (ids: string[], status: DecisionStatus) => {
+    setPendingChange({ ids, status })
+    setRejectionReason("")
     setIsConfirmOpen(true)
   }
 
-  const handleConfirmStatusChange = () => {
-    if (!pendingChange) return
+  // Optimistic: the row flips immediately and is restored from the snapshot if the server refuses
+  const decide = async (id: string, status: DecisionStatus, reason: string) => {
+    const previous = withdrawals.find((withdrawal) => withdrawal.id === id)
+    if (!previous) return
 
+    setSavingIds((ids) => [...ids, id])
     setWithdrawals((current) =>
       current.map((withdrawal) =>
-        withdrawal.id === pendingChange.id ? { ...withdrawal, status: pendingChange.status } : withdrawal,
+        withdrawal.id === id
+          ? { ...withdrawal, status, rejectionReason: status === "rejected" ? reason : null }
+          : withdrawal,
       ),
     )
 
-    toast({
-      title: "อัปเดตสถานะแล้ว",
-      description: `คำขอ ${pendingChange.id} ถูกเปลี่ยนเป็นสถานะ ${pendingChange.status}`,
-    })
+    try {
+      const updated = await adminApi.withdrawals.decide(
+        id,
+        status === "rejected" ? { status, reason } : { status },
+      )
+      setWithdrawals((current) => current.map((withdrawal) => (withdrawal.id === id ? updated : withdrawal)))
+      toast({
+        title: "อัปเดตสถานะแล้ว",
+        description: `คำขอ ${id} ถูกเปลี่ยนเป็นสถานะ ${statusLabels[updated.status]}`,
+      })
+    } catch (err) {
+      setWithdrawals((current) => current.map((withdrawal) => (withdrawal.id === id ? previous : withdrawal)))
+      toast({ title: "อัปเดตสถานะล้มเหลว", description: describeApiError(err), variant: "destructive" })
+    } finally {
+      setSavingIds((ids) => ids.filter((savingId) => savingId !== id))
+    }
+  }
 
+  // Bulk decisions go one request at a time so each row keeps its own rollback
+  const handleConfirmStatusChange = async () => {
+    if (!pendingChange) return
+    const { ids, status } = pendingChange
+    const reason = rejectionReason.trim()
     setIsConfirmOpen(false)
     setPendingChange(null)
+    for (const id of ids) {
+      await decide(id, status, reason)
+    }
   }
 
+  const columns: DataTableColumn<Withdrawal>[] = [
+    { id: "id", header: "ID", sortField: "id", cell: (w) => w.id },
+    { id: "member", header: "ชื่อสมาชิก", sortField: "member", cell: (w) => `${w.memberName} (${w.memberId})` },
+    { id: "amount", header: "จำนวน", sortField: "amount", cell: (w) => formatHours(w.amount) },
+    { id: "date", header: "วันที่ขอ", sortField: "date", cell: (w) => formatDate(w.requestedAt) },
+    {
+      id: "status",
+      header: "สถานะ",
+      sortField: "status",
+      cell: (w) => (
+        <>
+          <Badge variant={w.status === 'approved' ? 'default' : w.status === 'rejected' ? 'destructive' : 'outline'}>
+            {statusLabels[w.status]}
+          </Badge>
+          {w.rejectionReason && (
+            <p className="mt-1 text-xs text-muted-foreground">{w.rejectionReason}</p>
+          )}
+        </>
+      ),
+    },
+    {
+      id: "actions",
+      header: "การจัดการ",
+      hideable: false,
+      headerClassName: "text-right",
+      className: "text-right",
+      cell: (w) =>
+        w.status === 'pending' && canApprove && (
+          <div className="flex gap-2 justify-end">
+            <Button size="sm" variant="outline" disabled={savingIds.includes(w.id)} onClick={() => handleStatusChange([w.id], 'approved')}>
+              <Check className="h-4 w-4 mr-2" /> อนุมัติ
+            </Button>
+            <Button size="sm" variant="destructive" disabled={savingIds.includes(w.id)} onClick={() => handleStatusChange([w.id], 'rejected')}>
+              <X className="h-4 w-4 mr-2" /> ปฏิเสธ
+            </Button>
+          </div>
+        ),
+    },
+  ]
+
   return (
     <div className="space-y-6">
+      <SavedViewTabs
+        listId="withdrawals"
+        activeFilters={activeFilters}
+        onApply={(values) => {
+          replaceFilters(values)
+          setPage(1)
+        }}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>ตัวกรอง</CardTitle>
         </CardHeader>
         <CardContent>
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <Select value={filters.status} onValueChange={handleFilterChange}>
             <SelectTrigger className="w-[180px]">
               <SelectValue placeholder="สถานะ" />
             </SelectTrigger>
@@ -89,48 +181,60 @@ export function WithdrawalsView({ initialWithdrawals }: { initialWithdrawals: Wi
       <Card>
         <CardHeader>
           <CardTitle>รายการถอนเครดิต</CardTitle>
-          <CardDescription>จัดการคำขอถอนเครดิตของสมาชิก</CardDescription>
+          <CardDescription>
+            ทั้งหมด {list?.total ?? 0} รายการ
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>ID</TableHead>
-                <TableHead>ชื่อสมาชิก</TableHead>
-                <TableHead>จำนวน</TableHead>
-                <TableHead>วันที่ขอ</TableHead>
-                <TableHead>สถานะ</TableHead>
-                <TableHead className="text-right">การจัดการ</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredWithdrawals.map((w) => (
-                <TableRow key={w.id}>
-                  <TableCell>{w.id}</TableCell>
-                  <TableCell>{w.memberName} ({w.memberId})</TableCell>
-                  <TableCell>{w.amount} ชม.</TableCell>
-                  <TableCell>{w.requestDate}</TableCell>
-                  <TableCell>
-                    <Badge variant={w.status === 'approved' ? 'default' : w.status === 'rejected' ? 'destructive' : 'outline'}>
-                      {w.status}
-                    </Badge>
-                  </TableCell>
-                  <TableCell className="text-right">
-                    {w.status === 'pending' && (
-                      <div className="flex gap-2 justify-end">
-                        <Button size="sm" variant="outline" onClick={() => handleStatusChange(w.id, 'approved')}>
-                          <Check className="h-4 w-4 mr-2" /> อนุมัติ
+          <DataTable
+            tableId="withdrawals"
+            columns={columns}
+            rows={withdrawals}
+            getRowId={(w) => w.id}
+            sort={sort}
+            onSortChange={(next) => {
+              setSort(next)
+              setPage(1)
+            }}
+            pagination={list ? { ...list, onPageChange: setPage } : undefined}
+            bulkActions={
+              canApprove
+                ? (selected, clearSelection) => {
+                    const pendingIds = selected.filter((w) => w.status === "pending").map((w) => w.id)
+                    return (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={pendingIds.length === 0}
+                          onClick={() => {
+                            handleStatusChange(pendingIds, "approved")
+                            clearSelection()
+                          }}
+                        >
+                          <Check className="h-4 w-4 mr-2" /> อนุมัติที่เลือก ({pendingIds.length})
                         </Button>
-                        <Button size="sm" variant="destructive" onClick={() => handleStatusChange(w.id, 'rejected')}>
-                          <X className="h-4 w-4 mr-2" /> ปฏิเสธ
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          disabled={pendingIds.length === 0}
+                          onClick={() => {
+                            handleStatusChange(pendingIds, "rejected")
+                            clearSelection()
+                          }}
+                        >
+                          <X className="h-4 w-4 mr-2" /> ปฏิเสธที่เลือก ({pendingIds.length})
                         </Button>
-                      </div>
-                    )}
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+                      </>
+                    )
+                  }
+                : undefined
+            }
+            isLoading={isLoading}
+            error={error}
+            onRetry={reload}
+            emptyMessage="ไม่มีคำขอถอนเครดิตในสถานะนี้"
+          />
         </CardContent>
       </Card>
 
@@ -139,12 +243,27 @@ export function WithdrawalsView({ initialWithdrawals }: { initialWithdrawals: Wi
           <AlertDialogHeader>
             <AlertDialogTitle>ยืนยันการเปลี่ยนแปลงสถานะ</AlertDialogTitle>
             <AlertDialogDescription>
-              คุณแน่ใจหรือไม่ที่จะเปลี่ยนสถานะของคำขอ {pendingChange?.id} เป็น {pendingChange?.status}?
+              คุณแน่ใจหรือไม่ที่จะเปลี่ยนสถานะของคำขอ {pendingChange?.ids.join(", ")} เป็น{" "}
+              {pendingChange ? statusLabels[pendingChange.status] : ""}?
+              {pendingChange?.status === "approved" && " เครดิตจะถูกหักจากบัญชีของสมาชิกทันที"}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {pendingChange?.status === "rejected" && (
+            <Textarea
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="ระบุเหตุผลการปฏิเสธ (จำเป็น)"
+              rows={3}
+            />
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel onClick={() => setPendingChange(null)}>ยกเลิก</AlertDialogCancel>
-            <AlertDialogAction onClick={handleConfirmStatusChange}>ยืนยัน</AlertDialogAction>
+            <AlertDialogAction
+              onClick={handleConfirmStatusChange}
+              disabled={pendingChange?.status === "rejected" && rejectionReason.trim() === ""}
+            >
+              ยืนยัน
+            </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
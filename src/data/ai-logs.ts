@@ -1,5 +1,8 @@
-export const ai_logs = [
+import { matchLogListSchema, type MatchLog } from "@/domain"
+
+export const ai_logs: MatchLog[] = matchLogListSchema.parse([
   {
+    id: "LOG-001",
     requester: "สมชาย ใจดี",
     requesterId: "USR-001",
     age: 35,
@@ -8,12 +11,13 @@ export const ai_logs = [
     provider: "อาสา ใจดี",
     providerId: "PROV-001",
     rating: 4.8,
-    date: "2024-07-22",
-    matchScore: "95.5%",
+    matchedAt: "2024-07-22T09:00:00+07:00",
+    matchScore: 95.5,
     confidence: "High",
     status: "success",
   },
   {
+    id: "LOG-002",
     requester: "สมหญิง รักไทย",
     requesterId: "USR-002",
     age: 28,
@@ -22,12 +26,13 @@ export const ai_logs = [
     provider: "อาสา พัฒนา",
     providerId: "PROV-003",
     rating: 4.9,
-    date: "2024-07-21",
-    matchScore: "88.0%",
+    matchedAt: "2024-07-21T09:00:00+07:00",
+    matchScore: 88.0,
     confidence: "High",
     status: "success",
   },
   {
+    id: "LOG-003",
     requester: "จอห์น โด",
     requesterId: "USR-003",
     age: 42,
@@ -36,9 +41,9 @@ export const ai_logs = [
     provider: "อาสา บำเพ็ญประโยชน์",
     providerId: "PROV-002",
     rating: 4.5,
-    date: "2024-07-20",
-    matchScore: "75.0%",
+    matchedAt: "2024-07-20T09:00:00+07:00",
+    matchScore: 75.0,
     confidence: "Medium",
     status: "failed",
   },
-];
\ No newline at end of file
+])
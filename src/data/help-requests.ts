@@ -1,6 +1,9 @@
-export const help_requests = [
+import { helpRequestListSchema, type HelpRequest } from "@/domain"
+
+export const help_requests: HelpRequest[] = helpRequestListSchema.parse([
   {
     id: 1,
+    requesterId: "M001",
     requester: {
       name: "สมชาย ใจดี",
       age: 67,
@@ -15,13 +18,14 @@ export const help_requests = [
       city: "เชตบางรัก",
       district: "กรุงเทพฯ",
     },
-    date: "20 ธ.ค. 2024",
-    time: "08:30 น.",
-    status: "urgent",
-    borderColor: "border-l-red-500",
+    requestedAt: "2024-12-20T08:30:00+07:00",
+    status: "open",
+    urgent: true,
+    history: [],
   },
   {
     id: 2,
+    requesterId: "M002",
     requester: {
       name: "สุภาดา ศรีสุข",
       age: 45,
@@ -36,13 +40,14 @@ export const help_requests = [
       city: "เขตคลองเมือง",
       district: "กรุงเทพฯ",
     },
-    date: "19 ธ.ค. 2024",
-    time: "14:20 น.",
-    status: "pending",
-    borderColor: "border-l-yellow-500",
+    requestedAt: "2024-12-19T14:20:00+07:00",
+    status: "open",
+    urgent: false,
+    history: [],
   },
   {
     id: 3,
+    requesterId: "M003",
     requester: {
       name: "วชิร รักดี",
       age: 52,
@@ -57,13 +62,16 @@ export const help_requests = [
       city: "เมืองขอนแก่น",
       district: "ขอนแก่น",
     },
-    date: "19 ธ.ค. 2024",
-    time: "10:15 น.",
+    requestedAt: "2024-12-19T10:15:00+07:00",
     status: "matched",
-    borderColor: "border-l-green-500",
+    urgent: false,
+    providerId: "M005",
+    providerName: "สมศักดิ์ ช่างไม้",
+    history: [],
   },
   {
     id: 4,
+    requesterId: null,
     requester: {
       name: "มาลี ขยัน",
       age: 38,
@@ -78,13 +86,14 @@ export const help_requests = [
       city: "เมืองภูเก็ต",
       district: "ภูเก็ต",
     },
-    date: "18 ธ.ค. 2024",
-    time: "16:45 น.",
-    status: "urgent",
-    borderColor: "border-l-red-500",
+    requestedAt: "2024-12-18T16:45:00+07:00",
+    status: "open",
+    urgent: true,
+    history: [],
   },
   {
     id: 5,
+    requesterId: "M004",
     requester: {
       name: "ประนอม มีสุข",
       age: 55,
@@ -99,13 +108,14 @@ export const help_requests = [
       city: "เมืองเชียงใหม่",
       district: "เชียงใหม่",
     },
-    date: "18 ธ.ค. 2024",
-    time: "09:30 น.",
-    status: "pending",
-    borderColor: "border-l-yellow-500",
+    requestedAt: "2024-12-18T09:30:00+07:00",
+    status: "open",
+    urgent: false,
+    history: [],
   },
   {
     id: 6,
+    requesterId: "M005",
     requester: {
       name: "สมศักดิ์ ช่างไม้",
       age: 60,
@@ -120,13 +130,16 @@ export const help_requests = [
       city: "เมืองนครราชสีมา",
       district: "นครราชสีมา",
     },
-    date: "17 ธ.ค. 2024",
-    time: "13:00 น.",
+    requestedAt: "2024-12-17T13:00:00+07:00",
     status: "matched",
-    borderColor: "border-l-green-500",
+    urgent: false,
+    providerId: "M007",
+    providerName: "ธนา เรียนดี",
+    history: [],
   },
   {
     id: 7,
+    requesterId: "M006",
     requester: {
       name: "วิไล สวยงาม",
       age: 42,
@@ -141,9 +154,9 @@ export const help_requests = [
       city: "เมืองสุราษฎร์ธานี",
       district: "สุราษฎร์ธานี",
     },
-    date: "17 ธ.ค. 2024",
-    time: "08:00 น.",
-    status: "pending",
-    borderColor: "border-l-yellow-500",
+    requestedAt: "2024-12-17T08:00:00+07:00",
+    status: "open",
+    urgent: false,
+    history: [],
   },
-]
\ No newline at end of file
+])
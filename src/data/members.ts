@@ -1,74 +1,76 @@
-export const members = [
+import { memberListSchema, type Member } from "@/domain"
+
+export const members: Member[] = memberListSchema.parse([
   {
-    id: "#M001",
+    id: "M001",
     name: "สมชาย ใจดี",
-    age: "45 ปี",
+    age: 45,
     location: "กรุงเทพฯ",
-    credits: "25 ชั่วโมง",
-    skills: "ซ่อมแอร์, ไฟฟ้า",
+    credits: 25,
+    skills: ["ซ่อมแอร์", "ไฟฟ้า"],
     status: "active",
   },
   {
-    id: "#M002",
+    id: "M002",
     name: "สุภาดา ศรีสุข",
-    age: "67 ปี",
+    age: 67,
     location: "เชียงใหม่",
-    credits: "3 ชั่วโมง",
-    skills: "ดูแลผู้สูงอายุ, ทำอาหาร",
+    credits: 3,
+    skills: ["ดูแลผู้สูงอายุ", "ทำอาหาร"],
     status: "warning",
   },
   {
-    id: "#M003",
+    id: "M003",
     name: "วชิร รักดี",
-    age: "38 ปี",
+    age: 38,
     location: "ขอนแก่น",
-    credits: "18 ชั่วโมง",
-    skills: "ซ่อมคอมพิวเตอร์, คอมพิวเตอร์เกม",
+    credits: 18,
+    skills: ["ซ่อมคอมพิวเตอร์", "คอมพิวเตอร์เกม"],
     status: "active",
   },
   {
-    id: "#M004",
+    id: "M004",
     name: "ประนอม มีสุข",
-    age: "52 ปี",
+    age: 52,
     location: "นครราชสีมา",
-    credits: "12 ชั่วโมง",
-    skills: "ทำอาหาร, ขนมไทย",
+    credits: 12,
+    skills: ["ทำอาหาร", "ขนมไทย"],
     status: "active",
   },
   {
-    id: "#M005",
+    id: "M005",
     name: "สมศักดิ์ ช่างไม้",
-    age: "60 ปี",
+    age: 60,
     location: "เชียงราย",
-    credits: "8 ชั่วโมง",
-    skills: "ช่างไม้, ซ่อมเฟอร์นิเจอร์",
+    credits: 8,
+    skills: ["ช่างไม้", "ซ่อมเฟอร์นิเจอร์"],
     status: "active",
   },
   {
-    id: "#M006",
+    id: "M006",
     name: "วิไล สวยงาม",
-    age: "43 ปี",
+    age: 43,
     location: "ภูเก็ต",
-    credits: "20 ชั่วโมง",
-    skills: "ตัดผม, ทำเล็บ",
+    credits: 20,
+    skills: ["ตัดผม", "ทำเล็บ"],
     status: "active",
   },
   {
-    id: "#M007",
+    id: "M007",
     name: "ธนา เรียนดี",
-    age: "29 ปี",
+    age: 29,
     location: "กรุงเทพฯ",
-    credits: "15 ชั่วโมง",
-    skills: "สอนภาษาอังกฤษ, คณิตศาสตร์",
+    credits: 15,
+    skills: ["สอนภาษาอังกฤษ", "คณิตศาสตร์"],
     status: "active",
   },
   {
-    id: "#M008",
+    id: "M008",
     name: "มานี ใจงาม",
-    age: "71 ปี",
+    age: 71,
     location: "สุราษฎร์ธานี",
-    credits: "2 ชั่วโมง",
-    skills: "ทำสวน, ปลูกผัก",
+    credits: 2,
+    skills: ["ทำสวน", "ปลูกผัก"],
     status: "warning",
   },
-]
\ No newline at end of file
+])
@@ -1,90 +1,100 @@
-export const transfers = [
+import { transferListSchema, type Transfer } from "@/domain"
+
+export const transfers: Transfer[] = transferListSchema.parse([
   {
-    id: "#TXN001",
+    id: "TXN001",
+    senderId: "M001",
     sender: "สมชาย ใจดี",
+    receiverId: "M002",
     receiver: "สุภาดา ศรีสุข",
-    amount: "5 ชม.",
-    date: "20 ธ.ค. 2024",
-    dateISO: "2024-12-20",
+    amount: 5,
+    createdAt: "2024-12-20T10:00:00+07:00",
     reason: "ค่าซ่อมแอร์บ้านของยายแอร์",
     status: "success",
-    type: "จัดในผัด",
+    type: "service",
   },
   {
-    id: "#TXN002",
+    id: "TXN002",
+    senderId: "M003",
     sender: "วชิร รักดี",
+    receiverId: "M004",
     receiver: "ประนอม มีสุข",
-    amount: "3 ชม.",
-    date: "21 ธ.ค. 2024",
-    dateISO: "2024-12-21",
+    amount: 3,
+    createdAt: "2024-12-21T10:00:00+07:00",
     reason: "ค่าสอนคอมพิวเตอร์",
     status: "success",
-    type: "จัดในผัด",
+    type: "service",
   },
   {
-    id: "#TXN003",
+    id: "TXN003",
+    senderId: "M006",
     sender: "วิไล สวยงาม",
+    receiverId: "M007",
     receiver: "ธนา เรียนดี",
-    amount: "4 ชม.",
-    date: "19 ธ.ค. 2024",
-    dateISO: "2024-12-19",
+    amount: 4,
+    createdAt: "2024-12-19T10:00:00+07:00",
     reason: "ค่าสอนภาษาอังกฤษ",
     status: "success",
-    type: "จัดในผัด",
+    type: "service",
   },
   {
-    id: "#TXN004",
+    id: "TXN004",
+    senderId: "M005",
     sender: "สมศักดิ์ ช่างไม้",
+    receiverId: "M008",
     receiver: "มานี ใจงาม",
-    amount: "6 ชม.",
-    date: "18 ธ.ค. 2024",
-    dateISO: "2024-12-18",
+    amount: 6,
+    createdAt: "2024-12-18T10:00:00+07:00",
     reason: "ค่าทำสวนหน้าบ้าน",
     status: "success",
-    type: "จัดในผัด",
+    type: "service",
   },
   {
-    id: "#TXN005",
+    id: "TXN005",
+    senderId: "M007",
     sender: "ธนา เรียนดี",
+    receiverId: "M003",
     receiver: "วชิร รักดี",
-    amount: "2 ชม.",
-    date: "22 ธ.ค. 2024",
-    dateISO: "2024-12-22",
+    amount: 2,
+    createdAt: "2024-12-22T10:00:00+07:00",
     reason: "ค่าซ่อมคอมพิวเตอร์",
     status: "success",
-    type: "จัดในผัด",
+    type: "service",
   },
   {
-    id: "#TXN006",
+    id: "TXN006",
+    senderId: "M004",
     sender: "ประนอม มีสุข",
+    receiverId: "M006",
     receiver: "วิไล สวยงาม",
-    amount: "3 ชม.",
-    date: "17 ธ.ค. 2024",
-    dateISO: "2024-12-17",
+    amount: 3,
+    createdAt: "2024-12-17T10:00:00+07:00",
     reason: "ค่าทำผมและทำเล็บ",
     status: "success",
-    type: "จัดในผัด",
+    type: "service",
   },
   {
-    id: "#TXN007",
+    id: "TXN007",
+    senderId: "M008",
     sender: "มานี ใจงาม",
+    receiverId: "M005",
     receiver: "สมศักดิ์ ช่างไม้",
-    amount: "4 ชม.",
-    date: "16 ธ.ค. 2024",
-    dateISO: "2024-12-16",
+    amount: 4,
+    createdAt: "2024-12-16T10:00:00+07:00",
     reason: "ค่าซ่อมเฟอร์นิเจอร์",
     status: "success",
-    type: "จัดในผัด",
+    type: "service",
   },
   {
-    id: "#TXN008",
+    id: "TXN008",
+    senderId: "M002",
     sender: "สุภาดา ศรีสุข",
+    receiverId: "M001",
     receiver: "สมชาย ใจดี",
-    amount: "2 ชม.",
-    date: "15 ธ.ค. 2024",
-    dateISO: "2024-12-15",
+    amount: 2,
+    createdAt: "2024-12-15T10:00:00+07:00",
     reason: "ค่าทำอาหาร",
     status: "success",
-    type: "จัดในผัด",
+    type: "service",
   },
-]
+])
@@ -1,26 +1,28 @@
-export const withdrawals = [
+import { withdrawalListSchema, type Withdrawal } from "@/domain"
+
+export const withdrawals: Withdrawal[] = withdrawalListSchema.parse([
   {
     id: "W-001",
-    memberId: "USR-001",
+    memberId: "M001",
     memberName: "สมชาย ใจดี",
     amount: 5,
-    requestDate: "2024-07-20",
+    requestedAt: "2024-07-20T09:00:00+07:00",
     status: "pending",
   },
   {
     id: "W-002",
-    memberId: "USR-002",
-    memberName: "สมหญิง รักไทย",
+    memberId: "M007",
+    memberName: "ธนา เรียนดี",
     amount: 10,
-    requestDate: "2024-07-19",
+    requestedAt: "2024-07-19T09:00:00+07:00",
     status: "approved",
   },
   {
     id: "W-003",
-    memberId: "USR-003",
-    memberName: "จอห์น โด",
+    memberId: "M003",
+    memberName: "วชิร รักดี",
     amount: 2,
-    requestDate: "2024-07-18",
+    requestedAt: "2024-07-18T09:00:00+07:00",
     status: "rejected",
   },
-];
\ No newline at end of file
+])
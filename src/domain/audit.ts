@@ -0,0 +1,49 @@
+import { z } from "zod"
+import { isoTimestampSchema } from "./common"
+
+export const auditEntityTypeSchema = z.enum(["verification", "withdrawal", "match", "member", "transfer", "help_request", "provider"])
+
+export const auditActionSchema = z.enum([
+  "verification.approve",
+  "verification.reject",
+  "withdrawal.approve",
+  "withdrawal.reject",
+  "match.create",
+  "match.unmatch",
+  "match.reassign",
+  "ledger.adjust",
+  "transfer.create",
+  "transfer.reverse_request",
+  "transfer.reverse",
+  "transfer.reverse_decline",
+  "help_request.transition",
+  "help_request.cancel",
+  "help_request.link_job",
+  "provider.update_profile",
+])
+
+export const auditActorSchema = z.object({
+  id: z.union([z.string(), z.number()]).optional(),
+  email: z.string().optional(),
+  role: z.string(),
+})
+
+export const auditEntrySchema = z.object({
+  id: z.string().min(1),
+  actor: auditActorSchema,
+  action: auditActionSchema,
+  entityType: auditEntityTypeSchema,
+  entityId: z.string().min(1),
+  // Snapshots of the fields the action changed; null when the state could not be read
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  reason: z.string().nullable(),
+  createdAt: isoTimestampSchema,
+})
+
+export const auditEntryListSchema = z.array(auditEntrySchema)
+
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>
+export type AuditAction = z.infer<typeof auditActionSchema>
+export type AuditActor = z.infer<typeof auditActorSchema>
+export type AuditEntry = z.infer<typeof auditEntrySchema>
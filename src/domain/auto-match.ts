@@ -0,0 +1,68 @@
+import { z } from "zod"
+import { isoTimestampSchema } from "./common"
+import { matchConfidenceSchema } from "./match-log"
+
+export const autoMatchModeSchema = z.enum(["propose", "assign"])
+
+// assigned: matched without an admin. proposed: a confident pick waiting for an admin to confirm it.
+// review: no candidate was confident enough. error: the upstream could not be read or refused the match
+export const autoMatchOutcomeSchema = z.enum(["assigned", "proposed", "review", "error"])
+
+// retried: an `error` decision closed by the scheduler's next attempt at the same job
+export const autoMatchResolutionSchema = z.enum(["matched", "dismissed", "retried"])
+
+// What the scheduler decided for one stale job in one run. Upstream ids throughout
+export const autoMatchDecisionSchema = z.object({
+  id: z.string().min(1),
+  runId: z.string().min(1),
+  jobId: z.number().int(),
+  jobTitle: z.string(),
+  requesterName: z.string(),
+  jobCreatedAt: isoTimestampSchema,
+  decidedAt: isoTimestampSchema,
+  outcome: autoMatchOutcomeSchema,
+  // Why, in words, e.g. the confidence that fell short or the upstream error
+  detail: z.string(),
+  // The engine run behind the decision; null when the job's candidates could not be read
+  matchLogId: z.string().nullable(),
+  providerId: z.number().int().nullable(),
+  providerName: z.string().nullable(),
+  score: z.number().nullable(),
+  confidence: matchConfidenceSchema.nullable(),
+  // Set on `assigned` decisions
+  matchId: z.string().nullish(),
+  resolvedAt: isoTimestampSchema.nullish(),
+  resolvedBy: z.string().nullish(),
+  resolution: autoMatchResolutionSchema.nullish(),
+  resolutionNote: z.string().nullish(),
+})
+
+export const autoMatchDecisionListSchema = z.array(autoMatchDecisionSchema)
+
+export const dismissAutoMatchDecisionSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+})
+
+export const autoMatchRunSummarySchema = z.object({
+  runId: z.string().min(1),
+  startedAt: isoTimestampSchema,
+  finishedAt: isoTimestampSchema,
+  mode: autoMatchModeSchema,
+  // Open jobs past the age threshold
+  staleJobs: z.number().int().nonnegative(),
+  // Stale jobs already matched, waiting for an admin or dismissed, left alone. Failed attempts are retried
+  skipped: z.number().int().nonnegative(),
+  decisions: z.array(autoMatchDecisionSchema),
+})
+
+// Still needs an admin: anything but an assignment that nobody has matched or dismissed yet
+export function awaitsReview(decision: Pick<AutoMatchDecision, "outcome" | "resolvedAt">) {
+  return decision.outcome !== "assigned" && !decision.resolvedAt
+}
+
+export type AutoMatchMode = z.infer<typeof autoMatchModeSchema>
+export type AutoMatchOutcome = z.infer<typeof autoMatchOutcomeSchema>
+export type AutoMatchResolution = z.infer<typeof autoMatchResolutionSchema>
+export type AutoMatchDecision = z.infer<typeof autoMatchDecisionSchema>
+export type DismissAutoMatchDecision = z.infer<typeof dismissAutoMatchDecisionSchema>
+export type AutoMatchRunSummary = z.infer<typeof autoMatchRunSummarySchema>
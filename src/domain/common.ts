@@ -0,0 +1,14 @@
+import { z } from "zod"
+
+// Credit amounts are always whole or fractional hours, never display strings like "5 ชม."
+export const hoursSchema = z.number().finite().nonnegative()
+
+// The backend serialises numeric columns as strings ("3.00"), so coerce before validating
+export const coercedHoursSchema = z.coerce.number().finite().nonnegative()
+
+export const isoTimestampSchema = z.string().datetime({ offset: true })
+
+export const isoDateSchema = z.string().date()
+
+export type Hours = z.infer<typeof hoursSchema>
+export type IsoTimestamp = z.infer<typeof isoTimestampSchema>
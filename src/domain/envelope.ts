@@ -0,0 +1,17 @@
+import { z } from "zod"
+
+// Some endpoints answer with a bare payload, others wrap it as { success, data }; accept both and unwrap
+
+export function envelopedList<T extends z.ZodTypeAny>(item: T) {
+  return z
+    .union([z.array(item), z.object({ data: z.array(item) })])
+    .transform((value) => (Array.isArray(value) ? value : value.data))
+}
+
+export function envelopedItem<T extends z.ZodTypeAny>(item: T) {
+  return z
+    .union([z.object({ data: item }), item])
+    .transform((value): z.output<T> =>
+      value && typeof value === "object" && "data" in value ? (value as { data: z.output<T> }).data : value,
+    )
+}
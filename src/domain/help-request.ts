@@ -0,0 +1,116 @@
+import { z } from "zod"
+import { hoursSchema, isoTimestampSchema } from "./common"
+
+// open → matched → accepted → in_progress → completed → settled; cancelled and expired end a request early
+export const helpRequestStatusSchema = z.enum([
+  "open",
+  "matched",
+  "accepted",
+  "in_progress",
+  "completed",
+  "settled",
+  "cancelled",
+  "expired",
+])
+
+export const cancellationReasonSchema = z.enum(["duplicate", "requester_withdrew", "unsafe", "no_provider_available"])
+
+export const helpRequestHistoryEntrySchema = z.object({
+  from: helpRequestStatusSchema.nullable(),
+  to: helpRequestStatusSchema,
+  at: isoTimestampSchema,
+  // Admin (email or id) who made the change
+  by: z.string(),
+  note: z.string().nullish(),
+})
+
+export const helpRequestSchema = z.object({
+  id: z.number().int(),
+  // Null when the requester has no member account (e.g. registered by phone)
+  requesterId: z.string().min(1).nullable(),
+  requester: z.object({
+    name: z.string(),
+    age: z.number().int().nonnegative(),
+    credits: hoursSchema,
+    category: z.string(),
+  }),
+  detail: z.object({
+    title: z.string(),
+    duration: hoursSchema.positive(),
+  }),
+  location: z.object({
+    city: z.string(),
+    district: z.string(),
+  }),
+  requestedAt: isoTimestampSchema,
+  status: helpRequestStatusSchema,
+  urgent: z.boolean(),
+  providerId: z.string().nullish(),
+  providerName: z.string().nullish(),
+  // Upstream job this request was posted as, when it came in through the app
+  jobId: z.number().int().nullish(),
+  // Hours held in escrow from the requester since the provider accepted; released on settlement, refunded on cancellation
+  escrowHeld: hoursSchema.nullish(),
+  cancellation: z
+    .object({
+      reasonCode: cancellationReasonSchema,
+      note: z.string().nullish(),
+    })
+    .nullish(),
+  // Service transfer that paid the provider, set once the request is settled
+  settlementTransferId: z.string().nullish(),
+  history: z.array(helpRequestHistoryEntrySchema),
+})
+
+export const helpRequestListSchema = z.array(helpRequestSchema)
+
+const HELP_REQUEST_TRANSITIONS: Record<HelpRequestStatus, readonly HelpRequestStatus[]> = {
+  open: ["matched", "cancelled", "expired"],
+  // Before work starts a request can go back to the queue for another provider
+  matched: ["accepted", "open", "cancelled"],
+  accepted: ["in_progress", "open", "cancelled"],
+  in_progress: ["completed", "cancelled"],
+  completed: ["settled"],
+  settled: [],
+  cancelled: [],
+  expired: [],
+}
+
+export function canTransitionHelpRequest(from: HelpRequestStatus, to: HelpRequestStatus) {
+  return HELP_REQUEST_TRANSITIONS[from].includes(to)
+}
+
+export function nextHelpRequestStatuses(from: HelpRequestStatus) {
+  return HELP_REQUEST_TRANSITIONS[from]
+}
+
+const note = z.string().trim().optional()
+
+export const helpRequestTransitionSchema = z.discriminatedUnion("to", [
+  z.object({ to: z.literal("matched"), providerId: z.string().min(1, "Provider is required"), note }),
+  z.object({ to: z.literal("accepted"), note }),
+  z.object({ to: z.literal("in_progress"), note }),
+  z.object({ to: z.literal("completed"), note }),
+  z.object({ to: z.literal("settled"), note }),
+  z.object({ to: z.literal("open"), note: z.string().trim().min(1, "A reason is required to reopen a request") }),
+  z.object({ to: z.literal("expired"), note }),
+])
+
+// Cancelling has its own endpoint: it needs a reason code, refunds escrow and notifies the requester
+export const helpRequestCancellationSchema = z.object({
+  reasonCode: cancellationReasonSchema,
+  note: z.string().trim().max(1000).optional(),
+})
+
+// Links a request to the upstream job it was posted as; null unlinks it
+export const helpRequestJobLinkSchema = z.object({
+  jobId: z.number().int().positive().nullable(),
+})
+
+export type HelpRequestStatus = z.infer<typeof helpRequestStatusSchema>
+export type HelpRequestHistoryEntry = z.infer<typeof helpRequestHistoryEntrySchema>
+export type HelpRequest = z.infer<typeof helpRequestSchema>
+export type HelpRequestTransition = z.infer<typeof helpRequestTransitionSchema>
+export type CancellationReason = z.infer<typeof cancellationReasonSchema>
+export type HelpRequestCancellation = z.infer<typeof helpRequestCancellationSchema>
+export type HelpRequestJobLink = z.infer<typeof helpRequestJobLinkSchema>
@@ -0,0 +1,18 @@
+export * from "./common"
+export * from "./envelope"
+export * from "./member"
+export * from "./transfer"
+export * from "./withdrawal"
+export * from "./help-request"
+export * from "./job"
+export * from "./job-activity"
+export * from "./verification"
+export * from "./match-log"
+export * from "./audit"
+export * from "./ledger"
+export * from "./list"
+export * from "./notification"
+export * from "./provider"
+export * from "./match"
+export * from "./auto-match"
+export * from "./saved-view"
@@ -0,0 +1,34 @@
+import { z } from "zod"
+import { auditEntrySchema } from "./audit"
+import { isoTimestampSchema } from "./common"
+import { helpRequestSchema } from "./help-request"
+import { transferSchema } from "./transfer"
+
+// Admin notes on an upstream job; kept locally because the upstream API has nowhere to store them
+export const jobNoteSchema = z.object({
+  id: z.string().min(1),
+  jobId: z.number().int(),
+  body: z.string().min(1),
+  // Admin (email or id) who wrote the note
+  author: z.string(),
+  createdAt: isoTimestampSchema,
+})
+
+export const jobNoteListSchema = z.array(jobNoteSchema)
+
+export const createJobNoteSchema = z.object({
+  body: z.string().trim().min(1, "Note is required").max(2000, "Notes are limited to 2000 characters"),
+})
+
+// What the panel itself knows about an upstream job, shown next to the upstream data on its detail page
+export const jobActivitySchema = z.object({
+  notes: jobNoteListSchema,
+  // Match decisions and status changes made from the panel, newest first
+  audit: z.array(auditEntrySchema),
+  helpRequests: z.array(helpRequestSchema),
+  transfers: z.array(transferSchema),
+})
+
+export type JobNote = z.infer<typeof jobNoteSchema>
+export type CreateJobNoteInput = z.infer<typeof createJobNoteSchema>
+export type JobActivity = z.infer<typeof jobActivitySchema>
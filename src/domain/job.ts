@@ -0,0 +1,65 @@
+import { z } from "zod"
+import { coercedHoursSchema, isoTimestampSchema } from "./common"
+
+// Jobs, applications and skilled users come from the upstream backend, so they keep its snake_case field names
+
+const coordinateSchema = z.coerce.number().finite()
+
+export const jobSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  description: z.string(),
+  required_skills: z.array(z.string()),
+  location_lat: coordinateSchema,
+  location_lon: coordinateSchema,
+  time_balance_hours: coercedHoursSchema,
+  broadcasted: z.boolean(),
+  created_at: isoTimestampSchema,
+  creator_user_id: z.number().int(),
+  creator_email: z.string(),
+  creator_first_name: z.string(),
+  creator_last_name: z.string(),
+})
+
+export const applicationStatusSchema = z.enum(["pending", "accepted", "rejected", "complete", "cancelled"])
+
+export const applicationSchema = z.object({
+  id: z.number().int(),
+  status: applicationStatusSchema,
+  applied_at: isoTimestampSchema,
+  job_id: z.number().int(),
+  title: z.string(),
+  description: z.string(),
+  required_skills: z.array(z.string()),
+  location_lat: coordinateSchema,
+  location_lon: coordinateSchema,
+  employer_name: z.string(),
+  employer_email: z.string(),
+  employer_phone: z.string(),
+  // The applicant; only sent on admin listings, and required to match them to the job
+  user_id: z.number().int().nullish(),
+  first_name: z.string().nullish(),
+  last_name: z.string().nullish(),
+})
+
+export const skilledUserSchema = z.object({
+  id: z.number().int(),
+  first_name: z.string(),
+  last_name: z.string(),
+  email: z.string(),
+  skills: z.array(z.string()),
+  current_lat: coordinateSchema,
+  current_lon: coordinateSchema,
+  distance_km: z.coerce.number().finite().nonnegative(),
+})
+
+export const jobListResponseSchema = z.object({ jobs: z.array(jobSchema) })
+
+export const applicationListResponseSchema = z.object({ applications: z.array(applicationSchema) })
+
+export const skilledUserListResponseSchema = z.object({ users: z.array(skilledUserSchema) })
+
+export type Job = z.infer<typeof jobSchema>
+export type ApplicationStatus = z.infer<typeof applicationStatusSchema>
+export type Application = z.infer<typeof applicationSchema>
+export type SkilledUser = z.infer<typeof skilledUserSchema>
@@ -0,0 +1,71 @@
+import { z } from "zod"
+import { isoTimestampSchema } from "./common"
+
+// Every credit movement is a journal entry whose postings sum to zero.
+// A positive posting credits (increases) an account, a negative one debits it.
+
+export const journalEntryKindSchema = z.enum([
+  "opening_balance",
+  "transfer",
+  "withdrawal",
+  "job_completion",
+  "adjustment",
+  "escrow_hold",
+  "escrow_refund",
+])
+
+// Credits created or destroyed by the time bank itself (opening balances, admin adjustments)
+export const ISSUANCE_ACCOUNT = "system:issuance"
+// Credits that left the system through approved withdrawals
+export const WITHDRAWALS_ACCOUNT = "system:withdrawals"
+// Hours a requester has committed to an accepted help request, held until it is settled or cancelled
+export const ESCROW_ACCOUNT = "system:escrow"
+
+export function memberAccount(memberId: string) {
+  return `member:${memberId}`
+}
+
+export const ledgerPostingSchema = z.object({
+  account: z.string().min(1),
+  amount: z.number().finite(),
+})
+
+// Hours can be fractional; compare in hundredths to avoid float drift
+export function isBalanced(postings: { amount: number }[]) {
+  return postings.reduce((sum, posting) => sum + Math.round(posting.amount * 100), 0) === 0
+}
+
+export const journalEntrySchema = z.object({
+  id: z.string().min(1),
+  kind: journalEntryKindSchema,
+  // Id of the transfer, withdrawal, job, ... that caused the movement
+  reference: z.string().nullable(),
+  memo: z.string(),
+  createdAt: isoTimestampSchema,
+  postings: z
+    .array(ledgerPostingSchema)
+    .min(2)
+    .refine(isBalanced, "Journal entry postings must sum to zero"),
+})
+
+export const journalEntryListSchema = z.array(journalEntrySchema)
+
+export const reconciliationRowSchema = z.object({
+  memberId: z.string(),
+  memberName: z.string(),
+  storedBalance: z.number(),
+  ledgerBalance: z.number(),
+  difference: z.number(),
+})
+
+export const reconciliationReportSchema = z.object({
+  checkedAt: isoTimestampSchema,
+  memberCount: z.number().int().nonnegative(),
+  mismatches: z.array(reconciliationRowSchema),
+})
+
+export type JournalEntryKind = z.infer<typeof journalEntryKindSchema>
+export type LedgerPosting = z.infer<typeof ledgerPostingSchema>
+export type JournalEntry = z.infer<typeof journalEntrySchema>
+export type ReconciliationRow = z.infer<typeof reconciliationRowSchema>
+export type ReconciliationReport = z.infer<typeof reconciliationReportSchema>
@@ -0,0 +1,97 @@
+import { z } from "zod"
+
+// Shared list grammar for the local data routes:
+//   ?page=2&pageSize=20&sort=-date,name&status=pending,approved&q=สมชาย&from=2024-01-01&to=2024-12-31
+// `cursor` (from a previous response) may be sent instead of `page`.
+
+export const MAX_PAGE_SIZE = 100
+export const DEFAULT_PAGE_SIZE = 20
+
+const csv = z
+  .string()
+  .transform((value) => value.split(",").map((part) => part.trim()).filter(Boolean))
+
+export const sortKeySchema = z
+  .string()
+  .regex(/^-?[a-zA-Z][\w.]*$/, "Sort keys look like `name` or `-date`")
+  .transform((key) => (key.startsWith("-") ? { field: key.slice(1), direction: "desc" as const } : { field: key, direction: "asc" as const }))
+
+export const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  sort: csv.pipe(z.array(sortKeySchema)).optional(),
+  status: csv.optional(),
+  q: z.string().trim().optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  cursor: z.string().optional(),
+})
+
+export type ListQuery = z.infer<typeof listQuerySchema>
+export type SortKey = z.infer<typeof sortKeySchema>
+
+// What callers build: every field optional, sort as the raw `-date,name` string
+export type ListParams = {
+  page?: number
+  pageSize?: number
+  sort?: string
+  status?: string | string[]
+  q?: string
+  from?: string
+  to?: string
+  cursor?: string
+  // Route-specific filters (e.g. `sender` on transfers)
+  [filter: string]: string | number | string[] | undefined
+}
+
+export function toListSearchParams(params: ListParams) {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) continue
+    search.set(key, Array.isArray(value) ? value.join(",") : String(value))
+  }
+  return search
+}
+
+// Inverse of `sortKeySchema` for a whole sort list: [{field: "date", direction: "desc"}] → "-date"
+export function toSortParam(keys: SortKey[]) {
+  return keys.map(({ field, direction }) => (direction === "desc" ? `-${field}` : field)).join(",")
+}
+
+// Cursors are opaque to clients; today they carry the row offset
+export function encodeCursor(offset: number) {
+  return btoa(JSON.stringify({ o: offset })).replace(/=+$/, "")
+}
+
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const value = JSON.parse(atob(cursor))
+    return Number.isInteger(value?.o) && value.o >= 0 ? value.o : null
+  } catch {
+    return null
+  }
+}
+
+export function pagedListSchema<T extends z.ZodTypeAny, S extends z.ZodTypeAny = z.ZodUndefined>(item: T, summary?: S) {
+  return z.object({
+    items: z.array(item),
+    total: z.number().int().nonnegative(),
+    page: z.number().int().min(1),
+    pageSize: z.number().int().min(1),
+    pageCount: z.number().int().nonnegative(),
+    nextCursor: z.string().nullable(),
+    prevCursor: z.string().nullable(),
+    summary: (summary ?? z.undefined()) as S,
+  })
+}
+
+export type PagedList<T, S = undefined> = {
+  items: T[]
+  total: number
+  page: number
+  pageSize: number
+  pageCount: number
+  nextCursor: string | null
+  prevCursor: string | null
+  // Lists without aggregates leave it out of the JSON entirely
+} & (undefined extends S ? { summary?: S } : { summary: S })
@@ -0,0 +1,98 @@
+import { z } from "zod"
+import { isoTimestampSchema } from "./common"
+
+export const matchLogStatusSchema = z.enum(["success", "failed"])
+
+export const matchConfidenceSchema = z.enum(["High", "Medium", "Low"])
+
+// A matching run whose best candidate scores below this is logged as failed: nobody suitable was found
+export const MIN_MATCH_SCORE = 40
+
+// What the matching engine weighs; `noShows` is a penalty, so a provider without no-shows scores 1 on it
+export const matchFactorSchema = z.enum(["skills", "distance", "rating", "workload", "availability", "noShows"])
+
+const factorScoreSchema = z.number().min(0).max(1)
+
+// Each factor scored 0–1, higher is better
+export const matchFactorScoresSchema = z.object({
+  skills: factorScoreSchema,
+  distance: factorScoreSchema,
+  rating: factorScoreSchema,
+  workload: factorScoreSchema,
+  availability: factorScoreSchema,
+  noShows: factorScoreSchema,
+})
+
+const weightSchema = z.number().finite().nonnegative()
+
+const matchWeightsShape = z.object({
+  skills: weightSchema,
+  distance: weightSchema,
+  rating: weightSchema,
+  workload: weightSchema,
+  availability: weightSchema,
+  noShows: weightSchema,
+})
+
+// Relative weights; only their ratios matter, so at least one must be above zero
+export const matchWeightsSchema = matchWeightsShape.refine(
+  (weights) => Object.values(weights).some((weight) => weight > 0),
+  "At least one weight must be above zero",
+)
+
+// Body of a matching run; weights left out keep their configured values
+export const matchRunRequestSchema = z.object({
+  weights: matchWeightsShape.partial().optional(),
+})
+
+export const matchCandidateScoreSchema = z.object({
+  providerId: z.string(),
+  provider: z.string(),
+  // Percentage in the 0–100 range
+  score: z.number().min(0).max(100),
+  factors: matchFactorScoresSchema,
+  distanceKm: z.number().nonnegative().nullable(),
+})
+
+export const matchLogSchema = z.object({
+  id: z.string().min(1),
+  requester: z.string(),
+  requesterId: z.string(),
+  // Unknown for requests that came in as upstream jobs
+  age: z.number().int().nonnegative().nullable(),
+  requestType: z.string(),
+  requestDetail: z.string(),
+  provider: z.string(),
+  providerId: z.string(),
+  // Null when the provider has no rating yet, or when no provider was found
+  rating: z.number().min(0).max(5).nullable(),
+  matchedAt: isoTimestampSchema,
+  // Percentage in the 0–100 range
+  matchScore: z.number().min(0).max(100),
+  confidence: matchConfidenceSchema,
+  status: matchLogStatusSchema,
+  // Set on logs written by the matching engine: the upstream job, the weights used and the ranked
+  // candidates (best first, so the first one is `provider` unless the run failed)
+  jobId: z.number().int().nullish(),
+  weights: matchWeightsSchema.nullish(),
+  candidates: z.array(matchCandidateScoreSchema).nullish(),
+})
+
+export const matchLogListSchema = z.array(matchLogSchema)
+
+// Aggregates the AI logs list route returns over every row matching the filters
+export const matchLogSummarySchema = z.object({
+  succeeded: z.number().int().nonnegative(),
+  failed: z.number().int().nonnegative(),
+  averageScore: z.number().min(0).max(100).nullable(),
+})
+
+export type MatchLogStatus = z.infer<typeof matchLogStatusSchema>
+export type MatchConfidence = z.infer<typeof matchConfidenceSchema>
+export type MatchFactor = z.infer<typeof matchFactorSchema>
+export type MatchFactorScores = z.infer<typeof matchFactorScoresSchema>
+export type MatchWeights = z.infer<typeof matchWeightsSchema>
+export type MatchRunRequest = z.infer<typeof matchRunRequestSchema>
+export type MatchCandidateScore = z.infer<typeof matchCandidateScoreSchema>
+export type MatchLog = z.infer<typeof matchLogSchema>
+export type MatchLogSummary = z.infer<typeof matchLogSummarySchema>
@@ -0,0 +1,62 @@
+import { z } from "zod"
+import { isoTimestampSchema } from "./common"
+
+// active → unmatched, or active → reassigned when another provider takes over; ended matches are kept as history
+export const matchStatusSchema = z.enum(["active", "unmatched", "reassigned"])
+
+export const unmatchReasonSchema = z.enum(["provider_unavailable", "requester_complaint", "safety_concern"])
+
+// A provider matched to an upstream job from the panel. User and job ids are the upstream's
+export const matchSchema = z.object({
+  id: z.string().min(1),
+  jobId: z.number().int(),
+  // As the upstream showed them when the match was made; null when they could not be read
+  jobTitle: z.string().nullable(),
+  requesterId: z.number().int().nullable(),
+  requesterName: z.string().nullable(),
+  providerId: z.number().int(),
+  providerName: z.string().nullable(),
+  reason: z.string(),
+  status: matchStatusSchema,
+  createdAt: isoTimestampSchema,
+  // Admin (email or id) who made the match
+  createdBy: z.string(),
+  endedAt: isoTimestampSchema.nullish(),
+  endedBy: z.string().nullish(),
+  endReason: z
+    .object({
+      reasonCode: unmatchReasonSchema,
+      note: z.string().nullish(),
+    })
+    .nullish(),
+  // The match that replaced this one after a reassignment
+  replacedBy: z.string().nullish(),
+})
+
+export const matchListSchema = z.array(matchSchema)
+
+// Body of POST /api/admin/matches; snake_case because everything but `provider_name` goes on to the upstream
+export const createMatchRequestSchema = z.object({
+  job_id: z.coerce.number().int().positive(),
+  user_id: z.coerce.number().int().positive(),
+  reason: z.string().trim().min(1, "Reason is required").max(1000),
+  // Kept on the panel's record of the match for display
+  provider_name: z.string().trim().max(200).optional(),
+})
+
+export const unmatchSchema = z.object({
+  reasonCode: unmatchReasonSchema,
+  note: z.string().trim().max(1000).optional(),
+})
+
+export const reassignMatchSchema = unmatchSchema.extend({
+  providerId: z.number().int().positive(),
+  providerName: z.string().trim().max(200).optional(),
+})
+
+export type MatchStatus = z.infer<typeof matchStatusSchema>
+export type UnmatchReason = z.infer<typeof unmatchReasonSchema>
+export type Match = z.infer<typeof matchSchema>
+export type CreateMatchRequest = z.infer<typeof createMatchRequestSchema>
+export type Unmatch = z.infer<typeof unmatchSchema>
+export type ReassignMatch = z.infer<typeof reassignMatchSchema>
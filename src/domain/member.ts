@@ -0,0 +1,19 @@
+import { z } from "zod"
+import { hoursSchema } from "./common"
+
+export const memberStatusSchema = z.enum(["active", "warning", "inactive"])
+
+export const memberSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  age: z.number().int().nonnegative(),
+  location: z.string(),
+  credits: hoursSchema,
+  skills: z.array(z.string()),
+  status: memberStatusSchema,
+})
+
+export const memberListSchema = z.array(memberSchema)
+
+export type MemberStatus = z.infer<typeof memberStatusSchema>
+export type Member = z.infer<typeof memberSchema>
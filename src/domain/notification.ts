@@ -0,0 +1,21 @@
+import { z } from "zod"
+import { isoTimestampSchema } from "./common"
+
+// Outbox of messages to members. The panel only queues them; the mobile app's push/SMS sender delivers
+// undelivered entries and stamps `deliveredAt`.
+export const notificationSchema = z.object({
+  id: z.string().min(1),
+  // Null when the recipient has no member account (e.g. a requester registered by phone)
+  recipientId: z.string().nullable(),
+  recipientName: z.string(),
+  subject: z.string().min(1),
+  body: z.string(),
+  // What the message is about, as `<entity type>:<id>` (e.g. `help_request:3`)
+  reference: z.string().nullable(),
+  createdAt: isoTimestampSchema,
+  deliveredAt: isoTimestampSchema.nullish(),
+})
+
+export const notificationListSchema = z.array(notificationSchema)
+
+export type Notification = z.infer<typeof notificationSchema>
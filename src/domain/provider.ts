@@ -0,0 +1,29 @@
+import { z } from "zod"
+import { isoTimestampSchema } from "./common"
+
+// What the panel knows about an upstream provider beyond their skills and location, keyed by upstream user id.
+// The matching engine reads it; providers without a profile score as neutral on rating, workload and no-shows.
+export const providerProfileSchema = z.object({
+  id: z.string().min(1),
+  // 0–5; null until the provider has been rated
+  rating: z.number().min(0).max(5).nullable(),
+  // Matches assigned and not yet finished or undone
+  activeJobs: z.number().int().nonnegative(),
+  noShows: z.number().int().nonnegative(),
+  // False while a coordinator has marked the provider as away
+  available: z.boolean(),
+  updatedAt: isoTimestampSchema,
+})
+
+export const providerProfileListSchema = z.array(providerProfileSchema)
+
+// What coordinators set by hand; the workload and no-show counters follow the panel's matches
+export const updateProviderProfileSchema = z
+  .object({
+    rating: z.number().min(0, "Rating is between 0 and 5").max(5, "Rating is between 0 and 5").nullable().optional(),
+    available: z.boolean().optional(),
+  })
+  .refine((input) => input.rating !== undefined || input.available !== undefined, "Nothing to update")
+
+export type ProviderProfile = z.infer<typeof providerProfileSchema>
+export type UpdateProviderProfile = z.infer<typeof updateProviderProfileSchema>
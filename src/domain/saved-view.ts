@@ -0,0 +1,32 @@
+import { z } from "zod"
+import { isoTimestampSchema } from "./common"
+
+// Lists that offer saved views; each admin keeps their own named filter sets per list
+export const savedViewListSchema = z.enum(["help-requests", "ai-logs", "verification", "transfers", "withdrawals"])
+
+const savedViewFiltersSchema = z.record(z.string())
+
+export const savedViewSchema = z.object({
+  id: z.string().min(1),
+  // Session user the view belongs to (see `savedViewOwner`); other admins never see it
+  ownerId: z.string().min(1),
+  listId: savedViewListSchema,
+  name: z.string().min(1),
+  // Only the filters that differ from the list's defaults
+  filters: savedViewFiltersSchema,
+  createdAt: isoTimestampSchema,
+  // Repositories only insert and update, so deleting a view stamps it instead
+  deletedAt: isoTimestampSchema.nullish(),
+})
+
+export const savedViewListResponseSchema = z.array(savedViewSchema)
+
+export const createSavedViewSchema = z.object({
+  listId: savedViewListSchema,
+  name: z.string().trim().min(1, "Name is required").max(60, "Name is at most 60 characters"),
+  filters: savedViewFiltersSchema,
+})
+
+export type SavedViewList = z.infer<typeof savedViewListSchema>
+export type SavedView = z.infer<typeof savedViewSchema>
+export type CreateSavedView = z.infer<typeof createSavedViewSchema>
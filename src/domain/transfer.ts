@@ -0,0 +1,70 @@
+import { z } from "zod"
+import { hoursSchema, isoTimestampSchema } from "./common"
+
+// `reversal_pending` waits for a second admin; `reversed` has a linked compensating transfer
+export const transferStatusSchema = z.enum(["success", "failed", "reversal_pending", "reversed"])
+
+// `manual` transfers are issued by an admin on a member's behalf (e.g. elderly members without the app)
+export const transferTypeSchema = z.enum(["service", "manual", "reversal"])
+
+export const reversalRequestSchema = z.object({
+  requestedBy: z.string(),
+  requestedAt: isoTimestampSchema,
+  reason: z.string().min(1),
+})
+
+export const transferSchema = z.object({
+  id: z.string().min(1),
+  senderId: z.string().min(1),
+  sender: z.string(),
+  receiverId: z.string().min(1),
+  receiver: z.string(),
+  amount: hoursSchema.positive(),
+  createdAt: isoTimestampSchema,
+  reason: z.string(),
+  status: transferStatusSchema,
+  type: transferTypeSchema,
+  // Admin who issued a manual transfer
+  createdBy: z.string().nullish(),
+  // Links between an original transfer and the compensating transfer that undid it
+  reversalOf: z.string().nullish(),
+  reversedBy: z.string().nullish(),
+  reversalRequest: reversalRequestSchema.nullish(),
+})
+
+export const transferListSchema = z.array(transferSchema)
+
+export const createTransferSchema = z
+  .object({
+    senderId: z.string().min(1),
+    receiverId: z.string().min(1),
+    amount: hoursSchema.positive("Amount must be greater than zero"),
+    reason: z.string().trim().min(1, "Reason is required"),
+  })
+  .refine((input) => input.senderId !== input.receiverId, {
+    message: "Sender and receiver must be different members",
+    path: ["receiverId"],
+  })
+
+export const reverseTransferSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required"),
+})
+
+// Aggregates the transfers list route returns over every row matching the filters
+export const transferSummarySchema = z.object({
+  totalAmount: hoursSchema,
+  successRate: z.number().min(0).max(100),
+})
+
+// Only settled, non-compensating transfers can be undone, and only once
+export function isReversible(transfer: Transfer) {
+  return transfer.status === "success" && transfer.type !== "reversal" && !transfer.reversedBy
+}
+
+export type TransferStatus = z.infer<typeof transferStatusSchema>
+export type TransferType = z.infer<typeof transferTypeSchema>
+export type Transfer = z.infer<typeof transferSchema>
+export type CreateTransferInput = z.infer<typeof createTransferSchema>
+export type ReverseTransferInput = z.infer<typeof reverseTransferSchema>
+export type ReversalRequest = z.infer<typeof reversalRequestSchema>
+export type TransferSummary = z.infer<typeof transferSummarySchema>
@@ -0,0 +1,49 @@
+import { z } from "zod"
+import { isoTimestampSchema } from "./common"
+import { envelopedItem, envelopedList } from "./envelope"
+
+export const verificationStatusSchema = z.enum(["pending", "verified", "rejected"])
+
+// Older backend builds report the same three states under several spellings
+const verificationStatusAliases: Record<string, VerificationStatus> = {
+  pending: "pending",
+  review: "pending",
+  under_review: "pending",
+  "รอตรวจสอบ": "pending",
+  verified: "verified",
+  approved: "verified",
+  confirmed: "verified",
+  rejected: "rejected",
+  reject: "rejected",
+  rejects: "rejected",
+  declined: "rejected",
+  denied: "rejected",
+}
+
+const normalizedVerificationStatusSchema = z.preprocess(
+  (value) => (typeof value === "string" ? verificationStatusAliases[value.trim().toLowerCase()] ?? value : value),
+  verificationStatusSchema,
+)
+
+export const verificationEntrySchema = z.object({
+  id: z.union([z.number().int(), z.string().min(1)]),
+  first_name: z.string(),
+  last_name: z.string(),
+  email: z.string(),
+  phone: z.string().nullish(),
+  national_id: z.string().nullish(),
+  dob: z.string().nullish(),
+  household: z.string().nullish(),
+  skills: z.array(z.string()).nullish(),
+  status: normalizedVerificationStatusSchema.default("pending"),
+  lat: z.coerce.number().finite().nullish(),
+  lon: z.coerce.number().finite().nullish(),
+  created_at: isoTimestampSchema.nullish(),
+})
+
+export const verificationListResponseSchema = envelopedList(verificationEntrySchema)
+
+export const verificationDetailResponseSchema = envelopedItem(verificationEntrySchema)
+
+export type VerificationStatus = z.infer<typeof verificationStatusSchema>
+export type VerificationEntry = z.infer<typeof verificationEntrySchema>
@@ -0,0 +1,37 @@
+import { z } from "zod"
+import { hoursSchema, isoTimestampSchema } from "./common"
+
+export const withdrawalStatusSchema = z.enum(["pending", "approved", "rejected"])
+
+export const withdrawalSchema = z.object({
+  id: z.string().min(1),
+  memberId: z.string().min(1),
+  memberName: z.string(),
+  amount: hoursSchema.positive(),
+  requestedAt: isoTimestampSchema,
+  status: withdrawalStatusSchema,
+  rejectionReason: z.string().nullish(),
+  decidedAt: isoTimestampSchema.nullish(),
+})
+
+export const withdrawalListSchema = z.array(withdrawalSchema)
+
+// A request is decided exactly once; decided withdrawals are final
+const WITHDRAWAL_TRANSITIONS: Record<WithdrawalStatus, readonly WithdrawalStatus[]> = {
+  pending: ["approved", "rejected"],
+  approved: [],
+  rejected: [],
+}
+
+export function canTransitionWithdrawal(from: WithdrawalStatus, to: WithdrawalStatus) {
+  return WITHDRAWAL_TRANSITIONS[from].includes(to)
+}
+
+export const withdrawalDecisionSchema = z.discriminatedUnion("status", [
+  z.object({ status: z.literal("approved"), reason: z.string().trim().optional() }),
+  z.object({ status: z.literal("rejected"), reason: z.string().trim().min(1, "Rejection reason is required") }),
+])
+
+export type WithdrawalStatus = z.infer<typeof withdrawalStatusSchema>
+export type Withdrawal = z.infer<typeof withdrawalSchema>
+export type WithdrawalDecision = z.infer<typeof withdrawalDecisionSchema>
@@ -0,0 +1,61 @@
+import * as React from 'react'
+import { toListSearchParams, type ListParams, type PagedList } from '@/domain'
+import { describeApiError, isAbortError } from '@/lib/admin-api'
+
+type FetchPage<T, S> = (params: ListParams, options?: { signal?: AbortSignal }) => Promise<PagedList<T, S>>
+
+/**
+ * Keeps one page of a list route in sync with `params`. When the server component already rendered
+ * the page for the initial params (`initial`), the first fetch is skipped.
+ */
+export function useServerList<T, S = undefined>(fetchPage: FetchPage<T, S>, params: ListParams, initial?: PagedList<T, S>) {
+  const [list, setList] = React.useState<PagedList<T, S> | null>(initial ?? null)
+  const [isLoading, setIsLoading] = React.useState(!initial)
+  const [error, setError] = React.useState<string | null>(null)
+  const [reloadKey, setReloadKey] = React.useState(0)
+
+  // Params objects are rebuilt every render; the query string is what identifies a page
+  const query = toListSearchParams(params).toString()
+  const initialQuery = React.useRef(initial ? query : null)
+  const fetchRef = React.useRef(fetchPage)
+  fetchRef.current = fetchPage
+
+  React.useEffect(() => {
+    if (reloadKey === 0 && query === initialQuery.current) return
+    initialQuery.current = null
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    fetchRef.current(Object.fromEntries(new URLSearchParams(query)), { signal: controller.signal })
+      .then((page) => {
+        setList(page)
+        setError(null)
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setError(describeApiError(err))
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false)
+      })
+    return () => controller.abort()
+  }, [query, reloadKey])
+
+  const reload = React.useCallback(() => setReloadKey((key) => key + 1), [])
+
+  // For optimistic edits of rows on the current page
+  const setItems = React.useCallback((update: (items: T[]) => T[]) => {
+    setList((current) => (current ? { ...current, items: update(current.items) } : current))
+  }, [])
+
+  return { list, isLoading, error, reload, setItems }
+}
+
+// Holds back fast-changing input (e.g. a search box) so each keystroke does not fire a request
+export function useDebouncedValue<T>(value: T, delay = 300) {
+  const [debounced, setDebounced] = React.useState(value)
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(timer)
+  }, [value, delay])
+  return debounced
+}
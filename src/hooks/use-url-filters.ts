@@ -0,0 +1,79 @@
+import * as React from 'react'
+import { usePathname, useSearchParams } from 'next/navigation'
+
+export type FilterValues<K extends string> = Record<K, string>
+
+/**
+ * Filter state kept in the query string, so a reload or a shared link shows the same list.
+ * Values equal to their default are left out of the URL. Updates use `history.replaceState`,
+ * which Next keeps in sync with `useSearchParams` without a server round trip.
+ */
+export function useUrlFilters<K extends string>(defaults: FilterValues<K>) {
+  const searchParams = useSearchParams()
+  const pathname = usePathname()
+  const keys = Object.keys(defaults) as K[]
+
+  const filters = Object.fromEntries(keys.map((key) => [key, searchParams.get(key) ?? defaults[key]])) as FilterValues<K>
+
+  const defaultsRef = React.useRef(defaults)
+  defaultsRef.current = defaults
+
+  const write = React.useCallback(
+    (next: FilterValues<K>) => {
+      const params = new URLSearchParams(window.location.search)
+      for (const key of Object.keys(defaultsRef.current) as K[]) {
+        const value = next[key]?.trim() ?? ''
+        if (value === '' || value === defaultsRef.current[key]) params.delete(key)
+        else params.set(key, value)
+      }
+      const query = params.toString()
+      window.history.replaceState(null, '', query ? `${pathname}?${query}` : pathname)
+    },
+    [pathname],
+  )
+
+  // Merges into the current filters
+  const setFilters = React.useCallback(
+    (patch: Partial<FilterValues<K>>) => {
+      const current = new URLSearchParams(window.location.search)
+      const merged = Object.fromEntries(
+        (Object.keys(defaultsRef.current) as K[]).map((key) => [key, patch[key] ?? current.get(key) ?? defaultsRef.current[key]]),
+      ) as FilterValues<K>
+      write(merged)
+    },
+    [write],
+  )
+
+  // Replaces every filter, resetting the ones `values` leaves out (used when applying a saved view)
+  const replaceFilters = React.useCallback(
+    (values: Partial<FilterValues<K>>) => write({ ...defaultsRef.current, ...values }),
+    [write],
+  )
+
+  // Only the filters that differ from their defaults, e.g. for saving as a named view
+  const activeFilters: Record<string, string> = Object.fromEntries(
+    keys.filter((key) => filters[key] !== defaults[key]).map((key) => [key, filters[key]]),
+  )
+
+  return { filters, activeFilters, setFilters, replaceFilters }
+}
+
+/**
+ * Local text for an input bound to a URL filter: typing stays responsive and the URL follows after a
+ * pause. Changes made elsewhere (a saved view, back/forward) replace the draft.
+ */
+export function useFilterDraft(value: string, commit: (value: string) => void, delay = 300) {
+  const [draft, setDraft] = React.useState(value)
+  const timer = React.useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+
+  React.useEffect(() => setDraft(value), [value])
+  React.useEffect(() => () => clearTimeout(timer.current), [])
+
+  const change = (next: string) => {
+    setDraft(next)
+    clearTimeout(timer.current)
+    timer.current = setTimeout(() => commit(next), delay)
+  }
+
+  return [draft, change] as const
+}
@@ -0,0 +1,41 @@
+import * as React from 'react'
+import { useSession } from '@/components/session-provider'
+
+/**
+ * A value kept in localStorage under `name` for the signed-in admin, so each admin keeps their own
+ * table layouts on a shared machine. Falls back to `fallback` until (or unless) storage has one.
+ */
+export function useUserPreference<T>(name: string, fallback: T) {
+  const { user } = useSession()
+  const storageKey = `${name}:${user?.id ?? user?.email ?? 'anonymous'}`
+  const [value, setValue] = React.useState<T>(fallback)
+  const fallbackRef = React.useRef(fallback)
+  fallbackRef.current = fallback
+
+  // Storage only exists in the browser, so the stored value is read after the first render
+  React.useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(storageKey)
+      setValue(stored ? (JSON.parse(stored) as T) : fallbackRef.current)
+    } catch {
+      setValue(fallbackRef.current)
+    }
+  }, [storageKey])
+
+  const update = React.useCallback(
+    (next: T | ((current: T) => T)) => {
+      setValue((current) => {
+        const resolved = typeof next === 'function' ? (next as (current: T) => T)(current) : next
+        try {
+          window.localStorage.setItem(storageKey, JSON.stringify(resolved))
+        } catch {
+          // Storage may be full or disabled; the value still applies for this visit
+        }
+        return resolved
+      })
+    },
+    [storageKey],
+  )
+
+  return [value, update] as const
+}
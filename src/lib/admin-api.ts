@@ -0,0 +1,330 @@
+import { z } from "zod"
+import {
+  applicationListResponseSchema,
+  auditEntryListSchema,
+  autoMatchDecisionSchema,
+  helpRequestSchema,
+  jobActivitySchema,
+  jobNoteSchema,
+  MAX_PAGE_SIZE,
+  matchLogSchema,
+  matchLogSummarySchema,
+  matchSchema,
+  memberSchema,
+  pagedListSchema,
+  providerProfileListSchema,
+  providerProfileSchema,
+  savedViewListResponseSchema,
+  savedViewSchema,
+  toListSearchParams,
+  transferSchema,
+  transferSummarySchema,
+  jobListResponseSchema,
+  skilledUserListResponseSchema,
+  verificationDetailResponseSchema,
+  verificationListResponseSchema,
+  withdrawalSchema,
+  type AuditEntityType,
+  type CreateSavedView,
+  type CreateTransferInput,
+  type HelpRequestCancellation,
+  type HelpRequestTransition,
+  type ListParams,
+  type MatchRunRequest,
+  type ReassignMatch,
+  type ReverseTransferInput,
+  type SavedViewList,
+  type UpdateProviderProfile,
+  type Unmatch,
+  type WithdrawalDecision,
+} from "@/domain"
+
+// Typed client for the admin backend. Requests go to same-origin routes that proxy to the upstream
+// API with the httpOnly session cookie, so no token is ever handled in the browser.
+// Views should go through `adminApi` rather than calling fetch directly.
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body?: unknown,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+export class ApiValidationError extends Error {
+  constructor(
+    readonly path: string,
+    readonly issues: z.ZodIssue[],
+  ) {
+    super(`Unexpected response shape from ${path}`)
+    this.name = "ApiValidationError"
+  }
+}
+
+export type RequestOptions = {
+  signal?: AbortSignal
+}
+
+type RequestInitWithBody = RequestOptions & {
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE"
+  body?: unknown
+}
+
+let refreshInFlight: Promise<boolean> | null = null
+
+// Concurrent 401s share a single refresh so the refresh token is only rotated once
+function refreshAccessToken() {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const res = await fetch("/api/auth/refresh", { method: "POST" })
+        return res.ok
+      } catch {
+        return false
+      }
+    })().finally(() => {
+      refreshInFlight = null
+    })
+  }
+  return refreshInFlight
+}
+
+async function readBody(res: Response) {
+  const text = await res.text()
+  if (!text) return undefined
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+async function request<T extends z.ZodTypeAny>(
+  path: string,
+  schema: T,
+  { method = "GET", body, signal }: RequestInitWithBody = {},
+  isRetry = false,
+): Promise<z.output<T>> {
+  const res = await fetch(path, {
+    method,
+    headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    signal,
+  })
+
+  if (res.status === 401 && !isRetry && (await refreshAccessToken())) {
+    return request(path, schema, { method, body, signal }, true)
+  }
+
+  const payload = await readBody(res)
+
+  if (!res.ok) {
+    const message =
+      payload && typeof payload === "object" && "message" in payload && typeof payload.message === "string"
+        ? payload.message
+        : `HTTP ${res.status}`
+    throw new ApiError(message, res.status, payload)
+  }
+
+  const parsed = schema.safeParse(payload)
+  if (!parsed.success) {
+    throw new ApiValidationError(path, parsed.error.issues)
+  }
+  return parsed.data
+}
+
+// Mutations only care that the call succeeded; the body, if any, is passed through untouched
+const acknowledgementSchema = z.unknown()
+
+// List routes share one query grammar (see `listQuerySchema`) and answer with a page envelope
+function listPath(path: string, params: ListParams) {
+  const query = toListSearchParams(params).toString()
+  return query ? `${path}?${query}` : path
+}
+
+const memberPageSchema = pagedListSchema(memberSchema)
+const transferPageSchema = pagedListSchema(transferSchema, transferSummarySchema)
+const withdrawalPageSchema = pagedListSchema(withdrawalSchema)
+const helpRequestPageSchema = pagedListSchema(helpRequestSchema)
+const matchLogPageSchema = pagedListSchema(matchLogSchema, matchLogSummarySchema)
+const matchPageSchema = pagedListSchema(matchSchema)
+const autoMatchDecisionPageSchema = pagedListSchema(autoMatchDecisionSchema)
+
+const reversalResultSchema = z.object({ original: transferSchema, compensating: transferSchema.nullable() })
+
+export type AuditFilters = {
+  actor?: string
+  entityType?: AuditEntityType
+  from?: string
+  to?: string
+}
+
+// Drops empty filters so they don't end up as `?actor=` in the URL
+export function auditQuery(filters: AuditFilters) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value)
+  }
+  const query = params.toString()
+  return query ? `?${query}` : ""
+}
+
+export const adminApi = {
+  jobs: {
+    list: (options?: RequestOptions) =>
+      request("/api/admin/jobs", jobListResponseSchema.transform((res) => res.jobs), options),
+    // The upstream only lists jobs, so a single job is picked out of the list (null when it is gone)
+    get: (id: number, options?: RequestOptions) =>
+      request("/api/admin/jobs", jobListResponseSchema.transform((res) => res.jobs.find((job) => job.id === id) ?? null), options),
+    activity: (id: number, options?: RequestOptions) => request(`/api/jobs/${id}`, jobActivitySchema, options),
+    addNote: (id: number, body: string, options?: RequestOptions) =>
+      request(`/api/jobs/${id}/notes`, jobNoteSchema, { ...options, method: "POST", body: { body } }),
+    skilledUsers: (jobId: number, options?: RequestOptions) =>
+      request(
+        `/api/admin/jobs/${jobId}/skilled-users`,
+        skilledUserListResponseSchema.transform((res) => res.users),
+        options,
+      ),
+    // Ranks the job's skilled users; the run is recorded as a match log, which is returned
+    runMatching: (id: number, run: MatchRunRequest = {}, options?: RequestOptions) =>
+      request(`/api/jobs/${id}/match-runs`, matchLogSchema, { ...options, method: "POST", body: run }),
+  },
+  applications: {
+    list: (options?: RequestOptions) =>
+      request("/api/jobapp", applicationListResponseSchema.transform((res) => res.applications), options),
+  },
+  verification: {
+    list: (options?: RequestOptions) => request("/api/admin/verification", verificationListResponseSchema, options),
+    get: (id: number | string, options?: RequestOptions) =>
+      request(`/api/admin/verification/${id}`, verificationDetailResponseSchema, options),
+    verify: (id: number | string, options?: RequestOptions) =>
+      request(`/api/admin/verification/${id}/verify`, acknowledgementSchema, { ...options, method: "PATCH" }),
+    reject: (id: number | string, rejectionReason?: string, options?: RequestOptions) =>
+      request(`/api/admin/verification/${id}/reject`, acknowledgementSchema, {
+        ...options,
+        method: "PATCH",
+        body: rejectionReason ? { rejectionReason } : undefined,
+      }),
+  },
+  matches: {
+    create: (match: { jobId: number; userId: number; reason: string; providerName?: string }, options?: RequestOptions) =>
+      request("/api/admin/matches", acknowledgementSchema, {
+        ...options,
+        method: "POST",
+        body: { job_id: match.jobId, user_id: match.userId, reason: match.reason, provider_name: match.providerName },
+      }),
+    // Matches made from the panel, including ended ones; `status: ["active"]` for the ones still running
+    list: (params: ListParams = {}, options?: RequestOptions) => request(listPath("/api/matches", params), matchPageSchema, options),
+    unmatch: (id: string, input: Unmatch, options?: RequestOptions) =>
+      request(`/api/matches/${encodeURIComponent(id)}/unmatch`, matchSchema, { ...options, method: "POST", body: input }),
+    // Answers with the replacement match
+    reassign: (id: string, input: ReassignMatch, options?: RequestOptions) =>
+      request(`/api/matches/${encodeURIComponent(id)}/reassign`, matchSchema, { ...options, method: "POST", body: input }),
+  },
+  // Panel-side rating and availability of upstream providers, weighed by the matching engine
+  providers: {
+    profiles: (options?: RequestOptions) => request("/api/providers", providerProfileListSchema, options),
+    updateProfile: (id: number, update: UpdateProviderProfile, options?: RequestOptions) =>
+      request(`/api/providers/${id}`, providerProfileSchema, { ...options, method: "PATCH", body: update }),
+  },
+  members: {
+    list: (params: ListParams = {}, options?: RequestOptions) =>
+      request(listPath("/api/members", params), memberPageSchema, options),
+  },
+  helpRequests: {
+    list: (params: ListParams = {}, options?: RequestOptions) =>
+      request(listPath("/api/help-requests", params), helpRequestPageSchema, options),
+    get: (id: number, options?: RequestOptions) => request(`/api/help-requests/${id}`, helpRequestSchema, options),
+    transition: (id: number, transition: HelpRequestTransition, options?: RequestOptions) =>
+      request(`/api/help-requests/${id}/transitions`, helpRequestSchema, { ...options, method: "POST", body: transition }),
+    cancel: (id: number, cancellation: HelpRequestCancellation, options?: RequestOptions) =>
+      request(`/api/help-requests/${id}/cancel`, helpRequestSchema, { ...options, method: "POST", body: cancellation }),
+    // Ties the request to the upstream job it was posted as; null unties it
+    linkJob: (id: number, jobId: number | null, options?: RequestOptions) =>
+      request(`/api/help-requests/${id}/job`, helpRequestSchema, { ...options, method: "PUT", body: { jobId } }),
+  },
+  autoMatch: {
+    // `awaiting: "true"` lists the review queue
+    decisions: (params: ListParams = {}, options?: RequestOptions) =>
+      request(listPath("/api/auto-match/decisions", params), autoMatchDecisionPageSchema, options),
+    dismiss: (id: string, note?: string, options?: RequestOptions) =>
+      request(`/api/auto-match/decisions/${encodeURIComponent(id)}/dismiss`, autoMatchDecisionSchema, {
+        ...options,
+        method: "POST",
+        body: { note },
+      }),
+  },
+  matchLogs: {
+    list: (params: ListParams = {}, options?: RequestOptions) =>
+      request(listPath("/api/ai-logs", params), matchLogPageSchema, options),
+  },
+  transfers: {
+    list: (params: ListParams = {}, options?: RequestOptions) =>
+      request(listPath("/api/transfers", params), transferPageSchema, options),
+    create: (transfer: CreateTransferInput, options?: RequestOptions) =>
+      request("/api/transfers", transferSchema, { ...options, method: "POST", body: transfer }),
+    reverse: (id: string, input: ReverseTransferInput, options?: RequestOptions) =>
+      request(`/api/transfers/${encodeURIComponent(id)}/reversal`, reversalResultSchema, {
+        ...options,
+        method: "POST",
+        body: input,
+      }),
+    decideReversal: (id: string, decision: { approve: boolean; note?: string }, options?: RequestOptions) =>
+      request(`/api/transfers/${encodeURIComponent(id)}/reversal`, reversalResultSchema, {
+        ...options,
+        method: "PATCH",
+        body: decision,
+      }),
+  },
+  withdrawals: {
+    list: (params: ListParams = {}, options?: RequestOptions) =>
+      request(listPath("/api/withdrawals", params), withdrawalPageSchema, options),
+    get: (id: string, options?: RequestOptions) =>
+      request(`/api/withdrawals/${encodeURIComponent(id)}`, withdrawalSchema, options),
+    decide: (id: string, decision: WithdrawalDecision, options?: RequestOptions) =>
+      request(`/api/withdrawals/${encodeURIComponent(id)}`, withdrawalSchema, { ...options, method: "PATCH", body: decision }),
+  },
+  // The signed-in admin's own views; the server keys them by session user
+  savedViews: {
+    list: (listId: SavedViewList, options?: RequestOptions) =>
+      request(`/api/saved-views?list=${listId}`, savedViewListResponseSchema, options),
+    create: (view: CreateSavedView, options?: RequestOptions) =>
+      request("/api/saved-views", savedViewSchema, { ...options, method: "POST", body: view }),
+    remove: (id: string, options?: RequestOptions) =>
+      request(`/api/saved-views/${encodeURIComponent(id)}`, savedViewSchema, { ...options, method: "DELETE" }),
+  },
+  audit: {
+    list: (filters: AuditFilters = {}, options?: RequestOptions) =>
+      request(`/api/audit${auditQuery(filters)}`, auditEntryListSchema, options),
+    exportUrl: (filters: AuditFilters = {}) => `/api/audit/export${auditQuery(filters)}`,
+  },
+}
+
+// Walks every page of a list route, e.g. for exports that must include rows beyond the current page
+export async function fetchAllPages<T>(
+  fetchPage: (params: ListParams, options?: RequestOptions) => Promise<{ items: T[]; nextCursor: string | null }>,
+  params: ListParams,
+  options?: RequestOptions,
+) {
+  const items: T[] = []
+  let cursor: string | undefined
+  do {
+    const page = await fetchPage({ ...params, page: undefined, cursor, pageSize: MAX_PAGE_SIZE }, options)
+    items.push(...page.items)
+    cursor = page.nextCursor ?? undefined
+  } while (cursor)
+  return items
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError"
+}
+
+export function describeApiError(error: unknown, fallback = "เกิดข้อผิดพลาดที่ไม่ทราบสาเหตุ") {
+  if (error instanceof ApiValidationError) return `ข้อมูลจากเซิร์ฟเวอร์ไม่ถูกต้อง (${error.path})`
+  if (error instanceof Error && error.message) return error.message
+  return fallback
+}
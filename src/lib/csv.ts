@@ -0,0 +1,13 @@
+// Minimal RFC 4180 CSV writer; values containing separators, quotes or newlines are quoted
+
+export type CsvValue = string | number | boolean | null | undefined
+
+function escapeCell(value: CsvValue) {
+  const text = value === null || value === undefined ? "" : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]) {
+  return [headers, ...rows].map((row) => row.map(escapeCell).join(",")).join("\n")
+}
+
@@ -0,0 +1,41 @@
+// Display helpers for domain values; the domain model keeps raw numbers and ISO timestamps
+
+const dateFormatter = new Intl.DateTimeFormat("th-TH-u-ca-gregory", {
+  year: "numeric",
+  month: "short",
+  day: "numeric",
+})
+
+const dateTimeFormatter = new Intl.DateTimeFormat("th-TH-u-ca-gregory", {
+  year: "numeric",
+  month: "short",
+  day: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+})
+
+export function formatHours(hours: number) {
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)} ชม.`
+}
+
+export function formatPercent(value: number) {
+  return `${value.toFixed(1)}%`
+}
+
+export function formatDate(iso?: string | null) {
+  if (!iso) return "-"
+  const date = new Date(iso)
+  return Number.isNaN(date.getTime()) ? iso : dateFormatter.format(date)
+}
+
+export function formatDateTime(iso?: string | null) {
+  if (!iso) return "-"
+  const date = new Date(iso)
+  return Number.isNaN(date.getTime()) ? iso : dateTimeFormatter.format(date)
+}
+
+export function formatISODate(iso?: string | null) {
+  if (!iso) return "-"
+  const date = new Date(iso)
+  return Number.isNaN(date.getTime()) ? iso : date.toISOString().slice(0, 10)
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { distanceKm, parsePoint } from "./geo"
+
+const BANGKOK = { lat: 13.7563, lon: 100.5018 }
+const CHIANG_MAI = { lat: 18.7883, lon: 98.9853 }
+
+describe("distanceKm", () => {
+  it("is zero between a point and itself", () => {
+    expect(distanceKm(BANGKOK, BANGKOK)).toBe(0)
+  })
+
+  it("matches known great-circle distances", () => {
+    // One degree along a meridian, and half the equator
+    expect(distanceKm({ lat: 0, lon: 0 }, { lat: 1, lon: 0 })).toBeCloseTo(111.195, 3)
+    expect(distanceKm({ lat: 0, lon: 0 }, { lat: 0, lon: 180 })).toBeCloseTo(20015.087, 3)
+    // Big Ben to the Statue of Liberty
+    expect(distanceKm({ lat: 51.5007, lon: -0.1246 }, { lat: 40.6892, lon: -74.0445 })).toBeCloseTo(5574.84, 1)
+    expect(distanceKm(BANGKOK, CHIANG_MAI)).toBeCloseTo(582.46, 1)
+  })
+
+  it("is symmetric and takes the short way across the date line", () => {
+    expect(distanceKm(CHIANG_MAI, BANGKOK)).toBe(distanceKm(BANGKOK, CHIANG_MAI))
+    expect(distanceKm({ lat: 0, lon: 179.5 }, { lat: 0, lon: -179.5 })).toBeCloseTo(111.195, 3)
+  })
+})
+
+describe("parsePoint", () => {
+  it("reads typed coordinates", () => {
+    expect(parsePoint(" 13.7563", "100.5018 ")).toEqual(BANGKOK)
+  })
+
+  it("gives no point when a coordinate is missing or unusable", () => {
+    expect(parsePoint("", "100.5")).toBeNull()
+    expect(parsePoint("13.75", "  ")).toBeNull()
+    expect(parsePoint("north", "100.5")).toBeNull()
+    expect(parsePoint("91", "100.5")).toBeNull()
+    expect(parsePoint("13.75", "-181")).toBeNull()
+  })
+})
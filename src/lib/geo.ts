@@ -0,0 +1,72 @@
+// Geometry helpers for the lat/lon pairs the upstream API uses on jobs and skilled users
+
+export type GeoPoint = { lat: number; lon: number }
+
+const EARTH_RADIUS_KM = 6371
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180
+}
+
+// Great-circle (haversine) distance; accurate enough for "within N km" filters and ranking
+export function distanceKm(a: GeoPoint, b: GeoPoint) {
+  const dLat = toRadians(b.lat - a.lat)
+  const dLon = toRadians(b.lon - a.lon)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// A point from user-typed text, or null unless both parts are valid coordinates
+export function parsePoint(lat: string, lon: string): GeoPoint | null {
+  if (lat.trim() === "" || lon.trim() === "") return null
+  const point = { lat: Number(lat), lon: Number(lon) }
+  return Math.abs(point.lat) <= 90 && Math.abs(point.lon) <= 180 ? point : null
+}
+
+// Web Mercator ("slippy map") projection with 256px tiles, as XYZ tile servers use
+export const TILE_SIZE = 256
+
+const MAX_MERCATOR_LAT = 85.05112878
+
+export type PixelPoint = { x: number; y: number }
+
+// Position in the whole-world pixel plane at `zoom`
+export function projectPoint(point: GeoPoint, zoom: number): PixelPoint {
+  const scale = TILE_SIZE * 2 ** zoom
+  const lat = toRadians(Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, point.lat)))
+  return {
+    x: ((point.lon + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2) * scale,
+  }
+}
+
+export function unprojectPoint(pixel: PixelPoint, zoom: number): GeoPoint {
+  const scale = TILE_SIZE * 2 ** zoom
+  const n = Math.PI - (2 * Math.PI * pixel.y) / scale
+  return { lat: (Math.atan(Math.sinh(n)) * 180) / Math.PI, lon: (pixel.x / scale) * 360 - 180 }
+}
+
+// Length on screen of `km` near `lat`; Mercator stretches distances away from the equator
+export function kmToPixels(km: number, lat: number, zoom: number) {
+  const kmPerPixel = (2 * Math.PI * EARTH_RADIUS_KM * Math.cos(toRadians(lat))) / (TILE_SIZE * 2 ** zoom)
+  return km / kmPerPixel
+}
+
+// Highest whole zoom (capped at `maxZoom`) at which every point fits in a width × height box with `padding` px spare
+export function fitZoom(points: GeoPoint[], width: number, height: number, padding = 32, maxZoom = 16) {
+  if (points.length < 2) return maxZoom
+  for (let zoom = maxZoom; zoom > 0; zoom--) {
+    const pixels = points.map((point) => projectPoint(point, zoom))
+    const spanX = Math.max(...pixels.map((p) => p.x)) - Math.min(...pixels.map((p) => p.x))
+    const spanY = Math.max(...pixels.map((p) => p.y)) - Math.min(...pixels.map((p) => p.y))
+    if (spanX <= width - 2 * padding && spanY <= height - 2 * padding) return zoom
+  }
+  return 0
+}
+
+// Midpoint of the points' bounding box
+export function boundsCenter(points: GeoPoint[]): GeoPoint {
+  const lats = points.map((p) => p.lat)
+  const lons = points.map((p) => p.lon)
+  return { lat: (Math.min(...lats) + Math.max(...lats)) / 2, lon: (Math.min(...lons) + Math.max(...lons)) / 2 }
+}
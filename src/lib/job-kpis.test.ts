@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest"
+import type { Application, Job, Match } from "@/domain"
+import { computeJobKpis, jobUrgency, liveApplications, waitingJobs } from "./job-kpis"
+
+// A Wednesday; its week starts on Monday 16 December whatever the machine's time zone
+const NOW = new Date("2024-12-18T12:00:00Z")
+
+function job(id: number, createdAt: string, hours = 2): Job {
+  return {
+    id,
+    title: `Job ${id}`,
+    description: "",
+    required_skills: [],
+    location_lat: 13.75,
+    location_lon: 100.5,
+    time_balance_hours: hours,
+    broadcasted: true,
+    created_at: createdAt,
+    creator_user_id: 90,
+    creator_email: "requester@example.com",
+    creator_first_name: "Somchai",
+    creator_last_name: "Jaidee",
+  }
+}
+
+function application(id: number, jobId: number, appliedAt: string, status: Application["status"] = "pending", userId: number | null = null): Application {
+  return {
+    id,
+    status,
+    applied_at: appliedAt,
+    job_id: jobId,
+    title: `Job ${jobId}`,
+    description: "",
+    required_skills: [],
+    location_lat: 13.75,
+    location_lon: 100.5,
+    employer_name: "Somchai Jaidee",
+    employer_email: "requester@example.com",
+    employer_phone: "",
+    user_id: userId,
+  }
+}
+
+function match(jobId: number, providerId: number, status: Match["status"]): Match {
+  return {
+    id: `${jobId}-${providerId}`,
+    jobId,
+    jobTitle: null,
+    requesterId: null,
+    requesterName: null,
+    providerId,
+    providerName: "Provider",
+    reason: "test",
+    status,
+    createdAt: "2024-12-17T00:00:00Z",
+    createdBy: "admin",
+  }
+}
+
+describe("computeJobKpis", () => {
+  it("reports zeros and no average for empty input", () => {
+    expect(computeJobKpis([], [], NOW)).toEqual({
+      openJobs: 0,
+      overdueJobs: 0,
+      applicationsByStatus: { pending: 0, accepted: 0, rejected: 0, complete: 0, cancelled: 0 },
+      averageHoursToMatch: null,
+      hoursRequestedThisWeek: 0,
+    })
+  })
+
+  it("counts open and overdue jobs, application statuses and time to first application", () => {
+    const jobs = [
+      job(1, "2024-12-17T12:00:00Z", 3), // matched after 2 hours
+      job(2, "2024-12-16T12:00:00Z", 4), // matched after 6 hours
+      job(3, "2024-12-17T00:00:00Z", 1), // open for 36 hours: overdue
+      job(4, "2024-12-18T06:00:00Z", 2), // open for 6 hours
+      job(5, "2024-12-10T12:00:00Z", 5), // last week
+    ]
+    const applications = [
+      application(1, 1, "2024-12-17T16:00:00Z", "rejected"),
+      application(2, 1, "2024-12-17T14:00:00Z", "accepted"),
+      application(3, 2, "2024-12-16T18:00:00Z", "complete"),
+      application(4, 5, "2024-12-11T12:00:00Z"),
+    ]
+
+    expect(computeJobKpis(jobs, applications, NOW)).toEqual({
+      openJobs: 2,
+      overdueJobs: 1,
+      applicationsByStatus: { pending: 1, accepted: 1, rejected: 1, complete: 1, cancelled: 0 },
+      averageHoursToMatch: (2 + 6 + 24) / 3,
+      hoursRequestedThisWeek: 3 + 4 + 1 + 2,
+    })
+  })
+})
+
+describe("jobUrgency", () => {
+  it("grades waiting jobs against the overdue threshold", () => {
+    expect(jobUrgency(job(1, "2024-12-17T11:00:00Z"), NOW)).toBe("overdue")
+    expect(jobUrgency(job(1, "2024-12-17T23:00:00Z"), NOW)).toBe("due_soon")
+    expect(jobUrgency(job(1, "2024-12-18T06:00:00Z"), NOW)).toBe("fresh")
+  })
+})
+
+describe("liveApplications and waitingJobs", () => {
+  const applications = [
+    application(1, 1, "2024-12-17T14:00:00Z", "accepted", 12), // provider 12 was unmatched
+    application(2, 2, "2024-12-17T14:00:00Z", "accepted", 13), // provider 13 is still matched
+    application(3, 3, "2024-12-17T14:00:00Z", "pending"), // no applicant id
+    application(4, 4, "2024-12-17T14:00:00Z", "pending", 14), // never matched from the panel
+  ]
+  const matches = [match(1, 12, "unmatched"), match(2, 13, "active")]
+
+  it("drops applications behind ended matches only", () => {
+    expect(liveApplications(applications, matches).map((app) => app.id)).toEqual([2, 3, 4])
+    expect(liveApplications([], matches)).toEqual([])
+  })
+
+  it("puts a job back in the queue once its match has ended", () => {
+    const jobs = [1, 2, 3, 4, 5].map((id) => job(id, "2024-12-17T00:00:00Z"))
+    expect(waitingJobs(jobs, liveApplications(applications, matches)).map((j) => j.id)).toEqual([1, 5])
+    expect(waitingJobs([], applications)).toEqual([])
+  })
+
+  it("keeps a reassigned job matched through its new provider", () => {
+    const reassigned = [match(1, 12, "reassigned"), match(1, 15, "active")]
+    const withNewProvider = [...applications, application(5, 1, "2024-12-18T08:00:00Z", "accepted", 15)]
+    expect(liveApplications(withNewProvider, reassigned).map((app) => app.id)).toEqual([2, 3, 4, 5])
+  })
+})
@@ -0,0 +1,89 @@
+import { applicationStatusSchema, type Application, type ApplicationStatus, type Job, type Match } from "@/domain"
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Jobs nobody has applied to for longer than this count as overdue
+export const MATCH_OVERDUE_HOURS = 24
+
+export type JobUrgency = "overdue" | "due_soon" | "fresh"
+
+// How pressing an unmatched job is: past the overdue threshold, past half of it, or neither
+export function jobUrgency(job: Pick<Job, "created_at">, now = new Date()): JobUrgency {
+  const waitingHours = (now.getTime() - new Date(job.created_at).getTime()) / HOUR_MS
+  if (waitingHours > MATCH_OVERDUE_HOURS) return "overdue"
+  return waitingHours > MATCH_OVERDUE_HOURS / 2 ? "due_soon" : "fresh"
+}
+
+/**
+ * Drops applications behind matches that were undone or reassigned: the upstream keeps them, but the job is
+ * waiting for a provider again. Applications without an applicant id cannot be tied to a match and always count.
+ */
+export function liveApplications(applications: Application[], matches: Match[]) {
+  const key = (jobId: number, userId: number) => `${jobId}:${userId}`
+  const active = new Set(matches.filter((m) => m.status === "active").map((m) => key(m.jobId, m.providerId)))
+  const ended = new Set(matches.filter((m) => m.status !== "active").map((m) => key(m.jobId, m.providerId)))
+  return applications.filter((app) => {
+    if (app.user_id == null) return true
+    const k = key(app.job_id, app.user_id)
+    return active.has(k) || !ended.has(k)
+  })
+}
+
+// Jobs nobody has (live) applied to yet
+export function waitingJobs(jobs: Job[], applications: Application[]) {
+  const appliedJobIds = new Set(applications.map((app) => app.job_id))
+  return jobs.filter((job) => !appliedJobIds.has(job.id))
+}
+
+export type JobKpis = {
+  openJobs: number
+  overdueJobs: number
+  applicationsByStatus: Record<ApplicationStatus, number>
+  // Null until at least one job has an application
+  averageHoursToMatch: number | null
+  hoursRequestedThisWeek: number
+}
+
+// Monday 00:00 local time of the week containing `now`
+function startOfWeek(now: Date) {
+  const start = new Date(now)
+  start.setHours(0, 0, 0, 0)
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  return start.getTime()
+}
+
+/**
+ * Headline numbers for the help-requests page, from the upstream jobs and applications.
+ * A job counts as matched from its first application; time-to-match runs from `created_at` to that application.
+ */
+export function computeJobKpis(jobs: Job[], applications: Application[], now = new Date()): JobKpis {
+  const firstApplication = new Map<number, number>()
+  for (const app of applications) {
+    const at = new Date(app.applied_at).getTime()
+    const current = firstApplication.get(app.job_id)
+    if (current === undefined || at < current) firstApplication.set(app.job_id, at)
+  }
+
+  const openJobs = jobs.filter((job) => !firstApplication.has(job.id))
+  const overdueJobs = openJobs.filter((job) => now.getTime() - new Date(job.created_at).getTime() > MATCH_OVERDUE_HOURS * HOUR_MS)
+
+  const matchDelays = jobs.flatMap((job) => {
+    const matchedAt = firstApplication.get(job.id)
+    return matchedAt === undefined ? [] : [Math.max(0, matchedAt - new Date(job.created_at).getTime()) / HOUR_MS]
+  })
+
+  const applicationsByStatus = Object.fromEntries(applicationStatusSchema.options.map((status) => [status, 0])) as Record<ApplicationStatus, number>
+  for (const app of applications) applicationsByStatus[app.status]++
+
+  const weekStart = startOfWeek(now)
+
+  return {
+    openJobs: openJobs.length,
+    overdueJobs: overdueJobs.length,
+    applicationsByStatus,
+    averageHoursToMatch: matchDelays.length > 0 ? matchDelays.reduce((sum, hours) => sum + hours, 0) / matchDelays.length : null,
+    hoursRequestedThisWeek: jobs
+      .filter((job) => new Date(job.created_at).getTime() >= weekStart)
+      .reduce((sum, job) => sum + job.time_balance_hours, 0),
+  }
+}
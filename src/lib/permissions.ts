@@ -0,0 +1,94 @@
+// Role → permission model shared by the middleware, route handlers and the UI.
+// Roles come from the `role` claim of the upstream JWT.
+
+export const ROLES = ["admin", "moderator", "viewer"] as const
+
+export type Role = (typeof ROLES)[number]
+
+export type Permission =
+  | "statistics:read"
+  | "members:read"
+  | "help-requests:read"
+  | "help-requests:manage"
+  | "matches:create"
+  | "jobs:manage"
+  | "verification:read"
+  | "verification:decide"
+  | "transfers:read"
+  | "transfers:export"
+  | "transfers:create"
+  | "transfers:reverse"
+  | "withdrawals:read"
+  | "withdrawals:approve"
+  | "ai-logs:read"
+  | "audit:read"
+  | "ledger:adjust"
+  | "saved-views:manage"
+
+const READ_ONLY: Permission[] = [
+  "statistics:read",
+  "members:read",
+  "help-requests:read",
+  "verification:read",
+  "transfers:read",
+  "withdrawals:read",
+  "ai-logs:read",
+  "audit:read",
+  // An admin's own saved list views, not shared data, so every role may keep them
+  "saved-views:manage",
+]
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: [
+    ...READ_ONLY,
+    "help-requests:manage",
+    "matches:create",
+    "jobs:manage",
+    "verification:decide",
+    "transfers:export",
+    "transfers:create",
+    "transfers:reverse",
+    "withdrawals:approve",
+    "ledger:adjust",
+  ],
+  // Volunteer coordinators: day-to-day matching, help request progress and identity checks. The only credits
+  // they move are the settlements of completed help requests, whose amount was fixed when the request was posted
+  moderator: [...READ_ONLY, "help-requests:manage", "matches:create", "verification:decide"],
+  viewer: READ_ONLY,
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "ผู้ดูแลระบบ",
+  moderator: "ผู้ประสานงาน",
+  viewer: "ผู้ดูข้อมูล",
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value)
+}
+
+export function permissionsForRole(role: string): readonly Permission[] {
+  return isRole(role) ? ROLE_PERMISSIONS[role] : []
+}
+
+export function hasPermission(role: string, permission: Permission) {
+  return permissionsForRole(role).includes(permission)
+}
+
+// Dashboard pages and the permission needed to open them; also drives the sidebar
+export const PAGE_PERMISSIONS: Record<string, Permission> = {
+  "/statistics": "statistics:read",
+  "/members": "members:read",
+  "/help-requests": "help-requests:read",
+  "/matching": "matches:create",
+  "/verification": "verification:read",
+  "/transfers": "transfers:read",
+  "/withdrawals": "withdrawals:read",
+  "/ai-logs": "ai-logs:read",
+  "/audit": "audit:read",
+}
+
+export function requiredPermissionForPath(pathname: string): Permission | undefined {
+  const match = Object.keys(PAGE_PERMISSIONS).find((page) => pathname === page || pathname.startsWith(`${page}/`))
+  return match ? PAGE_PERMISSIONS[match] : undefined
+}
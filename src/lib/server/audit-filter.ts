@@ -0,0 +1,21 @@
+import type { NextRequest } from 'next/server';
+import { auditEntityTypeSchema } from '@/domain';
+import type { AuditFilter } from './audit';
+
+const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+// Query-string → filter; unknown or malformed values are ignored rather than rejected
+export function parseAuditFilter(req: NextRequest): AuditFilter {
+  const params = req.nextUrl.searchParams;
+  const entityType = auditEntityTypeSchema.safeParse(params.get('entityType'));
+  const from = params.get('from');
+  const to = params.get('to');
+
+  return {
+    actor: params.get('actor') || undefined,
+    entityType: entityType.success ? entityType.data : undefined,
+    entityId: params.get('entityId') || undefined,
+    from: from && isoDate.test(from) ? from : undefined,
+    to: to && isoDate.test(to) ? to : undefined,
+  };
+}
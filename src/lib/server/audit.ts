@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto';
+import type { AuditAction, AuditEntityType, AuditEntry } from '@/domain';
+import type { SessionUser } from './session';
+import { getDb } from './db';
+
+export type AuditInput = {
+  actor: SessionUser;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | number;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  reason?: string | null;
+};
+
+export type AuditFilter = {
+  actor?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  from?: string;
+  to?: string;
+};
+
+/**
+ * Appends an entry to the audit trail. Entries are frozen and there is deliberately
+ * no update or delete counterpart.
+ */
+export function recordAudit(input: AuditInput): AuditEntry {
+  const entry: AuditEntry = Object.freeze({
+    id: randomUUID(),
+    actor: { id: input.actor.id, email: input.actor.email, role: input.actor.role },
+    action: input.action,
+    entityType: input.entityType,
+    entityId: String(input.entityId),
+    before: input.before ?? null,
+    after: input.after ?? null,
+    reason: input.reason?.trim() || null,
+    createdAt: new Date().toISOString(),
+  });
+  return getDb().auditLog.append(entry);
+}
+
+// Newest first; `from`/`to` are inclusive calendar dates (YYYY-MM-DD)
+export function listAudit(filter: AuditFilter = {}): AuditEntry[] {
+  const actorQuery = filter.actor?.trim().toLowerCase();
+
+  return getDb()
+    .auditLog.list()
+    .filter((entry) => {
+      const actorMatch =
+        !actorQuery ||
+        (entry.actor.email ?? '').toLowerCase().includes(actorQuery) ||
+        String(entry.actor.id ?? '').toLowerCase() === actorQuery;
+      const day = entry.createdAt.slice(0, 10);
+      return (
+        actorMatch &&
+        (!filter.entityType || entry.entityType === filter.entityType) &&
+        (!filter.entityId || entry.entityId === filter.entityId) &&
+        (!filter.from || day >= filter.from) &&
+        (!filter.to || day <= filter.to)
+      );
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
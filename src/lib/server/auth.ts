@@ -0,0 +1,58 @@
+import type { NextResponse } from 'next/server';
+
+export const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+export const ACCESS_TOKEN_COOKIE = 'auth_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+export type AuthTokens = {
+  accessToken?: string;
+  refreshToken?: string;
+};
+
+export function setAuthCookies(response: NextResponse, tokens: AuthTokens) {
+  if (tokens.accessToken) {
+    response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 60 * 15, // 15 minutes
+      path: '/',
+    });
+  }
+  if (tokens.refreshToken) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 60 * 60 * 24 * 7, // 7 days
+      path: '/',
+    });
+  }
+  return response;
+}
+
+export function clearAuthCookies(response: NextResponse) {
+  response.cookies.delete(ACCESS_TOKEN_COOKIE);
+  response.cookies.delete(REFRESH_TOKEN_COOKIE);
+  return response;
+}
+
+// Exchanges a refresh token for a new token pair; returns null when the upstream refuses
+export async function refreshTokens(refreshToken: string): Promise<AuthTokens | null> {
+  try {
+    const refreshResponse = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+    if (!refreshResponse.ok) return null;
+
+    const data = await refreshResponse.json();
+    if (!data.accessToken) return null;
+    return { accessToken: data.accessToken, refreshToken: data.refreshToken };
+  } catch (refreshError) {
+    console.error('Refresh token error:', refreshError);
+    return null;
+  }
+}
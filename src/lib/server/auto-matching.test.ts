@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job } from '@/domain';
+import { resetDb, TEST_ADMIN } from '@/test/db';
+import { dismissAutoMatchDecision, runAutoMatching, type AutoMatchConfig } from './auto-matching';
+import { getDb } from './db';
+import type { ServiceUpstream } from './upstream';
+
+const CONFIG: AutoMatchConfig = { minAgeHours: 0, mode: 'propose', minConfidence: 'High' };
+
+const JOB: Job = {
+  id: 7,
+  title: 'Fix a leaking tap',
+  description: '',
+  required_skills: ['plumbing'],
+  location_lat: 13.75,
+  location_lon: 100.5,
+  time_balance_hours: 2,
+  broadcasted: true,
+  created_at: '2024-12-20T08:30:00+07:00',
+  creator_user_id: 90,
+  creator_email: 'requester@example.com',
+  creator_first_name: 'Somchai',
+  creator_last_name: 'Jaidee',
+};
+
+// One stale job with no applications; `candidates` decides how its skilled-user lookup goes
+function upstreamWith(candidates: () => Promise<unknown>): ServiceUpstream {
+  return {
+    getJson: vi.fn(async (path: string) => {
+      if (path === '/api/admin/jobs') return { jobs: [JOB] };
+      if (path === '/api/jobapp') return { applications: [] };
+      return candidates();
+    }),
+    postJson: vi.fn(),
+  };
+}
+
+const failing = upstreamWith(async () => {
+  throw new Error('Upstream answered 503');
+});
+const empty = upstreamWith(async () => ({ users: [] }));
+
+describe('runAutoMatching', () => {
+  beforeEach(() => {
+    resetDb();
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  it('tries a job again after an error and closes the failed attempt', async () => {
+    const first = await runAutoMatching(failing, CONFIG);
+    expect(first.decisions.map((d) => d.outcome)).toEqual(['error']);
+
+    const second = await runAutoMatching(empty, CONFIG);
+
+    expect(second).toMatchObject({ skipped: 0, decisions: [{ jobId: 7, outcome: 'review' }] });
+    expect(getDb().autoMatchDecisions.get(first.decisions[0].id)).toMatchObject({
+      resolution: 'retried',
+      resolvedBy: 'auto-matcher',
+      resolvedAt: second.decisions[0].decidedAt,
+    });
+  });
+
+  it('keeps retrying while the upstream keeps failing, with one open error per job', async () => {
+    await runAutoMatching(failing, CONFIG);
+    await runAutoMatching(failing, CONFIG);
+
+    expect(getDb().autoMatchDecisions.list().filter((d) => !d.resolvedAt)).toHaveLength(1);
+  });
+
+  it('leaves jobs waiting for an admin alone', async () => {
+    await runAutoMatching(empty, CONFIG);
+    expect(await runAutoMatching(empty, CONFIG)).toMatchObject({ skipped: 1, decisions: [] });
+  });
+
+  it('stops retrying a job an admin dismissed', async () => {
+    const { decisions } = await runAutoMatching(failing, CONFIG);
+    dismissAutoMatchDecision(decisions[0].id, {}, TEST_ADMIN);
+
+    expect(await runAutoMatching(empty, CONFIG)).toMatchObject({ skipped: 1, decisions: [] });
+  });
+});
@@ -0,0 +1,229 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import {
+  MIN_MATCH_SCORE,
+  applicationListResponseSchema,
+  autoMatchModeSchema,
+  awaitsReview,
+  jobListResponseSchema,
+  skilledUserListResponseSchema,
+  type AutoMatchDecision,
+  type AutoMatchRunSummary,
+  type DismissAutoMatchDecision,
+  type Job,
+  type MatchConfidence,
+} from '@/domain';
+import { MATCH_OVERDUE_HOURS, liveApplications, waitingJobs } from '@/lib/job-kpis';
+import { getDb } from './db';
+import { jobParticulars, recordMatch } from './matches';
+import { runMatching } from './matching';
+import type { SessionUser } from './session';
+import { actorLabel } from './transfers';
+import type { ServiceUpstream } from './upstream';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Named as the actor on matches and audit entries the scheduler makes
+export const AUTO_MATCH_ACTOR: SessionUser = { email: 'auto-matcher', role: 'system' };
+
+const CONFIDENCE_RANK: Record<MatchConfidence, number> = { Low: 0, Medium: 1, High: 2 };
+
+const autoMatchConfigSchema = z.object({
+  // Open jobs younger than this are left for admins to pick up
+  minAgeHours: z.coerce.number().nonnegative().default(MATCH_OVERDUE_HOURS),
+  mode: autoMatchModeSchema.default('propose'),
+  // Below this the best candidate only goes to the review queue
+  minConfidence: z.enum(['High', 'Medium']).default('High'),
+});
+
+export type AutoMatchConfig = z.infer<typeof autoMatchConfigSchema>;
+
+export type AutoMatchDecisionResult =
+  | { ok: true; decision: AutoMatchDecision }
+  | { ok: false; status: 404 | 409; message: string };
+
+/**
+ * Settings from `AUTO_MATCH_MIN_AGE_HOURS`, `AUTO_MATCH_MODE` (`propose` or `assign`) and
+ * `AUTO_MATCH_MIN_CONFIDENCE` (`High` or `Medium`). Unreadable values are reported and the defaults apply,
+ * which never assign without an admin.
+ */
+export function configuredAutoMatch(): AutoMatchConfig {
+  const parsed = autoMatchConfigSchema.safeParse({
+    minAgeHours: process.env.AUTO_MATCH_MIN_AGE_HOURS || undefined,
+    mode: process.env.AUTO_MATCH_MODE || undefined,
+    minConfidence: process.env.AUTO_MATCH_MIN_CONFIDENCE || undefined,
+  });
+  if (parsed.success) return parsed.data;
+  console.error('Ignoring invalid auto-match settings:', parsed.error.issues);
+  return autoMatchConfigSchema.parse({});
+}
+
+function describeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function saveDecision(decision: AutoMatchDecision) {
+  const saved = getDb().autoMatchDecisions.insert(decision);
+  console.info(`[auto-match] job #${saved.jobId} "${saved.jobTitle}": ${saved.outcome} (${saved.detail})`);
+  return saved;
+}
+
+// Keeps one review queue entry per job: the failures before a retry are closed by its decision
+function closeRetriedErrors(decision: AutoMatchDecision) {
+  const db = getDb();
+  for (const earlier of db.autoMatchDecisions.list()) {
+    if (earlier.id !== decision.id && earlier.jobId === decision.jobId && earlier.outcome === 'error' && !earlier.resolvedAt) {
+      db.autoMatchDecisions.update(earlier.id, {
+        resolvedAt: decision.decidedAt,
+        resolvedBy: actorLabel(AUTO_MATCH_ACTOR),
+        resolution: 'retried',
+      });
+    }
+  }
+}
+
+async function decideJob(upstream: ServiceUpstream, job: Job, config: AutoMatchConfig, runId: string): Promise<AutoMatchDecision> {
+  const base = {
+    id: randomUUID(),
+    runId,
+    jobId: job.id,
+    jobTitle: job.title,
+    requesterName: `${job.creator_first_name} ${job.creator_last_name}`.trim(),
+    jobCreatedAt: job.created_at,
+    decidedAt: new Date().toISOString(),
+  };
+  const unranked = { matchLogId: null, providerId: null, providerName: null, score: null, confidence: null };
+
+  let users;
+  try {
+    users = skilledUserListResponseSchema.parse(await upstream.getJson(`/api/admin/jobs/${job.id}/skilled-users`)).users;
+  } catch (error) {
+    return saveDecision({ ...base, ...unranked, outcome: 'error', detail: `Could not load candidates: ${describeError(error)}` });
+  }
+
+  const log = runMatching(job, users);
+  if (log.status === 'failed') {
+    return saveDecision({
+      ...base,
+      matchLogId: log.id,
+      providerId: null,
+      providerName: null,
+      score: users.length === 0 ? null : log.matchScore,
+      confidence: log.confidence,
+      outcome: 'review',
+      detail:
+        users.length === 0
+          ? 'No skilled users for the required skills'
+          : `Best candidate scored ${log.matchScore}, below the ${MIN_MATCH_SCORE} minimum`,
+    });
+  }
+
+  const pick = {
+    matchLogId: log.id,
+    providerId: Number(log.providerId),
+    providerName: log.provider,
+    score: log.matchScore,
+    confidence: log.confidence,
+  };
+  if (CONFIDENCE_RANK[log.confidence] < CONFIDENCE_RANK[config.minConfidence]) {
+    return saveDecision({ ...base, ...pick, outcome: 'review', detail: `${log.confidence} confidence is below the ${config.minConfidence} threshold` });
+  }
+  if (config.mode === 'propose') {
+    return saveDecision({ ...base, ...pick, outcome: 'proposed', detail: `${log.confidence} confidence pick waiting for an admin to confirm` });
+  }
+
+  const reason = `Auto-matched: ${log.provider} scored ${log.matchScore} with ${log.confidence} confidence (${log.id})`;
+  try {
+    const response = await upstream.postJson('/api/admin/matches', { job_id: job.id, user_id: pick.providerId, reason });
+    if (!response.ok) {
+      return saveDecision({ ...base, ...pick, outcome: 'error', detail: `Upstream refused the match (${response.status})` });
+    }
+  } catch (error) {
+    return saveDecision({ ...base, ...pick, outcome: 'error', detail: `Could not create the match: ${describeError(error)}` });
+  }
+
+  const match = recordMatch(
+    { jobId: job.id, ...jobParticulars(job), providerId: pick.providerId, providerName: pick.providerName, reason },
+    AUTO_MATCH_ACTOR,
+  );
+  return saveDecision({ ...base, ...pick, outcome: 'assigned', detail: reason, matchId: match.id });
+}
+
+/**
+ * One scheduler pass: finds open jobs (no live application) older than the age threshold, ranks each job's
+ * skilled users with the matching engine and records a decision per job. Jobs already matched, waiting for an
+ * admin or dismissed are left to the admins; jobs whose last attempt failed are tried again, so an upstream
+ * hiccup does not park them for good. Throws when the job or application lists cannot be read.
+ */
+export async function runAutoMatching(
+  upstream: ServiceUpstream,
+  config: AutoMatchConfig = configuredAutoMatch(),
+  now = new Date(),
+): Promise<AutoMatchRunSummary> {
+  const runId = randomUUID();
+  const startedAt = new Date().toISOString();
+
+  const [jobs, applications] = await Promise.all([
+    upstream.getJson('/api/admin/jobs').then((body) => jobListResponseSchema.parse(body).jobs),
+    upstream.getJson('/api/jobapp').then((body) => applicationListResponseSchema.parse(body).applications),
+  ]);
+
+  const db = getDb();
+  const cutoff = now.getTime() - config.minAgeHours * HOUR_MS;
+  const stale = waitingJobs(jobs, liveApplications(applications, db.matches.list()))
+    .filter((job) => new Date(job.created_at).getTime() <= cutoff)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  // An active match counts too, in case the upstream has not listed its application yet
+  const handled = new Set([
+    ...db.autoMatchDecisions
+      .list()
+      .filter((d) => (awaitsReview(d) && d.outcome !== 'error') || d.resolution === 'dismissed')
+      .map((d) => d.jobId),
+    ...db.matches
+      .list()
+      .filter((m) => m.status === 'active')
+      .map((m) => m.jobId),
+  ]);
+
+  // One job at a time, oldest first, so a long queue does not flood the upstream
+  const decisions: AutoMatchDecision[] = [];
+  for (const job of stale) {
+    if (handled.has(job.id)) continue;
+    const decision = await decideJob(upstream, job, config, runId);
+    closeRetriedErrors(decision);
+    decisions.push(decision);
+  }
+
+  return {
+    runId,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    mode: config.mode,
+    staleJobs: stale.length,
+    skipped: stale.length - decisions.length,
+    decisions,
+  };
+}
+
+// Takes a job out of the review queue without matching it; the scheduler leaves it alone from then on
+export function dismissAutoMatchDecision(id: string, input: DismissAutoMatchDecision, actor: SessionUser): AutoMatchDecisionResult {
+  const db = getDb();
+  return db.transaction((): AutoMatchDecisionResult => {
+    const decision = db.autoMatchDecisions.get(id);
+    if (!decision) {
+      return { ok: false, status: 404, message: 'Decision not found' };
+    }
+    if (!awaitsReview(decision)) {
+      return { ok: false, status: 409, message: 'Decision is not awaiting review' };
+    }
+    return {
+      ok: true,
+      decision: db.autoMatchDecisions.update(id, {
+        resolvedAt: new Date().toISOString(),
+        resolvedBy: actorLabel(actor),
+        resolution: 'dismissed',
+        resolutionNote: input.note || null,
+      }),
+    };
+  });
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type { JournalEntry } from '@/domain';
+import { createDatabase } from './database';
+import { memoryBackend } from './memory';
+import { seedState } from './seed';
+
+describe('append-only repositories', () => {
+  it('hands out copies, so mutating a listed entry leaves the history intact', () => {
+    const db = createDatabase(memoryBackend(seedState()));
+    const [first] = db.journal.list() as JournalEntry[];
+    const { memo, postings } = structuredClone(first);
+
+    first.memo = 'rewritten';
+    first.postings[0].amount += 100;
+
+    expect(db.journal.list()[0]).toMatchObject({ memo, postings });
+  });
+
+  it('keeps its own copy of an appended entry', () => {
+    const db = createDatabase(memoryBackend(seedState()));
+    const entry: JournalEntry = {
+      id: 'JE-test',
+      kind: 'transfer',
+      reference: 'TXN-test',
+      memo: 'original',
+      createdAt: new Date().toISOString(),
+      postings: [],
+    };
+
+    const returned = db.journal.append(entry);
+    entry.memo = 'changed by the caller';
+    returned.memo = 'changed through the result';
+
+    expect(db.journal.list().find((e) => e.id === 'JE-test')?.memo).toBe('original');
+  });
+});
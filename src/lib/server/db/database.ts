@@ -0,0 +1,117 @@
+import type { DataState } from './state';
+import { RepositoryError, type AppendOnlyRepository, type Database, type Repository } from './repository';
+
+export interface StorageBackend {
+  load(): DataState;
+  save(state: DataState): void;
+  // Lets a file-backed store pick up writes made by another process (e.g. the seed command)
+  hasExternalChanges?(): boolean;
+}
+
+type KeyedCollection =
+  | 'members'
+  | 'transfers'
+  | 'withdrawals'
+  | 'helpRequests'
+  | 'matchLogs'
+  | 'notifications'
+  | 'providerProfiles'
+  | 'matches'
+  | 'autoMatchDecisions'
+  | 'savedViews';
+
+/**
+ * Repositories over a single state snapshot. A transaction works on a structured clone of the committed state
+ * and swaps it in only after the backend has saved it, which is plenty at the panel's data volumes.
+ */
+export function createDatabase(backend: StorageBackend): Database {
+  let committed = backend.load();
+  let working: DataState | null = null;
+
+  const current = () => {
+    if (working) return working;
+    if (backend.hasExternalChanges?.()) committed = backend.load();
+    return committed;
+  };
+
+  function transaction<R>(fn: () => R): R {
+    if (working) return fn();
+
+    const draft = structuredClone(current());
+    working = draft;
+    try {
+      const result = fn();
+      if (result instanceof Promise) {
+        throw new RepositoryError('Transactions must be synchronous', 'async_transaction');
+      }
+      backend.save(draft);
+      committed = draft;
+      return result;
+    } finally {
+      working = null;
+    }
+  }
+
+  function keyed<K extends KeyedCollection>(key: K): Repository<DataState[K][number], DataState[K][number]['id']> {
+    type Item = DataState[K][number];
+    const items = () => current()[key] as Item[];
+
+    return {
+      list: () => structuredClone(items()),
+      get: (id) => {
+        const found = items().find((item) => item.id === id);
+        return found && structuredClone(found);
+      },
+      insert: (item) =>
+        transaction(() => {
+          if (items().some((existing) => existing.id === item.id)) {
+            throw new RepositoryError(`${key} ${item.id} already exists`, 'duplicate');
+          }
+          items().push(structuredClone(item));
+          return structuredClone(item);
+        }),
+      update: (id, patch) =>
+        transaction(() => {
+          const list = items();
+          const index = list.findIndex((item) => item.id === id);
+          if (index === -1) {
+            throw new RepositoryError(`${key} ${id} not found`, 'not_found');
+          }
+          list[index] = { ...list[index], ...structuredClone(patch) };
+          return structuredClone(list[index]);
+        }),
+    };
+  }
+
+  function appendOnly<K extends 'journal' | 'auditLog' | 'jobNotes'>(key: K): AppendOnlyRepository<DataState[K][number]> {
+    type Item = DataState[K][number];
+    const items = () => current()[key] as Item[];
+
+    return {
+      // Copies like the keyed reads, so a caller mutating a result cannot rewrite history
+      list: () => structuredClone(items()),
+      append: (item) =>
+        transaction(() => {
+          items().push(structuredClone(item));
+          return structuredClone(item);
+        }),
+    };
+  }
+
+  return {
+    members: keyed('members'),
+    transfers: keyed('transfers'),
+    withdrawals: keyed('withdrawals'),
+    helpRequests: keyed('helpRequests'),
+    matchLogs: keyed('matchLogs'),
+    notifications: keyed('notifications'),
+    providerProfiles: keyed('providerProfiles'),
+    matches: keyed('matches'),
+    autoMatchDecisions: keyed('autoMatchDecisions'),
+    savedViews: keyed('savedViews'),
+    journal: appendOnly('journal'),
+    auditLog: appendOnly('auditLog'),
+    jobNotes: appendOnly('jobNotes'),
+    transaction,
+  };
+}
@@ -0,0 +1,24 @@
+import path from 'path';
+import { createDatabase } from './database';
+import { jsonFileBackend } from './json-file';
+import { memoryBackend } from './memory';
+import type { Database } from './repository';
+import { seedState } from './seed';
+
+export type { Database } from './repository';
+export { RepositoryError } from './repository';
+
+// DATA_STORE=memory keeps everything in-process; the default is a JSON file at DATA_FILE
+export const DATA_FILE = process.env.DATA_FILE || path.join(process.cwd(), '.data', 'timebank.json');
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share the same instance
+const globalForDb = globalThis as unknown as { __timebankDb?: Database };
+
+export function getDb(): Database {
+  if (!globalForDb.__timebankDb) {
+    globalForDb.__timebankDb = createDatabase(
+      process.env.DATA_STORE === 'memory' ? memoryBackend(seedState()) : jsonFileBackend(DATA_FILE, seedState),
+    );
+  }
+  return globalForDb.__timebankDb;
+}
@@ -0,0 +1,50 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import path from 'path';
+import { needsMigration, migrate } from './migrations';
+import { SCHEMA_VERSION, persistedFileSchema, type DataState } from './state';
+import type { StorageBackend } from './database';
+
+export function readDataFile(filePath: string) {
+  return persistedFileSchema.parse(JSON.parse(readFileSync(filePath, 'utf8')));
+}
+
+// Write-then-rename so a crash mid-write never leaves a truncated file behind
+export function writeDataFile(filePath: string, state: DataState) {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify({ version: SCHEMA_VERSION, data: state }, null, 2));
+  renameSync(tmp, filePath);
+}
+
+/**
+ * JSON-on-disk store: the whole state is one file, rewritten atomically on every committed transaction.
+ * Another process writing the same file is picked up on the next read; concurrent writers are last-writer-wins.
+ */
+export function jsonFileBackend(filePath: string, seed: () => DataState): StorageBackend {
+  let loadedMtime = 0;
+
+  const mtime = () => (existsSync(filePath) ? statSync(filePath).mtimeMs : 0);
+
+  return {
+    load() {
+      if (!existsSync(filePath)) {
+        console.info(`No data file at ${filePath}; seeding from fixtures`);
+        writeDataFile(filePath, seed());
+      }
+
+      const file = readDataFile(filePath);
+      if (needsMigration(file)) {
+        throw new Error(`Data file ${filePath} is at version ${file.version}; run \`npm run db:migrate\` first`);
+      }
+      // Validates the payload and rejects files written by a newer build
+      const { state } = migrate(file);
+      loadedMtime = mtime();
+      return state;
+    },
+    save(state) {
+      writeDataFile(filePath, state);
+      loadedMtime = mtime();
+    },
+    hasExternalChanges: () => mtime() !== loadedMtime,
+  };
+}
@@ -0,0 +1,10 @@
+import type { DataState } from './state';
+import type { StorageBackend } from './database';
+
+// Nothing outlives the process; used for tests and throwaway dev sessions
+export function memoryBackend(initial: DataState): StorageBackend {
+  return {
+    load: () => structuredClone(initial),
+    save: () => {},
+  };
+}
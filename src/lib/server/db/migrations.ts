@@ -0,0 +1,31 @@
+import { SCHEMA_VERSION, dataStateSchema, type DataState, type PersistedFile } from './state';
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n + 1 file to version n + 2; append only, never edit a shipped step
+const MIGRATIONS: Migration[] = [];
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export function needsMigration(file: PersistedFile) {
+  return file.version < SCHEMA_VERSION;
+}
+
+export function migrate(file: PersistedFile): { state: DataState; applied: number } {
+  if (file.version > SCHEMA_VERSION) {
+    throw new MigrationError(`Data file is version ${file.version}, newer than this build (${SCHEMA_VERSION})`);
+  }
+
+  let data = file.data as Record<string, unknown>;
+  const pending = MIGRATIONS.slice(file.version - 1, SCHEMA_VERSION - 1);
+  for (const step of pending) {
+    data = step(data);
+  }
+
+  return { state: dataStateSchema.parse(data), applied: pending.length };
+}
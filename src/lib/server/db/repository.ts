@@ -0,0 +1,75 @@
+import type {
+  AuditEntry,
+  AutoMatchDecision,
+  HelpRequest,
+  JobNote,
+  JournalEntry,
+  Match,
+  MatchLog,
+  Member,
+  Notification,
+  ProviderProfile,
+  SavedView,
+  Transfer,
+  Withdrawal,
+} from '@/domain';
+
+export class RepositoryError extends Error {
+  constructor(
+    message: string,
+    readonly code: 'not_found' | 'duplicate' | 'async_transaction',
+  ) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+// Entities with an identity; reads return copies, so changes only land through insert/update
+export interface Repository<T extends { id: Id }, Id extends string | number = string> {
+  list(): T[];
+  get(id: Id): T | undefined;
+  insert(item: T): T;
+  update(id: Id, patch: Partial<Omit<T, 'id'>>): T;
+}
+
+// Ledger and audit history: entries are only ever appended
+export interface AppendOnlyRepository<T> {
+  list(): readonly T[];
+  append(item: T): T;
+}
+
+export type MemberRepository = Repository<Member>;
+export type TransferRepository = Repository<Transfer>;
+export type WithdrawalRepository = Repository<Withdrawal>;
+export type HelpRequestRepository = Repository<HelpRequest, number>;
+export type MatchLogRepository = Repository<MatchLog>;
+export type NotificationRepository = Repository<Notification>;
+export type ProviderProfileRepository = Repository<ProviderProfile>;
+export type MatchRepository = Repository<Match>;
+export type AutoMatchDecisionRepository = Repository<AutoMatchDecision>;
+export type SavedViewRepository = Repository<SavedView>;
+export type JournalRepository = AppendOnlyRepository<JournalEntry>;
+export type AuditLogRepository = AppendOnlyRepository<AuditEntry>;
+export type JobNoteRepository = AppendOnlyRepository<JobNote>;
+
+export interface Database {
+  members: MemberRepository;
+  transfers: TransferRepository;
+  withdrawals: WithdrawalRepository;
+  helpRequests: HelpRequestRepository;
+  matchLogs: MatchLogRepository;
+  notifications: NotificationRepository;
+  providerProfiles: ProviderProfileRepository;
+  matches: MatchRepository;
+  autoMatchDecisions: AutoMatchDecisionRepository;
+  savedViews: SavedViewRepository;
+  journal: JournalRepository;
+  auditLog: AuditLogRepository;
+  jobNotes: JobNoteRepository;
+  /**
+   * Runs `fn` atomically: every repository write inside it commits together, or none do if it throws.
+   * Transactions are synchronous and ambient — repositories used inside `fn` see its uncommitted writes,
+   * and a nested call joins the outer transaction. Writes outside a transaction commit individually.
+   */
+  transaction<R>(fn: () => R): R;
+}
@@ -0,0 +1,93 @@
+import { ISSUANCE_ACCOUNT, WITHDRAWALS_ACCOUNT, memberAccount, type JournalEntry, type Member, type Transfer, type Withdrawal } from '@/domain';
+import { ai_logs } from '@/data/ai-logs';
+import { help_requests } from '@/data/help-requests';
+import { members } from '@/data/members';
+import { transfers } from '@/data/transfers';
+import { withdrawals } from '@/data/withdrawals';
+import type { DataState } from './state';
+
+// Moment the ledger took over from the free-text `credits` field; predates all fixture history
+const LEDGER_CUTOVER = '2024-01-01T00:00:00+07:00';
+
+/**
+ * Builds the initial journal from the fixtures: historical transfers and approved withdrawals are replayed,
+ * and each member gets an opening balance back-solved so the replay lands on their stored `credits`.
+ */
+function seedJournal(members: Member[], transfers: Transfer[], withdrawals: Withdrawal[]): JournalEntry[] {
+  const history: JournalEntry[] = [
+    ...transfers
+      // Reversed and pending-reversal transfers still moved credits; their compensations are separate rows
+      .filter((t) => t.status !== 'failed')
+      .map(
+        (t): JournalEntry => ({
+          id: `JE-${t.id}`,
+          kind: 'transfer',
+          reference: t.id,
+          memo: t.reason,
+          createdAt: t.createdAt,
+          postings: [
+            { account: memberAccount(t.senderId), amount: -t.amount },
+            { account: memberAccount(t.receiverId), amount: t.amount },
+          ],
+        }),
+      ),
+    ...withdrawals
+      .filter((w) => w.status === 'approved')
+      .map(
+        (w): JournalEntry => ({
+          id: `JE-${w.id}`,
+          kind: 'withdrawal',
+          reference: w.id,
+          memo: `Withdrawal ${w.id}`,
+          createdAt: w.decidedAt ?? w.requestedAt,
+          postings: [
+            { account: memberAccount(w.memberId), amount: -w.amount },
+            { account: WITHDRAWALS_ACCOUNT, amount: w.amount },
+          ],
+        }),
+      ),
+  ];
+
+  const net = new Map<string, number>();
+  for (const posting of history.flatMap((entry) => entry.postings)) {
+    net.set(posting.account, (net.get(posting.account) ?? 0) + posting.amount);
+  }
+
+  const openings = members.map(
+    (m): JournalEntry => {
+      const opening = m.credits - (net.get(memberAccount(m.id)) ?? 0);
+      return {
+        id: `JE-OPEN-${m.id}`,
+        kind: 'opening_balance',
+        reference: m.id,
+        memo: 'Opening balance at ledger cutover',
+        createdAt: LEDGER_CUTOVER,
+        postings: [
+          { account: ISSUANCE_ACCOUNT, amount: -opening },
+          { account: memberAccount(m.id), amount: opening },
+        ],
+      };
+    },
+  );
+
+  return [...openings, ...history].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Initial contents of a fresh store, built from the fixtures in src/data
+export function seedState(): DataState {
+  return structuredClone({
+    members,
+    transfers,
+    withdrawals,
+    helpRequests: help_requests,
+    matchLogs: ai_logs,
+    journal: seedJournal(members, transfers, withdrawals),
+    auditLog: [],
+    jobNotes: [],
+    notifications: [],
+    providerProfiles: [],
+    matches: [],
+    autoMatchDecisions: [],
+    savedViews: [],
+  });
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import {
+  auditEntrySchema,
+  autoMatchDecisionSchema,
+  helpRequestSchema,
+  jobNoteSchema,
+  journalEntrySchema,
+  matchLogSchema,
+  matchSchema,
+  memberSchema,
+  notificationSchema,
+  providerProfileSchema,
+  savedViewSchema,
+  transferSchema,
+  withdrawalSchema,
+} from '@/domain';
+
+// Bump together with a new entry in ./migrations whenever the persisted shape changes
+export const SCHEMA_VERSION = 1;
+
+// Everything the panel persists locally; upstream-owned data (jobs, verification) is never stored here
+export const dataStateSchema = z.object({
+  members: z.array(memberSchema),
+  transfers: z.array(transferSchema),
+  withdrawals: z.array(withdrawalSchema),
+  helpRequests: z.array(helpRequestSchema),
+  matchLogs: z.array(matchLogSchema),
+  journal: z.array(journalEntrySchema),
+  auditLog: z.array(auditEntrySchema),
+  jobNotes: z.array(jobNoteSchema),
+  notifications: z.array(notificationSchema),
+  providerProfiles: z.array(providerProfileSchema),
+  matches: z.array(matchSchema),
+  autoMatchDecisions: z.array(autoMatchDecisionSchema),
+  savedViews: z.array(savedViewSchema),
+});
+
+export const persistedFileSchema = z.object({
+  version: z.number().int().positive(),
+  data: z.unknown(),
+});
+
+export type DataState = z.infer<typeof dataStateSchema>;
+export type PersistedFile = z.infer<typeof persistedFileSchema>;
@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ESCROW_ACCOUNT, canTransitionHelpRequest, nextHelpRequestStatuses, type Job } from '@/domain';
+import { resetDb, TEST_ADMIN } from '@/test/db';
+import { getDb } from './db';
+import { backfillJobLinks, cancelHelpRequest, linkHelpRequestToJob, transitionHelpRequest } from './help-requests';
+import { balanceOf, memberBalance } from './ledger';
+import { runListQuery } from './list-query';
+import { helpRequestListSpec } from './list-specs';
+
+describe('help request transition map', () => {
+  it('only moves forward, with a way back to the queue before work starts', () => {
+    expect(canTransitionHelpRequest('open', 'matched')).toBe(true);
+    expect(canTransitionHelpRequest('accepted', 'open')).toBe(true);
+    expect(canTransitionHelpRequest('in_progress', 'open')).toBe(false);
+    expect(canTransitionHelpRequest('open', 'completed')).toBe(false);
+  });
+
+  it('ends at settled, cancelled and expired', () => {
+    for (const status of ['settled', 'cancelled', 'expired'] as const) {
+      expect(nextHelpRequestStatuses(status)).toEqual([]);
+    }
+  });
+});
+
+describe('transitionHelpRequest', () => {
+  beforeEach(resetDb);
+
+  // Request 1 is open, asked by M001 for 3 hours
+  function accept() {
+    transitionHelpRequest(1, { to: 'matched', providerId: 'M002' }, TEST_ADMIN);
+    return transitionHelpRequest(1, { to: 'accepted' }, TEST_ADMIN);
+  }
+
+  it('holds the hours in escrow on acceptance and pays the provider out of it on completion', () => {
+    const [requester, provider] = [memberBalance('M001'), memberBalance('M002')];
+
+    expect(accept()).toMatchObject({ ok: true, request: { status: 'accepted', escrowHeld: 3 } });
+    expect(memberBalance('M001')).toBe(requester - 3);
+    expect(balanceOf(ESCROW_ACCOUNT)).toBe(3);
+
+    transitionHelpRequest(1, { to: 'in_progress' }, TEST_ADMIN);
+    const result = transitionHelpRequest(1, { to: 'completed' }, TEST_ADMIN);
+
+    expect(result).toMatchObject({ ok: true, request: { status: 'settled', escrowHeld: null } });
+    expect(memberBalance('M002')).toBe(provider + 3);
+    expect(balanceOf(ESCROW_ACCOUNT)).toBe(0);
+    expect(result.ok && result.request.history.map(({ from, to }) => `${from}→${to}`)).toEqual([
+      'open→matched',
+      'matched→accepted',
+      'accepted→in_progress',
+      'in_progress→completed',
+      'completed→settled',
+    ]);
+    expect(result.ok && getDb().transfers.get(result.request.settlementTransferId!)).toMatchObject({ amount: 3, receiverId: 'M002' });
+  });
+
+  it('rejects moves the map does not allow with 409', () => {
+    expect(transitionHelpRequest(1, { to: 'completed' }, TEST_ADMIN)).toMatchObject({ ok: false, status: 409 });
+    expect(transitionHelpRequest(999, { to: 'accepted' }, TEST_ADMIN)).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it('will not let a requester provide their own request', () => {
+    expect(transitionHelpRequest(1, { to: 'matched', providerId: 'M001' }, TEST_ADMIN)).toMatchObject({ ok: false, status: 422 });
+  });
+
+  it('will not accept a request the requester cannot pay for', () => {
+    // Request 2 asks for 4 hours; M002 holds 3
+    transitionHelpRequest(2, { to: 'matched', providerId: 'M003' }, TEST_ADMIN);
+    expect(transitionHelpRequest(2, { to: 'accepted' }, TEST_ADMIN)).toMatchObject({ ok: false, status: 422 });
+    expect(getDb().helpRequests.get(2)?.status).toBe('matched');
+  });
+
+  it('gives the held hours back and releases the provider when a request is reopened', () => {
+    const requester = memberBalance('M001');
+    accept();
+
+    const result = transitionHelpRequest(1, { to: 'open', note: 'provider fell ill' }, TEST_ADMIN);
+
+    expect(result).toMatchObject({ ok: true, request: { status: 'open', providerId: null, escrowHeld: null } });
+    expect(memberBalance('M001')).toBe(requester);
+  });
+
+  it('expires requests that have waited long enough', () => {
+    expect(transitionHelpRequest(1, { to: 'expired' }, TEST_ADMIN)).toMatchObject({ ok: true, request: { status: 'expired' } });
+  });
+});
+
+describe('cancelHelpRequest', () => {
+  beforeEach(resetDb);
+
+  it('refunds escrow and tells both the requester and the provider', () => {
+    const requester = memberBalance('M001');
+    transitionHelpRequest(1, { to: 'matched', providerId: 'M002' }, TEST_ADMIN);
+    transitionHelpRequest(1, { to: 'accepted' }, TEST_ADMIN);
+
+    const result = cancelHelpRequest(1, { reasonCode: 'requester_withdrew' }, TEST_ADMIN);
+
+    expect(result).toMatchObject({ ok: true, request: { status: 'cancelled', cancellation: { reasonCode: 'requester_withdrew' } } });
+    expect(memberBalance('M001')).toBe(requester);
+    expect(getDb().notifications.list().map((n) => n.recipientId)).toEqual(['M001', 'M002']);
+  });
+
+  it('cannot cancel a request that has already ended', () => {
+    cancelHelpRequest(1, { reasonCode: 'duplicate' }, TEST_ADMIN);
+    expect(cancelHelpRequest(1, { reasonCode: 'duplicate' }, TEST_ADMIN)).toMatchObject({ ok: false, status: 409 });
+  });
+});
+
+describe('job links', () => {
+  beforeEach(resetDb);
+
+  function jobFor(id: number, requestId: number): Job {
+    const request = getDb().helpRequests.get(requestId)!;
+    const [first, ...last] = request.requester.name.split(' ');
+    return {
+      id,
+      title: ` ${request.detail.title} `,
+      description: '',
+      required_skills: [],
+      location_lat: 13.75,
+      location_lon: 100.5,
+      time_balance_hours: request.detail.duration,
+      broadcasted: true,
+      created_at: request.requestedAt,
+      creator_user_id: id,
+      creator_email: `${id}@example.com`,
+      creator_first_name: first,
+      creator_last_name: last.join(' '),
+    };
+  }
+
+  it('links a request to a job with an audit entry, and unlinks it', () => {
+    expect(linkHelpRequestToJob(1, { jobId: 41 }, TEST_ADMIN)).toMatchObject({ ok: true, request: { jobId: 41 } });
+    expect(getDb().auditLog.list().at(-1)).toMatchObject({ action: 'help_request.link_job', entityId: '1', after: { jobId: 41 } });
+
+    expect(linkHelpRequestToJob(1, { jobId: null }, TEST_ADMIN)).toMatchObject({ ok: true, request: { jobId: null } });
+  });
+
+  it('makes the request findable by its job, as the application dialog looks it up', () => {
+    const lookup = (search: string) => {
+      const result = runListQuery(getDb().helpRequests.list(), new URLSearchParams(search), helpRequestListSpec);
+      return result.ok ? result.list.items.map((request) => request.id) : result.message;
+    };
+    expect(lookup('job=41')).toEqual([]);
+
+    linkHelpRequestToJob(3, { jobId: 41 }, TEST_ADMIN);
+
+    expect(lookup('job=41&pageSize=1')).toEqual([3]);
+    expect(lookup('linked=false')).not.toContain(3);
+  });
+
+  it('gives a job at most one request', () => {
+    linkHelpRequestToJob(1, { jobId: 41 }, TEST_ADMIN);
+    expect(linkHelpRequestToJob(2, { jobId: 41 }, TEST_ADMIN)).toMatchObject({ ok: false, status: 409 });
+    expect(linkHelpRequestToJob(999, { jobId: 42 }, TEST_ADMIN)).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it('backfills requests whose title and requester name single out one job', () => {
+    const linked = backfillJobLinks([jobFor(41, 1), jobFor(42, 2), { ...jobFor(43, 5), creator_first_name: 'Someone' }], TEST_ADMIN);
+
+    expect(linked.map((request) => [request.id, request.jobId])).toEqual([
+      [1, 41],
+      [2, 42],
+    ]);
+    expect(getDb().helpRequests.get(5)?.jobId ?? null).toBeNull();
+  });
+
+  it('leaves ambiguous matches and already linked jobs alone', () => {
+    linkHelpRequestToJob(2, { jobId: 42 }, TEST_ADMIN);
+    const linked = backfillJobLinks([jobFor(41, 1), jobFor(44, 1), jobFor(42, 2)], TEST_ADMIN);
+
+    expect(linked).toEqual([]);
+    expect(getDb().helpRequests.get(1)?.jobId ?? null).toBeNull();
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  canTransitionHelpRequest,
+  type AuditAction,
+  type HelpRequest,
+  type HelpRequestCancellation,
+  type HelpRequestJobLink,
+  type HelpRequestStatus,
+  type HelpRequestTransition,
+  type Job,
+} from '@/domain';
+import { recordAudit } from './audit';
+import { getDb } from './db';
+import { holdInEscrow, memberBalance, refundEscrow } from './ledger';
+import { notifyMember } from './notifications';
+import type { SessionUser } from './session';
+import { actorLabel, createServiceTransfer, isUsable } from './transfers';
+
+// Open requests nobody picked up within this many days may be expired
+export const HELP_REQUEST_EXPIRY_DAYS = 14;
+
+export type HelpRequestResult =
+  | { ok: true; request: HelpRequest }
+  | { ok: false; status: 404 | 409 | 422; message: string };
+
+type Failure = Extract<HelpRequestResult, { ok: false }>;
+
+export function findHelpRequest(id: number) {
+  return getDb().helpRequests.get(id);
+}
+
+// Journal and notification reference for a request
+function referenceOf(request: HelpRequest) {
+  return `help_request:${request.id}`;
+}
+
+function isFailure(value: object): value is Failure {
+  return 'ok' in value && value.ok === false;
+}
+
+// Guards beyond the transition map; returns the fields the transition sets, or why it may not happen
+function applyGuards(request: HelpRequest, transition: HelpRequestTransition): Partial<HelpRequest> | Failure {
+  const db = getDb();
+  switch (transition.to) {
+    case 'matched': {
+      const provider = db.members.get(transition.providerId);
+      if (!provider) {
+        return { ok: false, status: 422, message: `Member ${transition.providerId} not found` };
+      }
+      if (!isUsable(provider)) {
+        return { ok: false, status: 422, message: `Member ${provider.id} is inactive` };
+      }
+      if (provider.id === request.requesterId) {
+        return { ok: false, status: 422, message: 'A requester cannot provide their own request' };
+      }
+      return { providerId: provider.id, providerName: provider.name };
+    }
+    case 'accepted':
+      if (!request.providerId) {
+        return { ok: false, status: 422, message: `Request ${request.id} has no provider` };
+      }
+      // The requester commits the hours now; they are held until settlement or cancellation
+      if (request.requesterId && memberBalance(request.requesterId) < request.detail.duration) {
+        return { ok: false, status: 422, message: `Requester ${request.requesterId} holds fewer than ${request.detail.duration} hours` };
+      }
+      return {};
+    case 'in_progress':
+      return request.providerId ? {} : { ok: false, status: 422, message: `Request ${request.id} has no provider` };
+    case 'open':
+      // Back to the queue: the previous provider is released
+      return { providerId: null, providerName: null };
+    case 'expired': {
+      const ageDays = (Date.now() - new Date(request.requestedAt).getTime()) / 86_400_000;
+      return ageDays >= HELP_REQUEST_EXPIRY_DAYS
+        ? {}
+        : { ok: false, status: 422, message: `Only requests open for ${HELP_REQUEST_EXPIRY_DAYS} days or more can expire` };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Pays the provider `detail.duration` hours: out of escrow when the requester's hours are held, otherwise
+ * straight from the requester. Returns why the request cannot be settled yet without changing anything.
+ */
+function settle(request: HelpRequest, actor: SessionUser): { settlementTransferId: string } | Failure {
+  const db = getDb();
+  const requester = request.requesterId ? db.members.get(request.requesterId) : undefined;
+  const provider = request.providerId ? db.members.get(request.providerId) : undefined;
+  if (!requester || !provider) {
+    return { ok: false, status: 422, message: `Request ${request.id} needs a member requester and provider to settle` };
+  }
+  const fromEscrow = (request.escrowHeld ?? 0) >= request.detail.duration;
+  if (!fromEscrow && memberBalance(requester.id) < request.detail.duration) {
+    return { ok: false, status: 422, message: `Requester ${requester.id} holds fewer than ${request.detail.duration} hours` };
+  }
+
+  const reason = `Help request #${request.id}: ${request.detail.title}`;
+  const transfer = createServiceTransfer(requester, provider, request.detail.duration, reason, actor, { fromEscrow });
+  return { settlementTransferId: transfer.id };
+}
+
+// Gives held hours back to the requester, e.g. when the request is cancelled or returned to the queue
+function releaseHeldHours(request: HelpRequest, memo: string) {
+  if (request.requesterId && request.escrowHeld) {
+    refundEscrow(request.requesterId, request.escrowHeld, memo, referenceOf(request));
+  }
+}
+
+// Writes the new state with its history entry and the matching audit record
+function commit(
+  request: HelpRequest,
+  status: HelpRequestStatus,
+  changes: Partial<HelpRequest>,
+  note: string | null,
+  actor: SessionUser,
+  action: AuditAction,
+  auditReason = note,
+) {
+  const now = new Date().toISOString();
+  const by = actorLabel(actor);
+  const history = [...request.history, { from: request.status, to: status, at: now, by, note }];
+  // Completion that settles in the same step records both moves
+  if (status === 'settled' && request.status === 'in_progress') {
+    history.splice(-1, 1, { from: request.status, to: 'completed', at: now, by, note }, { from: 'completed', to: 'settled', at: now, by, note: null });
+  }
+
+  const updated = getDb().helpRequests.update(request.id, { ...changes, status, history });
+  recordAudit({
+    actor,
+    action,
+    entityType: 'help_request',
+    entityId: request.id,
+    before: { status: request.status, providerId: request.providerId ?? null, escrowHeld: request.escrowHeld ?? 0 },
+    after: {
+      status: updated.status,
+      providerId: updated.providerId ?? null,
+      escrowHeld: updated.escrowHeld ?? 0,
+      settlementTransferId: updated.settlementTransferId ?? null,
+    },
+    reason: auditReason,
+  });
+  return updated;
+}
+
+/**
+ * Moves a help request along its lifecycle. Accepting holds the requester's hours in escrow; completing pays
+ * the provider and goes straight on to `settled` when it can, otherwise the request stays `completed` and
+ * can be settled later. Cancelling goes through `cancelHelpRequest`.
+ */
+export function transitionHelpRequest(id: number, transition: HelpRequestTransition, actor: SessionUser): HelpRequestResult {
+  const db = getDb();
+  return db.transaction((): HelpRequestResult => {
+    const request = db.helpRequests.get(id);
+    if (!request) {
+      return { ok: false, status: 404, message: 'Help request not found' };
+    }
+    if (!canTransitionHelpRequest(request.status, transition.to)) {
+      return { ok: false, status: 409, message: `Cannot change a ${request.status} help request to ${transition.to}` };
+    }
+
+    const changes = applyGuards(request, transition);
+    if (isFailure(changes)) return changes;
+    let status: HelpRequestStatus = transition.to;
+
+    if (transition.to === 'accepted' && request.requesterId) {
+      holdInEscrow(request.requesterId, request.detail.duration, `Escrow for help request #${id}`, referenceOf(request));
+      changes.escrowHeld = request.detail.duration;
+    }
+    if (transition.to === 'open') {
+      releaseHeldHours(request, `Help request #${id} returned to the queue`);
+      changes.escrowHeld = null;
+    }
+    if (transition.to === 'completed' || transition.to === 'settled') {
+      const settlement = settle(request, actor);
+      if (isFailure(settlement)) {
+        // An explicit settle must pay; completion without payment is fine
+        if (transition.to === 'settled') return settlement;
+      } else {
+        changes.settlementTransferId = settlement.settlementTransferId;
+        changes.escrowHeld = null;
+        status = 'settled';
+      }
+    }
+
+    return { ok: true, request: commit(request, status, changes, transition.note ?? null, actor, 'help_request.transition') };
+  });
+}
+
+/**
+ * Cancels a request with a reason code: any escrowed hours go back to the requester, and the requester
+ * (plus the provider, if one was assigned) is notified.
+ */
+export function cancelHelpRequest(id: number, input: HelpRequestCancellation, actor: SessionUser): HelpRequestResult {
+  const db = getDb();
+  return db.transaction((): HelpRequestResult => {
+    const request = db.helpRequests.get(id);
+    if (!request) {
+      return { ok: false, status: 404, message: 'Help request not found' };
+    }
+    if (!canTransitionHelpRequest(request.status, 'cancelled')) {
+      return { ok: false, status: 409, message: `Cannot cancel a ${request.status} help request` };
+    }
+
+    const refunded = request.requesterId ? (request.escrowHeld ?? 0) : 0;
+    releaseHeldHours(request, `Help request #${id} cancelled (${input.reasonCode})`);
+
+    const note = input.note || null;
+    const updated = commit(
+      request,
+      'cancelled',
+      { escrowHeld: null, cancellation: { reasonCode: input.reasonCode, note } },
+      note,
+      actor,
+      'help_request.cancel',
+      note ? `${input.reasonCode}: ${note}` : input.reasonCode,
+    );
+
+    const body = refunded > 0 ? `${refunded} ชั่วโมงที่กันไว้ถูกคืนเข้าบัญชีแล้ว` : 'ไม่มีการหักเครดิตจากคำขอนี้';
+    notifyMember({
+      recipientId: request.requesterId,
+      recipientName: request.requester.name,
+      subject: `คำขอ "${request.detail.title}" ถูกยกเลิก`,
+      body,
+      reference: referenceOf(request),
+    });
+    if (request.providerId) {
+      notifyMember({
+        recipientId: request.providerId,
+        recipientName: request.providerName ?? request.providerId,
+        subject: `งาน "${request.detail.title}" ถูกยกเลิก`,
+        body: 'ไม่ต้องเดินทางไปให้บริการตามนัดนี้แล้ว',
+        reference: referenceOf(request),
+      });
+    }
+
+    return { ok: true, request: updated };
+  });
+}
+
+/**
+ * Ties a request to the upstream job it was posted as, or unties it with `jobId: null`. A job has at most one
+ * request, so the job page, unmatching and the application dialog all find the same one.
+ */
+export function linkHelpRequestToJob(id: number, input: HelpRequestJobLink, actor: SessionUser, reason: string | null = null): HelpRequestResult {
+  const db = getDb();
+  return db.transaction((): HelpRequestResult => {
+    const request = db.helpRequests.get(id);
+    if (!request) {
+      return { ok: false, status: 404, message: 'Help request not found' };
+    }
+    const taken = input.jobId === null ? undefined : db.helpRequests.list().find((other) => other.jobId === input.jobId && other.id !== id);
+    if (taken) {
+      return { ok: false, status: 409, message: `Job #${input.jobId} is already linked to help request #${taken.id}` };
+    }
+    if ((request.jobId ?? null) === input.jobId) {
+      return { ok: true, request };
+    }
+
+    const updated = db.helpRequests.update(id, { jobId: input.jobId });
+    recordAudit({
+      actor,
+      action: 'help_request.link_job',
+      entityType: 'help_request',
+      entityId: id,
+      before: { jobId: request.jobId ?? null },
+      after: { jobId: updated.jobId ?? null },
+      reason,
+    });
+    return { ok: true, request: updated };
+  });
+}
+
+function sameText(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Links requests that predate job links to their upstream jobs: a request is linked when exactly one unlinked
+ * job has its title and was created by someone with the requester's name, and no other request claims that job.
+ * Anything ambiguous is left for an admin to link by hand. Returns the requests it linked.
+ */
+export function backfillJobLinks(jobs: Job[], actor: SessionUser): HelpRequest[] {
+  const db = getDb();
+  return db.transaction(() => {
+    const requests = db.helpRequests.list();
+    const linkedJobs = new Set(requests.flatMap((request) => (request.jobId != null ? [request.jobId] : [])));
+    const candidates = new Map<HelpRequest, Job[]>(
+      requests
+        .filter((request) => request.jobId == null)
+        .map((request) => [
+          request,
+          jobs.filter(
+            (job) =>
+              !linkedJobs.has(job.id) &&
+              sameText(job.title, request.detail.title) &&
+              sameText(`${job.creator_first_name} ${job.creator_last_name}`, request.requester.name),
+          ),
+        ]),
+    );
+    const claims = new Map<number, number>();
+    for (const matches of candidates.values()) {
+      for (const job of matches) claims.set(job.id, (claims.get(job.id) ?? 0) + 1);
+    }
+
+    const linked: HelpRequest[] = [];
+    for (const [request, matches] of candidates) {
+      if (matches.length !== 1 || claims.get(matches[0].id) !== 1) continue;
+      const result = linkHelpRequestToJob(request.id, { jobId: matches[0].id }, actor, 'Backfilled from the job title and creator');
+      if (result.ok) linked.push(result.request);
+    }
+    return linked;
+  });
+}
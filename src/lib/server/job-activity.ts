@@ -0,0 +1,34 @@
+import { randomUUID } from 'crypto';
+import type { CreateJobNoteInput, JobActivity, JobNote } from '@/domain';
+import { getDb } from './db';
+import type { SessionUser } from './session';
+import { actorLabel } from './transfers';
+
+export function jobActivity(jobId: number): JobActivity {
+  const db = getDb();
+  const helpRequests = db.helpRequests.list().filter((request) => request.jobId === jobId);
+  const transferIds = new Set(helpRequests.flatMap((request) => (request.settlementTransferId ? [request.settlementTransferId] : [])));
+
+  return {
+    notes: db.jobNotes
+      .list()
+      .filter((note) => note.jobId === jobId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    audit: db.auditLog
+      .list()
+      .filter((entry) => entry.entityType === 'match' && entry.entityId === String(jobId))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    helpRequests,
+    transfers: db.transfers.list().filter((transfer) => transferIds.has(transfer.id)),
+  };
+}
+
+export function addJobNote(jobId: number, input: CreateJobNoteInput, actor: SessionUser): JobNote {
+  return getDb().jobNotes.append({
+    id: randomUUID(),
+    jobId,
+    body: input.body,
+    author: actorLabel(actor),
+    createdAt: new Date().toISOString(),
+  });
+}
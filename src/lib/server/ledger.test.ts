@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ESCROW_ACCOUNT, ISSUANCE_ACCOUNT, memberAccount } from '@/domain';
+import { resetDb, TEST_ADMIN } from '@/test/db';
+import { getDb } from './db';
+import {
+  LedgerError,
+  adjustMemberBalance,
+  balanceOf,
+  holdInEscrow,
+  memberBalance,
+  moveMemberCredits,
+  postJournalEntry,
+  reconcileMembers,
+  refundEscrow,
+  releaseEscrow,
+} from './ledger';
+
+describe('ledger', () => {
+  beforeEach(resetDb);
+
+  it('replays the fixtures onto every member stored balance', () => {
+    expect(reconcileMembers().mismatches).toEqual([]);
+    expect(memberBalance('M001')).toBe(getDb().members.get('M001')?.credits);
+  });
+
+  it('refuses unbalanced or one-legged entries without touching the journal', () => {
+    const size = getDb().journal.list().length;
+    expect(() =>
+      postJournalEntry({
+        kind: 'adjustment',
+        memo: 'typo',
+        postings: [
+          { account: memberAccount('M001'), amount: 2 },
+          { account: ISSUANCE_ACCOUNT, amount: -1.5 },
+        ],
+      }),
+    ).toThrow(LedgerError);
+    expect(() => postJournalEntry({ kind: 'adjustment', memo: 'typo', postings: [{ account: ISSUANCE_ACCOUNT, amount: 0 }] })).toThrow(
+      LedgerError,
+    );
+    expect(getDb().journal.list()).toHaveLength(size);
+  });
+
+  it('treats fractional hours that cancel out as balanced', () => {
+    const entry = postJournalEntry({
+      kind: 'adjustment',
+      memo: 'split',
+      postings: [
+        { account: ISSUANCE_ACCOUNT, amount: -0.3 },
+        { account: memberAccount('M001'), amount: 0.1 },
+        { account: memberAccount('M002'), amount: 0.2 },
+      ],
+    });
+    expect(entry.postings).toHaveLength(3);
+  });
+
+  it('moves credits between members and keeps the stored balances in step', () => {
+    const [sender, receiver] = [memberBalance('M001'), memberBalance('M002')];
+    moveMemberCredits('M001', 'M002', 2.5, 'gardening', 'TXN-test');
+
+    expect(memberBalance('M001')).toBe(sender - 2.5);
+    expect(memberBalance('M002')).toBe(receiver + 2.5);
+    expect(reconcileMembers().mismatches).toEqual([]);
+  });
+
+  it('holds hours in escrow until they are released or refunded', () => {
+    const requester = memberBalance('M001');
+    holdInEscrow('M001', 4, 'hold', 'HR-1');
+    expect(memberBalance('M001')).toBe(requester - 4);
+    expect(balanceOf(ESCROW_ACCOUNT)).toBe(4);
+
+    releaseEscrow('M002', 3, 'paid', 'HR-1');
+    refundEscrow('M001', 1, 'change', 'HR-1');
+
+    expect(balanceOf(ESCROW_ACCOUNT)).toBe(0);
+    expect(memberBalance('M001')).toBe(requester - 3);
+    expect(reconcileMembers().mismatches).toEqual([]);
+  });
+
+  it('reports a stored balance that drifted from the journal', () => {
+    const stored = getDb().members.get('M003')!.credits;
+    getDb().members.update('M003', { credits: stored + 1 });
+
+    expect(reconcileMembers().mismatches).toEqual([
+      expect.objectContaining({ memberId: 'M003', storedBalance: stored + 1, ledgerBalance: stored, difference: 1 }),
+    ]);
+  });
+
+  describe('adjustMemberBalance', () => {
+    it('issues or claws back hours with an audit entry', () => {
+      const before = memberBalance('M004');
+      const issued = balanceOf(ISSUANCE_ACCOUNT);
+      const result = adjustMemberBalance('M004', -2, 'correction', TEST_ADMIN);
+
+      expect(result).toMatchObject({ ok: true, entry: { kind: 'adjustment', reference: 'M004' } });
+      expect(memberBalance('M004')).toBe(before - 2);
+      expect(balanceOf(ISSUANCE_ACCOUNT)).toBe(issued + 2);
+      expect(getDb().auditLog.list().at(-1)).toMatchObject({ action: 'ledger.adjust', entityId: 'M004', before: { balance: before } });
+    });
+
+    it('will not take a balance below zero', () => {
+      const result = adjustMemberBalance('M008', -(memberBalance('M008') + 1), 'too much', TEST_ADMIN);
+      expect(result).toMatchObject({ ok: false, status: 422 });
+    });
+
+    it('answers 404 for an unknown member', () => {
+      expect(adjustMemberBalance('M999', 1, 'bonus', TEST_ADMIN)).toMatchObject({ ok: false, status: 404 });
+    });
+  });
+});
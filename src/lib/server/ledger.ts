@@ -0,0 +1,207 @@
+import { randomUUID } from 'crypto';
+import {
+  ESCROW_ACCOUNT,
+  ISSUANCE_ACCOUNT,
+  isBalanced,
+  memberAccount,
+  type JournalEntry,
+  type JournalEntryKind,
+  type LedgerPosting,
+  type Member,
+  type ReconciliationReport,
+} from '@/domain';
+import { recordAudit } from './audit';
+import { getDb } from './db';
+import type { SessionUser } from './session';
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+export type JournalEntryInput = {
+  kind: JournalEntryKind;
+  reference?: string | null;
+  memo: string;
+  postings: LedgerPosting[];
+};
+
+export type AdjustmentResult =
+  | { ok: true; entry: JournalEntry }
+  | { ok: false; status: 404 | 422; message: string };
+
+/**
+ * Appends a journal entry. Unbalanced entries are a programming error and throw;
+ * callers check business rules (sufficient balance, ...) before posting.
+ */
+export function postJournalEntry(input: JournalEntryInput): JournalEntry {
+  if (input.postings.length < 2 || !isBalanced(input.postings)) {
+    throw new LedgerError(`Unbalanced ${input.kind} entry for ${input.reference ?? 'unknown reference'}`);
+  }
+
+  const entry: JournalEntry = Object.freeze({
+    id: `JE-${randomUUID()}`,
+    kind: input.kind,
+    reference: input.reference ?? null,
+    memo: input.memo,
+    createdAt: new Date().toISOString(),
+    postings: input.postings.map((posting) => ({ ...posting })),
+  });
+  return getDb().journal.append(entry);
+}
+
+// Moves `amount` hours from one account to another as a two-legged entry
+export function postMovement(kind: JournalEntryKind, from: string, to: string, amount: number, memo: string, reference?: string) {
+  return postJournalEntry({
+    kind,
+    reference,
+    memo,
+    postings: [
+      { account: from, amount: -amount },
+      { account: to, amount },
+    ],
+  });
+}
+
+/**
+ * Moves hours between two members: posts the journal entry and keeps both stored balances in step.
+ * Callers check the sender's balance first.
+ */
+export function moveMemberCredits(fromMemberId: string, toMemberId: string, amount: number, memo: string, reference?: string) {
+  const db = getDb();
+  return db.transaction(() => {
+    const entry = postMovement('transfer', memberAccount(fromMemberId), memberAccount(toMemberId), amount, memo, reference);
+    for (const [memberId, delta] of [
+      [fromMemberId, -amount],
+      [toMemberId, amount],
+    ] as const) {
+      const member = db.members.get(memberId);
+      if (member) db.members.update(memberId, { credits: member.credits + delta });
+    }
+    return entry;
+  });
+}
+
+// Escrow movements keep the member's stored balance in step, like `moveMemberCredits`
+function moveWithEscrow(kind: JournalEntryKind, memberId: string, delta: number, memo: string, reference: string) {
+  const db = getDb();
+  return db.transaction(() => {
+    const entry =
+      delta < 0
+        ? postMovement(kind, memberAccount(memberId), ESCROW_ACCOUNT, -delta, memo, reference)
+        : postMovement(kind, ESCROW_ACCOUNT, memberAccount(memberId), delta, memo, reference);
+    const member = db.members.get(memberId);
+    if (member) db.members.update(memberId, { credits: member.credits + delta });
+    return entry;
+  });
+}
+
+// Takes hours out of a member's spendable balance until the work is paid for or called off
+export function holdInEscrow(memberId: string, amount: number, memo: string, reference: string) {
+  return moveWithEscrow('escrow_hold', memberId, -amount, memo, reference);
+}
+
+export function refundEscrow(memberId: string, amount: number, memo: string, reference: string) {
+  return moveWithEscrow('escrow_refund', memberId, amount, memo, reference);
+}
+
+// Pays held hours out to whoever did the work
+export function releaseEscrow(memberId: string, amount: number, memo: string, reference: string) {
+  return moveWithEscrow('job_completion', memberId, amount, memo, reference);
+}
+
+export function listJournal(account?: string): JournalEntry[] {
+  const journal = getDb().journal.list();
+  return account ? journal.filter((entry) => entry.postings.some((p) => p.account === account)) : [...journal];
+}
+
+function round(hours: number) {
+  return Math.round(hours * 100) / 100;
+}
+
+// One pass over the journal for every account, for pages that show many balances at once
+function allBalances() {
+  const totals = new Map<string, number>();
+  for (const entry of getDb().journal.list()) {
+    for (const posting of entry.postings) {
+      totals.set(posting.account, (totals.get(posting.account) ?? 0) + posting.amount);
+    }
+  }
+  return totals;
+}
+
+export function balanceOf(account: string) {
+  let total = 0;
+  for (const entry of getDb().journal.list()) {
+    for (const posting of entry.postings) {
+      if (posting.account === account) total += posting.amount;
+    }
+  }
+  return round(total);
+}
+
+export function memberBalance(memberId: string) {
+  return balanceOf(memberAccount(memberId));
+}
+
+// Members as the UI should see them: `credits` is the ledger balance, not the stored field
+export function withLedgerBalances(members: Member[]): Member[] {
+  const balances = allBalances();
+  return members.map((member) => ({ ...member, credits: round(balances.get(memberAccount(member.id)) ?? 0) }));
+}
+
+// Flags every member whose stored `credits` no longer matches the ledger
+export function reconcileMembers(): ReconciliationReport {
+  const members = getDb().members.list();
+  const balances = allBalances();
+  const mismatches = members
+    .map((member) => {
+      const ledgerBalance = round(balances.get(memberAccount(member.id)) ?? 0);
+      return {
+        memberId: member.id,
+        memberName: member.name,
+        storedBalance: member.credits,
+        ledgerBalance,
+        difference: round(member.credits - ledgerBalance),
+      };
+    })
+    .filter((row) => row.difference !== 0);
+
+  return { checkedAt: new Date().toISOString(), memberCount: members.length, mismatches };
+}
+
+// Admin correction against the issuance account; `amount` is signed (negative claws hours back)
+export function adjustMemberBalance(memberId: string, amount: number, reason: string, actor: SessionUser): AdjustmentResult {
+  const db = getDb();
+  return db.transaction((): AdjustmentResult => {
+    const member = db.members.get(memberId);
+    if (!member) {
+      return { ok: false, status: 404, message: 'Member not found' };
+    }
+
+    const before = memberBalance(memberId);
+    if (before + amount < 0) {
+      return { ok: false, status: 422, message: 'Adjustment would make the balance negative' };
+    }
+
+    const entry =
+      amount > 0
+        ? postMovement('adjustment', ISSUANCE_ACCOUNT, memberAccount(memberId), amount, reason, memberId)
+        : postMovement('adjustment', memberAccount(memberId), ISSUANCE_ACCOUNT, -amount, reason, memberId);
+    db.members.update(memberId, { credits: member.credits + amount });
+
+    recordAudit({
+      actor,
+      action: 'ledger.adjust',
+      entityType: 'member',
+      entityId: memberId,
+      before: { balance: before },
+      after: { balance: memberBalance(memberId), journalEntryId: entry.id },
+      reason,
+    });
+
+    return { ok: true, entry };
+  });
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { runListQuery, type ListSpec } from './list-query';
+
+type Row = { id: string; name: string; hours: number; status: 'open' | 'closed'; owner: string; createdAt: string };
+
+const ROWS: Row[] = [
+  { id: 'a', name: 'Cooking', hours: 3, status: 'open', owner: 'M001', createdAt: '2024-12-01T09:00:00+07:00' },
+  { id: 'b', name: 'Gardening', hours: 1, status: 'closed', owner: 'M002', createdAt: '2024-12-05T09:00:00+07:00' },
+  { id: 'c', name: 'Tutoring', hours: 2, status: 'open', owner: 'M001', createdAt: '2024-12-10T09:00:00+07:00' },
+];
+
+const SPEC: ListSpec<Row> = {
+  sortFields: { name: (row) => row.name, hours: (row) => row.hours, date: (row) => row.createdAt },
+  defaultSort: '-date',
+  status: { values: ['open', 'closed'], of: (row) => row.status },
+  search: (row) => [row.name],
+  date: (row) => row.createdAt,
+  filters: { owner: (row, value) => row.owner === value },
+};
+
+function query(search: string) {
+  return runListQuery(ROWS, new URLSearchParams(search), SPEC);
+}
+
+function ids(search: string) {
+  const result = query(search);
+  if (!result.ok) throw new Error(result.message);
+  return result.list.items.map((row) => row.id);
+}
+
+describe('runListQuery', () => {
+  it('applies the default sort when none is given', () => {
+    expect(ids('')).toEqual(['c', 'b', 'a']);
+  });
+
+  it('sorts ascending or descending', () => {
+    expect(ids('sort=hours')).toEqual(['b', 'c', 'a']);
+    expect(ids('sort=-name')).toEqual(['c', 'b', 'a']);
+  });
+
+  it('rejects sort fields the spec does not declare', () => {
+    expect(query('sort=owner')).toMatchObject({ ok: false });
+  });
+
+  it.each(['constructor', 'toString', 'valueOf', 'hasOwnProperty'])(
+    'rejects the inherited property %s as a sort field',
+    (field) => {
+      expect(query(`sort=${field}`)).toMatchObject({ ok: false, message: expect.stringContaining(`Cannot sort by ${field}`) });
+    },
+  );
+
+  it('filters by status, search text, date range and route filters', () => {
+    expect(ids('status=open')).toEqual(['c', 'a']);
+    expect(ids('q=GARDEN')).toEqual(['b']);
+    expect(ids('from=2024-12-02&to=2024-12-09')).toEqual(['b']);
+    expect(ids('owner=M001&sort=name')).toEqual(['a', 'c']);
+  });
+
+  it('ignores parameters named after inherited properties', () => {
+    expect(ids('constructor=x&hasOwnProperty=y&toString=z')).toEqual(['c', 'b', 'a']);
+  });
+
+  it('rejects unknown statuses and malformed values', () => {
+    expect(query('status=archived')).toMatchObject({ ok: false, message: 'Unknown status archived' });
+    expect(query('pageSize=0')).toMatchObject({ ok: false });
+    expect(query('from=yesterday')).toMatchObject({ ok: false });
+    expect(query('cursor=not-a-cursor')).toMatchObject({ ok: false, message: 'Invalid cursor' });
+  });
+
+  it('pages with page numbers and follows the returned cursors', () => {
+    const first = query('pageSize=2');
+    expect(first).toMatchObject({ ok: true, list: { total: 3, page: 1, pageCount: 2, prevCursor: null } });
+    if (!first.ok || !first.list.nextCursor) throw new Error('expected a next cursor');
+
+    const second = query(`pageSize=2&cursor=${first.list.nextCursor}`);
+    expect(second).toMatchObject({ ok: true, list: { page: 2, nextCursor: null } });
+    expect(second.ok && second.list.items.map((row) => row.id)).toEqual(['a']);
+    expect(ids('pageSize=2&page=2')).toEqual(['a']);
+  });
+});
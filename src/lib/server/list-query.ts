@@ -0,0 +1,139 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { decodeCursor, encodeCursor, listQuerySchema, type ListQuery, type PagedList } from '@/domain';
+import type { Permission } from '@/lib/permissions';
+import { withPermission } from './route-guard';
+
+type SortValue = string | number | null | undefined;
+
+// How one entity answers the shared list grammar
+export type ListSpec<T, S = undefined> = {
+  sortFields: Record<string, (item: T) => SortValue>;
+  defaultSort: string;
+  status?: { values: readonly string[]; of: (item: T) => string };
+  // Text the `q` parameter is matched against (case-insensitive substring)
+  search?: (item: T) => (string | null | undefined)[];
+  // ISO timestamp the `from`/`to` date range applies to
+  date?: (item: T) => string;
+  // Route-specific parameters, e.g. `sender` on transfers
+  filters?: Record<string, (item: T, value: string) => boolean>;
+  // Aggregates over every matching row (not just the page), returned as `summary`
+  summarize?: (matched: T[]) => S;
+};
+
+export type ListQueryResult<T, S> =
+  | { ok: true; list: PagedList<T, S> }
+  | { ok: false; message: string; issues?: z.ZodIssue[] };
+
+function compare(a: SortValue, b: SortValue) {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b), 'th');
+}
+
+function parse<T, S>(params: URLSearchParams, spec: ListSpec<T, S>): { ok: true; query: ListQuery } | { ok: false; message: string; issues?: z.ZodIssue[] } {
+  const raw = Object.fromEntries([...params.entries()].filter(([, value]) => value !== ''));
+  const parsed = listQuerySchema.safeParse({ sort: spec.defaultSort, ...raw });
+  if (!parsed.success) {
+    return { ok: false, message: parsed.error.issues[0]?.message ?? 'Invalid list query', issues: parsed.error.issues };
+  }
+
+  // Own keys only: `in` would let `constructor` or `toString` through to the sort accessors
+  const unknownSort = parsed.data.sort?.find(({ field }) => !Object.hasOwn(spec.sortFields, field));
+  if (unknownSort) {
+    return { ok: false, message: `Cannot sort by ${unknownSort.field}; use one of ${Object.keys(spec.sortFields).join(', ')}` };
+  }
+  const unknownStatus = parsed.data.status?.find((status) => !spec.status?.values.includes(status));
+  if (unknownStatus) {
+    return { ok: false, message: `Unknown status ${unknownStatus}` };
+  }
+  return { ok: true, query: parsed.data };
+}
+
+/**
+ * Validates the list grammar against `spec`, then filters, sorts and pages `items`.
+ * Shared by the list routes and by pages rendering the first page on the server.
+ */
+export function runListQuery<T, S = undefined>(items: T[], params: URLSearchParams, spec: ListSpec<T, S>): ListQueryResult<T, S> {
+  const parsed = parse(params, spec);
+  if (!parsed.ok) return parsed;
+  const { query } = parsed;
+
+  const q = query.q?.toLowerCase();
+  // Driven by the spec's own filter names, never by the parameter names a client sends
+  const customFilters = Object.entries(spec.filters ?? {}).flatMap(([name, predicate]) => {
+    const value = params.get(name)?.trim();
+    return value ? [(item: T) => predicate(item, value)] : [];
+  });
+
+  const matched = items.filter((item) => {
+    if (query.status && spec.status && !query.status.includes(spec.status.of(item))) return false;
+    if (q && spec.search && !spec.search(item).some((text) => text?.toLowerCase().includes(q))) return false;
+    if (spec.date && (query.from || query.to)) {
+      const day = spec.date(item).slice(0, 10);
+      if ((query.from && day < query.from) || (query.to && day > query.to)) return false;
+    }
+    return customFilters.every((predicate) => predicate(item));
+  });
+
+  const sortKeys = query.sort ?? [];
+  const sorted = [...matched].sort((a, b) => {
+    for (const { field, direction } of sortKeys) {
+      const accessor = spec.sortFields[field];
+      const result = compare(accessor(a), accessor(b));
+      if (result !== 0) return direction === 'desc' ? -result : result;
+    }
+    return 0;
+  });
+
+  const { pageSize } = query;
+  const cursorOffset = query.cursor !== undefined ? decodeCursor(query.cursor) : null;
+  if (query.cursor !== undefined && cursorOffset === null) {
+    return { ok: false, message: 'Invalid cursor' };
+  }
+  const offset = cursorOffset ?? (query.page - 1) * pageSize;
+  const total = sorted.length;
+
+  return {
+    ok: true,
+    list: {
+      items: sorted.slice(offset, offset + pageSize),
+      total,
+      page: Math.floor(offset / pageSize) + 1,
+      pageSize,
+      pageCount: Math.ceil(total / pageSize),
+      nextCursor: offset + pageSize < total ? encodeCursor(offset + pageSize) : null,
+      prevCursor: offset > 0 ? encodeCursor(Math.max(0, offset - pageSize)) : null,
+      summary: spec.summarize?.(matched) as S,
+    },
+  };
+}
+
+/**
+ * The page a list route would answer for a page's own query string, rendered by server components
+ * before the client takes over. Undefined for a malformed query, leaving the client to fetch and show the error.
+ */
+export function firstPage<T, S = undefined>(
+  items: T[],
+  spec: ListSpec<T, S>,
+  searchParams: Record<string, string | string[] | undefined> = {},
+): PagedList<T, S> | undefined {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    if (value !== undefined) params.set(key, Array.isArray(value) ? value.join(',') : value);
+  }
+  const result = runListQuery(items, params, spec);
+  return result.ok ? result.list : undefined;
+}
+
+// GET handler for a list route: permission check, grammar, 400 on a malformed query
+export function listRoute<T, S = undefined>(permission: Permission, load: () => T[], spec: ListSpec<T, S>) {
+  return withPermission(permission, (req: NextRequest) => {
+    const result = runListQuery(load(), req.nextUrl.searchParams, spec);
+    if (!result.ok) {
+      return NextResponse.json({ success: false, message: result.message, issues: result.issues }, { status: 400 });
+    }
+    return NextResponse.json(result.list);
+  });
+}
@@ -0,0 +1,144 @@
+import {
+  autoMatchOutcomeSchema,
+  awaitsReview,
+  helpRequestStatusSchema,
+  matchLogStatusSchema,
+  matchStatusSchema,
+  memberStatusSchema,
+  transferStatusSchema,
+  withdrawalStatusSchema,
+  type AutoMatchDecision,
+  type HelpRequest,
+  type Match,
+  type MatchLog,
+  type MatchLogSummary,
+  type Member,
+  type Transfer,
+  type TransferSummary,
+  type Withdrawal,
+} from '@/domain';
+import type { ListSpec } from './list-query';
+
+// Per-entity answers to the shared list grammar (see `runListQuery`)
+
+export const memberListSpec: ListSpec<Member> = {
+  sortFields: {
+    id: (m) => m.id,
+    name: (m) => m.name,
+    age: (m) => m.age,
+    location: (m) => m.location,
+    credits: (m) => m.credits,
+    status: (m) => m.status,
+  },
+  defaultSort: 'id',
+  status: { values: memberStatusSchema.options, of: (m) => m.status },
+  search: (m) => [m.id, m.name, m.location, ...m.skills],
+};
+
+export const transferListSpec: ListSpec<Transfer, TransferSummary> = {
+  sortFields: {
+    id: (t) => t.id,
+    date: (t) => t.createdAt,
+    amount: (t) => t.amount,
+    sender: (t) => t.sender,
+    receiver: (t) => t.receiver,
+    status: (t) => t.status,
+    type: (t) => t.type,
+  },
+  defaultSort: '-date',
+  status: { values: transferStatusSchema.options, of: (t) => t.status },
+  search: (t) => [t.id, t.sender, t.receiver, t.reason],
+  date: (t) => t.createdAt,
+  filters: {
+    sender: (t, value) => t.sender.toLowerCase().includes(value.toLowerCase()),
+    receiver: (t, value) => t.receiver.toLowerCase().includes(value.toLowerCase()),
+  },
+  summarize: (matched) => ({
+    totalAmount: matched.reduce((sum, t) => sum + t.amount, 0),
+    successRate: matched.length === 0 ? 0 : Math.round((matched.filter((t) => t.status !== 'failed').length / matched.length) * 100),
+  }),
+};
+
+export const withdrawalListSpec: ListSpec<Withdrawal> = {
+  sortFields: { id: (w) => w.id, date: (w) => w.requestedAt, amount: (w) => w.amount, member: (w) => w.memberName, status: (w) => w.status },
+  defaultSort: '-date',
+  status: { values: withdrawalStatusSchema.options, of: (w) => w.status },
+  search: (w) => [w.id, w.memberId, w.memberName],
+  date: (w) => w.requestedAt,
+};
+
+export const helpRequestListSpec: ListSpec<HelpRequest> = {
+  sortFields: {
+    id: (r) => r.id,
+    date: (r) => r.requestedAt,
+    duration: (r) => r.detail.duration,
+    status: (r) => r.status,
+  },
+  defaultSort: '-date',
+  status: { values: helpRequestStatusSchema.options, of: (r) => r.status },
+  search: (r) => [r.requester.name, r.detail.title, r.requester.category, r.location.city, r.location.district],
+  date: (r) => r.requestedAt,
+  filters: {
+    job: (r, value) => String(r.jobId) === value,
+    // `linked=false` lists the requests not yet tied to an upstream job
+    linked: (r, value) => (r.jobId != null) === (value === 'true'),
+  },
+};
+
+export const matchLogListSpec: ListSpec<MatchLog, MatchLogSummary> = {
+  sortFields: {
+    id: (l) => l.id,
+    date: (l) => l.matchedAt,
+    score: (l) => l.matchScore,
+    rating: (l) => l.rating,
+    requester: (l) => l.requester,
+    provider: (l) => l.provider,
+    status: (l) => l.status,
+  },
+  defaultSort: '-date',
+  status: { values: matchLogStatusSchema.options, of: (l) => l.status },
+  search: (l) => [l.id, l.requester, l.provider, l.requestType, l.requestDetail],
+  date: (l) => l.matchedAt,
+  summarize: (matched) => ({
+    succeeded: matched.filter((l) => l.status === 'success').length,
+    failed: matched.filter((l) => l.status === 'failed').length,
+    averageScore: matched.length === 0 ? null : matched.reduce((sum, l) => sum + l.matchScore, 0) / matched.length,
+  }),
+};
+
+export const matchListSpec: ListSpec<Match> = {
+  sortFields: {
+    date: (m) => m.createdAt,
+    job: (m) => m.jobId,
+    provider: (m) => m.providerName,
+    status: (m) => m.status,
+  },
+  defaultSort: '-date',
+  status: { values: matchStatusSchema.options, of: (m) => m.status },
+  search: (m) => [String(m.jobId), m.jobTitle, m.requesterName, m.providerName, m.reason],
+  date: (m) => m.createdAt,
+  filters: {
+    job: (m, value) => String(m.jobId) === value,
+    provider: (m, value) => String(m.providerId) === value,
+  },
+};
+
+export const autoMatchDecisionListSpec: ListSpec<AutoMatchDecision> = {
+  sortFields: {
+    date: (d) => d.decidedAt,
+    waiting: (d) => d.jobCreatedAt,
+    job: (d) => d.jobId,
+    score: (d) => d.score,
+    outcome: (d) => d.outcome,
+  },
+  defaultSort: '-date',
+  status: { values: autoMatchOutcomeSchema.options, of: (d) => d.outcome },
+  search: (d) => [String(d.jobId), d.jobTitle, d.requesterName, d.providerName, d.detail],
+  date: (d) => d.decidedAt,
+  filters: {
+    // `awaiting=true` is the review queue
+    awaiting: (d, value) => awaitsReview(d) === (value === 'true'),
+    job: (d, value) => String(d.jobId) === value,
+    run: (d, value) => d.runId === value,
+  },
+};
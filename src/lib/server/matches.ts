@@ -0,0 +1,233 @@
+import { randomUUID } from 'crypto';
+import {
+  awaitsReview,
+  canTransitionHelpRequest,
+  type Job,
+  type Match,
+  type ProviderProfile,
+  type ReassignMatch,
+  type Unmatch,
+  type UnmatchReason,
+} from '@/domain';
+import { recordAudit } from './audit';
+import { getDb } from './db';
+import { transitionHelpRequest } from './help-requests';
+import { notifyMember } from './notifications';
+import { ensureProviderProfile } from './providers';
+import type { SessionUser } from './session';
+import { actorLabel } from './transfers';
+
+export type MatchResult =
+  | { ok: true; match: Match }
+  | { ok: false; status: 404 | 409; message: string };
+
+// Reason codes as members read them in notifications
+const unmatchReasonText: Record<UnmatchReason, string> = {
+  provider_unavailable: 'ผู้ให้บริการไม่สะดวกรับงานนี้',
+  requester_complaint: 'ผู้ขอความช่วยเหลือแจ้งปัญหาเกี่ยวกับการจับคู่',
+  safety_concern: 'เหตุผลด้านความปลอดภัย',
+};
+
+export type NewMatch = Pick<Match, 'jobId' | 'jobTitle' | 'requesterId' | 'requesterName' | 'providerId' | 'providerName' | 'reason'>;
+
+// What a match keeps of its upstream job; all null when the job could not be read
+export function jobParticulars(job: Job | undefined): Pick<Match, 'jobTitle' | 'requesterId' | 'requesterName'> {
+  if (!job) {
+    return { jobTitle: null, requesterId: null, requesterName: null };
+  }
+  return {
+    jobTitle: job.title,
+    requesterId: job.creator_user_id,
+    requesterName: `${job.creator_first_name} ${job.creator_last_name}`.trim(),
+  };
+}
+
+function referenceOf(match: Match) {
+  return `match:${match.id}`;
+}
+
+function jobLabel(match: Match) {
+  return match.jobTitle ?? `งาน #${match.jobId}`;
+}
+
+function reasonLabel(input: Unmatch) {
+  return input.note ? `${input.reasonCode}: ${input.note}` : input.reasonCode;
+}
+
+// Keeps the workload and no-show counters the matching engine reads, creating the profile on first use
+function adjustProviderProfile(providerId: number, change: (profile: ProviderProfile) => Partial<ProviderProfile>) {
+  const profile = ensureProviderProfile(providerId);
+  getDb().providerProfiles.update(profile.id, { ...change(profile), updatedAt: new Date().toISOString() });
+}
+
+function insertMatch(input: NewMatch, actor: SessionUser): Match {
+  const match = getDb().matches.insert({
+    ...input,
+    id: randomUUID(),
+    status: 'active',
+    createdAt: new Date().toISOString(),
+    createdBy: actorLabel(actor),
+  });
+  adjustProviderProfile(input.providerId, (profile) => ({ activeJobs: profile.activeJobs + 1 }));
+  return match;
+}
+
+// A provider who drops out after being matched counts as a no-show
+function endMatch(match: Match, status: 'unmatched' | 'reassigned', input: Unmatch, actor: SessionUser, replacedBy: string | null) {
+  const updated = getDb().matches.update(match.id, {
+    status,
+    endedAt: new Date().toISOString(),
+    endedBy: actorLabel(actor),
+    endReason: { reasonCode: input.reasonCode, note: input.note || null },
+    replacedBy,
+  });
+  adjustProviderProfile(match.providerId, (profile) => ({
+    activeJobs: Math.max(0, profile.activeJobs - 1),
+    noShows: input.reasonCode === 'provider_unavailable' ? profile.noShows + 1 : profile.noShows,
+  }));
+  return updated;
+}
+
+function notifyRemovedProvider(match: Match, input: Unmatch) {
+  notifyMember({
+    recipientId: String(match.providerId),
+    recipientName: match.providerName ?? `ผู้ใช้ #${match.providerId}`,
+    subject: `การจับคู่กับ "${jobLabel(match)}" ถูกยกเลิก`,
+    body: `เหตุผล: ${unmatchReasonText[input.reasonCode]} ไม่ต้องไปให้บริการตามงานนี้แล้ว`,
+    reference: referenceOf(match),
+  });
+}
+
+function notifyRequester(match: Match, subject: string, body: string) {
+  notifyMember({
+    recipientId: match.requesterId === null ? null : String(match.requesterId),
+    recipientName: match.requesterName ?? 'ผู้ขอความช่วยเหลือ',
+    subject,
+    body,
+    reference: referenceOf(match),
+  });
+}
+
+export function findMatch(id: string) {
+  return getDb().matches.get(id);
+}
+
+// Records a match the upstream has accepted, with its audit entry. The job leaves the auto-match review queue
+export function recordMatch(input: NewMatch, actor: SessionUser): Match {
+  const db = getDb();
+  return db.transaction((): Match => {
+    const match = insertMatch(input, actor);
+    for (const decision of db.autoMatchDecisions.list()) {
+      if (decision.jobId === input.jobId && awaitsReview(decision)) {
+        db.autoMatchDecisions.update(decision.id, { resolvedAt: match.createdAt, resolvedBy: match.createdBy, resolution: 'matched' });
+      }
+    }
+    recordAudit({
+      actor,
+      action: 'match.create',
+      entityType: 'match',
+      entityId: input.jobId,
+      before: null,
+      after: { jobId: input.jobId, userId: input.providerId, matchId: match.id },
+      reason: input.reason,
+    });
+    return match;
+  });
+}
+
+/**
+ * Ends an active match: the job goes back to the open queue (along with any help request posted as it that
+ * was matched or accepted), the match is kept as history, and both the provider and the requester are told why.
+ */
+export function unmatch(id: string, input: Unmatch, actor: SessionUser): MatchResult {
+  const db = getDb();
+  return db.transaction((): MatchResult => {
+    const match = db.matches.get(id);
+    if (!match) {
+      return { ok: false, status: 404, message: 'Match not found' };
+    }
+    if (match.status !== 'active') {
+      return { ok: false, status: 409, message: `Match is already ${match.status}` };
+    }
+
+    const updated = endMatch(match, 'unmatched', input, actor, null);
+    for (const request of db.helpRequests.list()) {
+      if (request.jobId === match.jobId && canTransitionHelpRequest(request.status, 'open')) {
+        transitionHelpRequest(request.id, { to: 'open', note: `ยกเลิกการจับคู่: ${unmatchReasonText[input.reasonCode]}` }, actor);
+      }
+    }
+
+    recordAudit({
+      actor,
+      action: 'match.unmatch',
+      entityType: 'match',
+      entityId: match.jobId,
+      before: { status: match.status, userId: match.providerId },
+      after: { status: updated.status, userId: match.providerId, matchId: match.id },
+      reason: reasonLabel(input),
+    });
+    notifyRemovedProvider(match, input);
+    notifyRequester(match, `งาน "${jobLabel(match)}" กลับไปรอจับคู่ผู้ให้บริการใหม่`, `เหตุผล: ${unmatchReasonText[input.reasonCode]}`);
+
+    return { ok: true, match: updated };
+  });
+}
+
+/**
+ * Hands an active match to another provider the upstream has already accepted for the job. The old match is
+ * kept as `reassigned` and points at its replacement, which is returned.
+ */
+export function reassign(id: string, input: ReassignMatch, actor: SessionUser): MatchResult {
+  const db = getDb();
+  return db.transaction((): MatchResult => {
+    const match = db.matches.get(id);
+    if (!match) {
+      return { ok: false, status: 404, message: 'Match not found' };
+    }
+    if (match.status !== 'active') {
+      return { ok: false, status: 409, message: `Match is already ${match.status}` };
+    }
+    if (match.providerId === input.providerId) {
+      return { ok: false, status: 409, message: 'Provider is already matched to this job' };
+    }
+
+    const replacement = insertMatch(
+      {
+        jobId: match.jobId,
+        jobTitle: match.jobTitle,
+        requesterId: match.requesterId,
+        requesterName: match.requesterName,
+        providerId: input.providerId,
+        providerName: input.providerName || null,
+        reason: reasonLabel(input),
+      },
+      actor,
+    );
+    endMatch(match, 'reassigned', input, actor, replacement.id);
+
+    recordAudit({
+      actor,
+      action: 'match.reassign',
+      entityType: 'match',
+      entityId: match.jobId,
+      before: { userId: match.providerId, matchId: match.id },
+      after: { userId: replacement.providerId, matchId: replacement.id },
+      reason: reasonLabel(input),
+    });
+    notifyRemovedProvider(match, input);
+    notifyMember({
+      recipientId: String(replacement.providerId),
+      recipientName: replacement.providerName ?? `ผู้ใช้ #${replacement.providerId}`,
+      subject: `คุณได้รับการจับคู่กับ "${jobLabel(replacement)}"`,
+      body: 'ผู้ประสานงานมอบหมายงานนี้ให้คุณแทนผู้ให้บริการคนเดิม',
+      reference: referenceOf(replacement),
+    });
+    notifyRequester(
+      replacement,
+      `งาน "${jobLabel(replacement)}" มีผู้ให้บริการคนใหม่`,
+      `${replacement.providerName ?? `ผู้ใช้ #${replacement.providerId}`} จะดูแลงานนี้แทน (${unmatchReasonText[input.reasonCode]})`,
+    );
+
+    return { ok: true, match: replacement };
+  });
+}
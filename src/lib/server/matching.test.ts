@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MIN_MATCH_SCORE, matchWeightsSchema, type Job, type MatchCandidateScore, type MatchWeights, type SkilledUser } from '@/domain';
+import { resetDb } from '@/test/db';
+import {
+  DEFAULT_MATCH_WEIGHTS,
+  configuredMatchWeights,
+  matchConfidence,
+  rankCandidates,
+  runMatching,
+  type MatchCandidate,
+} from './matching';
+
+const ONLY = (factor: keyof MatchWeights): MatchWeights => ({
+  skills: 0,
+  distance: 0,
+  rating: 0,
+  workload: 0,
+  availability: 0,
+  noShows: 0,
+  [factor]: 1,
+});
+
+function candidate(providerId: string, skills: string[], distanceKm: number | null): MatchCandidate {
+  return { providerId, name: `Provider ${providerId}`, skills, distanceKm, profile: undefined };
+}
+
+// A plumber across town and a neighbour without the skill
+const PLUMBER = candidate('1', ['Plumbing'], 40);
+const NEIGHBOUR = candidate('2', ['gardening'], 1);
+
+describe('rankCandidates', () => {
+  it('puts first whoever the weights favour', () => {
+    const ids = (weights: MatchWeights) => rankCandidates(['plumbing'], [PLUMBER, NEIGHBOUR], weights).map((c) => c.providerId);
+
+    expect(ids(ONLY('skills'))).toEqual(['1', '2']);
+    expect(ids(ONLY('distance'))).toEqual(['2', '1']);
+    expect(ids({ ...ONLY('skills'), distance: 10 })).toEqual(['2', '1']);
+  });
+
+  it('scores the weighted mean of the factors out of 100', () => {
+    const [best] = rankCandidates(['plumbing', 'tiling'], [PLUMBER], { ...ONLY('skills'), distance: 1 });
+    // Half the skills and 40 of 50 km: (0.5 + 0.2) / 2
+    expect(best).toMatchObject({ score: 35, factors: { skills: 0.5, distance: 0.2 } });
+  });
+
+  it('breaks ties by distance, then by provider id, whatever the input order', () => {
+    const tied = [candidate('7', [], 5), candidate('3', [], 5), candidate('9', [], 2), candidate('5', [], null)];
+    const order = (list: MatchCandidate[]) => rankCandidates([], list, ONLY('skills')).map((c) => c.providerId);
+
+    expect(order(tied)).toEqual(['9', '3', '7', '5']);
+    expect(order([...tied].reverse())).toEqual(['9', '3', '7', '5']);
+  });
+});
+
+describe('configuredMatchWeights', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the defaults while MATCH_WEIGHTS is unset', () => {
+    expect(configuredMatchWeights()).toEqual(DEFAULT_MATCH_WEIGHTS);
+  });
+
+  it('fills factors left out of MATCH_WEIGHTS with their defaults', () => {
+    vi.stubEnv('MATCH_WEIGHTS', '{"distance":40}');
+    expect(configuredMatchWeights()).toEqual({ ...DEFAULT_MATCH_WEIGHTS, distance: 40 });
+  });
+
+  it.each(['not json', '{"distance":-1}', '{"skills":"high"}', '{"skills":0,"distance":0,"rating":0,"workload":0,"availability":0,"noShows":0}'])(
+    'falls back to the defaults for %s',
+    (raw) => {
+      vi.stubEnv('MATCH_WEIGHTS', raw);
+      expect(configuredMatchWeights()).toEqual(DEFAULT_MATCH_WEIGHTS);
+      expect(console.error).toHaveBeenCalledOnce();
+    },
+  );
+
+  it('rejects weights that are all zero', () => {
+    expect(matchWeightsSchema.safeParse({ ...ONLY('skills'), skills: 0 }).success).toBe(false);
+  });
+});
+
+describe('matchConfidence', () => {
+  const scored = (score: number) => ({ score }) as MatchCandidateScore;
+
+  it('wants a strong score and a clear lead for High', () => {
+    expect(matchConfidence(scored(80), scored(70))).toBe('High');
+    expect(matchConfidence(scored(80), undefined)).toBe('High');
+    expect(matchConfidence(scored(80), scored(75))).toBe('Medium');
+    expect(matchConfidence(scored(60), undefined)).toBe('Medium');
+    expect(matchConfidence(scored(MIN_MATCH_SCORE), undefined)).toBe('Low');
+  });
+
+  it('is Low below the minimum score or without candidates', () => {
+    expect(matchConfidence(scored(MIN_MATCH_SCORE - 1), undefined)).toBe('Low');
+    expect(matchConfidence(undefined, undefined)).toBe('Low');
+  });
+});
+
+describe('runMatching', () => {
+  beforeEach(resetDb);
+
+  const job: Job = {
+    id: 7,
+    title: 'Fix a leaking tap',
+    description: '',
+    required_skills: ['plumbing'],
+    location_lat: 13.75,
+    location_lon: 100.5,
+    time_balance_hours: 2,
+    broadcasted: true,
+    created_at: '2024-12-20T08:30:00+07:00',
+    creator_user_id: 90,
+    creator_email: 'requester@example.com',
+    creator_first_name: 'Somchai',
+    creator_last_name: 'Jaidee',
+  };
+  const gardener: SkilledUser = {
+    id: 2,
+    first_name: 'Garden',
+    last_name: 'Helper',
+    email: '2@example.com',
+    skills: ['gardening'],
+    current_lat: 13.75,
+    current_lon: 100.5,
+    distance_km: 1,
+  };
+
+  it('logs a failed run when the best candidate falls below the minimum score', () => {
+    const log = runMatching(job, [gardener], ONLY('skills'));
+
+    expect(log).toMatchObject({ status: 'failed', provider: '', providerId: '', matchScore: 0, confidence: 'Low' });
+    expect(log.candidates?.map((c) => c.providerId)).toEqual(['2']);
+  });
+
+  it('logs a successful run once the best candidate reaches it', () => {
+    const log = runMatching(job, [{ ...gardener, skills: ['plumbing'] }], ONLY('skills'));
+    expect(log).toMatchObject({ status: 'success', providerId: '2', matchScore: 100 });
+  });
+
+  it('logs a failed run when nobody has the skills listed', () => {
+    expect(runMatching(job, [])).toMatchObject({ status: 'failed', matchScore: 0, candidates: [] });
+  });
+});
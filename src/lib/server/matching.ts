@@ -0,0 +1,158 @@
+import {
+  MIN_MATCH_SCORE,
+  matchFactorSchema,
+  matchWeightsSchema,
+  type Job,
+  type MatchCandidateScore,
+  type MatchConfidence,
+  type MatchFactorScores,
+  type MatchLog,
+  type MatchWeights,
+  type ProviderProfile,
+  type SkilledUser,
+} from '@/domain';
+import { getDb } from './db';
+
+// Used when MATCH_WEIGHTS is unset; relative, so only their ratios matter
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  skills: 35,
+  distance: 25,
+  rating: 15,
+  workload: 10,
+  availability: 10,
+  noShows: 5,
+};
+
+// Distance scores fall linearly to zero at this range
+const MAX_TRAVEL_KM = 50;
+// Best candidate plus runners-up kept on the log
+const LOGGED_CANDIDATES = 5;
+
+export type MatchCandidate = {
+  providerId: string;
+  name: string;
+  skills: string[];
+  distanceKm: number | null;
+  profile: ProviderProfile | undefined;
+};
+
+/**
+ * Weights from the `MATCH_WEIGHTS` environment variable (JSON, e.g. `{"distance":40}`), each missing factor
+ * falling back to its default. An unreadable value is reported and the defaults apply.
+ */
+export function configuredMatchWeights(): MatchWeights {
+  const raw = process.env.MATCH_WEIGHTS;
+  if (!raw) return DEFAULT_MATCH_WEIGHTS;
+  try {
+    return matchWeightsSchema.parse({ ...DEFAULT_MATCH_WEIGHTS, ...JSON.parse(raw) });
+  } catch (error) {
+    console.error('Ignoring invalid MATCH_WEIGHTS:', error);
+    return DEFAULT_MATCH_WEIGHTS;
+  }
+}
+
+// Three decimals keep scores stable across runs and readable in the log
+function round(value: number, places = 3) {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function factorScores(requiredSkills: string[], candidate: MatchCandidate): MatchFactorScores {
+  const skills = new Set(candidate.skills.map((skill) => skill.trim().toLowerCase()));
+  const required = [...new Set(requiredSkills.map((skill) => skill.trim().toLowerCase()))];
+  const profile = candidate.profile;
+
+  return {
+    skills: required.length === 0 ? 1 : round(required.filter((skill) => skills.has(skill)).length / required.length),
+    distance: candidate.distanceKm === null ? 0 : round(1 - Math.min(candidate.distanceKm, MAX_TRAVEL_KM) / MAX_TRAVEL_KM),
+    // Unrated providers sit in the middle rather than at the bottom
+    rating: profile?.rating == null ? 0.5 : round(profile.rating / 5),
+    workload: round(1 / (1 + (profile?.activeJobs ?? 0))),
+    availability: profile?.available === false ? 0 : 1,
+    noShows: round(1 / (1 + (profile?.noShows ?? 0))),
+  };
+}
+
+/**
+ * Ranks candidates for a job by the weighted mean of their factor scores, as a 0–100 score. Pure and
+ * deterministic: ties go to the nearer provider, then to the lower provider id.
+ */
+export function rankCandidates(requiredSkills: string[], candidates: MatchCandidate[], weights: MatchWeights): MatchCandidateScore[] {
+  const totalWeight = matchFactorSchema.options.reduce((sum, factor) => sum + weights[factor], 0);
+
+  return candidates
+    .map((candidate) => {
+      const factors = factorScores(requiredSkills, candidate);
+      const weighted = matchFactorSchema.options.reduce((sum, factor) => sum + weights[factor] * factors[factor], 0);
+      return {
+        providerId: candidate.providerId,
+        provider: candidate.name,
+        score: round((weighted / totalWeight) * 100, 1),
+        factors,
+        distanceKm: candidate.distanceKm === null ? null : round(candidate.distanceKm, 2),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity) ||
+        a.providerId.localeCompare(b.providerId),
+    );
+}
+
+// High needs a strong score and a clear lead over the runner-up; a close call is at most Medium
+export function matchConfidence(best: MatchCandidateScore | undefined, runnerUp: MatchCandidateScore | undefined): MatchConfidence {
+  if (!best || best.score < MIN_MATCH_SCORE) return 'Low';
+  const lead = runnerUp ? best.score - runnerUp.score : best.score;
+  if (best.score >= 75 && lead >= 10) return 'High';
+  return best.score >= 60 ? 'Medium' : 'Low';
+}
+
+function nextMatchLogId(logs: MatchLog[]) {
+  const highest = logs.reduce((max, l) => {
+    const n = Number(l.id.replace(/^LOG-/, ''));
+    return Number.isFinite(n) ? Math.max(max, n) : max;
+  }, 0);
+  return `LOG-${String(highest + 1).padStart(3, '0')}`;
+}
+
+/**
+ * Ranks the upstream skilled users for `job` using the panel's provider profiles and records the run as a match
+ * log. A run without a suitable candidate is logged as failed.
+ */
+export function runMatching(job: Job, users: SkilledUser[], weights: MatchWeights = configuredMatchWeights()): MatchLog {
+  const db = getDb();
+
+  return db.transaction((): MatchLog => {
+    const candidates = users.map((user) => ({
+      providerId: String(user.id),
+      name: `${user.first_name} ${user.last_name}`.trim(),
+      skills: user.skills,
+      distanceKm: Number.isFinite(user.distance_km) ? user.distance_km : null,
+      profile: db.providerProfiles.get(String(user.id)),
+    }));
+    const ranked = rankCandidates(job.required_skills, candidates, weights);
+    const [best, runnerUp] = ranked;
+    const succeeded = best !== undefined && best.score >= MIN_MATCH_SCORE;
+    const bestProfile = best ? db.providerProfiles.get(best.providerId) : undefined;
+
+    return db.matchLogs.insert({
+      id: nextMatchLogId(db.matchLogs.list()),
+      requester: `${job.creator_first_name} ${job.creator_last_name}`.trim(),
+      requesterId: String(job.creator_user_id),
+      age: null,
+      requestType: job.required_skills.join(', '),
+      requestDetail: job.title,
+      provider: succeeded ? best.provider : '',
+      providerId: succeeded ? best.providerId : '',
+      rating: succeeded ? (bestProfile?.rating ?? null) : null,
+      matchedAt: new Date().toISOString(),
+      matchScore: best?.score ?? 0,
+      confidence: matchConfidence(best, runnerUp),
+      status: succeeded ? 'success' : 'failed',
+      jobId: job.id,
+      weights,
+      candidates: ranked.slice(0, LOGGED_CANDIDATES),
+    });
+  });
+}
@@ -0,0 +1,25 @@
+import { randomUUID } from 'crypto';
+import type { Notification } from '@/domain';
+import { getDb } from './db';
+
+export type NotificationInput = {
+  recipientId: string | null;
+  recipientName: string;
+  subject: string;
+  body: string;
+  reference?: string | null;
+};
+
+// Queues a message for delivery by the app; joins the caller's transaction so it is only sent if the change commits
+export function notifyMember(input: NotificationInput): Notification {
+  return getDb().notifications.insert({
+    id: randomUUID(),
+    recipientId: input.recipientId,
+    recipientName: input.recipientName,
+    subject: input.subject,
+    body: input.body,
+    reference: input.reference ?? null,
+    createdAt: new Date().toISOString(),
+    deliveredAt: null,
+  });
+}
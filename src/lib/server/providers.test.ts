@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { updateProviderProfileSchema, type Job, type SkilledUser } from '@/domain';
+import { resetDb, TEST_ADMIN } from '@/test/db';
+import { getDb } from './db';
+import { runMatching } from './matching';
+import { listProviderProfiles, updateProviderProfile } from './providers';
+
+const JOB: Job = {
+  id: 7,
+  title: 'Fix a leaking tap',
+  description: '',
+  required_skills: ['plumbing'],
+  location_lat: 13.75,
+  location_lon: 100.5,
+  time_balance_hours: 2,
+  broadcasted: true,
+  created_at: '2024-12-20T08:30:00+07:00',
+  creator_user_id: 90,
+  creator_email: 'requester@example.com',
+  creator_first_name: 'Somchai',
+  creator_last_name: 'Jaidee',
+};
+
+function plumber(id: number): SkilledUser {
+  return {
+    id,
+    first_name: 'Plumber',
+    last_name: String(id),
+    email: `${id}@example.com`,
+    skills: ['plumbing'],
+    current_lat: 13.75,
+    current_lon: 100.5,
+    distance_km: 2,
+  };
+}
+
+describe('updateProviderProfile', () => {
+  beforeEach(resetDb);
+
+  it('creates the profile on first use and audits the change', () => {
+    const profile = updateProviderProfile(12, { rating: 4.5 }, TEST_ADMIN);
+
+    expect(profile).toMatchObject({ id: '12', rating: 4.5, available: true, activeJobs: 0, noShows: 0 });
+    expect(listProviderProfiles()).toHaveLength(1);
+    expect(getDb().auditLog.list().at(-1)).toMatchObject({
+      action: 'provider.update_profile',
+      entityType: 'provider',
+      entityId: '12',
+      before: { rating: null, available: true },
+      after: { rating: 4.5, available: true },
+    });
+  });
+
+  it('leaves fields out of the update alone', () => {
+    updateProviderProfile(12, { rating: 4.5 }, TEST_ADMIN);
+    expect(updateProviderProfile(12, { available: false }, TEST_ADMIN)).toMatchObject({ rating: 4.5, available: false });
+    expect(updateProviderProfile(12, { rating: null }, TEST_ADMIN)).toMatchObject({ rating: null, available: false });
+  });
+
+  it('rejects ratings outside 0–5 and empty updates', () => {
+    expect(updateProviderProfileSchema.safeParse({ rating: 6 }).success).toBe(false);
+    expect(updateProviderProfileSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('feeds the matching engine', () => {
+    updateProviderProfile(1, { available: false }, TEST_ADMIN);
+    updateProviderProfile(2, { rating: 5 }, TEST_ADMIN);
+    const log = runMatching(JOB, [plumber(1), plumber(2)]);
+
+    expect(log).toMatchObject({ providerId: '2', rating: 5 });
+    expect(log.candidates?.find((c) => c.providerId === '1')?.factors.availability).toBe(0);
+  });
+});
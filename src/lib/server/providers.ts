@@ -0,0 +1,40 @@
+import type { ProviderProfile, UpdateProviderProfile } from '@/domain';
+import { recordAudit } from './audit';
+import { getDb } from './db';
+import type { SessionUser } from './session';
+
+export function listProviderProfiles(): ProviderProfile[] {
+  return getDb().providerProfiles.list();
+}
+
+// A provider's profile, created with neutral values the first time the panel records anything about them
+export function ensureProviderProfile(providerId: number): ProviderProfile {
+  const db = getDb();
+  const id = String(providerId);
+  return db.providerProfiles.get(id) ?? db.providerProfiles.insert({ id, rating: null, activeJobs: 0, noShows: 0, available: true, updatedAt: new Date().toISOString() });
+}
+
+/**
+ * Sets the rating and availability the matching engine weighs for an upstream provider. Any upstream user id
+ * is accepted, since providers only exist upstream; the change is audited.
+ */
+export function updateProviderProfile(providerId: number, input: UpdateProviderProfile, actor: SessionUser): ProviderProfile {
+  const db = getDb();
+  return db.transaction(() => {
+    const profile = ensureProviderProfile(providerId);
+    const updated = db.providerProfiles.update(profile.id, {
+      ...(input.rating !== undefined && { rating: input.rating }),
+      ...(input.available !== undefined && { available: input.available }),
+      updatedAt: new Date().toISOString(),
+    });
+    recordAudit({
+      actor,
+      action: 'provider.update_profile',
+      entityType: 'provider',
+      entityId: providerId,
+      before: { rating: profile.rating, available: profile.available },
+      after: { rating: updated.rating, available: updated.available },
+    });
+    return updated;
+  });
+}
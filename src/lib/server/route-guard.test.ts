@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextResponse } from 'next/server';
+import { requestWithCookies, signExpiredToken, signToken, silenceSessionLogs, stubUpstreamRejectingTokens } from '@/test/session';
+import { withPermission } from './route-guard';
+
+const ROUTE_URL = 'http://localhost/api/transfers';
+
+describe('withPermission', () => {
+  const handler = vi.fn(async () => NextResponse.json({ ok: true }));
+  const route = withPermission('transfers:create', handler);
+
+  beforeEach(() => {
+    silenceSessionLogs();
+    stubUpstreamRejectingTokens();
+    handler.mockClear();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('answers 401 to an anonymous request without running the handler', async () => {
+    const res = await route(requestWithCookies(ROUTE_URL), undefined);
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ success: false, message: 'Not authenticated' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('answers 401 "Session expired" to an expired token', async () => {
+    const res = await route(requestWithCookies(ROUTE_URL, { access: await signExpiredToken({ role: 'admin' }), refresh: 'stale' }), undefined);
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ success: false, message: 'Session expired' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('answers 403 to a signed-in role without the permission', async () => {
+    const res = await route(requestWithCookies(ROUTE_URL, { access: await signToken({ role: 'viewer' }) }), undefined);
+    expect(res.status).toBe(403);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('answers 403 to a role the panel does not know', async () => {
+    const res = await route(requestWithCookies(ROUTE_URL, { access: await signToken({ role: 'member' }) }), undefined);
+    expect(res.status).toBe(403);
+  });
+
+  it('runs the handler with the session user for an admin', async () => {
+    const res = await route(requestWithCookies(ROUTE_URL, { access: await signToken({ id: 1, role: 'admin' }) }), undefined);
+    expect(res.status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(expect.anything(), undefined, { id: 1, email: undefined, role: 'admin' });
+  });
+
+  it('resolves a request-dependent permission', async () => {
+    const methodRoute = withPermission((req) => (req.method === 'GET' ? 'transfers:read' : 'transfers:create'), handler);
+    const access = await signToken({ role: 'viewer' });
+
+    expect((await methodRoute(requestWithCookies(ROUTE_URL, { access }), undefined)).status).toBe(200);
+    expect((await methodRoute(requestWithCookies(ROUTE_URL, { access }, { method: 'POST' }), undefined)).status).toBe(403);
+  });
+});
@@ -0,0 +1,50 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { hasPermission, type Permission } from '@/lib/permissions';
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, setAuthCookies } from './auth';
+import { resolveSession, type SessionUser } from './session';
+
+export type AuthedRouteHandler<Context> = (
+  req: NextRequest,
+  context: Context,
+  user: SessionUser,
+) => Promise<Response> | Response;
+
+// Either a fixed permission or one derived from the request (e.g. method-dependent routes)
+type PermissionRequirement<Context> = Permission | ((req: NextRequest, context: Context) => Permission | Promise<Permission>);
+
+/**
+ * Wraps a route handler with the same session checks as the page middleware,
+ * answering 401/403 JSON instead of redirecting to the login page.
+ */
+export function withPermission<Context = unknown>(
+  requirement: PermissionRequirement<Context>,
+  handler: AuthedRouteHandler<Context>,
+) {
+  return async (req: NextRequest, context: Context) => {
+    const session = await resolveSession(
+      req.cookies.get(ACCESS_TOKEN_COOKIE)?.value,
+      req.cookies.get(REFRESH_TOKEN_COOKIE)?.value,
+    );
+
+    if (session.status === 'anonymous' || session.status === 'expired') {
+      return NextResponse.json(
+        { success: false, message: session.status === 'expired' ? 'Session expired' : 'Not authenticated' },
+        { status: 401 },
+      );
+    }
+
+    const permission = typeof requirement === 'function' ? await requirement(req, context) : requirement;
+    if (session.status === 'forbidden' || !hasPermission(session.user.role, permission)) {
+      return NextResponse.json(
+        { success: false, message: `Forbidden: missing permission ${permission}` },
+        { status: 403 },
+      );
+    }
+
+    const response = await handler(req, context, session.user);
+    if (session.refreshedTokens && response instanceof NextResponse) {
+      setAuthCookies(response, session.refreshedTokens);
+    }
+    return response;
+  };
+}
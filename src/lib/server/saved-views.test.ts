@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { resetDb, SECOND_ADMIN, TEST_ADMIN } from '@/test/db';
+import { createSavedView, deleteSavedView, listSavedViews, savedViewOwner } from './saved-views';
+
+const OVERDUE = { listId: 'withdrawals' as const, name: 'Overdue', filters: { status: 'pending', to: '2024-12-01' } };
+
+describe('saved views', () => {
+  beforeEach(resetDb);
+
+  it('keys views by the session user id, falling back to the email', () => {
+    expect(savedViewOwner(TEST_ADMIN)).toBe('1');
+    expect(savedViewOwner({ email: 'ops@example.com', role: 'admin' })).toBe('ops@example.com');
+  });
+
+  it('lists only the caller’s own views for the requested list', () => {
+    createSavedView(OVERDUE, TEST_ADMIN);
+    createSavedView({ ...OVERDUE, listId: 'transfers' }, TEST_ADMIN);
+    createSavedView({ ...OVERDUE, name: 'Theirs' }, SECOND_ADMIN);
+
+    expect(listSavedViews(TEST_ADMIN, 'withdrawals').map((view) => view.name)).toEqual(['Overdue']);
+    expect(listSavedViews(TEST_ADMIN)).toHaveLength(2);
+    expect(listSavedViews(SECOND_ADMIN, 'withdrawals').map((view) => view.name)).toEqual(['Theirs']);
+  });
+
+  it('refuses a second view with the same name on a list', () => {
+    createSavedView(OVERDUE, TEST_ADMIN);
+    expect(createSavedView(OVERDUE, TEST_ADMIN)).toMatchObject({ ok: false, status: 409 });
+    expect(createSavedView(OVERDUE, SECOND_ADMIN)).toMatchObject({ ok: true });
+  });
+
+  it('deletes the caller’s view but answers 404 for another admin’s', () => {
+    const created = createSavedView(OVERDUE, TEST_ADMIN);
+    if (!created.ok) throw new Error(created.message);
+
+    expect(deleteSavedView(created.view.id, SECOND_ADMIN)).toMatchObject({ ok: false, status: 404 });
+    expect(deleteSavedView(created.view.id, TEST_ADMIN)).toMatchObject({ ok: true });
+    expect(listSavedViews(TEST_ADMIN)).toEqual([]);
+    expect(deleteSavedView(created.view.id, TEST_ADMIN)).toMatchObject({ ok: false, status: 404 });
+  });
+});
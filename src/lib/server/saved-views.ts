@@ -0,0 +1,58 @@
+import { randomUUID } from 'crypto';
+import type { CreateSavedView, SavedView, SavedViewList } from '@/domain';
+import { getDb } from './db';
+import type { SessionUser } from './session';
+
+export type SavedViewResult =
+  | { ok: true; view: SavedView }
+  | { ok: false; status: 404 | 409; message: string };
+
+// Whose views these are: the upstream user id, or the email for tokens that carry none
+export function savedViewOwner(user: SessionUser) {
+  return user.id !== undefined ? String(user.id) : user.email ?? user.role;
+}
+
+function ownViews(user: SessionUser) {
+  const owner = savedViewOwner(user);
+  return getDb()
+    .savedViews.list()
+    .filter((view) => view.ownerId === owner && !view.deletedAt);
+}
+
+// The signed-in admin's views, oldest first, optionally for one list
+export function listSavedViews(user: SessionUser, listId?: SavedViewList): SavedView[] {
+  return ownViews(user)
+    .filter((view) => !listId || view.listId === listId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function createSavedView(input: CreateSavedView, user: SessionUser): SavedViewResult {
+  const db = getDb();
+  return db.transaction((): SavedViewResult => {
+    if (ownViews(user).some((view) => view.listId === input.listId && view.name === input.name)) {
+      return { ok: false, status: 409, message: `A view named ${input.name} already exists for this list` };
+    }
+    const view = db.savedViews.insert({
+      id: randomUUID(),
+      ownerId: savedViewOwner(user),
+      listId: input.listId,
+      name: input.name,
+      filters: input.filters,
+      createdAt: new Date().toISOString(),
+      deletedAt: null,
+    });
+    return { ok: true, view };
+  });
+}
+
+// Another admin's view answers 404 like a missing one, so ids cannot be probed
+export function deleteSavedView(id: string, user: SessionUser): SavedViewResult {
+  const db = getDb();
+  return db.transaction((): SavedViewResult => {
+    const view = db.savedViews.get(id);
+    if (!view || view.deletedAt || view.ownerId !== savedViewOwner(user)) {
+      return { ok: false, status: 404, message: 'Saved view not found' };
+    }
+    return { ok: true, view: db.savedViews.update(id, { deletedAt: new Date().toISOString() }) };
+  });
+}
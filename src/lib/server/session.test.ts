@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { signExpiredToken, signToken, silenceSessionLogs, stubUpstreamRejectingTokens } from '@/test/session';
+import { readSessionUser, resolveSession, SESSION_USER_HEADER } from './session';
+
+describe('resolveSession', () => {
+  beforeEach(() => {
+    silenceSessionLogs();
+    stubUpstreamRejectingTokens();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('is anonymous without any auth cookie', async () => {
+    expect(await resolveSession()).toEqual({ status: 'anonymous' });
+  });
+
+  it('authenticates an admin token signed with the panel key', async () => {
+    const result = await resolveSession(await signToken({ id: 7, email: 'admin@example.com', role: 'admin' }));
+    expect(result).toEqual({ status: 'authenticated', user: { id: 7, email: 'admin@example.com', role: 'admin' } });
+  });
+
+  it('marks a valid token for a role without panel permissions as forbidden', async () => {
+    const result = await resolveSession(await signToken({ id: 8, role: 'member' }));
+    expect(result.status).toBe('forbidden');
+  });
+
+  it('treats an expired token the upstream also rejects as expired', async () => {
+    const fetchMock = stubUpstreamRejectingTokens();
+    expect(await resolveSession(await signExpiredToken({ id: 7, role: 'admin' }))).toEqual({ status: 'expired' });
+    expect(fetchMock).toHaveBeenCalledWith(expect.stringContaining('/api/auth/me'), expect.anything());
+  });
+
+  it('is expired when the refresh token is refused as well', async () => {
+    const result = await resolveSession(await signExpiredToken({ id: 7, role: 'admin' }), 'stale-refresh');
+    expect(result).toEqual({ status: 'expired' });
+  });
+
+  it('recovers through the refresh token and hands back the new pair', async () => {
+    const fresh = await signToken({ id: 7, role: 'moderator' });
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) =>
+        url.endsWith('/api/auth/refresh')
+          ? new Response(JSON.stringify({ accessToken: fresh, refreshToken: 'next-refresh' }))
+          : new Response('{}', { status: 401 }),
+      ),
+    );
+
+    const result = await resolveSession(await signExpiredToken({ id: 7, role: 'moderator' }), 'refresh');
+    expect(result).toEqual({
+      status: 'authenticated',
+      user: { id: 7, email: undefined, role: 'moderator' },
+      refreshedTokens: { accessToken: fresh, refreshToken: 'next-refresh' },
+    });
+  });
+});
+
+describe('readSessionUser', () => {
+  it('reads the user the middleware forwarded', () => {
+    const headers = new Headers({ [SESSION_USER_HEADER]: JSON.stringify({ id: 1, role: 'viewer' }) });
+    expect(readSessionUser(headers)).toEqual({ id: 1, email: undefined, role: 'viewer' });
+  });
+
+  it('ignores a missing or malformed header', () => {
+    expect(readSessionUser(new Headers())).toBeNull();
+    expect(readSessionUser(new Headers({ [SESSION_USER_HEADER]: 'not json' }))).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTransferSchema, memberAccount, reverseTransferSchema } from '@/domain';
+import { resetDb, SECOND_ADMIN, TEST_ADMIN as ADMIN } from '@/test/db';
+import { getDb } from './db';
+import { memberBalance } from './ledger';
+import { createManualTransfer, decideReversal, requestReversal } from './transfers';
+
+describe('createManualTransfer', () => {
+  beforeEach(resetDb);
+
+  const transfer = { senderId: 'M001', receiverId: 'M003', amount: 4, reason: 'Garden work' };
+
+  it('moves the hours with a balanced entry and records who issued it', () => {
+    const [sender, receiver] = [memberBalance('M001'), memberBalance('M003')];
+
+    const result = createManualTransfer(transfer, ADMIN);
+    if (!result.ok) throw new Error(result.message);
+
+    expect(result.transfer).toMatchObject({ senderId: 'M001', receiverId: 'M003', amount: 4, type: 'manual', createdBy: ADMIN.email });
+    expect(getDb().journal.list().find((entry) => entry.reference === result.transfer.id)?.postings).toEqual([
+      { account: memberAccount('M001'), amount: -4 },
+      { account: memberAccount('M003'), amount: 4 },
+    ]);
+    expect([memberBalance('M001'), memberBalance('M003')]).toEqual([sender - 4, receiver + 4]);
+    expect(getDb().members.get('M001')?.credits).toBe(sender - 4);
+  });
+
+  it('refuses inactive members on either side', () => {
+    getDb().members.update('M003', { status: 'inactive' });
+    expect(createManualTransfer(transfer, ADMIN)).toMatchObject({ ok: false, status: 409, message: 'Member M003 is inactive' });
+    expect(createManualTransfer({ ...transfer, senderId: 'M003', receiverId: 'M001' }, ADMIN)).toMatchObject({ ok: false, status: 409 });
+  });
+
+  it('refuses more than the sender holds and writes nothing', () => {
+    const [transfers, entries] = [getDb().transfers.list().length, getDb().journal.list().length];
+
+    // M008 holds 2 hours
+    expect(createManualTransfer({ ...transfer, senderId: 'M008' }, ADMIN)).toMatchObject({ ok: false, status: 422 });
+    expect(getDb().transfers.list()).toHaveLength(transfers);
+    expect(getDb().journal.list()).toHaveLength(entries);
+  });
+
+  it('refuses transfers to oneself and amounts that are not positive', () => {
+    expect(createTransferSchema.safeParse({ ...transfer, receiverId: 'M001' }).success).toBe(false);
+    expect(createTransferSchema.safeParse({ ...transfer, amount: 0 }).success).toBe(false);
+    expect(createTransferSchema.safeParse({ ...transfer, amount: -2 }).success).toBe(false);
+    expect(createTransferSchema.safeParse(transfer).success).toBe(true);
+  });
+});
+
+describe('requestReversal', () => {
+  beforeEach(resetDb);
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('reverses straight away when no threshold is configured', () => {
+    const result = requestReversal('TXN002', { reason: 'duplicate' }, ADMIN);
+    expect(result).toMatchObject({ ok: true, original: { status: 'reversed' } });
+    expect(result.ok && result.compensating?.reversalOf).toBe('TXN002');
+  });
+
+  it('treats an unreadable threshold as unset', () => {
+    vi.stubEnv('TRANSFER_REVERSAL_APPROVAL_HOURS', 'lots');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(requestReversal('TXN002', { reason: 'duplicate' }, ADMIN)).toMatchObject({ ok: true, original: { status: 'reversed' } });
+  });
+
+  it('ignores a caller asking to skip the second approval', () => {
+    vi.stubEnv('TRANSFER_REVERSAL_APPROVAL_HOURS', '0');
+    const input = reverseTransferSchema.parse({ reason: 'duplicate', requireSecondApproval: false });
+    expect(requestReversal('TXN002', input, ADMIN)).toMatchObject({ ok: true, original: { status: 'reversal_pending' } });
+  });
+
+  it('reverses straight away below the configured threshold', () => {
+    vi.stubEnv('TRANSFER_REVERSAL_APPROVAL_HOURS', '5');
+    const result = requestReversal('TXN002', { reason: 'duplicate' }, ADMIN);
+    expect(result).toMatchObject({ ok: true, original: { status: 'reversed' } });
+    expect(result.ok && result.compensating?.reversalOf).toBe('TXN002');
+  });
+
+  it('holds reversals at or above the threshold', () => {
+    vi.stubEnv('TRANSFER_REVERSAL_APPROVAL_HOURS', '3');
+    expect(requestReversal('TXN002', { reason: 'duplicate' }, ADMIN)).toMatchObject({ original: { status: 'reversal_pending' } });
+  });
+
+  it('only lets a different admin approve the pending reversal', () => {
+    vi.stubEnv('TRANSFER_REVERSAL_APPROVAL_HOURS', '0');
+    requestReversal('TXN002', { reason: 'duplicate' }, ADMIN);
+    expect(decideReversal('TXN002', true, ADMIN)).toMatchObject({ ok: false, status: 403 });
+    expect(decideReversal('TXN002', true, SECOND_ADMIN)).toMatchObject({ ok: true, original: { status: 'reversed' } });
+    expect(getDb().transfers.get('TXN002')?.reversedBy).toBeTruthy();
+  });
+});
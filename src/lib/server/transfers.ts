@@ -0,0 +1,249 @@
+import {
+  isReversible,
+  type CreateTransferInput,
+  type Member,
+  type ReverseTransferInput,
+  type Transfer,
+} from '@/domain';
+import { recordAudit } from './audit';
+import { getDb } from './db';
+import { memberBalance, moveMemberCredits, releaseEscrow } from './ledger';
+import type { SessionUser } from './session';
+
+export type TransferResult =
+  | { ok: true; transfer: Transfer }
+  | { ok: false; status: 404 | 409 | 422; message: string };
+
+export type ReversalResult =
+  | { ok: true; original: Transfer; compensating: Transfer | null }
+  | { ok: false; status: 403 | 404 | 409 | 422; message: string };
+
+// `warning` only means the balance is running low; the account itself is still usable
+export function isUsable(member: Member) {
+  return member.status !== 'inactive';
+}
+
+function nextTransferId(transfers: Transfer[]) {
+  const highest = transfers.reduce((max, t) => {
+    const n = Number(t.id.replace(/^TXN/, ''));
+    return Number.isFinite(n) ? Math.max(max, n) : max;
+  }, 0);
+  return `TXN${String(highest + 1).padStart(3, '0')}`;
+}
+
+/**
+ * Smallest reversal, in hours, that waits for a second admin, from `TRANSFER_REVERSAL_APPROVAL_HOURS`. Second
+ * approval is opt-in: null while the setting is unset or unreadable, and every reversal then runs at once.
+ */
+export function reversalApprovalThreshold(): number | null {
+  const raw = process.env.TRANSFER_REVERSAL_APPROVAL_HOURS;
+  if (!raw) return null;
+  const hours = Number(raw);
+  if (Number.isFinite(hours) && hours >= 0) return hours;
+  console.warn('Ignoring invalid TRANSFER_REVERSAL_APPROVAL_HOURS:', raw);
+  return null;
+}
+
+export function needsSecondApproval(transfer: Transfer) {
+  const threshold = reversalApprovalThreshold();
+  return threshold !== null && transfer.amount >= threshold;
+}
+
+export function actorLabel(actor: SessionUser) {
+  return actor.email ?? (actor.id !== undefined ? String(actor.id) : actor.role);
+}
+
+/**
+ * Issues a manual transfer on a member's behalf. Input shape (positive amount, reason, distinct members)
+ * is validated by `createTransferSchema`; this checks the members and the sender's ledger balance.
+ */
+export function createManualTransfer(input: CreateTransferInput, actor: SessionUser): TransferResult {
+  const db = getDb();
+  return db.transaction((): TransferResult => {
+    const sender = db.members.get(input.senderId);
+    const receiver = db.members.get(input.receiverId);
+
+    if (!sender || !receiver) {
+      return { ok: false, status: 404, message: `Member ${!sender ? input.senderId : input.receiverId} not found` };
+    }
+    if (!isUsable(sender) || !isUsable(receiver)) {
+      return { ok: false, status: 409, message: `Member ${!isUsable(sender) ? sender.id : receiver.id} is inactive` };
+    }
+
+    const senderBalance = memberBalance(sender.id);
+    const receiverBalance = memberBalance(receiver.id);
+    if (senderBalance < input.amount) {
+      return { ok: false, status: 422, message: 'Sender balance is lower than the transfer amount' };
+    }
+
+    const transfer = db.transfers.insert({
+      id: nextTransferId(db.transfers.list()),
+      senderId: sender.id,
+      sender: sender.name,
+      receiverId: receiver.id,
+      receiver: receiver.name,
+      amount: input.amount,
+      createdAt: new Date().toISOString(),
+      reason: input.reason,
+      status: 'success',
+      type: 'manual',
+      createdBy: actorLabel(actor),
+    });
+    moveMemberCredits(sender.id, receiver.id, input.amount, input.reason, transfer.id);
+
+    recordAudit({
+      actor,
+      action: 'transfer.create',
+      entityType: 'transfer',
+      entityId: transfer.id,
+      before: { senderBalance, receiverBalance },
+      after: { senderBalance: memberBalance(sender.id), receiverBalance: memberBalance(receiver.id), amount: input.amount },
+      reason: input.reason,
+    });
+
+    return { ok: true, transfer };
+  });
+}
+
+/**
+ * Pays a provider for a finished help request, either straight from the payer or out of the hours held
+ * in escrow for it. Callers check both members and the payer's balance, and run this inside their own transaction.
+ */
+export function createServiceTransfer(
+  payer: Member,
+  payee: Member,
+  amount: number,
+  reason: string,
+  actor: SessionUser,
+  { fromEscrow = false }: { fromEscrow?: boolean } = {},
+) {
+  const db = getDb();
+  const transfer = db.transfers.insert({
+    id: nextTransferId(db.transfers.list()),
+    senderId: payer.id,
+    sender: payer.name,
+    receiverId: payee.id,
+    receiver: payee.name,
+    amount,
+    createdAt: new Date().toISOString(),
+    reason,
+    status: 'success',
+    type: 'service',
+    createdBy: actorLabel(actor),
+  });
+  if (fromEscrow) releaseEscrow(payee.id, amount, reason, transfer.id);
+  else moveMemberCredits(payer.id, payee.id, amount, reason, transfer.id);
+  return transfer;
+}
+
+export function findTransfer(id: string) {
+  return getDb().transfers.get(id);
+}
+
+// Posts the compensating transfer (receiver pays the sender back) and links both rows
+function executeReversal(original: Transfer, reason: string, actor: SessionUser): ReversalResult {
+  const db = getDb();
+  if (memberBalance(original.receiverId) < original.amount) {
+    return { ok: false, status: 422, message: `Receiver ${original.receiverId} no longer holds enough credits to refund` };
+  }
+
+  const compensating = db.transfers.insert({
+    id: nextTransferId(db.transfers.list()),
+    senderId: original.receiverId,
+    sender: original.receiver,
+    receiverId: original.senderId,
+    receiver: original.sender,
+    amount: original.amount,
+    createdAt: new Date().toISOString(),
+    reason,
+    status: 'success',
+    type: 'reversal',
+    createdBy: actorLabel(actor),
+    reversalOf: original.id,
+  });
+  moveMemberCredits(original.receiverId, original.senderId, original.amount, reason, compensating.id);
+
+  const reversed = db.transfers.update(original.id, { status: 'reversed', reversedBy: compensating.id });
+
+  recordAudit({
+    actor,
+    action: 'transfer.reverse',
+    entityType: 'transfer',
+    entityId: original.id,
+    before: { status: original.status },
+    after: { status: reversed.status, reversedBy: compensating.id, requestedBy: original.reversalRequest?.requestedBy ?? null },
+    reason,
+  });
+
+  return { ok: true, original: reversed, compensating };
+}
+
+/**
+ * Reverses a settled transfer, or parks it as `reversal_pending` when a second-approval threshold is configured
+ * and its amount reaches it. The caller has no say in which: the policy is the server's.
+ */
+export function requestReversal(id: string, input: ReverseTransferInput, actor: SessionUser): ReversalResult {
+  const db = getDb();
+  return db.transaction((): ReversalResult => {
+    const original = db.transfers.get(id);
+    if (!original) {
+      return { ok: false, status: 404, message: 'Transfer not found' };
+    }
+    if (!isReversible(original)) {
+      return { ok: false, status: 409, message: `Transfer ${id} cannot be reversed (status ${original.status})` };
+    }
+
+    if (!needsSecondApproval(original)) {
+      return executeReversal(original, input.reason, actor);
+    }
+
+    const pending = db.transfers.update(id, {
+      status: 'reversal_pending',
+      reversalRequest: { requestedBy: actorLabel(actor), requestedAt: new Date().toISOString(), reason: input.reason },
+    });
+    recordAudit({
+      actor,
+      action: 'transfer.reverse_request',
+      entityType: 'transfer',
+      entityId: id,
+      before: { status: original.status },
+      after: { status: pending.status },
+      reason: input.reason,
+    });
+    return { ok: true, original: pending, compensating: null };
+  });
+}
+
+// Second-admin decision on a pending reversal; the requester cannot approve their own request
+export function decideReversal(id: string, approve: boolean, actor: SessionUser, note?: string): ReversalResult {
+  const db = getDb();
+  return db.transaction((): ReversalResult => {
+    const original = db.transfers.get(id);
+    if (!original) {
+      return { ok: false, status: 404, message: 'Transfer not found' };
+    }
+    const request = original.reversalRequest;
+    if (original.status !== 'reversal_pending' || !request) {
+      return { ok: false, status: 409, message: `Transfer ${id} has no pending reversal` };
+    }
+    if (approve && request.requestedBy === actorLabel(actor)) {
+      return { ok: false, status: 403, message: 'A second admin must approve this reversal' };
+    }
+
+    if (approve) {
+      return executeReversal(original, request.reason, actor);
+    }
+
+    const restored = db.transfers.update(id, { status: 'success', reversalRequest: null });
+    recordAudit({
+      actor,
+      action: 'transfer.reverse_decline',
+      entityType: 'transfer',
+      entityId: id,
+      before: { status: original.status, requestedBy: request.requestedBy },
+      after: { status: restored.status },
+      reason: note ?? null,
+    });
+    return { ok: true, original: restored, compensating: null };
+  });
+}
@@ -0,0 +1,138 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  ACCESS_TOKEN_COOKIE,
+  API_BASE_URL,
+  REFRESH_TOKEN_COOKIE,
+  refreshTokens,
+  setAuthCookies,
+  type AuthTokens,
+} from './auth';
+
+// Request headers worth forwarding; cookies and host stay on this side of the proxy
+const FORWARDED_REQUEST_HEADERS = ['accept', 'accept-language', 'content-type'];
+
+function callUpstream(req: NextRequest, upstreamPath: string, accessToken: string, method: string, body: BodyInit | undefined) {
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  headers.set('Authorization', `Bearer ${accessToken}`);
+
+  return fetch(`${API_BASE_URL}${upstreamPath}${req.nextUrl.search}`, {
+    method,
+    headers,
+    body,
+    cache: 'no-store',
+  });
+}
+
+/**
+ * Forwards a same-origin request to the upstream backend using the httpOnly cookie token,
+ * refreshing the token pair once if the upstream answers 401. `options.json` replaces the request body,
+ * e.g. to leave out fields only the panel uses, and `options.method` the request method, for routes that
+ * make a different upstream call than the one they were asked for.
+ */
+export async function proxyToUpstream(
+  req: NextRequest,
+  upstreamPath: string,
+  options: { json?: unknown; method?: string } = {},
+) {
+  const method = options.method ?? req.method;
+  const accessToken = req.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const refreshToken = req.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+  if (!accessToken && !refreshToken) {
+    return NextResponse.json({ success: false, message: 'Not authenticated' }, { status: 401 });
+  }
+
+  // Buffer the body so it can be replayed after a refresh
+  const body =
+    options.json !== undefined
+      ? JSON.stringify(options.json)
+      : method === 'GET' || method === 'HEAD'
+        ? undefined
+        : await req.arrayBuffer();
+
+  let refreshed: AuthTokens | null = null;
+  let upstream: Response | null = null;
+
+  try {
+    if (accessToken) {
+      upstream = await callUpstream(req, upstreamPath, accessToken, method, body);
+    }
+
+    if ((!upstream || upstream.status === 401) && refreshToken) {
+      refreshed = await refreshTokens(refreshToken);
+      if (refreshed?.accessToken) {
+        upstream = await callUpstream(req, upstreamPath, refreshed.accessToken, method, body);
+      }
+    }
+  } catch (error) {
+    console.error(`Upstream request to ${upstreamPath} failed:`, error);
+    return NextResponse.json({ success: false, message: 'Upstream service unavailable' }, { status: 502 });
+  }
+
+  if (!upstream) {
+    return NextResponse.json({ success: false, message: 'Session expired' }, { status: 401 });
+  }
+
+  const response = new NextResponse(upstream.status === 204 ? null : await upstream.arrayBuffer(), {
+    status: upstream.status,
+    headers: { 'content-type': upstream.headers.get('content-type') ?? 'application/json' },
+  });
+
+  return refreshed ? setAuthCookies(response, refreshed) : response;
+}
+
+/**
+ * Best-effort upstream GET used to snapshot state before a proxied change (e.g. for the audit trail).
+ * Does not refresh the session; callers treat `null` as "state unknown".
+ */
+export async function fetchUpstreamJson(req: NextRequest, upstreamPath: string): Promise<unknown> {
+  const accessToken = req.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  if (!accessToken) return null;
+
+  try {
+    const res = await fetch(`${API_BASE_URL}${upstreamPath}`, {
+      headers: { accept: 'application/json', Authorization: `Bearer ${accessToken}` },
+      cache: 'no-store',
+    });
+    return res.ok ? await res.json() : null;
+  } catch (error) {
+    console.error(`Upstream snapshot of ${upstreamPath} failed:`, error);
+    return null;
+  }
+}
+
+// Upstream calls made without an admin session, e.g. by the auto-match scheduler
+export type ServiceUpstream = {
+  // Throws when the upstream cannot be reached or does not answer 2xx
+  getJson(upstreamPath: string): Promise<unknown>;
+  postJson(upstreamPath: string, body: unknown): Promise<Response>;
+};
+
+/**
+ * Upstream access authenticated with the long-lived `UPSTREAM_SERVICE_TOKEN` instead of a session cookie.
+ * Null when no token is configured.
+ */
+export function serviceUpstream(): ServiceUpstream | null {
+  const token = process.env.UPSTREAM_SERVICE_TOKEN;
+  if (!token) return null;
+
+  const call = (upstreamPath: string, init: RequestInit = {}) =>
+    fetch(`${API_BASE_URL}${upstreamPath}`, {
+      ...init,
+      headers: { accept: 'application/json', 'content-type': 'application/json', Authorization: `Bearer ${token}` },
+      cache: 'no-store',
+    });
+
+  return {
+    async getJson(upstreamPath) {
+      const res = await call(upstreamPath);
+      if (!res.ok) throw new Error(`Upstream ${upstreamPath} answered ${res.status}`);
+      return res.json();
+    },
+    postJson: (upstreamPath, body) => call(upstreamPath, { method: 'POST', body: JSON.stringify(body) }),
+  };
+}
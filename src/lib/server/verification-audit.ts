@@ -0,0 +1,11 @@
+import type { NextRequest } from 'next/server';
+import { verificationDetailResponseSchema } from '@/domain';
+import { fetchUpstreamJson } from './upstream';
+
+// Status of a verification entry as the upstream reports it right now, for audit "before" snapshots
+export async function snapshotVerificationStatus(req: NextRequest, id: string) {
+  const parsed = verificationDetailResponseSchema.safeParse(
+    await fetchUpstreamJson(req, `/api/admin/verification/${encodeURIComponent(id)}`),
+  );
+  return parsed.success ? { status: parsed.data.status } : null;
+}
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { WITHDRAWALS_ACCOUNT, withdrawalDecisionSchema } from '@/domain';
+import { resetDb, TEST_ADMIN } from '@/test/db';
+import { getDb } from './db';
+import { balanceOf, memberBalance, reconcileMembers } from './ledger';
+import { decideWithdrawal } from './withdrawals';
+
+describe('decideWithdrawal', () => {
+  beforeEach(resetDb);
+
+  // W-001 is pending: M001 asks for 5 of their 25 hours
+  it('debits the member through the ledger on approval', () => {
+    const [member, paidOut] = [memberBalance('M001'), balanceOf(WITHDRAWALS_ACCOUNT)];
+
+    const result = decideWithdrawal('W-001', { status: 'approved' }, TEST_ADMIN);
+
+    expect(result).toMatchObject({ ok: true, withdrawal: { status: 'approved', rejectionReason: null } });
+    expect(memberBalance('M001')).toBe(member - 5);
+    expect(balanceOf(WITHDRAWALS_ACCOUNT)).toBe(paidOut + 5);
+    expect(reconcileMembers().mismatches).toEqual([]);
+    expect(getDb().auditLog.list().at(-1)).toMatchObject({ action: 'withdrawal.approve', entityId: 'W-001' });
+  });
+
+  it('stores the reason on rejection and leaves the balance alone', () => {
+    const [member, entries] = [memberBalance('M001'), getDb().journal.list().length];
+
+    const result = decideWithdrawal('W-001', { status: 'rejected', reason: 'Duplicate request' }, TEST_ADMIN);
+
+    expect(result).toMatchObject({ ok: true, withdrawal: { status: 'rejected', rejectionReason: 'Duplicate request' } });
+    expect(memberBalance('M001')).toBe(member);
+    expect(getDb().journal.list()).toHaveLength(entries);
+  });
+
+  it('requires a reason to reject', () => {
+    expect(withdrawalDecisionSchema.safeParse({ status: 'rejected' }).success).toBe(false);
+    expect(withdrawalDecisionSchema.safeParse({ status: 'rejected', reason: '   ' }).success).toBe(false);
+    expect(withdrawalDecisionSchema.safeParse({ status: 'approved' }).success).toBe(true);
+  });
+
+  it('refuses to decide a withdrawal twice', () => {
+    // W-002 is already approved and W-003 already rejected
+    expect(decideWithdrawal('W-002', { status: 'rejected', reason: 'Changed my mind' }, TEST_ADMIN)).toMatchObject({ ok: false, status: 409 });
+    expect(decideWithdrawal('W-003', { status: 'approved' }, TEST_ADMIN)).toMatchObject({ ok: false, status: 409 });
+    expect(decideWithdrawal('W-404', { status: 'approved' }, TEST_ADMIN)).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it('refuses an approval the member cannot cover and writes nothing', () => {
+    const db = getDb();
+    db.withdrawals.insert({ id: 'W-100', memberId: 'M008', memberName: 'M008', amount: 5, requestedAt: '2024-07-21T09:00:00+07:00', status: 'pending' });
+    const [entries, audits] = [db.journal.list().length, db.auditLog.list().length];
+
+    expect(decideWithdrawal('W-100', { status: 'approved' }, TEST_ADMIN)).toMatchObject({ ok: false, status: 422 });
+    expect(db.withdrawals.get('W-100')?.status).toBe('pending');
+    expect(memberBalance('M008')).toBe(2);
+    expect(db.journal.list()).toHaveLength(entries);
+    expect(db.auditLog.list()).toHaveLength(audits);
+  });
+});
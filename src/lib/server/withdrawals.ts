@@ -0,0 +1,65 @@
+import { WITHDRAWALS_ACCOUNT, canTransitionWithdrawal, memberAccount, type Withdrawal, type WithdrawalDecision } from '@/domain';
+import { recordAudit } from './audit';
+import { getDb } from './db';
+import { memberBalance, postMovement } from './ledger';
+import type { SessionUser } from './session';
+
+export type WithdrawalDecisionResult =
+  | { ok: true; withdrawal: Withdrawal }
+  | { ok: false; status: 404 | 409 | 422; message: string };
+
+export function findWithdrawal(id: string) {
+  return getDb().withdrawals.get(id);
+}
+
+/**
+ * Applies an approve/reject decision. Approval posts the debit to the ledger in the same transaction,
+ * so a withdrawal is never approved without the credits leaving the account.
+ */
+export function decideWithdrawal(id: string, decision: WithdrawalDecision, actor: SessionUser): WithdrawalDecisionResult {
+  const db = getDb();
+  return db.transaction((): WithdrawalDecisionResult => {
+    const withdrawal = db.withdrawals.get(id);
+    if (!withdrawal) {
+      return { ok: false, status: 404, message: 'Withdrawal not found' };
+    }
+    if (!canTransitionWithdrawal(withdrawal.status, decision.status)) {
+      return { ok: false, status: 409, message: `Cannot change a ${withdrawal.status} withdrawal to ${decision.status}` };
+    }
+
+    const member = db.members.get(withdrawal.memberId);
+    if (decision.status === 'approved') {
+      if (!member) {
+        return { ok: false, status: 422, message: `Member ${withdrawal.memberId} not found` };
+      }
+      if (memberBalance(member.id) < withdrawal.amount) {
+        return { ok: false, status: 422, message: 'Member balance is lower than the withdrawal amount' };
+      }
+    }
+
+    const before = { status: withdrawal.status, memberBalance: member ? memberBalance(member.id) : null };
+
+    const updated = db.withdrawals.update(id, {
+      status: decision.status,
+      rejectionReason: decision.status === 'rejected' ? decision.reason : null,
+      decidedAt: new Date().toISOString(),
+    });
+    if (decision.status === 'approved' && member) {
+      postMovement('withdrawal', memberAccount(member.id), WITHDRAWALS_ACCOUNT, withdrawal.amount, `Withdrawal ${withdrawal.id}`, withdrawal.id);
+      // Stored balance is kept in step so reconciliation only flags genuine drift
+      db.members.update(member.id, { credits: member.credits - withdrawal.amount });
+    }
+
+    recordAudit({
+      actor,
+      action: decision.status === 'approved' ? 'withdrawal.approve' : 'withdrawal.reject',
+      entityType: 'withdrawal',
+      entityId: withdrawal.id,
+      before,
+      after: { status: updated.status, memberBalance: member ? memberBalance(member.id) : null },
+      reason: decision.reason,
+    });
+
+    return { ok: true, withdrawal: updated };
+  });
+}
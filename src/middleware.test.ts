@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { requestWithCookies, signExpiredToken, signToken, silenceSessionLogs, stubUpstreamRejectingTokens } from '@/test/session'
+import { SESSION_USER_HEADER } from '@/lib/server/session'
+import { middleware } from './middleware'
+
+describe('middleware', () => {
+  beforeEach(() => {
+    silenceSessionLogs()
+    stubUpstreamRejectingTokens()
+  })
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('sends anonymous visitors to the login page', async () => {
+    const res = await middleware(requestWithCookies('http://localhost/transfers'))
+    expect(res.status).toBe(307)
+    expect(res.headers.get('location')).toBe('http://localhost/login')
+  })
+
+  it('sends visitors with an expired session to the login page', async () => {
+    const res = await middleware(
+      requestWithCookies('http://localhost/transfers', { access: await signExpiredToken({ role: 'admin' }), refresh: 'stale' }),
+    )
+    expect(res.headers.get('location')).toBe('http://localhost/login')
+  })
+
+  it('sends non-admin roles to the login page', async () => {
+    const res = await middleware(requestWithCookies('http://localhost/transfers', { access: await signToken({ role: 'member' }) }))
+    expect(res.headers.get('location')).toBe('http://localhost/login')
+  })
+
+  it('keeps a viewer out of pages that need more than read access', async () => {
+    const res = await middleware(requestWithCookies('http://localhost/matching', { access: await signToken({ role: 'viewer' }) }))
+    expect(res.headers.get('location')).toBe('http://localhost/statistics')
+  })
+
+  it('lets an admin through and forwards the session user', async () => {
+    const res = await middleware(requestWithCookies('http://localhost/matching', { access: await signToken({ id: 1, role: 'admin' }) }))
+    expect(res.headers.get('location')).toBeNull()
+    expect(res.headers.get('x-middleware-request-' + SESSION_USER_HEADER)).toBe(JSON.stringify({ id: 1, role: 'admin' }))
+  })
+})
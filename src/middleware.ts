@@ -1,93 +1,30 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-import { jwtVerify } from 'jose';
-
-const JWT_SECRET = new TextEncoder().encode(process.env.JWT_SECRET || 'this-is-a-super-secret-key');
+import { hasPermission, requiredPermissionForPath } from '@/lib/permissions'
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, setAuthCookies } from '@/lib/server/auth'
+import { SESSION_USER_HEADER, resolveSession } from '@/lib/server/session'
 
 export async function middleware(req: NextRequest) {
-  const accessToken = req.cookies.get('auth_token')?.value;
-  const refreshToken = req.cookies.get('refresh_token')?.value;
+  const session = await resolveSession(
+    req.cookies.get(ACCESS_TOKEN_COOKIE)?.value,
+    req.cookies.get(REFRESH_TOKEN_COOKIE)?.value,
+  )
 
-  if (!accessToken) {
-    // If no access token, redirect to login
-    return NextResponse.redirect(new URL('/login', req.url));
+  if (session.status !== 'authenticated') {
+    return NextResponse.redirect(new URL('/login', req.url))
   }
 
-  try {
-    const { payload } = await jwtVerify(accessToken, JWT_SECRET);
-
-    // Ensure role is admin
-    if ((payload as any).role !== 'admin') {
-      return NextResponse.redirect(new URL('/login', req.url));
-    }
-
-    return NextResponse.next();
-  } catch (error) {
-    if ((error as any)?.code === 'ERR_JWS_SIGNATURE_VERIFICATION_FAILED') {
-      console.warn('JWT signature verification failed; attempting external validation/refresh');
-    } else {
-      console.error('JWT Verification Error:', error);
-    }
-
-    // If verification failed (likely different signing key), try validating token with external API
-    try {
-      const apiBase = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-      const validateRes = await fetch(`${apiBase}/api/auth/me`, {
-        headers: { Authorization: `Bearer ${accessToken}` },
-      });
-
-      if (validateRes.ok) {
-        const me = await validateRes.json();
-        if (me.user?.role === 'admin') {
-          return NextResponse.next();
-        }
-      }
-    } catch (validateError) {
-      console.error('External token validation failed:', validateError);
-    }
-
-    // Try to refresh the access token using refresh token
-    if (refreshToken) {
-      try {
-        const refreshResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}/api/auth/refresh`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ refreshToken }),
-        });
-
-        if (refreshResponse.ok) {
-          const data = await refreshResponse.json();
-
-          const res = NextResponse.next();
-          // set new tokens
-          if (data.accessToken) {
-            res.cookies.set('auth_token', data.accessToken, {
-              httpOnly: true,
-              secure: process.env.NODE_ENV === 'production',
-              sameSite: 'lax',
-              maxAge: 60 * 15,
-              path: '/',
-            });
-          }
-          if (data.refreshToken) {
-            res.cookies.set('refresh_token', data.refreshToken, {
-              httpOnly: true,
-              secure: process.env.NODE_ENV === 'production',
-              sameSite: 'lax',
-              maxAge: 60 * 60 * 24 * 7,
-              path: '/',
-            });
-          }
+  const permission = requiredPermissionForPath(req.nextUrl.pathname)
+  if (permission && !hasPermission(session.user.role, permission)) {
+    return NextResponse.redirect(new URL('/statistics', req.url))
+  }
 
-          return res;
-        }
-      } catch (refreshError) {
-        console.error('Refresh token error:', refreshError);
-      }
-    }
+  // Hand the resolved user to server components; always overwritten so a client cannot spoof it
+  const requestHeaders = new Headers(req.headers)
+  requestHeaders.set(SESSION_USER_HEADER, JSON.stringify(session.user))
 
-    return NextResponse.redirect(new URL('/login', req.url));
-  }
+  const res = NextResponse.next({ request: { headers: requestHeaders } })
+  return session.refreshedTokens ? setAuthCookies(res, session.refreshedTokens) : res
 }
 
 export const config = {
@@ -0,0 +1,9 @@
+import type { SessionUser } from '@/lib/server/session';
+
+// The in-memory store (DATA_STORE=memory in vitest.config.mts) lives on globalThis; dropping it reseeds on next use
+export function resetDb() {
+  delete (globalThis as { __timebankDb?: unknown }).__timebankDb;
+}
+
+export const TEST_ADMIN: SessionUser = { id: 1, email: 'first@example.com', role: 'admin' };
+export const SECOND_ADMIN: SessionUser = { id: 2, email: 'second@example.com', role: 'admin' };
@@ -0,0 +1,41 @@
+import { SignJWT } from 'jose';
+import { NextRequest } from 'next/server';
+import { vi } from 'vitest';
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '@/lib/server/auth';
+
+// Helpers for tests that go through the session check (see vitest.config.mts for the signing key)
+
+const secret = () => new TextEncoder().encode(process.env.JWT_SECRET);
+
+export function signToken(claims: Record<string, unknown>, expiresIn: string | number = '15m') {
+  return new SignJWT(claims).setProtectedHeader({ alg: 'HS256' }).setIssuedAt().setExpirationTime(expiresIn).sign(secret());
+}
+
+// Expired an hour ago, so local verification fails the way it does for a stale cookie
+export function signExpiredToken(claims: Record<string, unknown>) {
+  const now = Math.floor(Date.now() / 1000);
+  return new SignJWT(claims).setProtectedHeader({ alg: 'HS256' }).setIssuedAt(now - 7200).setExpirationTime(now - 3600).sign(secret());
+}
+
+export function requestWithCookies(url: string, cookies: { access?: string; refresh?: string } = {}, init: RequestInit = {}) {
+  const pairs = [
+    cookies.access && `${ACCESS_TOKEN_COOKIE}=${cookies.access}`,
+    cookies.refresh && `${REFRESH_TOKEN_COOKIE}=${cookies.refresh}`,
+  ].filter(Boolean);
+  const headers = new Headers(init.headers);
+  if (pairs.length > 0) headers.set('cookie', pairs.join('; '));
+  return new NextRequest(url, { ...init, headers } as ConstructorParameters<typeof NextRequest>[1]);
+}
+
+// The upstream refuses every token: `/api/auth/me` and `/api/auth/refresh` both answer 401
+export function stubUpstreamRejectingTokens() {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify({ success: false }), { status: 401 }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+// Session resolution logs each rejected token; keep test output readable
+export function silenceSessionLogs() {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+}
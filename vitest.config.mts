@@ -0,0 +1,14 @@
+import path from "path"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, "src") },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Every test gets a fresh in-memory store and a known signing key
+    env: { DATA_STORE: "memory", JWT_SECRET: "test-secret" },
+  },
+})